@@ -10,10 +10,22 @@
 
 import type * as autumn from "../autumn.js";
 import type * as board from "../board.js";
+import type * as bundles from "../bundles.js";
 import type * as crons from "../crons.js";
+import type * as customItemTypes from "../customItemTypes.js";
+import type * as dependencies from "../dependencies.js";
+import type * as guestTokens from "../guestTokens.js";
 import type * as huddle from "../huddle.js";
 import type * as linear from "../linear.js";
+import type * as merge from "../merge.js";
+import type * as permissions from "../permissions.js";
+import type * as planningItemIndex from "../planningItemIndex.js";
+import type * as retention from "../retention.js";
+import type * as search from "../search.js";
+import type * as sessions from "../sessions.js";
+import type * as transcriptSequence from "../transcriptSequence.js";
 import type * as users from "../users.js";
+import type * as workspaces from "../workspaces.js";
 
 import type {
   ApiFromModules,
@@ -24,10 +36,22 @@ import type {
 declare const fullApi: ApiFromModules<{
   autumn: typeof autumn;
   board: typeof board;
+  bundles: typeof bundles;
   crons: typeof crons;
+  customItemTypes: typeof customItemTypes;
+  dependencies: typeof dependencies;
+  guestTokens: typeof guestTokens;
   huddle: typeof huddle;
   linear: typeof linear;
+  merge: typeof merge;
+  permissions: typeof permissions;
+  planningItemIndex: typeof planningItemIndex;
+  retention: typeof retention;
+  search: typeof search;
+  sessions: typeof sessions;
+  transcriptSequence: typeof transcriptSequence;
   users: typeof users;
+  workspaces: typeof workspaces;
 }>;
 
 /**
@@ -0,0 +1,154 @@
+import type { Doc } from './_generated/dataModel'
+import type { HuddleBundle } from './schema'
+
+export const HUDDLE_BUNDLE_VERSION = 1
+
+// Translates a reference between Convex ids and bundle keys; undefined drops the reference
+type ReferenceMapper = (reference: string) => string | undefined
+
+export type HuddleBundleSource = {
+  huddle: Doc<'huddles'>
+  participants: ReadonlyArray<Doc<'participants'>>
+  planningItems: ReadonlyArray<Doc<'planningItems'>>
+  transcriptChunks: ReadonlyArray<Doc<'transcriptChunks'>>
+  researchResults: ReadonlyArray<Doc<'researchResults'>>
+  views: ReadonlyArray<Doc<'views'>>
+}
+
+function mapReferences(references: unknown, mapReference: ReferenceMapper) {
+  if (!Array.isArray(references)) {
+    return references
+  }
+  return references.flatMap((reference) => {
+    const mapped = typeof reference === 'string' ? mapReference(reference) : undefined
+    return mapped ? [mapped] : []
+  })
+}
+
+/**
+ * Point a planning item's metadata at the chunk it was spoken in under its new reference.
+ * Links to other huddles are dropped.
+ */
+export function remapPlanningItemMetadata(metadata: unknown, mapChunk: ReferenceMapper) {
+  if (!metadata || typeof metadata !== 'object') {
+    return metadata
+  }
+  const {
+    sourceChunkId,
+    carriedFromHuddleId: _carriedFromHuddleId,
+    ...rest
+  } = metadata as Record<string, unknown>
+  const mappedChunk = typeof sourceChunkId === 'string' ? mapChunk(sourceChunkId) : undefined
+  return mappedChunk ? { ...rest, sourceChunkId: mappedChunk } : rest
+}
+
+/**
+ * Point the planning item events recorded on a transcript chunk at the items under their new
+ * references. Events for items that are gone (including removals) cannot be reverted and are dropped.
+ */
+export function remapTranscriptChunkMetadata(metadata: unknown, mapItem: ReferenceMapper) {
+  if (!metadata || typeof metadata !== 'object') {
+    return metadata
+  }
+  const { planningItemEvents, ...rest } = metadata as Record<string, unknown>
+  if (!Array.isArray(planningItemEvents)) {
+    return metadata
+  }
+  return {
+    ...rest,
+    planningItemEvents: planningItemEvents.flatMap((event: Record<string, unknown>) => {
+      const itemId = typeof event.itemId === 'string' ? mapItem(event.itemId) : undefined
+      if (!itemId) {
+        return []
+      }
+      const remapped: Record<string, unknown> = { ...event, itemId }
+      if (event.referencedBy !== undefined) {
+        remapped.referencedBy = mapReferences(event.referencedBy, mapItem)
+      }
+      if (event.before && typeof event.before === 'object') {
+        const before = event.before as Record<string, unknown>
+        remapped.before =
+          before.blockedBy === undefined
+            ? before
+            : { ...before, blockedBy: mapReferences(before.blockedBy, mapItem) }
+      }
+      return [remapped]
+    }),
+  }
+}
+
+/**
+ * Serialize a huddle and everything needed to rebuild it into a versioned bundle.
+ * Items and chunks get keys from their board and transcript order, and every reference
+ * between them is rewritten to those keys.
+ */
+export function buildHuddleBundle(source: HuddleBundleSource, exportedAt: string): HuddleBundle {
+  const { huddle } = source
+  const planningItems = [...source.planningItems].sort(
+    (a, b) =>
+      (a.order ?? Number.POSITIVE_INFINITY) - (b.order ?? Number.POSITIVE_INFINITY) ||
+      a.timestamp.localeCompare(b.timestamp),
+  )
+  const transcriptChunks = [...source.transcriptChunks].sort(
+    (a, b) => a.sequence - b.sequence || a._creationTime - b._creationTime,
+  )
+  const itemKeys = new Map<string, string>(
+    planningItems.map((item, index) => [item._id, `item-${index + 1}`]),
+  )
+  const chunkKeys = new Map<string, string>(
+    transcriptChunks.map((chunk, index) => [chunk._id, `chunk-${index + 1}`]),
+  )
+  const toItemKey = (id: string) => itemKeys.get(id)
+  const toChunkKey = (id: string) => chunkKeys.get(id)
+
+  return {
+    format: 'huddle-bundle',
+    version: HUDDLE_BUNDLE_VERSION,
+    exportedAt,
+    huddle: {
+      name: huddle.name,
+      createdAt: huddle.createdAt,
+      theme: huddle.theme,
+      status: huddle.status,
+      endedAt: huddle.endedAt,
+      reviewMode: huddle.reviewMode,
+      template: huddle.template,
+      customItemTypes: huddle.customItemTypes,
+      transcriptRetentionDays: huddle.transcriptRetentionDays,
+    },
+    participants: source.participants.map(
+      ({ _id, _creationTime, huddleId, ...participant }) => participant,
+    ),
+    planningItems: planningItems.map(
+      ({
+        _id,
+        _creationTime,
+        huddleId,
+        itemKey,
+        blockedBy,
+        carriedFromItemId,
+        seriesOriginItemId,
+        clonedFromItemId,
+        metadata,
+        ...item
+      }) => ({
+        ...item,
+        key: itemKeys.get(_id) ?? _id,
+        metadata: remapPlanningItemMetadata(metadata, toChunkKey),
+        blockedByKeys: blockedBy ? (mapReferences(blockedBy, toItemKey) as string[]) : undefined,
+      }),
+    ),
+    transcriptChunks: transcriptChunks.map(({ _id, _creationTime, huddleId, metadata, ...chunk }) => ({
+      ...chunk,
+      key: chunkKeys.get(_id) ?? _id,
+      metadata: remapTranscriptChunkMetadata(metadata, toItemKey),
+    })),
+    researchResults: source.researchResults.flatMap(
+      ({ _id, _creationTime, huddleId, planningItemId, ...result }) => {
+        const planningItemKey = itemKeys.get(planningItemId)
+        return planningItemKey ? [{ ...result, planningItemKey }] : []
+      },
+    ),
+    views: source.views.map(({ _id, _creationTime, huddleId, ...view }) => view),
+  }
+}
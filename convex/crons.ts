@@ -12,4 +12,11 @@ crons.cron(
   internal.huddle.pruneInactiveParticipants,
 )
 
+crons.daily(
+  'purge expired transcripts',
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.retention.purgeExpiredTranscripts,
+  {},
+)
+
 export default crons
@@ -0,0 +1,70 @@
+import invariant from 'tiny-invariant'
+import type { Doc } from './_generated/dataModel'
+import schema, { type CustomItemType } from './schema'
+
+const MAX_CUSTOM_ITEM_TYPES = 12
+const CUSTOM_ITEM_TYPE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/
+
+const BUILT_IN_ITEM_TYPES = new Set<string>(
+  schema.tables.planningItems.validator.fields.type.members.map((member) => member.value),
+)
+
+/**
+ * Trim and validate a huddle's or template's custom item types before they are stored.
+ */
+export function normalizeCustomItemTypes(types: ReadonlyArray<CustomItemType>): CustomItemType[] {
+  invariant(
+    types.length <= MAX_CUSTOM_ITEM_TYPES,
+    `Huddles are limited to ${MAX_CUSTOM_ITEM_TYPES} custom item types.`,
+  )
+  const seenKeys = new Set<string>()
+  return types.map((type) => {
+    const key = type.key.trim()
+    invariant(
+      CUSTOM_ITEM_TYPE_KEY_PATTERN.test(key),
+      `Custom item type keys must be lowercase snake_case: ${key}`,
+    )
+    invariant(!BUILT_IN_ITEM_TYPES.has(key), `${key} is already a built-in item type.`)
+    invariant(!seenKeys.has(key), `Duplicate custom item type ${key}`)
+    seenKeys.add(key)
+
+    const label = type.label.trim()
+    invariant(label.length > 0, 'Custom item types need a label.')
+    return {
+      key,
+      label,
+      color: type.color,
+      icon: type.icon?.trim() || undefined,
+      hint: type.hint?.trim() || undefined,
+    }
+  })
+}
+
+export function isCustomItemTypeOf(
+  huddle: Pick<Doc<'huddles'>, 'customItemTypes'>,
+  customType: string | undefined,
+) {
+  return (
+    customType !== undefined &&
+    (huddle.customItemTypes ?? []).some((type) => type.key === customType)
+  )
+}
+
+/**
+ * Throw unless a new item's type fields fit the huddle: custom items name one of its
+ * custom types and built-in items never carry one.
+ */
+export function ensureValidItemType(
+  huddle: Pick<Doc<'huddles'>, 'customItemTypes'>,
+  type: Doc<'planningItems'>['type'],
+  customType: string | undefined,
+) {
+  if (type === 'custom') {
+    invariant(
+      isCustomItemTypeOf(huddle, customType),
+      `Unknown custom item type ${customType ?? '(none)'}`,
+    )
+  } else {
+    invariant(customType === undefined, 'Only custom items have a custom type.')
+  }
+}
@@ -0,0 +1,147 @@
+import type { Doc, Id } from './_generated/dataModel'
+
+export type BlockedByRejectionReason = 'missing' | 'self' | 'notTask' | 'cycle'
+
+export type BlockedByRejection = {
+  itemId?: Id<'planningItems'>
+  blockerId: Id<'planningItems'>
+  reason: BlockedByRejectionReason
+}
+
+export type DependencyNode = Pick<Doc<'planningItems'>, '_id' | 'type' | 'blockedBy'>
+
+export const BLOCKED_BY_REJECTION_MESSAGES: Record<BlockedByRejectionReason, string> = {
+  missing: 'The blocking item is not on this board.',
+  self: 'An item cannot block itself.',
+  notTask: 'Only tasks can block tasks.',
+  cycle: 'That dependency would create a cycle.',
+}
+
+function isReachable(
+  edges: Map<Id<'planningItems'>, ReadonlyArray<Id<'planningItems'>>>,
+  fromId: Id<'planningItems'>,
+  targetId: Id<'planningItems'>,
+) {
+  const visited = new Set<Id<'planningItems'>>()
+  const stack = [fromId]
+  for (let currentId = stack.pop(); currentId !== undefined; currentId = stack.pop()) {
+    if (currentId === targetId) return true
+    if (visited.has(currentId)) continue
+    visited.add(currentId)
+    stack.push(...(edges.get(currentId) ?? []))
+  }
+  return false
+}
+
+// Every rule except the cycle check, which needs the rest of the graph
+function getStaticRejectionReason(
+  item: { _id?: Id<'planningItems'>; type: Doc<'planningItems'>['type'] },
+  blockerId: Id<'planningItems'>,
+  blocker: DependencyNode | null | undefined,
+): BlockedByRejectionReason | null {
+  if (!blocker) return 'missing'
+  if (blockerId === item._id) return 'self'
+  if (item.type !== 'task' || blocker.type !== 'task') return 'notTask'
+  return null
+}
+
+function acceptBlockedBy(
+  nodesById: Map<Id<'planningItems'>, DependencyNode>,
+  edges: Map<Id<'planningItems'>, ReadonlyArray<Id<'planningItems'>>>,
+  item: { _id?: Id<'planningItems'>; type: Doc<'planningItems'>['type'] },
+  blockedBy: ReadonlyArray<Id<'planningItems'>>,
+) {
+  const accepted: Array<Id<'planningItems'>> = []
+  const rejections: Array<BlockedByRejection> = []
+  // Accepted edges count towards the cycle check of the ones after them
+  if (item._id) edges.set(item._id, accepted)
+  for (const blockerId of new Set(blockedBy)) {
+    let reason = getStaticRejectionReason(item, blockerId, nodesById.get(blockerId))
+    if (!reason && item._id && isReachable(edges, blockerId, item._id)) {
+      // The blocker already waits on this item, directly or through other tasks
+      reason = 'cycle'
+    }
+    if (reason) {
+      rejections.push({ itemId: item._id, blockerId, reason })
+      continue
+    }
+    accepted.push(blockerId)
+  }
+  return { blockedBy: accepted, rejections }
+}
+
+/**
+ * Split a proposed blockedBy list into the edges that are valid on the huddle's board and
+ * the ones that are not: missing blockers, self references, non-task edges and cycles.
+ * `items` are the huddle's current items; the item's own existing edges are replaced.
+ */
+export function validateBlockedBy(
+  items: ReadonlyArray<DependencyNode>,
+  item: { _id?: Id<'planningItems'>; type: Doc<'planningItems'>['type'] },
+  blockedBy: ReadonlyArray<Id<'planningItems'>>,
+) {
+  const nodesById = new Map(items.map((node) => [node._id, node]))
+  const edges = new Map(items.map((node) => [node._id, node.blockedBy ?? []]))
+  return acceptBlockedBy(nodesById, edges, item, blockedBy)
+}
+
+/**
+ * Rebuild a huddle's dependency graph edge by edge in creation order, dropping whichever
+ * edge closes a cycle or breaks the task-only rule. Returns the items whose list changed.
+ */
+export function repairBlockedByGraph(items: ReadonlyArray<DependencyNode & { _creationTime: number }>) {
+  const nodesById = new Map(items.map((node) => [node._id, node]))
+  const edges = new Map<Id<'planningItems'>, ReadonlyArray<Id<'planningItems'>>>()
+  const repairs: Array<{
+    itemId: Id<'planningItems'>
+    blockedBy: Array<Id<'planningItems'>>
+    rejections: Array<BlockedByRejection>
+  }> = []
+  const ordered = [...items].sort((a, b) => a._creationTime - b._creationTime)
+  for (const item of ordered) {
+    const original = item.blockedBy ?? []
+    const { blockedBy, rejections } = acceptBlockedBy(nodesById, edges, item, original)
+    if (blockedBy.length !== original.length) {
+      repairs.push({ itemId: item._id, blockedBy, rejections })
+    }
+  }
+  return repairs
+}
+
+/**
+ * validateBlockedBy without loading the board: `getNode` fetches the blockers and the items
+ * they wait on as the cycle check walks up from each blocker, and returns null for items
+ * that are gone or on another board. Cost grows with the blockers' dependency chains rather
+ * than with the number of items.
+ */
+export async function validateBlockedByLazily(
+  getNode: (id: Id<'planningItems'>) => Promise<DependencyNode | null>,
+  item: { _id?: Id<'planningItems'>; type: Doc<'planningItems'>['type'] },
+  blockedBy: ReadonlyArray<Id<'planningItems'>>,
+) {
+  const accepted: Array<Id<'planningItems'>> = []
+  const rejections: Array<BlockedByRejection> = []
+  const waitsOnItem = async (fromId: Id<'planningItems'>, targetId: Id<'planningItems'>) => {
+    const visited = new Set<Id<'planningItems'>>()
+    const stack = [fromId]
+    for (let currentId = stack.pop(); currentId !== undefined; currentId = stack.pop()) {
+      if (currentId === targetId) return true
+      if (visited.has(currentId)) continue
+      visited.add(currentId)
+      stack.push(...((await getNode(currentId))?.blockedBy ?? []))
+    }
+    return false
+  }
+  for (const blockerId of new Set(blockedBy)) {
+    let reason = getStaticRejectionReason(item, blockerId, await getNode(blockerId))
+    if (!reason && item._id && (await waitsOnItem(blockerId, item._id))) {
+      reason = 'cycle'
+    }
+    if (reason) {
+      rejections.push({ itemId: item._id, blockerId, reason })
+      continue
+    }
+    accepted.push(blockerId)
+  }
+  return { blockedBy: accepted, rejections }
+}
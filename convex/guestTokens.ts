@@ -0,0 +1,64 @@
+import { v } from 'convex/values'
+
+/**
+ * Optional argument accepted by every mutation that needs to know who is calling.
+ * Authenticated users are identified through Clerk; guests pass the signed token
+ * they received from `claimGuestSession`.
+ */
+export const guestTokenArg = v.optional(v.string())
+
+function getGuestSessionSecret() {
+  const secret = process.env.GUEST_SESSION_SECRET
+  if (!secret) {
+    throw new Error('GUEST_SESSION_SECRET must be set to issue guest sessions')
+  }
+  return secret
+}
+
+function toBase64Url(bytes: ArrayBuffer) {
+  let binary = ''
+  for (const byte of new Uint8Array(bytes)) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export async function signGuestId(guestId: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getGuestSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(guestId))
+  return toBase64Url(signature)
+}
+
+function constantTimeEquals(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false
+  }
+  let mismatch = 0
+  for (let index = 0; index < a.length; index += 1) {
+    mismatch |= a.charCodeAt(index) ^ b.charCodeAt(index)
+  }
+  return mismatch === 0
+}
+
+/**
+ * Verify a guest token of the form `<guestId>.<signature>`.
+ * Returns the guestId if the signature matches, otherwise null.
+ * Kept apart from sessions.ts, which depends on users.ts, so users.ts can verify tokens too.
+ */
+export async function verifyGuestToken(token: string) {
+  const separatorIndex = token.lastIndexOf('.')
+  if (separatorIndex <= 0) {
+    return null
+  }
+  const guestId = token.slice(0, separatorIndex)
+  const signature = token.slice(separatorIndex + 1)
+  const expected = await signGuestId(guestId)
+  return constantTimeEquals(signature, expected) ? guestId : null
+}
@@ -1,5 +1,6 @@
 import invariant from 'tiny-invariant'
-import { v } from 'convex/values'
+import { type Infer, v } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
 import {
   type QueryCtx,
   type MutationCtx,
@@ -7,17 +8,66 @@ import {
   mutation,
   query,
 } from './_generated/server'
+import { internal } from './_generated/api'
 import {
   createPlanningItemSchema,
   deletePlanningItemSchema,
   deletePresenceSchema,
   deleteTranscriptChunkSchema,
+  huddleBundleSchema,
+  huddleTemplateSchema,
   newTranscriptChunkSchema,
+  customItemTypeSchema,
   newViewSchema,
+  type PlanningItemSnapshot,
+  type TaskStatus,
+  voiceActionSchema,
   updatePlanningItemSchema,
   updatePresenceSchema,
+  updateViewSchema,
 } from './schema'
 import type { Doc, Id } from './_generated/dataModel'
+import {
+  type Caller,
+  getCaller,
+  GUEST_ID_PATTERN,
+  guestTokenArg,
+  isCaller,
+  requireCaller,
+} from './sessions'
+import {
+  enforceHuddlePermission,
+  getHuddleRole,
+  HUDDLE_PERMISSIONS,
+  hasHuddlePermission,
+  type HuddlePermission,
+} from './permissions'
+import { enforceWorkspaceRole, getWorkspaceMembership } from './workspaces'
+import {
+  ensureValidItemType,
+  isCustomItemTypeOf,
+  normalizeCustomItemTypes,
+} from './customItemTypes'
+import {
+  BLOCKED_BY_REJECTION_MESSAGES,
+  type BlockedByRejectionReason,
+  type DependencyNode,
+  repairBlockedByGraph,
+  validateBlockedByLazily,
+} from './dependencies'
+import {
+  buildHuddleBundle,
+  HUDDLE_BUNDLE_VERSION,
+  remapPlanningItemMetadata,
+  remapTranscriptChunkMetadata,
+} from './bundles'
+import { buildMergedItem, repointBlockedBy } from './merge'
+import { allocateTranscriptSequence } from './transcriptSequence'
+import {
+  findPlanningItemIdByKey,
+  listDependentItemIds,
+  syncPlanningItemIndexes,
+} from './planningItemIndex'
 
 function toClientDoc<T extends { _creationTime: number; _id: Id<any> }>(doc: T) {
   const { _creationTime, _id, ...rest } = doc
@@ -33,35 +83,6 @@ async function ensureHuddleById(
   return huddle
 }
 
-async function enforceHuddleOwner(
-  ctx: MutationCtx,
-  huddle: Doc<'huddles'>,
-  userId: string,
-  errorMessage: string,
-) {
-  if (huddle.createdBy === userId) {
-    return
-  }
-
-  const participant = await ctx.db
-    .query('participants')
-    .withIndex('by_huddle_user', (q) =>
-      q.eq('huddleId', huddle._id).eq('userId', userId),
-    )
-    .unique()
-
-  const normalizedDisplayName =
-    participant?.displayName && participant.displayName.trim().length > 0
-      ? participant.displayName.trim()
-      : null
-
-  invariant(
-    normalizedDisplayName !== null &&
-      normalizedDisplayName === huddle.createdBy,
-    errorMessage,
-  )
-}
-
 async function ensurePlanningItem(
   ctx: QueryCtx,
   id: Id<'planningItems'>,
@@ -84,21 +105,175 @@ async function ensurePresenceEntry(
     .unique()
 }
 
-async function getNextTranscriptSequence(
+type RevisionActor = Doc<'planningItemRevisions'>['actor']
+
+function toPlanningItemSnapshot(
+  item: Pick<
+    Doc<'planningItems'>,
+    | 'type'
+    | 'text'
+    | 'order'
+    | 'blockedBy'
+    | 'status'
+    | 'dueDate'
+    | 'completedAt'
+    | 'assigneeUserIds'
+    | 'customType'
+  >,
+): PlanningItemSnapshot {
+  return {
+    type: item.type,
+    customType: item.customType,
+    text: item.text,
+    order: item.order,
+    blockedBy: item.blockedBy,
+    status: item.status,
+    dueDate: item.dueDate,
+    completedAt: item.completedAt,
+    assigneeUserIds: item.assigneeUserIds,
+  }
+}
+
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function ensureValidDueDate(dueDate: string) {
+  invariant(
+    DUE_DATE_PATTERN.test(dueDate) && !Number.isNaN(Date.parse(dueDate)),
+    `Invalid due date ${dueDate}. Expected YYYY-MM-DD.`,
+  )
+}
+
+/**
+ * Keep only the user IDs that belong to participants of the huddle, without duplicates.
+ */
+async function filterParticipantUserIds(
   ctx: QueryCtx,
   huddleId: Id<'huddles'>,
+  userIds: Array<string>,
 ) {
-  const chunks = await ctx.db
-    .query('transcriptChunks')
-    .withIndex('by_huddle_sequence', (q) => q.eq('huddleId', huddleId))
-    .collect()
-  let maxSequence = 0
-  for (const chunk of chunks) {
-    if (typeof chunk.sequence === 'number' && chunk.sequence > maxSequence) {
-      maxSequence = chunk.sequence
+  const participantUserIds: Array<string> = []
+  for (const userId of new Set(userIds)) {
+    const participant = await ctx.db
+      .query('participants')
+      .withIndex('by_huddle_user', (q) =>
+        q.eq('huddleId', huddleId).eq('userId', userId),
+      )
+      .unique()
+    if (participant) {
+      participantUserIds.push(userId)
     }
   }
-  return maxSequence + 1
+  return participantUserIds
+}
+
+async function ensureAssigneesAreParticipants(
+  ctx: QueryCtx,
+  huddleId: Id<'huddles'>,
+  userIds: Array<string>,
+) {
+  const participantUserIds = await filterParticipantUserIds(ctx, huddleId, userIds)
+  invariant(
+    participantUserIds.length === new Set(userIds).size,
+    'Assignees must be participants of this huddle',
+  )
+  return participantUserIds
+}
+
+/**
+ * completedAt for an item moving to `status`: kept when it was already done,
+ * stamped when it becomes done, and cleared otherwise.
+ */
+function getCompletedAt(
+  previous: Pick<Doc<'planningItems'>, 'status' | 'completedAt'> | null,
+  status: TaskStatus | undefined,
+) {
+  if (status !== 'done') {
+    return undefined
+  }
+  if (previous?.status === 'done' && previous.completedAt) {
+    return previous.completedAt
+  }
+  return new Date().toISOString()
+}
+
+async function getRevisionActor(
+  ctx: QueryCtx,
+  huddleId: Id<'huddles'>,
+  guestToken: string | undefined,
+): Promise<RevisionActor> {
+  const caller = await getCaller(ctx, guestToken)
+  if (!caller) {
+    return { kind: 'system' }
+  }
+  const participant = await ctx.db
+    .query('participants')
+    .withIndex('by_huddle_user', (q) =>
+      q.eq('huddleId', huddleId).eq('userId', caller.userId),
+    )
+    .unique()
+  return {
+    kind: 'user',
+    userId: caller.userId,
+    displayName: participant?.displayName,
+  }
+}
+
+async function recordPlanningItemRevision(
+  ctx: MutationCtx,
+  revision: {
+    huddleId: Id<'huddles'>
+    planningItemId: Id<'planningItems'>
+    action: Doc<'planningItemRevisions'>['action']
+    actor: RevisionActor
+    before?: PlanningItemSnapshot
+    after?: PlanningItemSnapshot
+    restoredFromRevisionId?: Id<'planningItemRevisions'>
+  },
+) {
+  // Skip no-op updates (e.g. metadata-only patches) so history stays meaningful
+  if (
+    revision.action === 'updated' &&
+    revision.before &&
+    revision.after &&
+    JSON.stringify(revision.before) === JSON.stringify(revision.after)
+  ) {
+    return null
+  }
+  return await ctx.db.insert('planningItemRevisions', {
+    ...revision,
+    createdAt: new Date().toISOString(),
+  })
+}
+
+/**
+ * Whether the caller may see a huddle. Huddles outside a workspace are open to anyone with the
+ * link; workspace huddles only to workspace members and to people with a role in, or an
+ * invite to, that huddle.
+ */
+async function canReadHuddle(ctx: QueryCtx, huddle: Doc<'huddles'>, caller: Caller | null) {
+  if (!huddle.workspaceId) {
+    return true
+  }
+  if (!caller) {
+    return false
+  }
+  if ((huddle.invitedUserIds ?? []).some((id) => isCaller(caller, id))) {
+    return true
+  }
+  if ((await getHuddleRole(ctx, huddle, caller)) !== null) {
+    return true
+  }
+  return (await getWorkspaceMembership(ctx, huddle.workspaceId, caller)) !== null
+}
+
+// The huddle when the caller may see it, otherwise null
+async function getReadableHuddle(
+  ctx: QueryCtx,
+  huddleId: Id<'huddles'>,
+  guestToken: string | undefined,
+) {
+  const huddle = await ensureHuddleById(ctx, huddleId)
+  return (await canReadHuddle(ctx, huddle, await getCaller(ctx, guestToken))) ? huddle : null
 }
 
 async function getFullHuddle(ctx: QueryCtx, slug: string) {
@@ -125,9 +300,12 @@ async function getFullHuddle(ctx: QueryCtx, slug: string) {
         .query('presence')
         .withIndex('by_huddle', (q) => q.eq('huddleId', huddleDoc._id))
         .collect(),
+      // Personal views are listed per caller by listViews
       ctx.db
         .query('views')
-        .withIndex('by_huddle', (q) => q.eq('huddleId', huddleDoc._id))
+        .withIndex('by_huddle_owner', (q) =>
+          q.eq('huddleId', huddleDoc._id).eq('ownerUserId', undefined),
+        )
         .collect(),
       ctx.db
         .query('transcriptChunks')
@@ -137,8 +315,13 @@ async function getFullHuddle(ctx: QueryCtx, slug: string) {
         .collect(),
     ])
 
+  const clonedFrom = huddleDoc.clonedFromHuddleId
+    ? await ctx.db.get(huddleDoc.clonedFromHuddleId)
+    : null
+
   return {
     ...toClientDoc(huddleDoc),
+    clonedFrom: clonedFrom ? { slug: clonedFrom.slug, name: clonedFrom.name } : null,
     participants: participants.map(toClientDoc),
     planningItems: planningItems.map(toClientDoc),
     presence: presences.map(toClientDoc),
@@ -151,6 +334,30 @@ type SeedCtx = Pick<MutationCtx, 'db'>
 
 const PRESENCE_TIMEOUT_MS = 60 * 1000
 
+// Names copied onto the huddle for list previews
+const PARTICIPANT_PREVIEW_LIMIT = 5
+
+/**
+ * Copy the joined participant count and the first few names onto the huddle so lists can
+ * render it without reading the participants table. Call after any participant insert or
+ * presence role change.
+ */
+async function syncParticipantSummary(ctx: SeedCtx, huddleId: Id<'huddles'>) {
+  const participants = await ctx.db
+    .query('participants')
+    .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+    .collect()
+  const joined = participants
+    .filter((participant) => (participant.role ?? '').toLowerCase() !== 'observer')
+    .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))
+  await ctx.db.patch(huddleId, {
+    participantCount: joined.length,
+    participantNames: joined
+      .slice(0, PARTICIPANT_PREVIEW_LIMIT)
+      .map((participant) => participant.displayName?.trim() || 'Anonymous'),
+  })
+}
+
 async function insertSeedHuddle(ctx: SeedCtx) {
   const now = new Date().toISOString()
   const huddleId = await ctx.db.insert('huddles', {
@@ -170,6 +377,7 @@ async function insertSeedHuddle(ctx: SeedCtx) {
     avatarUrl: undefined,
     joinedAt: now,
   })
+  await syncParticipantSummary(ctx, huddleId)
 
   await ctx.db.insert('planningItems', {
     huddleId,
@@ -181,182 +389,1037 @@ async function insertSeedHuddle(ctx: SeedCtx) {
   })
 }
 
-export const listHuddles = query(async (ctx) => {
-  const huddles = await ctx.db.query('huddles').collect()
+const huddleListFilter = v.union(
+  v.literal('all'),
+  v.literal('created'),
+  v.literal('participated'),
+)
 
-  const summaries = await Promise.all(
-    huddles.map(async (huddle) => {
-      const participants = await ctx.db
-        .query('participants')
-        .withIndex('by_huddle', (q) => q.eq('huddleId', huddle._id))
-        .collect()
+const huddleListStatus = v.union(v.literal('active'), v.literal('completed'))
+
+// What huddle lists show: participant details come from the denormalized summary fields
+function toHuddleListEntry(huddle: Doc<'huddles'>) {
+  const { privateAccessKey, ...rest } = toClientDoc(huddle)
+  return rest
+}
+
+/**
+ * One page of a workspace's huddles, newest first, for its members only. Without a workspace,
+ * pages through the huddles that do not belong to any workspace.
+ */
+export const listHuddles = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    workspaceId: v.optional(v.id('workspaces')),
+    // 'created' and 'participated' are relative to the caller
+    filter: v.optional(huddleListFilter),
+    status: v.optional(huddleListStatus),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { paginationOpts, workspaceId, filter = 'all', status, guestToken }) => {
+    const emptyPage = { page: [], isDone: true, continueCursor: '' }
+    const caller = await getCaller(ctx, guestToken)
+    if (workspaceId && (!caller || !(await getWorkspaceMembership(ctx, workspaceId, caller)))) {
+      return emptyPage
+    }
 
+    if (filter === 'participated') {
+      if (!caller) {
+        return emptyPage
+      }
+      // Pages through the caller's participant rows, most recently joined first. Workspace
+      // and status are checked per huddle, so pages can come back shorter than requested
+      const result = await ctx.db
+        .query('participants')
+        .withIndex('by_user', (q) => q.eq('userId', caller.userId))
+        .order('desc')
+        .filter((q) =>
+          q.or(q.eq(q.field('role'), 'participant'), q.eq(q.field('wasEverParticipant'), true)),
+        )
+        .paginate(paginationOpts)
+      const huddles = await Promise.all(
+        result.page.map((participant) => ctx.db.get(participant.huddleId)),
+      )
       return {
-        ...toClientDoc(huddle),
-        participants: participants.map(toClientDoc),
+        ...result,
+        page: huddles
+          .filter(
+            (huddle): huddle is Doc<'huddles'> =>
+              huddle !== null &&
+              huddle.workspaceId === workspaceId &&
+              (!status || huddle.status === status),
+          )
+          .map(toHuddleListEntry),
       }
-    }),
-  )
+    }
+
+    let huddles
+    if (filter === 'created') {
+      if (!caller) {
+        return emptyPage
+      }
+      huddles = status
+        ? ctx.db
+            .query('huddles')
+            .withIndex('by_workspace_creator_status', (q) =>
+              q
+                .eq('workspaceId', workspaceId)
+                .eq('createdBy', caller.userId)
+                .eq('status', status),
+            )
+        : ctx.db
+            .query('huddles')
+            .withIndex('by_workspace_creator', (q) =>
+              q.eq('workspaceId', workspaceId).eq('createdBy', caller.userId),
+            )
+    } else {
+      huddles = status
+        ? ctx.db
+            .query('huddles')
+            .withIndex('by_workspace_status', (q) =>
+              q.eq('workspaceId', workspaceId).eq('status', status),
+            )
+        : ctx.db
+            .query('huddles')
+            .withIndex('by_workspace', (q) => q.eq('workspaceId', workspaceId))
+    }
 
-  return summaries
+    const result = await huddles.order('desc').paginate(paginationOpts)
+    return { ...result, page: result.page.map(toHuddleListEntry) }
+  },
 })
 
 export const getHuddle = query({
-  args: { slug: v.string() },
-  handler: async (ctx, { slug }) => {
-    return await getFullHuddle(ctx, slug)
+  args: { slug: v.string(), guestToken: guestTokenArg },
+  handler: async (ctx, { slug, guestToken }) => {
+    const huddle = await getFullHuddle(ctx, slug)
+    if (!huddle) {
+      return null
+    }
+    const huddleDoc = await ensureHuddleById(ctx, huddle._id)
+    if (!(await canReadHuddle(ctx, huddleDoc, await getCaller(ctx, guestToken)))) {
+      return null
+    }
+    return huddle
   },
 })
 
 export const getHuddleById = query({
-  args: { id: v.id('huddles') },
-  handler: async (ctx, { id }) => {
-    const huddle = await ensureHuddleById(ctx, id)
-    return toClientDoc(huddle)
+  args: { id: v.id('huddles'), guestToken: guestTokenArg },
+  handler: async (ctx, { id, guestToken }) => {
+    const huddle = await getReadableHuddle(ctx, id, guestToken)
+    if (!huddle) {
+      return null
+    }
+    // The share key of a private huddle is only handed out with the full huddle
+    const { privateAccessKey, ...rest } = toClientDoc(huddle)
+    return rest
   },
 })
 
 export const getPlanningItemById = query({
-  args: { id: v.id('planningItems') },
-  handler: async (ctx, { id }) => {
+  args: { id: v.id('planningItems'), guestToken: guestTokenArg },
+  handler: async (ctx, { id, guestToken }) => {
     const item = await ensurePlanningItem(ctx, id)
+    if (!(await getReadableHuddle(ctx, item.huddleId, guestToken))) {
+      return null
+    }
     return toClientDoc(item)
   },
 })
 
+// Huddles created by subscribers have no time limit
+async function isTimeLimitedFor(ctx: QueryCtx, caller: Caller) {
+  try {
+    const creatorUser = caller.isGuest ? null : await ctx.db.get(caller.userId as Id<'users'>)
+    return creatorUser?.hasActiveSubscription !== true
+  } catch {
+    // If lookup fails (guest), default to time-limited
+    return true
+  }
+}
+
 export const createHuddle = mutation({
   args: {
     slug: v.string(),
     name: v.string(),
-    createdBy: v.string(),
+    guestToken: guestTokenArg,
     theme: v.optional(v.string()),
     status: v.optional(v.string()),
     forceTimeLimited: v.optional(v.boolean()), // Force time-limited even for subscribers (for free huddles)
+    template: v.optional(huddleTemplateSchema),
+    workspaceId: v.optional(v.id('workspaces')),
   },
-  handler: async (ctx, input) => {
+  handler: async (ctx, { guestToken, template, ...input }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    if (input.workspaceId) {
+      await enforceWorkspaceRole(
+        ctx,
+        input.workspaceId,
+        caller,
+        ['owner', 'admin', 'member'],
+        'Only workspace members can create huddles in this workspace.',
+      )
+    }
     const existing = await ctx.db
       .query('huddles')
       .withIndex('by_slug', (q) => q.eq('slug', input.slug))
       .unique()
     invariant(!existing, `Huddle slug ${input.slug} already exists`)
 
-    // Determine if creator is a subscriber; if so, disable time limit for this huddle
-    // Unless forceTimeLimited is true (for free huddles)
-    let isTimeLimited = true
-    if (input.forceTimeLimited === true) {
-      isTimeLimited = true
-    } else {
-      try {
-        const creatorUser = await ctx.db.get(input.createdBy as unknown as Id<'users'>)
-        if (creatorUser && creatorUser.hasActiveSubscription === true) {
-          isTimeLimited = false
-        }
-      } catch {
-        // If lookup fails (guest), default to time-limited
-        isTimeLimited = true
-      }
-    }
+    // Subscribers' huddles have no time limit, unless forceTimeLimited is true (for free huddles)
+    const isTimeLimited =
+      input.forceTimeLimited === true ? true : await isTimeLimitedFor(ctx, caller)
 
     // Extract forceTimeLimited from input to avoid including it in the database insert
     const { forceTimeLimited, ...huddleData } = input
 
+    const createdAt = new Date().toISOString()
+    const customItemTypes = template?.customItemTypes
+      ? normalizeCustomItemTypes(template.customItemTypes)
+      : undefined
+    const templateItems = template ? normalizeTemplateItems(template.items) : []
+    for (const item of templateItems) {
+      ensureValidItemType({ customItemTypes }, item.type, item.customType)
+    }
     const huddleId = await ctx.db.insert('huddles', {
       ...huddleData,
+      createdBy: caller.userId,
       status: input.status ?? 'active',
       endedAt: undefined,
       isTimeLimited,
-      createdAt: new Date().toISOString(),
+      createdAt,
+      participantCount: 0,
+      participantNames: [],
+      template: template
+        ? {
+            key: template.key,
+            name: normalizeTemplateName(template.name),
+            columnLabels: template.columnLabels,
+            emptyMessages: template.emptyMessages,
+            promptInstructions: template.promptInstructions?.trim() || undefined,
+            agenda: template.agenda,
+          }
+        : undefined,
+      customItemTypes,
     })
 
+    for (const [order, item] of templateItems.entries()) {
+      const newItem = {
+        huddleId,
+        type: item.type,
+        customType: item.customType,
+        text: item.text,
+        timestamp: createdAt,
+        speakerLabel: 'Template',
+        metadata: { origin: 'template', templateKey: template?.key },
+        order,
+      }
+      const planningItemId = await ctx.db.insert('planningItems', newItem)
+      await recordPlanningItemRevision(ctx, {
+        huddleId,
+        planningItemId,
+        action: 'created',
+        actor: { kind: 'system' },
+        after: toPlanningItemSnapshot(newItem),
+      })
+    }
+
     return huddleId
   },
 })
 
-export const endHuddle = mutation({
+const MAX_TEMPLATE_ITEMS = 50
+
+function normalizeTemplateName(name: string) {
+  const trimmed = name.trim()
+  invariant(trimmed.length > 0, 'Template name cannot be empty.')
+  return trimmed
+}
+
+function normalizeTemplateItems(
+  items: Array<{ type: Doc<'planningItems'>['type']; customType?: string; text: string }>,
+) {
+  const normalized = items
+    .map((item) => ({ type: item.type, customType: item.customType, text: item.text.trim() }))
+    .filter((item) => item.text.length > 0)
+  invariant(
+    normalized.length <= MAX_TEMPLATE_ITEMS,
+    `Templates are limited to ${MAX_TEMPLATE_ITEMS} starting items.`,
+  )
+  return normalized
+}
+
+export const listHuddleTemplates = query({
+  args: {
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { guestToken }) => {
+    const caller = await getCaller(ctx, guestToken)
+    if (!caller) {
+      return []
+    }
+    const templates = await ctx.db
+      .query('huddleTemplates')
+      .withIndex('by_owner', (q) => q.eq('ownerId', caller.userId))
+      .order('desc')
+      .collect()
+    return templates.map(toClientDoc)
+  },
+})
+
+/**
+ * Save a huddle's board as a reusable template: its template settings plus its current items.
+ * Summary notes are left out since they describe a finished huddle.
+ */
+export const saveHuddleAsTemplate = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    name: v.string(),
+    description: v.optional(v.string()),
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, { huddleId, userId }) => {
+  handler: async (ctx, { huddleId, name, description, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
-    await enforceHuddleOwner(
+    await enforceHuddlePermission(
       ctx,
       huddle,
-      userId,
-      'Only the huddle creator can end this huddle.',
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can save this huddle as a template.',
     )
 
-    if (huddle.status === 'completed') {
-      return huddleId
-    }
-
-    await ctx.db.patch(huddleId, {
-      status: 'completed',
-      endedAt: new Date().toISOString(),
-      // Explicitly mark manual end as not caused by time limit
-      endedByTimeLimit: false,
+    const planningItems = await ctx.db
+      .query('planningItems')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+      .collect()
+    const items = planningItems
+      .filter((item) => item.type !== 'summary')
+      .sort(
+        (a, b) =>
+          (a.order ?? Number.POSITIVE_INFINITY) - (b.order ?? Number.POSITIVE_INFINITY) ||
+          a.timestamp.localeCompare(b.timestamp),
+      )
+      .map((item) => ({ type: item.type, customType: item.customType, text: item.text }))
+
+    return await ctx.db.insert('huddleTemplates', {
+      ownerId: caller.userId,
+      name: normalizeTemplateName(name),
+      description: description?.trim() || undefined,
+      columnLabels: huddle.template?.columnLabels,
+      emptyMessages: huddle.template?.emptyMessages,
+      promptInstructions: huddle.template?.promptInstructions,
+      agenda: huddle.template?.agenda,
+      customItemTypes: huddle.customItemTypes,
+      items: normalizeTemplateItems(items),
+      createdAt: new Date().toISOString(),
     })
+  },
+})
 
-    // Summary generation will be triggered from the client via server function
-    // We just mark that the huddle is completed here
-
-    return huddleId
+export const deleteHuddleTemplate = mutation({
+  args: {
+    id: v.id('huddleTemplates'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { id, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const template = await ctx.db.get(id)
+    invariant(template, `Missing template ${id}`)
+    invariant(
+      isCaller(caller, template.ownerId),
+      'Only the creator of a template can delete it.',
+    )
+    await ctx.db.delete(id)
   },
 })
 
-export const autoEndHuddle = mutation({
+// Open work that follows a series into its next occurrence. Risks and dependencies have
+// no resolution state, so they stay open until someone removes them from the board
+function isCarriedOver(item: Doc<'planningItems'>) {
+  if (item.type === 'task') {
+    return item.status !== 'done' && item.status !== 'cancelled'
+  }
+  return item.type === 'risk' || item.type === 'dependency'
+}
+
+/**
+ * Create the next occurrence of a recurring huddle. The first call turns the huddle into a series.
+ * Unfinished tasks, risks and dependencies are copied over with a back-reference to the item
+ * they came from and to the occurrence where they first appeared. Their assignees come along
+ * as observers.
+ */
+export const startNextOccurrence = mutation({
   args: {
     huddleId: v.id('huddles'),
+    slug: v.string(),
+    name: v.string(),
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, { huddleId }) => {
-    const huddle = await ensureHuddleById(ctx, huddleId)
-
-    // Skip auto-end entirely for non-limited huddles
-    if (huddle.isTimeLimited === false) {
-      return huddleId
+  handler: async (ctx, { huddleId, slug, name, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const previous = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      previous,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can start the next occurrence.',
+    )
+    const existing = await ctx.db
+      .query('huddles')
+      .withIndex('by_slug', (q) => q.eq('slug', slug))
+      .unique()
+    invariant(!existing, `Huddle slug ${slug} already exists`)
+
+    let seriesId = previous.seriesId
+    const previousIndex = previous.seriesIndex ?? 0
+    if (seriesId) {
+      const currentSeriesId = seriesId
+      const latest = await ctx.db
+        .query('huddles')
+        .withIndex('by_series', (q) => q.eq('seriesId', currentSeriesId))
+        .order('desc')
+        .first()
+      invariant(
+        latest?._id === previous._id,
+        'Start the next occurrence from the latest huddle in the series.',
+      )
+    } else {
+      seriesId = await ctx.db.insert('huddleSeries', {
+        name: previous.name,
+        createdBy: previous.createdBy,
+        createdAt: new Date().toISOString(),
+      })
+      await ctx.db.patch(previous._id, { seriesId, seriesIndex: 0 })
     }
 
-    if (huddle.status === 'completed') {
-      return huddleId
+    const createdAt = new Date().toISOString()
+    const nextHuddleId = await ctx.db.insert('huddles', {
+      slug,
+      name: name.trim() || previous.name,
+      createdBy: caller.userId,
+      createdAt,
+      theme: previous.theme,
+      status: 'active',
+      endedAt: undefined,
+      isTimeLimited: previous.isTimeLimited,
+      isInviteOnly: previous.isInviteOnly,
+      invitedUserIds: previous.invitedUserIds,
+      reviewMode: previous.reviewMode,
+      template: previous.template,
+      customItemTypes: previous.customItemTypes,
+      workspaceId: previous.workspaceId,
+      seriesId,
+      seriesIndex: previousIndex + 1,
+      participantCount: 0,
+      participantNames: [],
+    })
+
+    const previousItems = await ctx.db
+      .query('planningItems')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', previous._id))
+      .collect()
+    const carriedItems = previousItems
+      .filter(isCarriedOver)
+      .sort(
+        (a, b) =>
+          (a.order ?? Number.POSITIVE_INFINITY) - (b.order ?? Number.POSITIVE_INFINITY) ||
+          a.timestamp.localeCompare(b.timestamp),
+      )
+
+    // Assignees must be participants of the huddle, so they come along as observers who may rejoin
+    const assigneeUserIds = new Set(carriedItems.flatMap((item) => item.assigneeUserIds ?? []))
+    const carriedAssigneeIds = new Set<string>()
+    if (assigneeUserIds.size > 0) {
+      const participants = await ctx.db
+        .query('participants')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', previous._id))
+        .collect()
+      for (const participant of participants) {
+        if (!assigneeUserIds.has(participant.userId)) {
+          continue
+        }
+        carriedAssigneeIds.add(participant.userId)
+        await ctx.db.insert('participants', {
+          huddleId: nextHuddleId,
+          userId: participant.userId,
+          displayName: participant.displayName,
+          role: 'observer',
+          huddleRole: participant.huddleRole,
+          wasEverParticipant: participant.wasEverParticipant,
+          avatarUrl: participant.avatarUrl,
+          joinedAt: createdAt,
+        })
+      }
+      await syncParticipantSummary(ctx, nextHuddleId)
     }
 
-    // Check if free huddle time limit has passed since creation
-    const createdAtMs = new Date(huddle.createdAt).getTime()
-    const nowMs = Date.now()
-    const elapsedMs = nowMs - createdAtMs
-    // Free huddles auto-end after this duration (15 minutes). Convex functions
-    // cannot use dynamic imports, and the server bundle cannot import from src/.
-    // Keep this value in sync with src/shared/huddle.ts.
-    const FREE_HUDDLE_DURATION_MS = 15 * 60 * 1000
+    const nextIdByPreviousId = new Map<Id<'planningItems'>, Id<'planningItems'>>()
+    for (const [order, item] of carriedItems.entries()) {
+      const carriedAssignees = (item.assigneeUserIds ?? []).filter((userId) =>
+        carriedAssigneeIds.has(userId),
+      )
+      const newItem = {
+        huddleId: nextHuddleId,
+        type: item.type,
+        customType: item.customType,
+        text: item.text,
+        timestamp: createdAt,
+        speakerId: item.speakerId,
+        speakerLabel: item.speakerLabel,
+        metadata: {
+          ...item.metadata,
+          origin: 'carryOver',
+          carriedFromHuddleId: previous._id,
+        },
+        order,
+        status: item.status,
+        dueDate: item.dueDate,
+        assigneeUserIds: carriedAssignees.length > 0 ? carriedAssignees : undefined,
+        carriedFromItemId: item._id,
+        seriesOriginItemId: item.seriesOriginItemId ?? item._id,
+      }
+      nextIdByPreviousId.set(item._id, await ctx.db.insert('planningItems', newItem))
+    }
 
-    // Only auto-end if the time limit has been reached
-    if (elapsedMs >= FREE_HUDDLE_DURATION_MS) {
-      await ctx.db.patch(huddleId, {
-        status: 'completed',
-        endedAt: new Date().toISOString(),
-        endedByTimeLimit: true,
+    // Blockers can only point at items in the same huddle, so remap them to the carried copies
+    for (const item of carriedItems) {
+      const nextId = nextIdByPreviousId.get(item._id)
+      invariant(nextId, `Missing carried copy of ${item._id}`)
+      const blockedBy = (item.blockedBy ?? [])
+        .map((blockerId) => nextIdByPreviousId.get(blockerId))
+        .filter((blockerId): blockerId is Id<'planningItems'> => blockerId !== undefined)
+      if (blockedBy.length > 0) {
+        await ctx.db.patch(nextId, { blockedBy })
+      }
+      await syncPlanningItemIndexes(ctx, nextHuddleId, nextId)
+      const carried = await ctx.db.get(nextId)
+      invariant(carried, `Missing carried copy of ${item._id}`)
+      await recordPlanningItemRevision(ctx, {
+        huddleId: nextHuddleId,
+        planningItemId: nextId,
+        action: 'created',
+        actor: { kind: 'system' },
+        after: toPlanningItemSnapshot(carried),
       })
-
-      // Summary generation will be triggered from the client via server function
-      // We just mark that the huddle is completed here
     }
 
-    return huddleId
+    return { huddleId: nextHuddleId, slug, carriedCount: carriedItems.length }
   },
 })
 
-export const startHuddle = mutation({
+/**
+ * Start a new huddle from an existing one: its name, theme, item types and planning items,
+ * optionally limited to some item types. The transcript is left behind. Participants are
+ * copied as observers who may rejoin, and invites keep the clone invite-only.
+ */
+export const cloneHuddle = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    slug: v.string(),
+    name: v.string(),
+    // Item types to copy; all of them when omitted
+    itemTypes: v.optional(v.array(createPlanningItemSchema.fields.type)),
+    includeParticipants: v.boolean(),
+    includeInvites: v.boolean(),
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, { huddleId, userId }) => {
-    const huddle = await ensureHuddleById(ctx, huddleId)
-    await enforceHuddleOwner(
-      ctx,
-      huddle,
-      userId,
-      'Only the huddle creator can start this huddle.',
+  handler: async (
+    ctx,
+    { huddleId, slug, name, itemTypes, includeParticipants, includeInvites, guestToken },
+  ) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const source = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      source,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can clone this huddle.',
+    )
+    const existing = await ctx.db
+      .query('huddles')
+      .withIndex('by_slug', (q) => q.eq('slug', slug))
+      .unique()
+    invariant(!existing, `Huddle slug ${slug} already exists`)
+
+    const createdAt = new Date().toISOString()
+    const cloneId = await ctx.db.insert('huddles', {
+      slug,
+      name: name.trim() || source.name,
+      createdBy: caller.userId,
+      createdAt,
+      theme: source.theme,
+      status: 'active',
+      endedAt: undefined,
+      isTimeLimited: await isTimeLimitedFor(ctx, caller),
+      isInviteOnly: includeInvites ? source.isInviteOnly : undefined,
+      invitedUserIds: includeInvites ? source.invitedUserIds : undefined,
+      reviewMode: source.reviewMode,
+      template: source.template,
+      customItemTypes: source.customItemTypes,
+      workspaceId: source.workspaceId,
+      clonedFromHuddleId: source._id,
+      participantCount: 0,
+      participantNames: [],
+    })
+
+    if (includeParticipants) {
+      const participants = await ctx.db
+        .query('participants')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', source._id))
+        .collect()
+      for (const participant of participants) {
+        // The caller owns the clone and joins it themselves
+        if (isCaller(caller, participant.userId)) {
+          continue
+        }
+        await ctx.db.insert('participants', {
+          huddleId: cloneId,
+          userId: participant.userId,
+          displayName: participant.displayName,
+          role: 'observer',
+          huddleRole: participant.huddleRole,
+          wasEverParticipant: participant.wasEverParticipant,
+          avatarUrl: participant.avatarUrl,
+          joinedAt: createdAt,
+        })
+      }
+      await syncParticipantSummary(ctx, cloneId)
+    }
+
+    const sourceItems = await ctx.db
+      .query('planningItems')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', source._id))
+      .collect()
+    const clonedItems = sourceItems
+      .filter((item) => !itemTypes || itemTypes.includes(item.type))
+      .sort(
+        (a, b) =>
+          (a.order ?? Number.POSITIVE_INFINITY) - (b.order ?? Number.POSITIVE_INFINITY) ||
+          a.timestamp.localeCompare(b.timestamp),
+      )
+
+    const cloneIdBySourceId = new Map<Id<'planningItems'>, Id<'planningItems'>>()
+    for (const [order, item] of clonedItems.entries()) {
+      // The transcript turn the item came from stays with the source huddle
+      const { sourceChunkId: _sourceChunkId, ...metadata } = (item.metadata ?? {}) as Record<
+        string,
+        unknown
+      >
+      const newItem = {
+        huddleId: cloneId,
+        type: item.type,
+        customType: item.customType,
+        text: item.text,
+        timestamp: createdAt,
+        speakerId: item.speakerId,
+        speakerLabel: item.speakerLabel,
+        metadata: { ...metadata, origin: 'clone' },
+        order,
+        status: item.status,
+        dueDate: item.dueDate,
+        completedAt: item.completedAt,
+        // Assignees must be participants of the huddle
+        assigneeUserIds: includeParticipants ? item.assigneeUserIds : undefined,
+        clonedFromItemId: item._id,
+      }
+      cloneIdBySourceId.set(item._id, await ctx.db.insert('planningItems', newItem))
+    }
+
+    // Remap blockers to the cloned copies; blockers of types that were not cloned are dropped
+    for (const item of clonedItems) {
+      const clonedId = cloneIdBySourceId.get(item._id)
+      invariant(clonedId, `Missing cloned copy of ${item._id}`)
+      const blockedBy = (item.blockedBy ?? [])
+        .map((blockerId) => cloneIdBySourceId.get(blockerId))
+        .filter((blockerId): blockerId is Id<'planningItems'> => blockerId !== undefined)
+      if (blockedBy.length > 0) {
+        await ctx.db.patch(clonedId, { blockedBy })
+      }
+      await syncPlanningItemIndexes(ctx, cloneId, clonedId)
+      const cloned = await ctx.db.get(clonedId)
+      invariant(cloned, `Missing cloned copy of ${item._id}`)
+      await recordPlanningItemRevision(ctx, {
+        huddleId: cloneId,
+        planningItemId: clonedId,
+        action: 'created',
+        actor: { kind: 'system' },
+        after: toPlanningItemSnapshot(cloned),
+      })
+    }
+
+    return { huddleId: cloneId, slug, clonedCount: clonedItems.length }
+  },
+})
+
+/**
+ * A series with its occurrences and, for every item carried over at least once,
+ * how that item looked in each occurrence it appeared in.
+ */
+export const getHuddleSeries = query({
+  args: {
+    seriesId: v.id('huddleSeries'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { seriesId, guestToken }) => {
+    const series = await ctx.db.get(seriesId)
+    if (!series) {
+      return null
+    }
+    const caller = await getCaller(ctx, guestToken)
+    const occurrences: Array<Doc<'huddles'>> = []
+    for (const occurrence of await ctx.db
+      .query('huddles')
+      .withIndex('by_series', (q) => q.eq('seriesId', seriesId))
+      .collect()) {
+      if (await canReadHuddle(ctx, occurrence, caller)) {
+        occurrences.push(occurrence)
+      }
+    }
+    if (occurrences.length === 0) {
+      return null
+    }
+
+    const itemsByOccurrence = await Promise.all(
+      occurrences.map((occurrence) =>
+        ctx.db
+          .query('planningItems')
+          .withIndex('by_huddle', (q) => q.eq('huddleId', occurrence._id))
+          .collect(),
+      ),
+    )
+
+    const chains = new Map<
+      Id<'planningItems'>,
+      Array<{ huddleId: Id<'huddles'>; item: ReturnType<typeof toClientDoc<Doc<'planningItems'>>> }>
+    >()
+    occurrences.forEach((occurrence, index) => {
+      for (const item of itemsByOccurrence[index] ?? []) {
+        const originId = item.seriesOriginItemId ?? item._id
+        const chain = chains.get(originId) ?? []
+        chain.push({ huddleId: occurrence._id, item: toClientDoc(item) })
+        chains.set(originId, chain)
+      }
+    })
+
+    const carriedItems = [...chains.entries()]
+      .filter(([, chain]) => chain.length > 1)
+      .map(([originItemId, chain]) => ({ originItemId, appearances: chain }))
+
+    return {
+      ...toClientDoc(series),
+      occurrences: occurrences.map((occurrence) => ({
+        _id: occurrence._id,
+        slug: occurrence.slug,
+        name: occurrence.name,
+        createdAt: occurrence.createdAt,
+        status: occurrence.status,
+        seriesIndex: occurrence.seriesIndex ?? 0,
+      })),
+      carriedItems,
+    }
+  },
+})
+
+// Keeps an import inside a single mutation's write limits
+const MAX_BUNDLE_DOCUMENTS = 4000
+
+/**
+ * Everything needed to rebuild the huddle on another deployment, as a versioned JSON bundle.
+ */
+export const exportHuddleBundle = query({
+  args: {
+    huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can export this huddle.',
+    )
+    const [participants, planningItems, transcriptChunks, researchResults, views] =
+      await Promise.all([
+        ctx.db
+          .query('participants')
+          .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+          .collect(),
+        ctx.db
+          .query('planningItems')
+          .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+          .collect(),
+        ctx.db
+          .query('transcriptChunks')
+          .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+          .collect(),
+        ctx.db
+          .query('researchResults')
+          .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+          .collect(),
+        ctx.db
+          .query('views')
+          .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+          .collect(),
+      ])
+    return buildHuddleBundle(
+      { huddle, participants, planningItems, transcriptChunks, researchResults, views },
+      new Date().toISOString(),
+    )
+  },
+})
+
+/**
+ * Recreate an exported huddle under a new slug, owned by the caller. Participants and
+ * personal views keep their user IDs, which only match people on the same deployment;
+ * participants get the default role back.
+ */
+export const importHuddleBundle = mutation({
+  args: {
+    bundle: huddleBundleSchema,
+    slug: v.string(),
+    workspaceId: v.optional(v.id('workspaces')),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { bundle, slug, workspaceId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    invariant(
+      bundle.version === HUDDLE_BUNDLE_VERSION,
+      `Unsupported huddle bundle version ${bundle.version}; expected ${HUDDLE_BUNDLE_VERSION}.`,
+    )
+    const documentCount =
+      bundle.participants.length +
+      bundle.planningItems.length +
+      bundle.transcriptChunks.length +
+      bundle.researchResults.length +
+      bundle.views.length
+    invariant(
+      documentCount <= MAX_BUNDLE_DOCUMENTS,
+      `Huddle bundles are limited to ${MAX_BUNDLE_DOCUMENTS} documents.`,
+    )
+    if (workspaceId) {
+      await enforceWorkspaceRole(
+        ctx,
+        workspaceId,
+        caller,
+        ['owner', 'admin', 'member'],
+        'Only workspace members can import huddles into this workspace.',
+      )
+    }
+    const existing = await ctx.db
+      .query('huddles')
+      .withIndex('by_slug', (q) => q.eq('slug', slug))
+      .unique()
+    invariant(!existing, `Huddle slug ${slug} already exists`)
+
+    const customItemTypes = bundle.huddle.customItemTypes
+      ? normalizeCustomItemTypes(bundle.huddle.customItemTypes)
+      : undefined
+    for (const item of bundle.planningItems) {
+      ensureValidItemType({ customItemTypes }, item.type, item.customType)
+    }
+    for (const documents of [bundle.planningItems, bundle.transcriptChunks]) {
+      const keys = new Set(documents.map((document) => document.key))
+      invariant(keys.size === documents.length, 'Huddle bundle keys must be unique.')
+    }
+
+    const huddleId = await ctx.db.insert('huddles', {
+      ...bundle.huddle,
+      slug,
+      createdBy: caller.userId,
+      createdAt: new Date().toISOString(),
+      isTimeLimited: await isTimeLimitedFor(ctx, caller),
+      customItemTypes,
+      workspaceId,
+      participantCount: 0,
+      participantNames: [],
+    })
+
+    // A crafted bundle could hand out any role, so imported participants get the default one
+    for (const { huddleRole: _huddleRole, ...participant } of bundle.participants) {
+      await ctx.db.insert('participants', { ...participant, huddleId })
+    }
+    await syncParticipantSummary(ctx, huddleId)
+
+    const chunkIdsByKey = new Map<string, Id<'transcriptChunks'>>()
+    for (const { key, ...chunk } of bundle.transcriptChunks) {
+      chunkIdsByKey.set(key, await ctx.db.insert('transcriptChunks', { ...chunk, huddleId }))
+    }
+
+    const itemIdsByKey = new Map<string, Id<'planningItems'>>()
+    const importedItems: Array<DependencyNode & { _creationTime: number }> = []
+    for (const [index, { key, blockedByKeys, metadata, ...item }] of bundle.planningItems.entries()) {
+      const itemId = await ctx.db.insert('planningItems', {
+        ...item,
+        huddleId,
+        metadata: remapPlanningItemMetadata(metadata, (chunkKey) => chunkIdsByKey.get(chunkKey)),
+      })
+      itemIdsByKey.set(key, itemId)
+      importedItems.push({
+        _id: itemId,
+        // Bundle order stands in for creation order when repairing dependencies
+        _creationTime: index,
+        type: item.type,
+        blockedBy: undefined,
+      })
+    }
+    // Blockers are set once every item exists; invalid edges from hand-edited bundles are dropped
+    bundle.planningItems.forEach(({ blockedByKeys }, index) => {
+      importedItems[index].blockedBy = (blockedByKeys ?? [])
+        .map((blockerKey) => itemIdsByKey.get(blockerKey))
+        .filter((blockerId): blockerId is Id<'planningItems'> => blockerId !== undefined)
+    })
+    const repairedBlockedBy = new Map(
+      repairBlockedByGraph(importedItems).map((repair) => [repair.itemId, repair.blockedBy]),
+    )
+    for (const node of importedItems) {
+      const blockedBy = repairedBlockedBy.get(node._id) ?? node.blockedBy ?? []
+      if (blockedBy.length > 0) {
+        await ctx.db.patch(node._id, { blockedBy })
+      }
+      await syncPlanningItemIndexes(ctx, huddleId, node._id)
+      const item = await ctx.db.get(node._id)
+      invariant(item, `Missing imported item ${node._id}`)
+      await recordPlanningItemRevision(ctx, {
+        huddleId,
+        planningItemId: item._id,
+        action: 'created',
+        actor: { kind: 'system' },
+        after: toPlanningItemSnapshot(item),
+      })
+    }
+
+    // Chunks record the items each turn touched, which only exist now
+    for (const chunk of bundle.transcriptChunks) {
+      const chunkId = chunkIdsByKey.get(chunk.key)
+      if (chunkId && chunk.metadata?.planningItemEvents) {
+        await ctx.db.patch(chunkId, {
+          metadata: remapTranscriptChunkMetadata(chunk.metadata, (itemKey) =>
+            itemIdsByKey.get(itemKey),
+          ),
+        })
+      }
+    }
+
+    for (const { planningItemKey, ...result } of bundle.researchResults) {
+      const planningItemId = itemIdsByKey.get(planningItemKey)
+      if (planningItemId) {
+        await ctx.db.insert('researchResults', { ...result, huddleId, planningItemId })
+      }
+    }
+    for (const view of bundle.views) {
+      await ctx.db.insert('views', { ...view, huddleId })
+    }
+
+    return { huddleId, slug }
+  },
+})
+
+export const endHuddle = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can end this huddle.',
+    )
+
+    if (huddle.status === 'completed') {
+      return huddleId
+    }
+
+    await ctx.db.patch(huddleId, {
+      status: 'completed',
+      endedAt: new Date().toISOString(),
+      // Explicitly mark manual end as not caused by time limit
+      endedByTimeLimit: false,
+    })
+
+    // Summary generation will be triggered from the client via server function
+    // We just mark that the huddle is completed here
+
+    return huddleId
+  },
+})
+
+/**
+ * End a free huddle whose time limit has passed. Anyone with a role in the huddle may ask,
+ * since the huddle only ends once the limit is actually reached.
+ */
+export const autoEndHuddle = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    invariant(
+      (await getHuddleRole(ctx, huddle, caller)) !== null,
+      'Only members of this huddle can end it.',
+    )
+
+    // Skip auto-end entirely for non-limited huddles
+    if (huddle.isTimeLimited === false) {
+      return huddleId
+    }
+
+    if (huddle.status === 'completed') {
+      return huddleId
+    }
+
+    // Check if free huddle time limit has passed since creation
+    const createdAtMs = new Date(huddle.createdAt).getTime()
+    const nowMs = Date.now()
+    const elapsedMs = nowMs - createdAtMs
+    // Free huddles auto-end after this duration (15 minutes). Convex functions
+    // cannot use dynamic imports, and the server bundle cannot import from src/.
+    // Keep this value in sync with src/shared/huddle.ts.
+    const FREE_HUDDLE_DURATION_MS = 15 * 60 * 1000
+
+    // Only auto-end if the time limit has been reached
+    if (elapsedMs >= FREE_HUDDLE_DURATION_MS) {
+      await ctx.db.patch(huddleId, {
+        status: 'completed',
+        endedAt: new Date().toISOString(),
+        endedByTimeLimit: true,
+      })
+
+      // Summary generation will be triggered from the client via server function
+      // We just mark that the huddle is completed here
+    }
+
+    return huddleId
+  },
+})
+
+export const startHuddle = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can start this huddle.',
     )
 
     // For subscriber (non-limited) huddles allow restart freely. For free huddles, block if limit exceeded.
@@ -396,16 +1459,18 @@ function generatePrivateAccessKey() {
 export const setPrivate = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
     isPrivate: v.boolean(),
   },
-  handler: async (ctx, { huddleId, userId, isPrivate }) => {
+  handler: async (ctx, { huddleId, guestToken, isPrivate }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
-    await enforceHuddleOwner(
+    await enforceHuddlePermission(
       ctx,
       huddle,
-      userId,
-      'Only the huddle creator can change privacy settings.',
+      caller,
+      'changePrivacy',
+      'Only the huddle owner can change privacy settings.',
     )
 
     // Only subscriber-created (non-time-limited) huddles can be made private
@@ -438,16 +1503,18 @@ export const setPrivate = mutation({
 export const updateHuddleName = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
     name: v.string(),
   },
-  handler: async (ctx, { huddleId, userId, name }) => {
+  handler: async (ctx, { huddleId, guestToken, name }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
-    await enforceHuddleOwner(
+    await enforceHuddlePermission(
       ctx,
       huddle,
-      userId,
-      'Only the huddle creator can update the huddle name.',
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can rename this huddle.',
     )
 
     const trimmed = name.trim().replace(/\s+/g, ' ')
@@ -466,10 +1533,19 @@ export const setLinearProject = mutation({
     huddleId: v.id('huddles'),
     linearProjectId: v.string(),
     linearProjectUrl: v.string(),
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, { huddleId, linearProjectId, linearProjectUrl }) => {
+  handler: async (ctx, { huddleId, linearProjectId, linearProjectUrl, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
-    
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'exportToLinear',
+      'Only the owner or a facilitator can export this huddle to Linear.',
+    )
+
     await ctx.db.patch(huddleId, {
       linearProjectId,
       linearProjectUrl,
@@ -482,19 +1558,35 @@ export const setLinearProject = mutation({
 export const deleteHuddle = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, { huddleId, userId }) => {
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
-    await enforceHuddleOwner(
+    await enforceHuddlePermission(
       ctx,
       huddle,
-      userId,
-      'Only the huddle creator can delete this huddle.',
+      caller,
+      'deleteHuddle',
+      'Only the huddle owner can delete this huddle.',
     )
 
     // Delete all related data
-    const [participants, planningItems, presence, transcriptChunks, views] = await Promise.all([
+    const [
+      participants,
+      planningItems,
+      planningItemDependencies,
+      planningItemKeyAliases,
+      planningItemRevisions,
+      planningItemComments,
+      pendingActions,
+      votingRounds,
+      votes,
+      presence,
+      transcriptChunks,
+      transcriptCounters,
+      views,
+    ] = await Promise.all([
       ctx.db
         .query('participants')
         .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
@@ -503,6 +1595,34 @@ export const deleteHuddle = mutation({
         .query('planningItems')
         .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
         .collect(),
+      ctx.db
+        .query('planningItemDependencies')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+        .collect(),
+      ctx.db
+        .query('planningItemKeyAliases')
+        .withIndex('by_huddle_item_key', (q) => q.eq('huddleId', huddleId))
+        .collect(),
+      ctx.db
+        .query('planningItemRevisions')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+        .collect(),
+      ctx.db
+        .query('planningItemComments')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+        .collect(),
+      ctx.db
+        .query('pendingActions')
+        .withIndex('by_huddle_status', (q) => q.eq('huddleId', huddleId))
+        .collect(),
+      ctx.db
+        .query('votingRounds')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+        .collect(),
+      ctx.db
+        .query('votes')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+        .collect(),
       ctx.db
         .query('presence')
         .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
@@ -511,6 +1631,10 @@ export const deleteHuddle = mutation({
         .query('transcriptChunks')
         .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
         .collect(),
+      ctx.db
+        .query('transcriptCounters')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+        .collect(),
       ctx.db
         .query('views')
         .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
@@ -524,12 +1648,36 @@ export const deleteHuddle = mutation({
     for (const item of planningItems) {
       await ctx.db.delete(item._id)
     }
+    for (const dependency of planningItemDependencies) {
+      await ctx.db.delete(dependency._id)
+    }
+    for (const alias of planningItemKeyAliases) {
+      await ctx.db.delete(alias._id)
+    }
+    for (const revision of planningItemRevisions) {
+      await ctx.db.delete(revision._id)
+    }
+    for (const comment of planningItemComments) {
+      await ctx.db.delete(comment._id)
+    }
+    for (const pendingAction of pendingActions) {
+      await ctx.db.delete(pendingAction._id)
+    }
+    for (const round of votingRounds) {
+      await ctx.db.delete(round._id)
+    }
+    for (const vote of votes) {
+      await ctx.db.delete(vote._id)
+    }
     for (const presenceDoc of presence) {
       await ctx.db.delete(presenceDoc._id)
     }
     for (const chunk of transcriptChunks) {
       await ctx.db.delete(chunk._id)
     }
+    for (const counter of transcriptCounters) {
+      await ctx.db.delete(counter._id)
+    }
     for (const view of views) {
       await ctx.db.delete(view._id)
     }
@@ -537,6 +1685,18 @@ export const deleteHuddle = mutation({
     // Finally, delete the huddle itself
     await ctx.db.delete(huddleId)
 
+    // Drop the series once its last occurrence is gone
+    if (huddle.seriesId) {
+      const seriesId = huddle.seriesId
+      const remainingOccurrence = await ctx.db
+        .query('huddles')
+        .withIndex('by_series', (q) => q.eq('seriesId', seriesId))
+        .first()
+      if (!remainingOccurrence) {
+        await ctx.db.delete(seriesId)
+      }
+    }
+
     return huddleId
   },
 })
@@ -544,12 +1704,18 @@ export const deleteHuddle = mutation({
 export const addParticipant = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
     displayName: v.optional(v.string()),
     avatarUrl: v.optional(v.string()),
   },
-  handler: async (ctx, { huddleId, userId, displayName, avatarUrl }) => {
+  handler: async (ctx, { huddleId, guestToken, displayName, avatarUrl }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const { userId } = caller
     const huddle = await ensureHuddleById(ctx, huddleId)
+    invariant(
+      await canReadHuddle(ctx, huddle, caller),
+      'Only members of this workspace can join this huddle.',
+    )
     
     // Check existing participant record first
     const existing = await ctx.db
@@ -562,14 +1728,14 @@ export const addParticipant = mutation({
     // Check if invite-only is enabled
     if (huddle.isInviteOnly === true) {
       // Owner can always join
-      if (huddle.createdBy === userId) {
+      if (isCaller(caller, huddle.createdBy)) {
         // Continue with join logic below
       } else {
         const invitedUserIds = huddle.invitedUserIds ?? []
         // Check if user was ever a participant (can rejoin) or is invited
         const wasPreviouslyParticipant =
           !!existing && (existing.role === 'participant' || existing.wasEverParticipant === true)
-        const isInvited = invitedUserIds.includes(userId)
+        const isInvited = invitedUserIds.some((id) => isCaller(caller, id))
         
         if (!wasPreviouslyParticipant && !isInvited) {
           invariant(false, 'This huddle is invite-only. You must be invited to join.')
@@ -595,10 +1761,11 @@ export const addParticipant = mutation({
         updates.joinedAt = new Date().toISOString()
       }
       await ctx.db.patch(existing._id, updates)
+      await syncParticipantSummary(ctx, huddleId)
       return existing._id
     }
 
-    return await ctx.db.insert('participants', {
+    const participantId = await ctx.db.insert('participants', {
       huddleId,
       userId,
       displayName,
@@ -607,15 +1774,18 @@ export const addParticipant = mutation({
       avatarUrl,
       joinedAt: new Date().toISOString(),
     })
+    await syncParticipantSummary(ctx, huddleId)
+    return participantId
   },
 })
 
 export const removeParticipant = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, { huddleId, userId }) => {
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const { userId } = await requireCaller(ctx, guestToken)
     await ensureHuddleById(ctx, huddleId)
     const participant = await ctx.db
       .query('participants')
@@ -628,6 +1798,7 @@ export const removeParticipant = mutation({
         role: 'observer',
         joinedAt: participant.joinedAt,
       })
+      await syncParticipantSummary(ctx, huddleId)
     }
   },
 })
@@ -635,12 +1806,18 @@ export const removeParticipant = mutation({
 export const addObserver = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
     displayName: v.optional(v.string()),
     avatarUrl: v.optional(v.string()),
   },
-  handler: async (ctx, { huddleId, userId, displayName, avatarUrl }) => {
-    await ensureHuddleById(ctx, huddleId)
+  handler: async (ctx, { huddleId, guestToken, displayName, avatarUrl }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const { userId } = caller
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    invariant(
+      await canReadHuddle(ctx, huddle, caller),
+      'Only members of this workspace can watch this huddle.',
+    )
     const existing = await ctx.db
       .query('participants')
       .withIndex('by_huddle_user', (q) =>
@@ -660,6 +1837,9 @@ export const addObserver = mutation({
         ...(payload.avatarUrl ? { avatarUrl: payload.avatarUrl } : {}),
         role: payload.role,
       })
+      if ((existing.role ?? '').toLowerCase() !== 'observer') {
+        await syncParticipantSummary(ctx, huddleId)
+      }
       return existing._id
     }
 
@@ -674,19 +1854,85 @@ export const addObserver = mutation({
   },
 })
 
-export const setInviteOnly = mutation({
+/**
+ * The caller's role in a huddle and what it allows, for hiding controls they cannot use.
+ */
+export const getHuddleAccess = query({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const caller = await getCaller(ctx, guestToken)
+    const huddle = await ctx.db.get(huddleId)
+    const role = caller && huddle ? await getHuddleRole(ctx, huddle, caller) : null
+    const permissions = Object.fromEntries(
+      Object.keys(HUDDLE_PERMISSIONS).map((permission) => [
+        permission,
+        hasHuddlePermission(role, permission as HuddlePermission),
+      ]),
+    ) as Record<HuddlePermission, boolean>
+    return { role, permissions }
+  },
+})
+
+/**
+ * Assign a role to someone who has joined or observed the huddle.
+ * Only the owner can make or unmake facilitators; the owner role itself cannot be assigned.
+ */
+export const setParticipantRole = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    userId: v.string(),
+    huddleRole: v.union(
+      v.literal('facilitator'),
+      v.literal('editor'),
+      v.literal('contributor'),
+      v.literal('viewer'),
+    ),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, userId, huddleRole, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    const callerRole = await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'manageRoles',
+      'Only the owner or a facilitator can change roles.',
+    )
+    invariant(userId !== huddle.createdBy, 'The huddle owner always keeps the owner role.')
+    const participant = await ctx.db
+      .query('participants')
+      .withIndex('by_huddle_user', (q) => q.eq('huddleId', huddleId).eq('userId', userId))
+      .unique()
+    invariant(participant, 'Only people who have joined the huddle can be given a role.')
+    invariant(
+      callerRole === 'owner' ||
+        (huddleRole !== 'facilitator' && participant.huddleRole !== 'facilitator'),
+      'Only the huddle owner can add or remove facilitators.',
+    )
+    await ctx.db.patch(participant._id, { huddleRole })
+    return participant._id
+  },
+})
+
+export const setInviteOnly = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
     isInviteOnly: v.boolean(),
   },
-  handler: async (ctx, { huddleId, userId, isInviteOnly }) => {
+  handler: async (ctx, { huddleId, guestToken, isInviteOnly }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
-    await enforceHuddleOwner(
+    await enforceHuddlePermission(
       ctx,
       huddle,
-      userId,
-      'Only the huddle creator can change invite-only settings.',
+      caller,
+      'changePrivacy',
+      'Only the huddle owner can change invite-only settings.',
     )
 
     await ctx.db.patch(huddleId, {
@@ -697,21 +1943,90 @@ export const setInviteOnly = mutation({
   },
 })
 
+export const setReviewMode = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
+    reviewMode: v.boolean(),
+  },
+  handler: async (ctx, { huddleId, guestToken, reviewMode }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can change review mode.',
+    )
+
+    await ctx.db.patch(huddleId, {
+      reviewMode,
+    })
+
+    return huddleId
+  },
+})
+
+/**
+ * Replace the huddle's custom item types. Types still used by items cannot be removed.
+ */
+export const setCustomItemTypes = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    customItemTypes: v.array(customItemTypeSchema),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, customItemTypes, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can change item types.',
+    )
+
+    const normalized = normalizeCustomItemTypes(customItemTypes)
+    const keptKeys = new Set(normalized.map((type) => type.key))
+    const customItems = await ctx.db
+      .query('planningItems')
+      .withIndex('by_huddle_type', (q) => q.eq('huddleId', huddleId).eq('type', 'custom'))
+      .collect()
+    for (const removedType of huddle.customItemTypes ?? []) {
+      if (keptKeys.has(removedType.key)) continue
+      const inUse = customItems.filter((item) => item.customType === removedType.key).length
+      invariant(
+        inUse === 0,
+        `Delete the ${inUse} ${removedType.label} item${inUse === 1 ? '' : 's'} before removing the type.`,
+      )
+    }
+
+    await ctx.db.patch(huddleId, {
+      customItemTypes: normalized.length > 0 ? normalized : undefined,
+    })
+    return huddleId
+  },
+})
+
 export const inviteUser = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
     inviteUserId: v.string(),
     displayName: v.optional(v.string()),
     avatarUrl: v.optional(v.string()),
   },
-  handler: async (ctx, { huddleId, userId, inviteUserId, displayName, avatarUrl }) => {
+  handler: async (ctx, { huddleId, guestToken, inviteUserId, displayName, avatarUrl }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
-    await enforceHuddleOwner(
+    await enforceHuddlePermission(
       ctx,
       huddle,
-      userId,
-      'Only the huddle creator can invite users.',
+      caller,
+      'changePrivacy',
+      'Only the huddle owner can invite users.',
     )
 
     const invitedUserIds = huddle.invitedUserIds ?? []
@@ -753,6 +2068,7 @@ export const inviteUser = mutation({
         joinedAt: new Date().toISOString(),
       })
     }
+    await syncParticipantSummary(ctx, huddleId)
 
     return huddleId
   },
@@ -761,16 +2077,18 @@ export const inviteUser = mutation({
 export const removeInvite = mutation({
   args: {
     huddleId: v.id('huddles'),
-    userId: v.string(),
+    guestToken: guestTokenArg,
     removeUserId: v.string(),
   },
-  handler: async (ctx, { huddleId, userId, removeUserId }) => {
+  handler: async (ctx, { huddleId, guestToken, removeUserId }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
-    await enforceHuddleOwner(
+    await enforceHuddlePermission(
       ctx,
       huddle,
-      userId,
-      'Only the huddle creator can remove invitations.',
+      caller,
+      'changePrivacy',
+      'Only the huddle owner can remove invitations.',
     )
 
     const invitedUserIds = huddle.invitedUserIds ?? []
@@ -813,46 +2131,1001 @@ export const pruneInactiveParticipants = internalMutation(async (ctx) => {
         role: 'observer',
         joinedAt: participant.joinedAt,
       })
+      await syncParticipantSummary(ctx, presence.huddleId)
     }
   }
 })
 
+const PARTICIPANT_SUMMARY_BACKFILL_BATCH_SIZE = 100
+
+/**
+ * Fill in the participant summary of huddles created before it was denormalized.
+ * Run once with `npx convex run huddle:backfillParticipantSummaries`; it reschedules itself
+ * until every huddle has been visited.
+ */
+export const backfillParticipantSummaries = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { cursor }): Promise<void> => {
+    const result = await ctx.db.query('huddles').paginate({
+      numItems: PARTICIPANT_SUMMARY_BACKFILL_BATCH_SIZE,
+      cursor: cursor ?? null,
+    })
+    for (const huddle of result.page) {
+      if (huddle.participantCount === undefined) {
+        await syncParticipantSummary(ctx, huddle._id)
+      }
+    }
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.huddle.backfillParticipantSummaries, {
+        cursor: result.continueCursor,
+      })
+    }
+  },
+})
+
+const CREATOR_BACKFILL_BATCH_SIZE = 100
+
+/**
+ * Older huddles stored the creator's display name in createdBy. Display names are chosen by
+ * each participant, so they are not matched at all; the creator joins when creating, so the
+ * first participant row of the huddle stands in for them. Huddles without participants keep
+ * their createdBy and have no owner.
+ * Run once with `npx convex run huddle:backfillHuddleCreators`; it reschedules itself
+ * until every huddle has been visited.
+ */
+export const backfillHuddleCreators = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { cursor }): Promise<void> => {
+    const result = await ctx.db.query('huddles').paginate({
+      numItems: CREATOR_BACKFILL_BATCH_SIZE,
+      cursor: cursor ?? null,
+    })
+    for (const huddle of result.page) {
+      const createdBy = huddle.createdBy
+      const isUserId =
+        createdBy === 'system' ||
+        GUEST_ID_PATTERN.test(createdBy) ||
+        createdBy.startsWith('user_') ||
+        ctx.db.normalizeId('users', createdBy) !== null
+      if (isUserId) {
+        continue
+      }
+      // Rows come back in creation order; joinedAt moves when someone rejoins
+      const creator = await ctx.db
+        .query('participants')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', huddle._id))
+        .first()
+      if (creator) {
+        await ctx.db.patch(huddle._id, { createdBy: creator.userId })
+      }
+    }
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.huddle.backfillHuddleCreators, {
+        cursor: result.continueCursor,
+      })
+    }
+  },
+})
+
+const DEPENDENCY_REPAIR_BATCH_SIZE = 50
+
+/**
+ * Drop dependencies that form cycles or break the task-only rule from existing boards,
+ * keeping the older edge of each cycle. Run once with `npx convex run huddle:repairBlockedByCycles`;
+ * it reschedules itself until every huddle has been visited.
+ */
+export const repairBlockedByCycles = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { cursor }): Promise<void> => {
+    const result = await ctx.db.query('huddles').paginate({
+      numItems: DEPENDENCY_REPAIR_BATCH_SIZE,
+      cursor: cursor ?? null,
+    })
+    for (const huddle of result.page) {
+      const items = await ctx.db
+        .query('planningItems')
+        .withIndex('by_huddle', (q) => q.eq('huddleId', huddle._id))
+        .collect()
+      const itemsById = new Map(items.map((item) => [item._id, item]))
+      for (const repair of repairBlockedByGraph(items)) {
+        const item = itemsById.get(repair.itemId)
+        if (!item) continue
+        const patch = { blockedBy: repair.blockedBy.length > 0 ? repair.blockedBy : undefined }
+        await ctx.db.patch(item._id, patch)
+        await syncPlanningItemIndexes(ctx, huddle._id, item._id)
+        await recordPlanningItemRevision(ctx, {
+          huddleId: huddle._id,
+          planningItemId: item._id,
+          action: 'updated',
+          actor: { kind: 'system' },
+          before: toPlanningItemSnapshot(item),
+          after: toPlanningItemSnapshot({ ...item, ...patch }),
+        })
+      }
+    }
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.huddle.repairBlockedByCycles, {
+        cursor: result.continueCursor,
+      })
+    }
+  },
+})
+
+const PLANNING_ITEM_INDEX_BACKFILL_BATCH_SIZE = 100
+
+/**
+ * Fill in the itemKey column, dependency rows and key aliases of items written before they
+ * were indexed. Run once with `npx convex run huddle:backfillPlanningItemIndexes`; it
+ * reschedules itself until every item has been visited.
+ */
+export const backfillPlanningItemIndexes = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { cursor }): Promise<void> => {
+    const result = await ctx.db.query('planningItems').paginate({
+      numItems: PLANNING_ITEM_INDEX_BACKFILL_BATCH_SIZE,
+      cursor: cursor ?? null,
+    })
+    for (const item of result.page) {
+      await syncPlanningItemIndexes(ctx, item.huddleId, item._id)
+    }
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.huddle.backfillPlanningItemIndexes, {
+        cursor: result.continueCursor,
+      })
+    }
+  },
+})
+
+/**
+ * Read dependency nodes one at a time for lazy validation; items of other huddles count as missing.
+ */
+function getHuddleDependencyNode(ctx: MutationCtx, huddleId: Id<'huddles'>) {
+  return async (id: Id<'planningItems'>) => {
+    const item = await ctx.db.get(id)
+    return item && item.huddleId === huddleId ? item : null
+  }
+}
+
+/**
+ * Throw with the reason when a manual edit would give an item an invalid blockedBy list.
+ */
+async function ensureValidBlockedBy(
+  ctx: MutationCtx,
+  huddleId: Id<'huddles'>,
+  item: { _id?: Id<'planningItems'>; type: Doc<'planningItems'>['type'] },
+  blockedBy: ReadonlyArray<Id<'planningItems'>>,
+) {
+  const { rejections } = await validateBlockedByLazily(
+    getHuddleDependencyNode(ctx, huddleId),
+    item,
+    blockedBy,
+  )
+  const [rejection] = rejections
+  invariant(!rejection, () => BLOCKED_BY_REJECTION_MESSAGES[rejection.reason])
+}
+
 export const createPlanningItem = mutation({
-  args: createPlanningItemSchema,
-  handler: async (ctx, newItem) => {
-    await ensureHuddleById(ctx, newItem.huddleId)
-    return await ctx.db.insert('planningItems', newItem)
+  args: { ...createPlanningItemSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { guestToken, ...args }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, args.huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'editItems',
+      'Your role in this huddle cannot edit the board.',
+    )
+    ensureValidItemType(huddle, args.type, args.customType)
+    if (
+      args.status !== undefined ||
+      args.dueDate !== undefined ||
+      args.assigneeUserIds !== undefined
+    ) {
+      invariant(
+        args.type === 'task',
+        'Only tasks have a status, due date or assignees',
+      )
+    }
+    if (args.dueDate !== undefined) {
+      ensureValidDueDate(args.dueDate)
+    }
+    if (args.blockedBy) {
+      await ensureValidBlockedBy(ctx, args.huddleId, { type: args.type }, args.blockedBy)
+    }
+    const assigneeUserIds = args.assigneeUserIds
+      ? await ensureAssigneesAreParticipants(ctx, args.huddleId, args.assigneeUserIds)
+      : undefined
+    const newItem = {
+      ...args,
+      completedAt: getCompletedAt(null, args.status),
+      assigneeUserIds:
+        assigneeUserIds && assigneeUserIds.length > 0 ? assigneeUserIds : undefined,
+    }
+    const id = await ctx.db.insert('planningItems', newItem)
+    await syncPlanningItemIndexes(ctx, newItem.huddleId, id)
+    await recordPlanningItemRevision(ctx, {
+      huddleId: newItem.huddleId,
+      planningItemId: id,
+      action: 'created',
+      actor: await getRevisionActor(ctx, newItem.huddleId, guestToken),
+      after: toPlanningItemSnapshot(newItem),
+    })
+    return id
   },
 })
 
 export const updatePlanningItem = mutation({
-  args: updatePlanningItemSchema,
-  handler: async (ctx, { id, huddleId, ...patch }) => {
+  args: { ...updatePlanningItemSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { id, huddleId, guestToken, dueDate, ...fields }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const existing = await ensurePlanningItem(ctx, id)
     invariant(
       existing.huddleId === huddleId,
       'Cannot move planning items across huddles',
     )
+    await enforceHuddlePermission(
+      ctx,
+      await ensureHuddleById(ctx, existing.huddleId),
+      caller,
+      'editItems',
+      'Your role in this huddle cannot edit the board.',
+    )
+    const patch: Partial<Doc<'planningItems'>> = { ...fields }
+    if (
+      fields.status !== undefined ||
+      dueDate !== undefined ||
+      fields.assigneeUserIds !== undefined
+    ) {
+      invariant(
+        existing.type === 'task',
+        'Only tasks have a status, due date or assignees',
+      )
+    }
+    if (fields.assigneeUserIds !== undefined) {
+      const assigneeUserIds = await ensureAssigneesAreParticipants(
+        ctx,
+        huddleId,
+        fields.assigneeUserIds,
+      )
+      patch.assigneeUserIds = assigneeUserIds.length > 0 ? assigneeUserIds : undefined
+    }
+    if (fields.status !== undefined) {
+      patch.completedAt = getCompletedAt(existing, fields.status)
+    }
+    if (fields.blockedBy !== undefined) {
+      await ensureValidBlockedBy(ctx, huddleId, existing, fields.blockedBy)
+      patch.blockedBy = fields.blockedBy.length > 0 ? fields.blockedBy : undefined
+    }
+    if (typeof dueDate === 'string') {
+      ensureValidDueDate(dueDate)
+      patch.dueDate = dueDate
+    } else if (dueDate === null) {
+      patch.dueDate = undefined
+    }
     await ctx.db.patch(existing._id, {
       ...patch,
       huddleId: existing.huddleId,
     })
+    if (fields.blockedBy !== undefined || fields.metadata !== undefined) {
+      await syncPlanningItemIndexes(ctx, existing.huddleId, existing._id)
+    }
+    await recordPlanningItemRevision(ctx, {
+      huddleId: existing.huddleId,
+      planningItemId: existing._id,
+      action: 'updated',
+      actor: await getRevisionActor(ctx, existing.huddleId, guestToken),
+      before: toPlanningItemSnapshot(existing),
+      after: toPlanningItemSnapshot({ ...existing, ...patch }),
+    })
   },
 })
 
 export const deletePlanningItem = mutation({
-  args: deletePlanningItemSchema,
-  handler: async (ctx, { id, huddleId }) => {
+  args: { ...deletePlanningItemSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { id, huddleId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const existing = await ensurePlanningItem(ctx, id)
     invariant(
       existing.huddleId === huddleId,
       'Planning item does not belong to provided huddle',
     )
+    await enforceHuddlePermission(
+      ctx,
+      await ensureHuddleById(ctx, existing.huddleId),
+      caller,
+      'editItems',
+      'Your role in this huddle cannot edit the board.',
+    )
     // Prevent deletion of summary items
     if (existing.type === 'summary') {
       throw new Error('Summary items cannot be deleted')
     }
     await ctx.db.delete(existing._id)
+    await syncPlanningItemIndexes(ctx, existing.huddleId, existing._id)
+    await recordPlanningItemRevision(ctx, {
+      huddleId: existing.huddleId,
+      planningItemId: existing._id,
+      action: 'deleted',
+      actor: await getRevisionActor(ctx, existing.huddleId, guestToken),
+      before: toPlanningItemSnapshot(existing),
+    })
+  },
+})
+
+/**
+ * Merge duplicate items into `targetId`. The target keeps the best text (or `text`), the
+ * union of every merged item's blockers, and the merged items' keys as aliases so AI actions
+ * that still name them resolve to it. Items blocked by a merged item become blocked by the
+ * target; comments, votes and research move over before the merged items are deleted.
+ */
+export const mergePlanningItems = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    targetId: v.id('planningItems'),
+    sourceIds: v.array(v.id('planningItems')),
+    text: v.optional(v.string()),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, targetId, sourceIds, text, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    await enforceHuddlePermission(
+      ctx,
+      await ensureHuddleById(ctx, huddleId),
+      caller,
+      'editItems',
+      'Your role in this huddle cannot edit the board.',
+    )
+    const mergedIds = new Set(sourceIds)
+    invariant(mergedIds.size > 0, 'Pick at least one item to merge')
+    invariant(!mergedIds.has(targetId), 'An item cannot be merged into itself')
+    if (text !== undefined) {
+      invariant(text.trim().length > 0, 'Merged item text cannot be empty')
+    }
+
+    const items = await ctx.db
+      .query('planningItems')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+      .collect()
+    const itemsById = new Map(items.map((item) => [item._id, item]))
+    const target = itemsById.get(targetId)
+    invariant(target, 'Planning item does not belong to provided huddle')
+    const sources = [...mergedIds].map((id) => {
+      const source = itemsById.get(id)
+      invariant(source, 'Planning item does not belong to provided huddle')
+      return source
+    })
+    invariant(
+      [target, ...sources].every((item) => item.type !== 'summary'),
+      'Summary items cannot be merged',
+    )
+
+    // The board as it will be once the merge lands, before dependency validation
+    const merged = buildMergedItem(target, sources, text)
+    const remaining = items.filter((item) => !mergedIds.has(item._id))
+    const nextItems = remaining.map((item) => {
+      if (item._id === targetId) {
+        return { ...item, ...merged }
+      }
+      const blockedBy = repointBlockedBy(item._id, item.blockedBy ?? [], mergedIds, targetId)
+      return { ...item, blockedBy: blockedBy.length > 0 ? blockedBy : undefined }
+    })
+    // Unioned edges can close a cycle or land on an item that cannot be blocked
+    const repairs = repairBlockedByGraph(nextItems)
+    const repairedBlockedBy = new Map(repairs.map((repair) => [repair.itemId, repair.blockedBy]))
+
+    const actor = await getRevisionActor(ctx, huddleId, guestToken)
+    for (const [index, existing] of remaining.entries()) {
+      const next = nextItems[index]
+      const repaired = repairedBlockedBy.get(next._id)
+      const blockedBy = repaired ? (repaired.length > 0 ? repaired : undefined) : next.blockedBy
+      if (
+        next._id !== targetId &&
+        (existing.blockedBy ?? []).join() === (blockedBy ?? []).join()
+      ) {
+        continue
+      }
+      const { _id, _creationTime, ...fields } = { ...next, blockedBy }
+      await ctx.db.replace(next._id, fields)
+      await syncPlanningItemIndexes(ctx, huddleId, next._id)
+      await recordPlanningItemRevision(ctx, {
+        huddleId,
+        planningItemId: next._id,
+        action: 'updated',
+        actor,
+        before: toPlanningItemSnapshot(existing),
+        after: toPlanningItemSnapshot(fields),
+      })
+    }
+
+    for (const source of sources) {
+      const comments = await ctx.db
+        .query('planningItemComments')
+        .withIndex('by_planning_item', (q) => q.eq('planningItemId', source._id))
+        .collect()
+      for (const comment of comments) {
+        await ctx.db.patch(comment._id, { planningItemId: targetId })
+      }
+      const researchResults = await ctx.db
+        .query('researchResults')
+        .withIndex('by_planning_item', (q) => q.eq('planningItemId', source._id))
+        .collect()
+      for (const result of researchResults) {
+        await ctx.db.patch(result._id, { planningItemId: targetId })
+      }
+    }
+    const votes = await ctx.db
+      .query('votes')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+      .collect()
+    for (const vote of votes) {
+      if (mergedIds.has(vote.planningItemId)) {
+        await ctx.db.patch(vote._id, { planningItemId: targetId })
+      }
+    }
+
+    for (const source of sources) {
+      await ctx.db.delete(source._id)
+      await syncPlanningItemIndexes(ctx, huddleId, source._id)
+      await recordPlanningItemRevision(ctx, {
+        huddleId,
+        planningItemId: source._id,
+        action: 'deleted',
+        actor,
+        before: toPlanningItemSnapshot(source),
+      })
+    }
+
+    return {
+      targetId,
+      mergedCount: sources.length,
+      droppedDependencyCount: repairs.reduce(
+        (count, repair) => count + repair.rejections.length,
+        0,
+      ),
+    }
+  },
+})
+
+export const listPlanningItemRevisions = query({
+  args: { planningItemId: v.id('planningItems'), guestToken: guestTokenArg },
+  handler: async (ctx, { planningItemId, guestToken }) => {
+    const revisions = await ctx.db
+      .query('planningItemRevisions')
+      .withIndex('by_planning_item', (q) =>
+        q.eq('planningItemId', planningItemId),
+      )
+      .order('desc')
+      .collect()
+    // Deleted items keep their history, so access is checked through the revisions' huddle
+    if (
+      revisions.length === 0 ||
+      !(await getReadableHuddle(ctx, revisions[0].huddleId, guestToken))
+    ) {
+      return []
+    }
+    return revisions.map(toClientDoc)
+  },
+})
+
+export const restorePlanningItemRevision = mutation({
+  args: {
+    revisionId: v.id('planningItemRevisions'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { revisionId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const revision = await ctx.db.get(revisionId)
+    invariant(revision, `Missing planning item revision ${revisionId}`)
+    await enforceHuddlePermission(
+      ctx,
+      await ensureHuddleById(ctx, revision.huddleId),
+      caller,
+      'editItems',
+      'Your role in this huddle cannot edit the board.',
+    )
+    const snapshot = revision.after
+    invariant(snapshot, 'This revision has no item state to restore')
+    const existing = await ctx.db.get(revision.planningItemId)
+    invariant(existing, 'Cannot restore a planning item that has been deleted')
+
+    // Blockers may have been removed, or come to depend on this item, since the revision
+    const { blockedBy } = await validateBlockedByLazily(
+      getHuddleDependencyNode(ctx, existing.huddleId),
+      { _id: existing._id, type: snapshot.type },
+      snapshot.blockedBy ?? [],
+    )
+    const restored = {
+      ...snapshot,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+      // Explicit so fields absent from the snapshot are cleared rather than kept
+      status: snapshot.status,
+      dueDate: snapshot.dueDate,
+      completedAt: snapshot.completedAt,
+      assigneeUserIds: snapshot.assigneeUserIds,
+      customType: snapshot.customType,
+    }
+
+    await ctx.db.patch(existing._id, restored)
+    await syncPlanningItemIndexes(ctx, existing.huddleId, existing._id)
+    await recordPlanningItemRevision(ctx, {
+      huddleId: existing.huddleId,
+      planningItemId: existing._id,
+      action: 'restored',
+      actor: await getRevisionActor(ctx, existing.huddleId, guestToken),
+      before: toPlanningItemSnapshot(existing),
+      after: toPlanningItemSnapshot({ ...existing, ...restored }),
+      restoredFromRevisionId: revision._id,
+    })
+    return existing._id
+  },
+})
+
+const MAX_COMMENT_LENGTH = 4000
+
+/**
+ * Comments are open to every role, including viewers and observers,
+ * so the discussion can continue after the meeting ends.
+ */
+async function ensureCanComment(
+  ctx: QueryCtx,
+  huddle: Doc<'huddles'>,
+  caller: Caller,
+) {
+  await enforceHuddlePermission(
+    ctx,
+    huddle,
+    caller,
+    'comment',
+    'Only huddle members can comment on planning items.',
+  )
+  return await ctx.db
+    .query('participants')
+    .withIndex('by_huddle_user', (q) =>
+      q.eq('huddleId', huddle._id).eq('userId', caller.userId),
+    )
+    .unique()
+}
+
+function normalizeCommentBody(body: string) {
+  const trimmed = body.trim()
+  invariant(trimmed.length > 0, 'Comment cannot be empty.')
+  invariant(
+    trimmed.length <= MAX_COMMENT_LENGTH,
+    `Comments are limited to ${MAX_COMMENT_LENGTH} characters.`,
+  )
+  return trimmed
+}
+
+export const listPlanningItemComments = query({
+  args: { planningItemId: v.id('planningItems'), guestToken: guestTokenArg },
+  handler: async (ctx, { planningItemId, guestToken }) => {
+    const comments = await ctx.db
+      .query('planningItemComments')
+      .withIndex('by_planning_item', (q) =>
+        q.eq('planningItemId', planningItemId),
+      )
+      .collect()
+    if (
+      comments.length === 0 ||
+      !(await getReadableHuddle(ctx, comments[0].huddleId, guestToken))
+    ) {
+      return []
+    }
+    // Hide the body of deleted comments but keep them as thread anchors
+    return comments.map((comment) =>
+      toClientDoc(comment.deletedAt ? { ...comment, body: '' } : comment),
+    )
+  },
+})
+
+export const listPlanningItemCommentCounts = query({
+  args: { huddleId: v.id('huddles'), guestToken: guestTokenArg },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const counts: Record<string, number> = {}
+    if (!(await getReadableHuddle(ctx, huddleId, guestToken))) {
+      return counts
+    }
+    const comments = await ctx.db
+      .query('planningItemComments')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+      .collect()
+    for (const comment of comments) {
+      if (!comment.deletedAt) {
+        counts[comment.planningItemId] = (counts[comment.planningItemId] ?? 0) + 1
+      }
+    }
+    return counts
+  },
+})
+
+export const addPlanningItemComment = mutation({
+  args: {
+    planningItemId: v.id('planningItems'),
+    body: v.string(),
+    parentCommentId: v.optional(v.id('planningItemComments')),
+    mentionedUserIds: v.optional(v.array(v.string())),
+    guestToken: guestTokenArg,
+  },
+  handler: async (
+    ctx,
+    { planningItemId, body, parentCommentId, mentionedUserIds, guestToken },
+  ) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const item = await ensurePlanningItem(ctx, planningItemId)
+    const huddle = await ensureHuddleById(ctx, item.huddleId)
+    const participant = await ensureCanComment(ctx, huddle, caller)
+
+    let threadId: Id<'planningItemComments'> | undefined
+    if (parentCommentId) {
+      const parent = await ctx.db.get(parentCommentId)
+      invariant(
+        parent && parent.planningItemId === planningItemId,
+        'Cannot reply to a comment on a different item.',
+      )
+      // Replies to replies join the same thread
+      threadId = parent.parentCommentId ?? parent._id
+    }
+
+    return await ctx.db.insert('planningItemComments', {
+      huddleId: huddle._id,
+      planningItemId,
+      parentCommentId: threadId,
+      authorId: caller.userId,
+      authorName: participant?.displayName,
+      body: normalizeCommentBody(body),
+      mentionedUserIds: await filterParticipantUserIds(
+        ctx,
+        huddle._id,
+        mentionedUserIds ?? [],
+      ),
+      createdAt: new Date().toISOString(),
+    })
+  },
+})
+
+export const updatePlanningItemComment = mutation({
+  args: {
+    id: v.id('planningItemComments'),
+    body: v.string(),
+    mentionedUserIds: v.optional(v.array(v.string())),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { id, body, mentionedUserIds, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const comment = await ctx.db.get(id)
+    invariant(comment && !comment.deletedAt, `Missing comment ${id}`)
+    invariant(
+      isCaller(caller, comment.authorId),
+      'Only the author can edit this comment.',
+    )
+
+    await ctx.db.patch(id, {
+      body: normalizeCommentBody(body),
+      mentionedUserIds: await filterParticipantUserIds(
+        ctx,
+        comment.huddleId,
+        mentionedUserIds ?? [],
+      ),
+      editedAt: new Date().toISOString(),
+    })
+    return id
+  },
+})
+
+export const deletePlanningItemComment = mutation({
+  args: {
+    id: v.id('planningItemComments'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { id, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const comment = await ctx.db.get(id)
+    invariant(comment && !comment.deletedAt, `Missing comment ${id}`)
+    if (!isCaller(caller, comment.authorId)) {
+      const huddle = await ensureHuddleById(ctx, comment.huddleId)
+      await enforceHuddlePermission(
+        ctx,
+        huddle,
+        caller,
+        'facilitate',
+        'Only the author, the owner or a facilitator can delete this comment.',
+      )
+    }
+
+    await ctx.db.patch(id, {
+      body: '',
+      mentionedUserIds: [],
+      deletedAt: new Date().toISOString(),
+    })
+    return id
+  },
+})
+
+async function getLatestVotingRound(ctx: QueryCtx, huddleId: Id<'huddles'>) {
+  return await ctx.db
+    .query('votingRounds')
+    .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+    .order('desc')
+    .first()
+}
+
+async function ensureVotingRound(ctx: QueryCtx, roundId: Id<'votingRounds'>) {
+  const round = await ctx.db.get(roundId)
+  invariant(round, `Missing voting round ${roundId}`)
+  return round
+}
+
+/**
+ * The latest voting round of a huddle with its tallies and the caller's own dots.
+ * Voter identities are only returned for rounds that are not anonymous.
+ */
+export const getVotingRound = query({
+  args: {
+    huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const caller = await getCaller(ctx, guestToken)
+    if (!(await canReadHuddle(ctx, await ensureHuddleById(ctx, huddleId), caller))) {
+      return null
+    }
+    const round = await getLatestVotingRound(ctx, huddleId)
+    if (!round) {
+      return null
+    }
+    const votes = await ctx.db
+      .query('votes')
+      .withIndex('by_round', (q) => q.eq('roundId', round._id))
+      .collect()
+
+    const tallies: Record<string, number> = {}
+    const myVotes: Record<string, number> = {}
+    const voters: Record<string, Array<string>> = {}
+    let myVoteCount = 0
+    for (const vote of votes) {
+      tallies[vote.planningItemId] = (tallies[vote.planningItemId] ?? 0) + 1
+      if (caller && isCaller(caller, vote.userId)) {
+        myVotes[vote.planningItemId] = (myVotes[vote.planningItemId] ?? 0) + 1
+        myVoteCount += 1
+      }
+      const itemVoters = voters[vote.planningItemId] ?? []
+      if (!itemVoters.includes(vote.userId)) {
+        itemVoters.push(vote.userId)
+      }
+      voters[vote.planningItemId] = itemVoters
+    }
+
+    return {
+      round: toClientDoc(round),
+      tallies,
+      myVotes,
+      remainingVotes: Math.max(round.votesPerParticipant - myVoteCount, 0),
+      voters: round.isAnonymous ? null : voters,
+    }
+  },
+})
+
+export const startVotingRound = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    votesPerParticipant: v.number(),
+    isAnonymous: v.boolean(),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, votesPerParticipant, isAnonymous, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can start a voting round.',
+    )
+    invariant(
+      Number.isInteger(votesPerParticipant) &&
+        votesPerParticipant >= 1 &&
+        votesPerParticipant <= 20,
+      'Each participant needs between 1 and 20 votes.',
+    )
+    const latest = await getLatestVotingRound(ctx, huddleId)
+    invariant(
+      latest?.status !== 'open',
+      'Close the current voting round before starting a new one.',
+    )
+
+    return await ctx.db.insert('votingRounds', {
+      huddleId,
+      status: 'open',
+      votesPerParticipant,
+      isAnonymous,
+      startedBy: caller.userId,
+      startedAt: new Date().toISOString(),
+    })
+  },
+})
+
+export const castVote = mutation({
+  args: {
+    roundId: v.id('votingRounds'),
+    planningItemId: v.id('planningItems'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { roundId, planningItemId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const round = await ensureVotingRound(ctx, roundId)
+    invariant(round.status === 'open', 'This voting round is closed.')
+    const item = await ensurePlanningItem(ctx, planningItemId)
+    invariant(
+      item.huddleId === round.huddleId && item.type === 'idea',
+      'Votes can only be cast on ideas in this huddle.',
+    )
+    const huddle = await ensureHuddleById(ctx, round.huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'vote',
+      'Join the huddle as a contributor or above to vote.',
+    )
+
+    const myVotes = await ctx.db
+      .query('votes')
+      .withIndex('by_round_user', (q) =>
+        q.eq('roundId', roundId).eq('userId', caller.userId),
+      )
+      .collect()
+    invariant(
+      myVotes.length < round.votesPerParticipant,
+      'You have used all of your votes.',
+    )
+
+    return await ctx.db.insert('votes', {
+      huddleId: round.huddleId,
+      roundId,
+      planningItemId,
+      userId: caller.userId,
+      createdAt: new Date().toISOString(),
+    })
+  },
+})
+
+export const removeVote = mutation({
+  args: {
+    roundId: v.id('votingRounds'),
+    planningItemId: v.id('planningItems'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { roundId, planningItemId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const round = await ensureVotingRound(ctx, roundId)
+    invariant(round.status === 'open', 'This voting round is closed.')
+    const myVotes = await ctx.db
+      .query('votes')
+      .withIndex('by_round_user', (q) =>
+        q.eq('roundId', roundId).eq('userId', caller.userId),
+      )
+      .collect()
+    const vote = myVotes.find((candidate) => candidate.planningItemId === planningItemId)
+    if (vote) {
+      await ctx.db.delete(vote._id)
+    }
+  },
+})
+
+export const closeVotingRound = mutation({
+  args: {
+    roundId: v.id('votingRounds'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { roundId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const round = await ensureVotingRound(ctx, roundId)
+    const huddle = await ensureHuddleById(ctx, round.huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can close a voting round.',
+    )
+    invariant(round.status === 'open', 'This voting round is already closed.')
+    await ctx.db.patch(roundId, {
+      status: 'closed',
+      closedAt: new Date().toISOString(),
+    })
+    return roundId
+  },
+})
+
+/**
+ * Create tasks from the most voted ideas of a closed round.
+ * Ideas promoted earlier from the same round are skipped, so promoting again picks the next ones.
+ */
+export const promoteTopIdeas = mutation({
+  args: {
+    roundId: v.id('votingRounds'),
+    count: v.number(),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { roundId, count, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const round = await ensureVotingRound(ctx, roundId)
+    const huddle = await ensureHuddleById(ctx, round.huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can promote ideas.',
+    )
+    invariant(round.status === 'closed', 'Close the voting round before promoting ideas.')
+    invariant(Number.isInteger(count) && count >= 1, 'Promote at least one idea.')
+
+    const votes = await ctx.db
+      .query('votes')
+      .withIndex('by_round', (q) => q.eq('roundId', roundId))
+      .collect()
+    const tallies = new Map<Id<'planningItems'>, number>()
+    for (const vote of votes) {
+      tallies.set(vote.planningItemId, (tallies.get(vote.planningItemId) ?? 0) + 1)
+    }
+
+    const alreadyPromoted = new Set(round.promotedItemIds ?? [])
+    const candidates: Array<{ idea: Doc<'planningItems'>; tally: number }> = []
+    for (const [planningItemId, tally] of tallies) {
+      if (alreadyPromoted.has(planningItemId)) {
+        continue
+      }
+      const idea = await ctx.db.get(planningItemId)
+      if (idea && idea.type === 'idea') {
+        candidates.push({ idea, tally })
+      }
+    }
+    candidates.sort(
+      (a, b) => b.tally - a.tally || a.idea.timestamp.localeCompare(b.idea.timestamp),
+    )
+
+    const actor = await getRevisionActor(ctx, huddle._id, guestToken)
+    const timestamp = new Date().toISOString()
+    const createdTaskIds: Array<Id<'planningItems'>> = []
+    for (const { idea } of candidates.slice(0, count)) {
+      const newItem = {
+        huddleId: huddle._id,
+        type: 'task' as const,
+        text: idea.text,
+        timestamp,
+        speakerId: idea.speakerId,
+        speakerLabel: idea.speakerLabel,
+        metadata: {
+          source: 'vote',
+          promotedFromItemId: idea._id,
+          votingRoundId: roundId,
+        },
+      }
+      const taskId = await ctx.db.insert('planningItems', newItem)
+      await recordPlanningItemRevision(ctx, {
+        huddleId: huddle._id,
+        planningItemId: taskId,
+        action: 'created',
+        actor,
+        after: toPlanningItemSnapshot(newItem),
+      })
+      createdTaskIds.push(taskId)
+      alreadyPromoted.add(idea._id)
+    }
+
+    await ctx.db.patch(roundId, { promotedItemIds: [...alreadyPromoted] })
+    return createdTaskIds
   },
 })
 
@@ -861,9 +3134,18 @@ export const setHuddleAutoTitle = mutation({
     huddleId: v.id('huddles'),
     goalId: v.id('planningItems'),
     name: v.string(),
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, { huddleId, goalId, name }) => {
+  handler: async (ctx, { huddleId, goalId, name, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
     const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'editItems',
+      'Only editors can set the huddle title from its goal.',
+    )
     if (typeof huddle.autoTitleGeneratedAt === 'string') {
       return {
         applied: false,
@@ -901,16 +3183,18 @@ export const setHuddleAutoTitle = mutation({
 })
 
 export const upsertPresence = mutation({
-  args: updatePresenceSchema,
-  handler: async (ctx, presence) => {
+  args: { ...updatePresenceSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { guestToken, ...presence }) => {
+    const { userId } = await requireCaller(ctx, guestToken)
     await ensureHuddleById(ctx, presence.huddleId)
     const existing = await ensurePresenceEntry(
       ctx,
       presence.huddleId,
-      presence.userId,
+      userId,
     )
     const normalizedPresence = {
       ...presence,
+      userId,
       isRecording:
         typeof presence.isRecording === 'boolean' ? presence.isRecording : false,
     }
@@ -927,8 +3211,9 @@ export const upsertPresence = mutation({
 })
 
 export const clearPresence = mutation({
-  args: deletePresenceSchema,
-  handler: async (ctx, { huddleId, userId }) => {
+  args: { ...deletePresenceSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const { userId } = await requireCaller(ctx, guestToken)
     await ensureHuddleById(ctx, huddleId)
     const existing = await ensurePresenceEntry(ctx, huddleId, userId)
     if (existing) {
@@ -938,76 +3223,520 @@ export const clearPresence = mutation({
 })
 
 export const logTranscriptChunk = mutation({
-  args: newTranscriptChunkSchema,
-  handler: async (ctx, chunk) => {
-    await ensureHuddleById(ctx, chunk.huddleId)
-    return await ctx.db.insert('transcriptChunks', chunk)
-  },
-})
-
-type PlanningItemKind =
-  | 'idea'
-  | 'task'
-  | 'dependency'
-  | 'owner'
-  | 'risk'
-  | 'outcome'
-  | 'decision'
-  | 'summary'
-
-const planningItemTypeValue = v.union(
-  v.literal('idea'),
-  v.literal('task'),
-  v.literal('dependency'),
-  v.literal('owner'),
-  v.literal('risk'),
-  v.literal('outcome'),
-  v.literal('decision'),
-  v.literal('summary'),
-)
+  args: { ...newTranscriptChunkSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { guestToken, ...chunk }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    await enforceHuddlePermission(
+      ctx,
+      await ensureHuddleById(ctx, chunk.huddleId),
+      caller,
+      'speak',
+      'Your role in this huddle cannot add to the transcript.',
+    )
+    return await ctx.db.insert('transcriptChunks', {
+      ...chunk,
+      sequence: await allocateTranscriptSequence(ctx, chunk.huddleId),
+    })
+  },
+})
+
+type PlanningItemKind = Doc<'planningItems'>['type']
+
+// Recorded in transcript chunk metadata so a turn's AI actions can be displayed and reverted
+type PlanningItemEvent =
+  | {
+      kind: 'planningItemCreated'
+      itemId: Id<'planningItems'>
+      itemKey: string
+      itemType: PlanningItemKind
+      itemCustomType?: string
+      itemText: string
+    }
+  | {
+      kind: 'planningItemUpdated'
+      itemId: Id<'planningItems'>
+      itemKey: string
+      itemType: PlanningItemKind
+      itemCustomType?: string
+      itemText: string
+      before: Pick<
+        Doc<'planningItems'>,
+        'text' | 'blockedBy' | 'status' | 'dueDate' | 'completedAt' | 'assigneeUserIds'
+      >
+    }
+  | {
+      kind: 'planningItemRemoved'
+      itemId: Id<'planningItems'>
+      itemKey: string
+      itemType: PlanningItemKind
+      itemCustomType?: string
+      itemText: string
+      removedItem: Omit<Doc<'planningItems'>, '_id' | '_creationTime'>
+      referencedBy: Array<Id<'planningItems'>>
+    }
+
+// An AI-proposed dependency that was dropped instead of being written to the board
+type DependencyRejection = {
+  itemKey: string
+  blockerKey: string
+  reason: BlockedByRejectionReason
+}
+
+const audioMetadataSchema = v.object({
+  mimeType: v.string(),
+  size: v.optional(v.number()),
+  durationMs: v.optional(v.number()),
+  url: v.optional(v.string()),
+  storageId: v.optional(v.string()),
+})
+
+type PlanningAction = Infer<typeof voiceActionSchema>
+
+/**
+ * Apply AI planning actions to the board, resolving item keys through the itemKey and alias
+ * indexes so the work grows with the actions rather than the board.
+ * Shared by live processing and accepted review suggestions.
+ */
+async function applyPlanningActions(
+  ctx: MutationCtx,
+  {
+    huddleId,
+    chunkId,
+    actions,
+    speakerId,
+    speakerLabel,
+    conversationId,
+    requestId,
+    timestamp,
+  }: {
+    huddleId: Id<'huddles'>
+    chunkId: Id<'transcriptChunks'>
+    actions: Array<PlanningAction>
+    speakerId: string
+    speakerLabel: string
+    conversationId?: string
+    requestId?: string
+    timestamp: string
+  },
+) {
+  const huddle = await ensureHuddleById(ctx, huddleId)
+
+  const aiActor: RevisionActor = {
+    kind: 'ai',
+    requestId,
+    sourceChunkId: chunkId,
+    speakerId,
+  }
+
+  // Keys of merged-away items keep resolving to the item they were merged into.
+  // Keys created or removed by earlier actions are remembered here; null means removed.
+  const itemIdByKey = new Map<string, Id<'planningItems'> | null>()
+  const resolveItemKey = async (itemKey: string) => {
+    if (!itemIdByKey.has(itemKey)) {
+      itemIdByKey.set(itemKey, await findPlanningItemIdByKey(ctx, huddleId, itemKey))
+    }
+    return itemIdByKey.get(itemKey) ?? null
+  }
+
+  const createdItems: Array<{
+    itemKey: string
+    id: Id<'planningItems'>
+    type: PlanningItemKind
+    text: string
+  }> = []
+  const updatedItems: Array<{ itemKey: string; id: Id<'planningItems'> }> = []
+  const removedItems: Array<{ itemKey: string; id: Id<'planningItems'> }> = []
+  const planningItemEvents: Array<PlanningItemEvent> = []
+  const dependencyRejections: Array<DependencyRejection> = []
+
+  // Reads see this mutation's own writes, so later dependencies see earlier ones
+  const resolveBlockedBy = async (
+    item: { _id?: Id<'planningItems'>; type: PlanningItemKind },
+    itemKey: string,
+    blockerKeys: ReadonlyArray<string>,
+  ) => {
+    const blockerKeyById = new Map<Id<'planningItems'>, string>()
+    for (const blockerKey of blockerKeys) {
+      const blockerId = await resolveItemKey(blockerKey)
+      if (blockerId) {
+        blockerKeyById.set(blockerId, blockerKey)
+      } else {
+        dependencyRejections.push({ itemKey, blockerKey, reason: 'missing' })
+      }
+    }
+    const { blockedBy, rejections } = await validateBlockedByLazily(
+      getHuddleDependencyNode(ctx, huddleId),
+      item,
+      [...blockerKeyById.keys()],
+    )
+    for (const rejection of rejections) {
+      dependencyRejections.push({
+        itemKey,
+        blockerKey: blockerKeyById.get(rejection.blockerId) ?? rejection.blockerId,
+        reason: rejection.reason,
+      })
+    }
+    return blockedBy
+  }
+
+  for (const action of actions) {
+    if (action.kind === 'createItem') {
+      // Fall back to an idea when the model names a custom type this huddle does not define
+      const hasCustomType =
+        action.type === 'custom' && isCustomItemTypeOf(huddle, action.customType)
+      const itemType = action.type === 'custom' && !hasCustomType ? 'idea' : action.type
+      const customType = hasCustomType ? action.customType : undefined
+
+      const blockedByIds = await resolveBlockedBy(
+        { type: itemType },
+        action.itemKey,
+        action.blockedByKeys ?? [],
+      )
+
+      const itemMetadata: Record<string, unknown> = {
+        itemKey: action.itemKey,
+        sourceChunkId: chunkId,
+        source: 'voice',
+      }
+      if (conversationId) {
+        itemMetadata.conversationId = conversationId
+      }
+      if (requestId) {
+        itemMetadata.requestId = requestId
+      }
+      // Always set needsResearch to a boolean for ideas (never undefined or null)
+      if (itemType === 'idea') {
+        itemMetadata.needsResearch = action.needsResearch === true
+      }
+
+      // Status and due dates only apply to tasks; ignore them on other item types
+      const isTask = itemType === 'task'
+      const status = isTask ? action.status : undefined
+      const dueDate =
+        isTask && action.dueDate && DUE_DATE_PATTERN.test(action.dueDate)
+          ? action.dueDate
+          : undefined
+      // The model may name people who never joined; drop anyone who is not a participant
+      const assigneeUserIds =
+        isTask && action.assigneeUserIds
+          ? await filterParticipantUserIds(ctx, huddleId, action.assigneeUserIds)
+          : []
+
+      const newItem = {
+        huddleId,
+        type: itemType,
+        customType,
+        text: action.text,
+        timestamp,
+        speakerId,
+        speakerLabel: action.speakerLabel ?? speakerLabel,
+        metadata: itemMetadata,
+        blockedBy: blockedByIds.length > 0 ? blockedByIds : undefined,
+        status,
+        dueDate,
+        completedAt: getCompletedAt(null, status),
+        assigneeUserIds: assigneeUserIds.length > 0 ? assigneeUserIds : undefined,
+      }
+      const newId = await ctx.db.insert('planningItems', newItem)
+      await syncPlanningItemIndexes(ctx, huddleId, newId)
+      await recordPlanningItemRevision(ctx, {
+        huddleId,
+        planningItemId: newId,
+        action: 'created',
+        actor: aiActor,
+        after: toPlanningItemSnapshot(newItem),
+      })
+
+      itemIdByKey.set(action.itemKey, newId)
+      createdItems.push({
+        itemKey: action.itemKey,
+        id: newId,
+        type: itemType,
+        text: action.text,
+      })
+      planningItemEvents.push({
+        kind: 'planningItemCreated',
+        itemId: newId,
+        itemKey: action.itemKey,
+        itemType,
+        itemCustomType: customType,
+        itemText: action.text,
+      })
+      continue
+    }
+
+    if (action.kind === 'updateItem') {
+      const targetId = await resolveItemKey(action.targetKey)
+      if (!targetId) {
+        continue
+      }
+
+      const before = await ctx.db.get(targetId)
+      if (!before) {
+        continue
+      }
+
+      const patch: Partial<
+        Pick<
+          Doc<'planningItems'>,
+          'text' | 'blockedBy' | 'status' | 'dueDate' | 'completedAt' | 'assigneeUserIds'
+        >
+      > = {}
+
+      if (typeof action.patch.text === 'string') {
+        patch.text = action.patch.text
+      }
+
+      if (before.type === 'task') {
+        if (action.patch.status && action.patch.status !== before.status) {
+          patch.status = action.patch.status
+          patch.completedAt = getCompletedAt(before, action.patch.status)
+        }
+        if (action.patch.dueDate && DUE_DATE_PATTERN.test(action.patch.dueDate)) {
+          patch.dueDate = action.patch.dueDate
+        }
+        if (action.patch.assigneeUserIds) {
+          const assigneeUserIds = await filterParticipantUserIds(
+            ctx,
+            huddleId,
+            action.patch.assigneeUserIds,
+          )
+          if (assigneeUserIds.length > 0) {
+            patch.assigneeUserIds = assigneeUserIds
+          }
+        }
+      }
+
+      if (action.patch.blockedByKeys) {
+        const blockedBy = await resolveBlockedBy(
+          before,
+          action.targetKey,
+          action.patch.blockedByKeys,
+        )
+        patch.blockedBy = blockedBy.length > 0 ? blockedBy : undefined
+      }
+
+      if (Object.keys(patch).length === 0) {
+        continue
+      }
+
+      await ctx.db.patch(targetId, patch)
+      if ('blockedBy' in patch) {
+        await syncPlanningItemIndexes(ctx, huddleId, targetId)
+      }
+      await recordPlanningItemRevision(ctx, {
+        huddleId,
+        planningItemId: targetId,
+        action: 'updated',
+        actor: aiActor,
+        before: toPlanningItemSnapshot(before),
+        after: toPlanningItemSnapshot({ ...before, ...patch }),
+      })
+      updatedItems.push({ itemKey: action.targetKey, id: targetId })
+      planningItemEvents.push({
+        kind: 'planningItemUpdated',
+        itemId: targetId,
+        itemKey: action.targetKey,
+        itemType: before.type,
+        itemCustomType: before.customType,
+        itemText: patch.text ?? before.text,
+        before: {
+          text: before.text,
+          blockedBy: before.blockedBy,
+          status: before.status,
+          dueDate: before.dueDate,
+          completedAt: before.completedAt,
+          assigneeUserIds: before.assigneeUserIds,
+        },
+      })
+      continue
+    }
+
+    if (action.kind === 'removeItem') {
+      const targetId = await resolveItemKey(action.targetKey)
+      if (!targetId) {
+        continue
+      }
+
+      // Remove the item
+      const removed = await ctx.db.get(targetId)
+      if (!removed) {
+        continue
+      }
+      await ctx.db.delete(targetId)
+      await syncPlanningItemIndexes(ctx, huddleId, targetId)
+      await recordPlanningItemRevision(ctx, {
+        huddleId,
+        planningItemId: targetId,
+        action: 'deleted',
+        actor: aiActor,
+        before: toPlanningItemSnapshot(removed),
+      })
+      removedItems.push({ itemKey: action.targetKey, id: targetId })
+
+      // Clean up blockedBy references: find the items that reference this item through the
+      // reverse-dependency index and remove it from their blockedBy array
+      const referencedBy: Array<Id<'planningItems'>> = []
+      for (const referrerId of await listDependentItemIds(ctx, targetId)) {
+        const item = await ctx.db.get(referrerId)
+        if (item && item.blockedBy && item.blockedBy.includes(targetId)) {
+          referencedBy.push(item._id)
+          const updatedBlockedBy = item.blockedBy.filter((id) => id !== targetId)
+          const blockedByPatch = {
+            blockedBy: updatedBlockedBy.length > 0 ? updatedBlockedBy : undefined,
+          }
+          await ctx.db.patch(item._id, blockedByPatch)
+          await syncPlanningItemIndexes(ctx, huddleId, item._id)
+          await recordPlanningItemRevision(ctx, {
+            huddleId,
+            planningItemId: item._id,
+            action: 'updated',
+            actor: aiActor,
+            before: toPlanningItemSnapshot(item),
+            after: toPlanningItemSnapshot({ ...item, ...blockedByPatch }),
+          })
+        }
+      }
 
-const voiceCreateActionSchema = v.object({
-  kind: v.literal('createItem'),
-  itemKey: v.string(),
-  type: planningItemTypeValue,
-  text: v.string(),
-  speakerLabel: v.optional(v.string()),
-  blockedByKeys: v.optional(v.array(v.string())),
-  needsResearch: v.optional(v.union(v.boolean(), v.null())),
-})
+      const { _id, _creationTime, ...removedSnapshot } = removed
+      planningItemEvents.push({
+        kind: 'planningItemRemoved',
+        itemId: targetId,
+        itemKey: action.targetKey,
+        itemType: removed.type,
+        itemCustomType: removed.customType,
+        itemText: removed.text,
+        removedItem: removedSnapshot,
+        referencedBy,
+      })
 
-const voiceUpdateActionSchema = v.object({
-  kind: v.literal('updateItem'),
-  targetKey: v.string(),
-  patch: v.object({
-    text: v.optional(v.string()),
-    blockedByKeys: v.optional(v.array(v.string())),
-  }),
-})
+      // Forget the key so it can't be referenced in later actions
+      itemIdByKey.set(action.targetKey, null)
+      continue
+    }
+  }
 
-const voiceRemoveActionSchema = v.object({
-  kind: v.literal('removeItem'),
-  targetKey: v.string(),
-})
+  return { createdItems, updatedItems, removedItems, planningItemEvents, dependencyRejections }
+}
 
-const voiceActionSchema = v.union(
-  voiceCreateActionSchema,
-  voiceUpdateActionSchema,
-  voiceRemoveActionSchema,
-)
+async function appendPlanningItemEvents(
+  ctx: MutationCtx,
+  chunkId: Id<'transcriptChunks'>,
+  events: Array<PlanningItemEvent>,
+  dependencyRejections: Array<DependencyRejection> = [],
+) {
+  if (events.length === 0 && dependencyRejections.length === 0) {
+    return
+  }
+  const chunk = await ctx.db.get(chunkId)
+  if (!chunk) {
+    return
+  }
+  const metadata = (chunk.metadata ?? {}) as {
+    planningItemEvents?: Array<PlanningItemEvent>
+    dependencyRejections?: Array<DependencyRejection>
+  }
+  await ctx.db.patch(chunkId, {
+    metadata: {
+      ...metadata,
+      planningItemEvents: [...(metadata.planningItemEvents ?? []), ...events],
+      ...(dependencyRejections.length > 0
+        ? {
+            dependencyRejections: [
+              ...(metadata.dependencyRejections ?? []),
+              ...dependencyRejections,
+            ],
+          }
+        : {}),
+    },
+  })
+}
 
-const audioMetadataSchema = v.object({
-  mimeType: v.string(),
-  size: v.optional(v.number()),
-  durationMs: v.optional(v.number()),
-  url: v.optional(v.string()),
-  storageId: v.optional(v.string()),
+/**
+ * The result processVoiceTranscript returned for a turn, rebuilt from the chunk it wrote, so a
+ * retried upload with the same requestId gets the original answer without touching the board.
+ */
+async function getVoiceTranscriptReplay(
+  ctx: QueryCtx,
+  huddleId: Id<'huddles'>,
+  requestId: string,
+) {
+  const chunk = await ctx.db
+    .query('transcriptChunks')
+    .withIndex('by_huddle_request', (q) => q.eq('huddleId', huddleId).eq('requestId', requestId))
+    .first()
+  if (!chunk) {
+    return null
+  }
+  const pendingActions = await ctx.db
+    .query('pendingActions')
+    .withIndex('by_chunk', (q) => q.eq('chunkId', chunk._id))
+    .collect()
+  const metadata = (chunk.metadata ?? {}) as {
+    planningItemEvents?: Array<PlanningItemEvent>
+    dependencyRejections?: Array<DependencyRejection>
+  }
+  // A turn made in review mode only queued suggestions; its events come from accepting them later
+  const isQueued = pendingActions.length > 0
+  const events = isQueued ? [] : (metadata.planningItemEvents ?? [])
+  return {
+    chunk,
+    result: {
+      chunkId: chunk._id,
+      sequence: chunk.sequence,
+      createdItems: events.flatMap((event) =>
+        event.kind === 'planningItemCreated'
+          ? [{ itemKey: event.itemKey, id: event.itemId, type: event.itemType, text: event.itemText }]
+          : [],
+      ),
+      updatedItems: events.flatMap((event) =>
+        event.kind === 'planningItemUpdated' ? [{ itemKey: event.itemKey, id: event.itemId }] : [],
+      ),
+      removedItems: events.flatMap((event) =>
+        event.kind === 'planningItemRemoved' ? [{ itemKey: event.itemKey, id: event.itemId }] : [],
+      ),
+      dependencyRejections: isQueued ? [] : (metadata.dependencyRejections ?? []),
+      pendingActionCount: pendingActions.length,
+      isReplay: true,
+    },
+  }
+}
+
+/**
+ * Lets speakToHuddle answer a retried upload before transcribing and analysing it again.
+ * Null when the turn has not been processed yet.
+ */
+export const getProcessedVoiceTranscript = query({
+  args: {
+    huddleId: v.id('huddles'),
+    requestId: v.string(),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, requestId, guestToken }) => {
+    const caller = await getCaller(ctx, guestToken)
+    const huddle = await ctx.db.get(huddleId)
+    if (!caller || !huddle) {
+      return null
+    }
+    if (!hasHuddlePermission(await getHuddleRole(ctx, huddle, caller), 'speak')) {
+      return null
+    }
+    const replay = await getVoiceTranscriptReplay(ctx, huddleId, requestId)
+    if (!replay) {
+      return null
+    }
+    const { conversationId } = (replay.chunk.metadata ?? {}) as { conversationId?: string }
+    return { text: replay.chunk.payload, conversationId, result: replay.result }
+  },
 })
 
+/**
+ * Record a voice turn and apply its AI planning actions. Retrying with the same requestId
+ * returns the original result instead of inserting the turn again. The caller is the speaker.
+ */
 export const processVoiceTranscript = mutation({
   args: {
     huddleId: v.id('huddles'),
-    speakerId: v.string(),
     speakerLabel: v.string(),
     text: v.string(),
     actions: v.array(voiceActionSchema),
@@ -1015,12 +3744,12 @@ export const processVoiceTranscript = mutation({
     transcriptMetadata: v.optional(v.any()),
     audio: v.optional(audioMetadataSchema),
     requestId: v.optional(v.string()),
+    guestToken: guestTokenArg,
   },
   handler: async (
     ctx,
     {
       huddleId,
-      speakerId,
       speakerLabel,
       text,
       actions,
@@ -1028,27 +3757,42 @@ export const processVoiceTranscript = mutation({
       transcriptMetadata,
       audio,
       requestId,
+      guestToken,
     },
   ) => {
-    await ensureHuddleById(ctx, huddleId)
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'speak',
+      'Your role in this huddle cannot add to the board by voice.',
+    )
+    const speakerId = caller.userId
+
+    if (requestId) {
+      const replay = await getVoiceTranscriptReplay(ctx, huddleId, requestId)
+      if (replay) {
+        return replay.result
+      }
+    }
 
-    const sequence = await getNextTranscriptSequence(ctx, huddleId)
+    const sequence = await allocateTranscriptSequence(ctx, huddleId)
     const createdAt = new Date().toISOString()
 
-    const metadata: Record<string, unknown> = {
-      source: 'voice',
-      speakerId,
-      speakerLabel,
+    const metadata: Record<string, unknown> = {}
+    if (transcriptMetadata && typeof transcriptMetadata === 'object') {
+      Object.assign(metadata, transcriptMetadata)
     }
+    // Set after the free-form metadata so it cannot override who spoke
+    Object.assign(metadata, { source: 'voice', speakerId, speakerLabel })
     if (audio) {
       metadata.audio = audio
     }
     if (conversationId) {
       metadata.conversationId = conversationId
     }
-    if (transcriptMetadata && typeof transcriptMetadata === 'object') {
-      Object.assign(metadata, transcriptMetadata)
-    }
     if (requestId) {
       metadata.requestId = requestId
     }
@@ -1060,177 +3804,395 @@ export const processVoiceTranscript = mutation({
       payload: text,
       createdAt,
       metadata,
+      requestId,
     })
 
-    const planningItemsForHuddle = await ctx.db
-      .query('planningItems')
-      .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+    // In review mode the actions wait for the huddle owner instead of touching the board
+    if (huddle.reviewMode) {
+      for (const [order, action] of actions.entries()) {
+        await ctx.db.insert('pendingActions', {
+          huddleId,
+          chunkId,
+          action,
+          speakerId,
+          speakerLabel,
+          conversationId,
+          requestId,
+          order,
+          status: 'pending',
+          createdAt,
+        })
+      }
+      return {
+        chunkId,
+        sequence,
+        createdItems: [],
+        updatedItems: [],
+        removedItems: [],
+        dependencyRejections: [],
+        pendingActionCount: actions.length,
+        isReplay: false,
+      }
+    }
+
+    const { createdItems, updatedItems, removedItems, planningItemEvents, dependencyRejections } =
+      await applyPlanningActions(ctx, {
+        huddleId,
+        chunkId,
+        actions,
+        speakerId,
+        speakerLabel,
+        conversationId,
+        requestId,
+        timestamp: createdAt,
+      })
+    await appendPlanningItemEvents(ctx, chunkId, planningItemEvents, dependencyRejections)
+
+    return {
+      chunkId,
+      sequence,
+      createdItems,
+      updatedItems,
+      removedItems,
+      dependencyRejections,
+      pendingActionCount: 0,
+      isReplay: false,
+    }
+  },
+})
+
+export const listPendingActions = query({
+  args: { huddleId: v.id('huddles'), guestToken: guestTokenArg },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    if (!(await getReadableHuddle(ctx, huddleId, guestToken))) {
+      return []
+    }
+    const pendingActions = await ctx.db
+      .query('pendingActions')
+      .withIndex('by_huddle_status', (q) =>
+        q.eq('huddleId', huddleId).eq('status', 'pending'),
+      )
       .collect()
+    return pendingActions
+      .sort(
+        (a, b) => a.createdAt.localeCompare(b.createdAt) || a.order - b.order,
+      )
+      .map(toClientDoc)
+  },
+})
+
+export const updatePendingAction = mutation({
+  args: {
+    id: v.id('pendingActions'),
+    text: v.string(),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { id, text, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const pendingAction = await ctx.db.get(id)
+    invariant(pendingAction, `Missing pending action ${id}`)
+    invariant(
+      pendingAction.status === 'pending',
+      'This suggestion has already been reviewed.',
+    )
+    const huddle = await ensureHuddleById(ctx, pendingAction.huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can edit suggestions.',
+    )
+
+    const trimmed = text.trim()
+    invariant(trimmed.length > 0, 'Suggestion text cannot be empty.')
+
+    const { action } = pendingAction
+    if (action.kind === 'createItem') {
+      await ctx.db.patch(id, { action: { ...action, text: trimmed } })
+    } else if (action.kind === 'updateItem') {
+      await ctx.db.patch(id, {
+        action: { ...action, patch: { ...action.patch, text: trimmed } },
+      })
+    } else {
+      throw new Error('Removal suggestions have no text to edit.')
+    }
+
+    return id
+  },
+})
+
+/**
+ * Accept or reject pending AI actions. Accepted actions are applied in their original
+ * order, grouped by transcript turn, so the turn can still be reverted afterwards.
+ */
+export const resolvePendingActions = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    pendingActionIds: v.array(v.id('pendingActions')),
+    decision: v.union(v.literal('accept'), v.literal('reject')),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, pendingActionIds, decision, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can review suggestions.',
+    )
 
-    const itemIdByKey: Record<string, Id<'planningItems'>> = {}
-    for (const item of planningItemsForHuddle) {
-      const itemMetadata = item.metadata as { itemKey?: string } | undefined
-      if (itemMetadata && typeof itemMetadata.itemKey === 'string') {
-        itemIdByKey[itemMetadata.itemKey] = item._id
+    const pendingActions: Array<Doc<'pendingActions'>> = []
+    for (const id of pendingActionIds) {
+      const pendingAction = await ctx.db.get(id)
+      if (
+        pendingAction &&
+        pendingAction.huddleId === huddleId &&
+        pendingAction.status === 'pending'
+      ) {
+        pendingActions.push(pendingAction)
       }
     }
+    pendingActions.sort(
+      (a, b) => a.createdAt.localeCompare(b.createdAt) || a.order - b.order,
+    )
 
-    const createdItems: Array<{
-      itemKey: string
-      id: Id<'planningItems'>
-      type: PlanningItemKind
-      text: string
-    }> = []
-    const updatedItems: Array<{ itemKey: string; id: Id<'planningItems'> }> = []
-    const removedItems: Array<{ itemKey: string; id: Id<'planningItems'> }> = []
-    const planningItemEvents: Array<{
-      kind: 'planningItemCreated'
-      itemId: Id<'planningItems'>
-      itemKey: string
-      itemType: PlanningItemKind
-      itemText: string
-    }> = []
+    const resolvedAt = new Date().toISOString()
+    const status = decision === 'accept' ? 'accepted' : 'rejected'
 
-    for (const action of actions) {
-      if (action.kind === 'createItem') {
-        const blockedByIds =
-          action.blockedByKeys
-            ?.map((key) => itemIdByKey[key])
-            .filter(
-              (value): value is Id<'planningItems'> => typeof value !== 'undefined',
-            ) ?? []
-
-        const itemMetadata: Record<string, unknown> = {
-          itemKey: action.itemKey,
-          sourceChunkId: chunkId,
-          source: 'voice',
-        }
-        if (conversationId) {
-          itemMetadata.conversationId = conversationId
-        }
-        if (requestId) {
-          itemMetadata.requestId = requestId
-        }
-        // Always set needsResearch to a boolean for ideas (never undefined or null)
-        if (action.type === 'idea') {
-          itemMetadata.needsResearch = action.needsResearch === true
-        }
+    if (decision === 'accept') {
+      const actionsByChunk = new Map<Id<'transcriptChunks'>, Array<Doc<'pendingActions'>>>()
+      for (const pendingAction of pendingActions) {
+        const group = actionsByChunk.get(pendingAction.chunkId) ?? []
+        group.push(pendingAction)
+        actionsByChunk.set(pendingAction.chunkId, group)
+      }
 
-        const newId = await ctx.db.insert('planningItems', {
+      for (const [chunkId, group] of actionsByChunk) {
+        const [first] = group
+        const { planningItemEvents, dependencyRejections } = await applyPlanningActions(ctx, {
           huddleId,
-          type: action.type,
-          text: action.text,
-          timestamp: createdAt,
-          speakerId,
-          speakerLabel: action.speakerLabel ?? speakerLabel,
-          metadata: itemMetadata,
-          blockedBy: blockedByIds.length > 0 ? blockedByIds : undefined,
+          chunkId,
+          actions: group.map((pendingAction) => pendingAction.action),
+          speakerId: first.speakerId,
+          speakerLabel: first.speakerLabel,
+          conversationId: first.conversationId,
+          requestId: first.requestId,
+          timestamp: resolvedAt,
         })
-
-        itemIdByKey[action.itemKey] = newId
-        createdItems.push({
-          itemKey: action.itemKey,
-          id: newId,
-          type: action.type,
-          text: action.text,
-        })
-        planningItemEvents.push({
-          kind: 'planningItemCreated',
-          itemId: newId,
-          itemKey: action.itemKey,
-          itemType: action.type,
-          itemText: action.text,
-        })
-        continue
+        await appendPlanningItemEvents(ctx, chunkId, planningItemEvents, dependencyRejections)
       }
+    }
 
-      if (action.kind === 'updateItem') {
-        const targetId = itemIdByKey[action.targetKey]
-        if (!targetId) {
-          continue
-        }
+    for (const pendingAction of pendingActions) {
+      await ctx.db.patch(pendingAction._id, {
+        status,
+        resolvedAt,
+        resolvedBy: caller.userId,
+      })
+    }
 
-        const patch: {
-          text?: string
-          blockedBy?: Array<Id<'planningItems'>>
-        } = {}
+    return { resolvedCount: pendingActions.length }
+  },
+})
 
-        if (typeof action.patch.text === 'string') {
-          patch.text = action.patch.text
-        }
+async function removeBlockedByReferences(
+  ctx: MutationCtx,
+  huddleId: Id<'huddles'>,
+  targetId: Id<'planningItems'>,
+  actor: RevisionActor,
+) {
+  for (const referrerId of await listDependentItemIds(ctx, targetId)) {
+    const item = await ctx.db.get(referrerId)
+    if (!item || !item.blockedBy || !item.blockedBy.includes(targetId)) {
+      continue
+    }
+    const updatedBlockedBy = item.blockedBy.filter((id) => id !== targetId)
+    const patch = {
+      blockedBy: updatedBlockedBy.length > 0 ? updatedBlockedBy : undefined,
+    }
+    await ctx.db.patch(item._id, patch)
+    await syncPlanningItemIndexes(ctx, huddleId, item._id)
+    await recordPlanningItemRevision(ctx, {
+      huddleId,
+      planningItemId: item._id,
+      action: 'updated',
+      actor,
+      before: toPlanningItemSnapshot(item),
+      after: toPlanningItemSnapshot({ ...item, ...patch }),
+    })
+  }
+}
 
-        if (action.patch.blockedByKeys) {
-          const blockedByIds =
-            action.patch.blockedByKeys
-              ?.map((key) => itemIdByKey[key])
-              .filter(
-                (value): value is Id<'planningItems'> => typeof value !== 'undefined',
-              ) ?? []
-          patch.blockedBy = blockedByIds
-        }
+export const revertTranscriptTurn = mutation({
+  args: {
+    chunkId: v.id('transcriptChunks'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { chunkId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const chunk = await ctx.db.get(chunkId)
+    invariant(chunk, `Missing transcript chunk ${chunkId}`)
+    const huddle = await ensureHuddleById(ctx, chunk.huddleId)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can revert a transcript turn.',
+    )
+
+    const metadata = (chunk.metadata ?? {}) as {
+      planningItemEvents?: Array<PlanningItemEvent>
+      revertedAt?: string
+    }
+    invariant(!metadata.revertedAt, 'This turn has already been reverted')
+    const events = Array.isArray(metadata.planningItemEvents)
+      ? metadata.planningItemEvents
+      : []
+    invariant(events.length > 0, 'This turn has no AI actions to revert')
+
+    const actor = await getRevisionActor(ctx, huddle._id, guestToken)
+    // Removed items come back with new IDs; map old IDs so references can be restored
+    const recreatedIdByOriginalId = new Map<Id<'planningItems'>, Id<'planningItems'>>()
+    const recreatedItems: Array<{
+      id: Id<'planningItems'>
+      blockedBy: Array<Id<'planningItems'>>
+    }> = []
+    const resolveId = (id: Id<'planningItems'>) =>
+      recreatedIdByOriginalId.get(id) ?? id
+    // Snapshotted blockers may since have been deleted, moved or closed a cycle, so restored
+    // edges go through the same checks as the AI's own dependencies and invalid ones are dropped
+    const getValidBlockedBy = async (
+      item: Pick<Doc<'planningItems'>, '_id' | 'type'>,
+      blockerIds: ReadonlyArray<Id<'planningItems'>>,
+    ) => {
+      const { blockedBy } = await validateBlockedByLazily(
+        getHuddleDependencyNode(ctx, huddle._id),
+        item,
+        blockerIds.map(resolveId),
+      )
+      return blockedBy
+    }
+
+    let deletedCount = 0
+    let restoredCount = 0
+    let recreatedCount = 0
 
-        if (Object.keys(patch).length === 0) {
+    // Undo in reverse order so later actions are unwound before the ones they depended on
+    for (const event of [...events].reverse()) {
+      if (event.kind === 'planningItemCreated') {
+        const item = await ctx.db.get(event.itemId)
+        if (!item) {
           continue
         }
-
-        await ctx.db.patch(targetId, patch)
-        updatedItems.push({ itemKey: action.targetKey, id: targetId })
+        await ctx.db.delete(item._id)
+        await syncPlanningItemIndexes(ctx, huddle._id, item._id)
+        await recordPlanningItemRevision(ctx, {
+          huddleId: huddle._id,
+          planningItemId: item._id,
+          action: 'deleted',
+          actor,
+          before: toPlanningItemSnapshot(item),
+        })
+        await removeBlockedByReferences(ctx, huddle._id, item._id, actor)
+        deletedCount += 1
         continue
       }
 
-      if (action.kind === 'removeItem') {
-        const targetId = itemIdByKey[action.targetKey]
-        if (!targetId) {
+      if (event.kind === 'planningItemUpdated') {
+        const itemId = resolveId(event.itemId)
+        const item = await ctx.db.get(itemId)
+        if (!item) {
           continue
         }
+        const blockedBy = await getValidBlockedBy(item, event.before.blockedBy ?? [])
+        const patch = {
+          text: event.before.text,
+          blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+          status: event.before.status,
+          dueDate: event.before.dueDate,
+          completedAt: event.before.completedAt,
+          assigneeUserIds: event.before.assigneeUserIds,
+        }
+        await ctx.db.patch(item._id, patch)
+        await syncPlanningItemIndexes(ctx, huddle._id, item._id)
+        await recordPlanningItemRevision(ctx, {
+          huddleId: huddle._id,
+          planningItemId: item._id,
+          action: 'restored',
+          actor,
+          before: toPlanningItemSnapshot(item),
+          after: toPlanningItemSnapshot({ ...item, ...patch }),
+        })
+        restoredCount += 1
+        continue
+      }
 
-        // Remove the item
-        await ctx.db.delete(targetId)
-        removedItems.push({ itemKey: action.targetKey, id: targetId })
+      if (event.kind === 'planningItemRemoved') {
+        const { blockedBy, ...removedItem } = event.removedItem
+        const newId = await ctx.db.insert('planningItems', removedItem)
+        await syncPlanningItemIndexes(ctx, huddle._id, newId)
+        recreatedIdByOriginalId.set(event.itemId, newId)
+        recreatedItems.push({ id: newId, blockedBy: blockedBy ?? [] })
+        await recordPlanningItemRevision(ctx, {
+          huddleId: huddle._id,
+          planningItemId: newId,
+          action: 'restored',
+          actor,
+          after: toPlanningItemSnapshot(removedItem),
+        })
 
-        // Clean up blockedBy references: find all items that reference this item
-        // and remove it from their blockedBy array
-        const itemsToUpdate = await ctx.db
-          .query('planningItems')
-          .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
-          .collect()
-
-        for (const item of itemsToUpdate) {
-          if (item.blockedBy && item.blockedBy.includes(targetId)) {
-            const updatedBlockedBy = item.blockedBy.filter((id) => id !== targetId)
-            await ctx.db.patch(item._id, {
-              blockedBy: updatedBlockedBy.length > 0 ? updatedBlockedBy : undefined,
-            })
+        // Point the items that were blocked by the removed item at its replacement
+        for (const referrerId of event.referencedBy) {
+          const referrer = await ctx.db.get(resolveId(referrerId))
+          if (!referrer || referrer.blockedBy?.includes(newId)) {
+            continue
           }
+          if ((await getValidBlockedBy(referrer, [newId])).length === 0) {
+            continue
+          }
+          const patch = { blockedBy: [...(referrer.blockedBy ?? []), newId] }
+          await ctx.db.patch(referrer._id, patch)
+          await syncPlanningItemIndexes(ctx, huddle._id, referrer._id)
+          await recordPlanningItemRevision(ctx, {
+            huddleId: huddle._id,
+            planningItemId: referrer._id,
+            action: 'restored',
+            actor,
+            before: toPlanningItemSnapshot(referrer),
+            after: toPlanningItemSnapshot({ ...referrer, ...patch }),
+          })
         }
-
-        // Remove from itemIdByKey so it can't be referenced in later actions
-        delete itemIdByKey[action.targetKey]
-        continue
+        recreatedCount += 1
       }
     }
 
-    if (planningItemEvents.length > 0) {
-      await ctx.db.patch(chunkId, {
-        metadata: {
-          ...metadata,
-          planningItemEvents: planningItemEvents.map((event) => ({
-            kind: event.kind,
-            itemId: event.itemId,
-            itemKey: event.itemKey,
-            itemType: event.itemType,
-            itemText: event.itemText,
-          })),
-        },
-      })
+    // Restore blockers of re-created items once every removed item has its new ID
+    for (const recreated of recreatedItems) {
+      const item = await ctx.db.get(recreated.id)
+      invariant(item, `Missing re-created item ${recreated.id}`)
+      const blockedBy = await getValidBlockedBy(item, recreated.blockedBy)
+      if (blockedBy.length > 0) {
+        await ctx.db.patch(recreated.id, { blockedBy })
+        await syncPlanningItemIndexes(ctx, huddle._id, recreated.id)
+      }
     }
 
+    await ctx.db.patch(chunk._id, {
+      metadata: {
+        ...metadata,
+        revertedAt: new Date().toISOString(),
+        revertedBy: caller.userId,
+      },
+    })
+
     return {
-      chunkId,
-      sequence,
-      createdItems,
-      updatedItems,
-      removedItems,
+      deletedCount,
+      restoredCount,
+      recreatedCount,
     }
   },
 })
@@ -1271,6 +4233,7 @@ export const resetHuddleDevState = mutation({
       const metadata = item.metadata as { devSimulation?: boolean } | undefined
       if (metadata?.devSimulation) {
         await ctx.db.delete(item._id)
+        await syncPlanningItemIndexes(ctx, huddleId, item._id)
       }
     }
 
@@ -1284,9 +4247,16 @@ export const resetHuddleDevState = mutation({
 })
 
 export const deleteTranscriptChunk = mutation({
-  args: deleteTranscriptChunkSchema,
-  handler: async (ctx, { id, huddleId }) => {
-    await ensureHuddleById(ctx, huddleId)
+  args: { ...deleteTranscriptChunkSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { id, huddleId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    await enforceHuddlePermission(
+      ctx,
+      await ensureHuddleById(ctx, huddleId),
+      caller,
+      'facilitate',
+      'Only the owner or a facilitator can delete transcript entries.',
+    )
     const chunk = await ctx.db.get(id)
     if (chunk && chunk.huddleId === huddleId) {
       await ctx.db.delete(id)
@@ -1294,18 +4264,153 @@ export const deleteTranscriptChunk = mutation({
   },
 })
 
+/**
+ * Shared views are visible to everyone in the huddle; personal views only to their owner.
+ */
+function canSeeView(view: Doc<'views'>, caller: Caller | null) {
+  return !view.ownerUserId || (caller !== null && isCaller(caller, view.ownerUserId))
+}
+
+/**
+ * Only the owner edits a personal view; shared views belong to the facilitators.
+ */
+async function enforceViewEditable(
+  ctx: QueryCtx,
+  view: Doc<'views'>,
+  caller: Caller,
+  errorMessage: string,
+) {
+  if (view.ownerUserId) {
+    invariant(isCaller(caller, view.ownerUserId), errorMessage)
+    return
+  }
+  await enforceHuddlePermission(
+    ctx,
+    await ensureHuddleById(ctx, view.huddleId),
+    caller,
+    'facilitate',
+    errorMessage,
+  )
+}
+
+export const listViews = query({
+  args: {
+    huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    const caller = await getCaller(ctx, guestToken)
+    if (!(await canReadHuddle(ctx, await ensureHuddleById(ctx, huddleId), caller))) {
+      return []
+    }
+    const views = await ctx.db
+      .query('views')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+      .collect()
+    return views
+      .filter((view) => canSeeView(view, caller))
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a._creationTime - b._creationTime)
+      .map(toClientDoc)
+  },
+})
+
 export const createView = mutation({
-  args: newViewSchema,
-  handler: async (ctx, view) => {
-    await ensureHuddleById(ctx, view.huddleId)
-    return await ctx.db.insert('views', view)
+  args: { ...newViewSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { huddleId, label, config, isPersonal, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ensureHuddleById(ctx, huddleId)
+    const trimmedLabel = label.trim()
+    invariant(trimmedLabel.length > 0, 'Give the view a name.')
+    if (isPersonal) {
+      invariant(
+        (await getHuddleRole(ctx, huddle, caller)) !== null,
+        'Join the huddle to save views.',
+      )
+    } else {
+      await enforceHuddlePermission(
+        ctx,
+        huddle,
+        caller,
+        'facilitate',
+        'Only the owner or a facilitator can add shared views.',
+      )
+    }
+
+    const existingViews = await ctx.db
+      .query('views')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+      .collect()
+    const order = existingViews.reduce((max, view) => Math.max(max, (view.order ?? 0) + 1), 0)
+
+    return await ctx.db.insert('views', {
+      huddleId,
+      label: trimmedLabel,
+      config,
+      order,
+      ownerUserId: isPersonal ? caller.userId : undefined,
+      createdBy: caller.userId,
+      createdAt: new Date().toISOString(),
+    })
+  },
+})
+
+export const updateView = mutation({
+  args: { ...updateViewSchema.fields, guestToken: guestTokenArg },
+  handler: async (ctx, { id, label, config, order, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const view = await ctx.db.get(id)
+    invariant(view, `Missing view ${id}`)
+    await enforceViewEditable(
+      ctx,
+      view,
+      caller,
+      'Only the owner or a facilitator can change shared views.',
+    )
+
+    const updates: Partial<Doc<'views'>> = {}
+    if (label !== undefined) {
+      const trimmedLabel = label.trim()
+      invariant(trimmedLabel.length > 0, 'Give the view a name.')
+      updates.label = trimmedLabel
+    }
+    if (config !== undefined) {
+      updates.config = config
+    }
+    if (order !== undefined) {
+      updates.order = order
+    }
+    await ctx.db.patch(id, updates)
+    return id
+  },
+})
+
+export const deleteView = mutation({
+  args: {
+    id: v.id('views'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { id, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const view = await ctx.db.get(id)
+    if (!view) {
+      return
+    }
+    await enforceViewEditable(
+      ctx,
+      view,
+      caller,
+      'Only the owner or a facilitator can delete shared views.',
+    )
+    await ctx.db.delete(id)
   },
 })
 
 export const listTranscriptChunks = query({
-  args: { huddleId: v.id('huddles') },
-  handler: async (ctx, { huddleId }) => {
-    await ensureHuddleById(ctx, huddleId)
+  args: { huddleId: v.id('huddles'), guestToken: guestTokenArg },
+  handler: async (ctx, { huddleId, guestToken }) => {
+    if (!(await getReadableHuddle(ctx, huddleId, guestToken))) {
+      return []
+    }
     const chunks = await ctx.db
       .query('transcriptChunks')
       .withIndex('by_huddle_sequence', (q) => q.eq('huddleId', huddleId))
@@ -1327,9 +4432,20 @@ export const clear = internalMutation(async (ctx) => {
     'huddles',
     'participants',
     'planningItems',
+    'planningItemDependencies',
+    'planningItemKeyAliases',
+    'planningItemRevisions',
+    'planningItemComments',
+    'pendingActions',
+    'votingRounds',
+    'votes',
     'presence',
     'transcriptChunks',
+    'transcriptCounters',
     'views',
+    'huddleSeries',
+    'workspaces',
+    'workspaceMembers',
   ] as const
 
   for (const tableName of tableNames) {
@@ -1360,9 +4476,17 @@ export const createResearchResult = mutation({
       v.literal('failed')
     ),
     error: v.optional(v.string()),
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, args) => {
-    await ensureHuddleById(ctx, args.huddleId)
+  handler: async (ctx, { guestToken, ...args }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    await enforceHuddlePermission(
+      ctx,
+      await ensureHuddleById(ctx, args.huddleId),
+      caller,
+      'research',
+      'Your role in this huddle cannot start research.',
+    )
     const now = new Date().toISOString()
     return await ctx.db.insert('researchResults', {
       ...args,
@@ -1393,9 +4517,19 @@ export const updateResearchResult = mutation({
     ),
     error: v.optional(v.string()),
     rawResponse: v.optional(v.any()), // Full Firecrawl response for dev debugging
+    guestToken: guestTokenArg,
   },
-  handler: async (ctx, args) => {
-    const { id, ...updates } = args
+  handler: async (ctx, { id, guestToken, ...updates }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const existing = await ctx.db.get(id)
+    invariant(existing, `Missing research result ${id}`)
+    await enforceHuddlePermission(
+      ctx,
+      await ensureHuddleById(ctx, existing.huddleId),
+      caller,
+      'research',
+      'Your role in this huddle cannot update research.',
+    )
     const now = new Date().toISOString()
     await ctx.db.patch(id, {
       ...updates,
@@ -1407,6 +4541,7 @@ export const updateResearchResult = mutation({
 export const getResearchResult = query({
   args: {
     planningItemId: v.id('planningItems'),
+    guestToken: guestTokenArg,
   },
   handler: async (ctx, args) => {
     const result = await ctx.db
@@ -1415,6 +4550,9 @@ export const getResearchResult = query({
         q.eq('planningItemId', args.planningItemId)
       )
       .first()
+    if (!result || !(await getReadableHuddle(ctx, result.huddleId, args.guestToken))) {
+      return null
+    }
     return result
   },
 })
@@ -1422,8 +4560,12 @@ export const getResearchResult = query({
 export const getAllResearchResults = query({
   args: {
     huddleId: v.id('huddles'),
+    guestToken: guestTokenArg,
   },
   handler: async (ctx, args) => {
+    if (!(await getReadableHuddle(ctx, args.huddleId, args.guestToken))) {
+      return {}
+    }
     const results = await ctx.db
       .query('researchResults')
       .withIndex('by_huddle', (q) => q.eq('huddleId', args.huddleId))
@@ -1460,10 +4602,19 @@ export const resetAllHuddlesDev = mutation({
     const tables = [
       'participants',
       'planningItems',
+      'planningItemDependencies',
+      'planningItemKeyAliases',
+      'planningItemRevisions',
+      'planningItemComments',
+      'pendingActions',
+      'votingRounds',
+      'votes',
       'presence',
       'transcriptChunks',
+      'transcriptCounters',
       'views',
       'huddles',
+      'huddleSeries',
       'researchResults',
     ] as const
 
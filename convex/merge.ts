@@ -0,0 +1,100 @@
+import type { Doc, Id } from './_generated/dataModel'
+
+export type MergeablePlanningItem = Pick<
+  Doc<'planningItems'>,
+  '_id' | 'type' | 'text' | 'metadata' | 'blockedBy' | 'dueDate' | 'assigneeUserIds'
+>
+
+function unique<T>(values: Iterable<T>) {
+  return [...new Set(values)]
+}
+
+/**
+ * Every key AI actions may use for an item: its own itemKey followed by the keys of the
+ * items merged into it.
+ */
+export function getPlanningItemKeys(metadata: unknown) {
+  if (!metadata || typeof metadata !== 'object') {
+    return []
+  }
+  const { itemKey, itemKeyAliases } = metadata as { itemKey?: unknown; itemKeyAliases?: unknown }
+  const aliases = Array.isArray(itemKeyAliases)
+    ? itemKeyAliases.filter((alias): alias is string => typeof alias === 'string')
+    : []
+  return unique([...(typeof itemKey === 'string' ? [itemKey] : []), ...aliases])
+}
+
+/**
+ * The most descriptive text among the merged items: the longest once whitespace is
+ * collapsed, preferring the item listed first on a tie.
+ */
+export function pickMergedText(items: ReadonlyArray<Pick<Doc<'planningItems'>, 'text'>>) {
+  let best = ''
+  for (const item of items) {
+    const text = item.text.replace(/\s+/g, ' ').trim()
+    if (text.length > best.length) {
+      best = text
+    }
+  }
+  return best
+}
+
+/**
+ * Rewrite a blockedBy list after a merge: merged-away ids point at the target, and
+ * self references and duplicates are dropped.
+ */
+export function repointBlockedBy(
+  itemId: Id<'planningItems'>,
+  blockedBy: ReadonlyArray<Id<'planningItems'>>,
+  mergedIds: ReadonlySet<Id<'planningItems'>>,
+  targetId: Id<'planningItems'>,
+) {
+  return unique(blockedBy.map((id) => (mergedIds.has(id) ? targetId : id))).filter(
+    (id) => id !== itemId,
+  )
+}
+
+/**
+ * The fields of the item that survives a merge. Its blockedBy is the union of every merged
+ * item's edges and still needs validating against the rest of the board.
+ */
+export function buildMergedItem(
+  target: MergeablePlanningItem,
+  sources: ReadonlyArray<MergeablePlanningItem>,
+  text?: string,
+) {
+  const mergedIds = new Set(sources.map((source) => source._id))
+  const items = [target, ...sources]
+  const targetKey = (target.metadata as { itemKey?: unknown } | undefined)?.itemKey
+  const itemKeyAliases = unique(items.flatMap((item) => getPlanningItemKeys(item.metadata))).filter(
+    (key) => key !== targetKey,
+  )
+  const isTask = target.type === 'task'
+  const assigneeUserIds = isTask
+    ? unique(items.flatMap((item) => (item.type === 'task' ? (item.assigneeUserIds ?? []) : [])))
+    : []
+  // The earliest deadline of the merged tasks, unless the target already has one
+  const dueDate = isTask
+    ? (target.dueDate ??
+      sources
+        .flatMap((source) => (source.type === 'task' && source.dueDate ? [source.dueDate] : []))
+        .sort()[0])
+    : undefined
+  const blockedBy = repointBlockedBy(
+    target._id,
+    items.flatMap((item) => item.blockedBy ?? []),
+    mergedIds,
+    target._id,
+  )
+
+  return {
+    text: text?.trim() || pickMergedText(items),
+    metadata: {
+      ...(target.metadata && typeof target.metadata === 'object' ? target.metadata : {}),
+      ...(itemKeyAliases.length > 0 ? { itemKeyAliases } : {}),
+    },
+    blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+    dueDate,
+    assigneeUserIds: assigneeUserIds.length > 0 ? assigneeUserIds : undefined,
+  }
+}
@@ -0,0 +1,76 @@
+import invariant from 'tiny-invariant'
+import type { QueryCtx } from './_generated/server'
+import type { Doc } from './_generated/dataModel'
+import type { HuddleRole } from './schema'
+import { type Caller, isCaller } from './sessions'
+
+/**
+ * The roles allowed to perform each action inside a huddle.
+ */
+export const HUDDLE_PERMISSIONS = {
+  // Create, edit, delete and restore planning items by hand
+  editItems: ['owner', 'facilitator', 'editor'],
+  // Record voice turns that the assistant turns into board changes
+  speak: ['owner', 'facilitator', 'editor', 'contributor'],
+  vote: ['owner', 'facilitator', 'editor', 'contributor'],
+  comment: ['owner', 'facilitator', 'editor', 'contributor', 'viewer'],
+  research: ['owner', 'facilitator', 'editor'],
+  // Start, end and rename the huddle, run voting rounds, review AI suggestions and moderate comments
+  facilitate: ['owner', 'facilitator'],
+  exportToLinear: ['owner', 'facilitator'],
+  manageRoles: ['owner', 'facilitator'],
+  // Private links, invite-only mode and the invite list
+  changePrivacy: ['owner'],
+  deleteHuddle: ['owner'],
+} as const satisfies Record<string, ReadonlyArray<HuddleRole>>
+
+export type HuddlePermission = keyof typeof HUDDLE_PERMISSIONS
+
+export function hasHuddlePermission(role: HuddleRole | null, permission: HuddlePermission) {
+  const allowed: ReadonlyArray<HuddleRole> = HUDDLE_PERMISSIONS[permission]
+  return role !== null && allowed.includes(role)
+}
+
+/**
+ * Resolve the caller's role in a huddle, or null when they have never joined or observed it.
+ * Observers act as viewers until they join, whatever role they were given.
+ */
+export async function getHuddleRole(
+  ctx: QueryCtx,
+  huddle: Doc<'huddles'>,
+  caller: Caller,
+): Promise<HuddleRole | null> {
+  if (isCaller(caller, huddle.createdBy)) {
+    return 'owner'
+  }
+
+  const participant = await ctx.db
+    .query('participants')
+    .withIndex('by_huddle_user', (q) =>
+      q.eq('huddleId', huddle._id).eq('userId', caller.userId),
+    )
+    .unique()
+  if (!participant) {
+    return null
+  }
+
+  if ((participant.role ?? '').toLowerCase() === 'observer') {
+    return 'viewer'
+  }
+  return participant.huddleRole ?? 'editor'
+}
+
+/**
+ * Throw unless the caller's role in the huddle grants the permission.
+ */
+export async function enforceHuddlePermission(
+  ctx: QueryCtx,
+  huddle: Doc<'huddles'>,
+  caller: Caller,
+  permission: HuddlePermission,
+  errorMessage: string,
+) {
+  const role = await getHuddleRole(ctx, huddle, caller)
+  invariant(hasHuddlePermission(role, permission), errorMessage)
+  return role as HuddleRole
+}
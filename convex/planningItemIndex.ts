@@ -0,0 +1,124 @@
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+import { getPlanningItemKeys } from './merge'
+
+/**
+ * The key AI actions use for an item, as recorded in its metadata. Stored again in the
+ * indexed itemKey column so keys resolve without reading the board.
+ */
+export function getMetadataItemKey(metadata: unknown) {
+  const itemKey = (metadata as { itemKey?: unknown } | null | undefined)?.itemKey
+  return typeof itemKey === 'string' ? itemKey : undefined
+}
+
+/**
+ * Resolve an AI item key to the item it names: the newest item with that key, or failing
+ * that the item another item with that key was merged into.
+ */
+export async function findPlanningItemIdByKey(
+  ctx: QueryCtx,
+  huddleId: Id<'huddles'>,
+  itemKey: string,
+) {
+  const item = await ctx.db
+    .query('planningItems')
+    .withIndex('by_huddle_item_key', (q) => q.eq('huddleId', huddleId).eq('itemKey', itemKey))
+    .order('desc')
+    .first()
+  if (item) {
+    return item._id
+  }
+  const alias = await ctx.db
+    .query('planningItemKeyAliases')
+    .withIndex('by_huddle_item_key', (q) => q.eq('huddleId', huddleId).eq('itemKey', itemKey))
+    .order('desc')
+    .first()
+  return alias?.planningItemId ?? null
+}
+
+async function syncItemKeyAliases(
+  ctx: MutationCtx,
+  item: Pick<Doc<'planningItems'>, '_id' | 'huddleId'>,
+  itemKeys: ReadonlyArray<string>,
+) {
+  const wanted = new Set(itemKeys)
+  const existing = await ctx.db
+    .query('planningItemKeyAliases')
+    .withIndex('by_planning_item', (q) => q.eq('planningItemId', item._id))
+    .collect()
+  for (const alias of existing) {
+    if (!wanted.delete(alias.itemKey)) {
+      await ctx.db.delete(alias._id)
+    }
+  }
+  for (const itemKey of wanted) {
+    await ctx.db.insert('planningItemKeyAliases', {
+      huddleId: item.huddleId,
+      itemKey,
+      planningItemId: item._id,
+    })
+  }
+}
+
+async function syncItemDependencies(
+  ctx: MutationCtx,
+  item: Pick<Doc<'planningItems'>, '_id' | 'huddleId' | 'blockedBy'>,
+) {
+  const wanted = new Set(item.blockedBy ?? [])
+  const existing = await ctx.db
+    .query('planningItemDependencies')
+    .withIndex('by_item', (q) => q.eq('itemId', item._id))
+    .collect()
+  for (const edge of existing) {
+    if (!wanted.delete(edge.blockerId)) {
+      await ctx.db.delete(edge._id)
+    }
+  }
+  for (const blockerId of wanted) {
+    await ctx.db.insert('planningItemDependencies', {
+      huddleId: item.huddleId,
+      itemId: item._id,
+      blockerId,
+    })
+  }
+}
+
+/**
+ * Bring the indexes derived from a planning item up to date: its itemKey column, its
+ * planningItemDependencies rows and its planningItemKeyAliases rows. Call after every write
+ * that inserts or deletes an item or changes its blockedBy or metadata.
+ * Rows of other items that still list a deleted item in blockedBy are kept, like the lists.
+ */
+export async function syncPlanningItemIndexes(
+  ctx: MutationCtx,
+  huddleId: Id<'huddles'>,
+  itemId: Id<'planningItems'>,
+) {
+  const item = await ctx.db.get(itemId)
+  if (!item) {
+    await syncItemDependencies(ctx, { _id: itemId, huddleId, blockedBy: undefined })
+    await syncItemKeyAliases(ctx, { _id: itemId, huddleId }, [])
+    return
+  }
+  const itemKey = getMetadataItemKey(item.metadata)
+  if (item.itemKey !== itemKey) {
+    await ctx.db.patch(itemId, { itemKey })
+  }
+  await syncItemDependencies(ctx, item)
+  await syncItemKeyAliases(
+    ctx,
+    item,
+    getPlanningItemKeys(item.metadata).filter((key) => key !== itemKey),
+  )
+}
+
+/**
+ * Ids of the items whose blockedBy lists `blockerId`.
+ */
+export async function listDependentItemIds(ctx: QueryCtx, blockerId: Id<'planningItems'>) {
+  const edges = await ctx.db
+    .query('planningItemDependencies')
+    .withIndex('by_blocker', (q) => q.eq('blockerId', blockerId))
+    .collect()
+  return edges.map((edge) => edge.itemId)
+}
@@ -0,0 +1,302 @@
+import invariant from 'tiny-invariant'
+import { v } from 'convex/values'
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from './_generated/server'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import { enforceHuddlePermission, getHuddleRole, hasHuddlePermission } from './permissions'
+import { getCaller, guestTokenArg, requireCaller } from './sessions'
+import { enforceWorkspaceRole } from './workspaces'
+
+const MIN_RETENTION_DAYS = 1
+const MAX_RETENTION_DAYS = 3650
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const PURGE_HUDDLE_BATCH_SIZE = 10
+// Keeps each purge mutation well inside Convex's write limits; the rest waits for a rerun
+const PURGE_CHUNK_LIMIT = 200
+
+const retentionDaysArg = v.union(v.number(), v.null())
+
+export type TranscriptPurgeReport = {
+  huddleId: Id<'huddles'>
+  huddleName: string
+  retentionDays: number
+  cutoff: string
+  transcriptChunks: number
+  audioFiles: number
+  // Review queue entries of the expired chunks, whether resolved or not
+  pendingActions: number
+  researchPayloads: number
+  // More expired chunks remain than one batch removes
+  hasMore: boolean
+}
+
+export type TranscriptPurgeResult = {
+  reports: TranscriptPurgeReport[]
+  // Where a dry run stopped; pass it back to report on the next huddles. Null once all are visited
+  cursor: string | null
+}
+
+function normalizeRetentionDays(days: number | null) {
+  if (days === null) {
+    return undefined
+  }
+  invariant(
+    Number.isInteger(days) && days >= MIN_RETENTION_DAYS && days <= MAX_RETENTION_DAYS,
+    `Retention must be a whole number of days between ${MIN_RETENTION_DAYS} and ${MAX_RETENTION_DAYS}.`,
+  )
+  return days
+}
+
+/**
+ * The retention that applies to a huddle: the shorter of its own and its workspace's,
+ * or null when neither sets one and transcripts are kept forever.
+ */
+export function getTranscriptRetentionDays(
+  huddle: Pick<Doc<'huddles'>, 'transcriptRetentionDays'>,
+  workspace: Pick<Doc<'workspaces'>, 'transcriptRetentionDays'> | null,
+) {
+  const limits = [huddle.transcriptRetentionDays, workspace?.transcriptRetentionDays].filter(
+    (days) => days !== undefined,
+  )
+  return limits.length > 0 ? Math.min(...limits) : null
+}
+
+export function getRetentionCutoff(retentionDays: number, now: number) {
+  return now - retentionDays * DAY_MS
+}
+
+function getAudioStorageId(chunk: Doc<'transcriptChunks'>) {
+  const metadata = chunk.metadata as { audio?: { storageId?: string } } | undefined
+  return metadata?.audio?.storageId
+}
+
+/**
+ * Transcript chunks, the review queue entries that point at them and research payloads of a
+ * huddle created before the cutoff. Ages come from the stored createdAt rather than
+ * _creationTime, which an import resets. Planning items, including summaries, are never touched.
+ */
+async function findExpiredTranscriptData(ctx: QueryCtx, huddleId: Id<'huddles'>, cutoff: number) {
+  const cutoffIso = new Date(cutoff).toISOString()
+  const chunks = await ctx.db
+    .query('transcriptChunks')
+    .withIndex('by_huddle_created_at', (q) => q.eq('huddleId', huddleId).lt('createdAt', cutoffIso))
+    .take(PURGE_CHUNK_LIMIT + 1)
+  const expiredChunks = chunks.slice(0, PURGE_CHUNK_LIMIT)
+  const pendingActions: Array<Doc<'pendingActions'>> = []
+  for (const chunk of expiredChunks) {
+    pendingActions.push(
+      ...(await ctx.db
+        .query('pendingActions')
+        .withIndex('by_chunk', (q) => q.eq('chunkId', chunk._id))
+        .collect()),
+    )
+  }
+  const researchResults = (
+    await ctx.db
+      .query('researchResults')
+      .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+      .collect()
+  ).filter((result) => result.createdAt < cutoffIso && result.rawResponse !== undefined)
+  return {
+    chunks: expiredChunks,
+    pendingActions,
+    researchResults,
+    hasMore: chunks.length > PURGE_CHUNK_LIMIT,
+  }
+}
+
+async function buildPurgeReport(
+  ctx: QueryCtx,
+  huddle: Doc<'huddles'>,
+  retentionDays: number,
+  now: number,
+) {
+  const cutoff = getRetentionCutoff(retentionDays, now)
+  const expired = await findExpiredTranscriptData(ctx, huddle._id, cutoff)
+  const report: TranscriptPurgeReport = {
+    huddleId: huddle._id,
+    huddleName: huddle.name,
+    retentionDays,
+    cutoff: new Date(cutoff).toISOString(),
+    transcriptChunks: expired.chunks.length,
+    audioFiles: expired.chunks.filter((chunk) => getAudioStorageId(chunk) !== undefined).length,
+    pendingActions: expired.pendingActions.length,
+    researchPayloads: expired.researchResults.length,
+    hasMore: expired.hasMore,
+  }
+  return { report, expired }
+}
+
+async function purgeHuddleTranscripts(
+  ctx: MutationCtx,
+  huddle: Doc<'huddles'>,
+  retentionDays: number,
+  { dryRun, now }: { dryRun: boolean; now: number },
+) {
+  const { report, expired } = await buildPurgeReport(ctx, huddle, retentionDays, now)
+  if (dryRun) {
+    return report
+  }
+  for (const pendingAction of expired.pendingActions) {
+    await ctx.db.delete(pendingAction._id)
+  }
+  for (const chunk of expired.chunks) {
+    const storageId = getAudioStorageId(chunk)
+    const normalizedStorageId = storageId
+      ? ctx.db.system.normalizeId('_storage', storageId)
+      : null
+    if (normalizedStorageId && (await ctx.db.system.get(normalizedStorageId))) {
+      await ctx.storage.delete(normalizedStorageId)
+    }
+    await ctx.db.delete(chunk._id)
+  }
+  for (const result of expired.researchResults) {
+    await ctx.db.patch(result._id, { rawResponse: undefined })
+  }
+  return report
+}
+
+/**
+ * Delete transcript chunks, their recorded audio and review queue entries, and raw research
+ * payloads that are older than each huddle's retention, and return what was deleted from
+ * each huddle. Runs nightly from crons.ts and reschedules itself until every huddle has been
+ * visited. For a report of what would be deleted without deleting anything, run
+ * `npx convex run retention:purgeExpiredTranscripts '{"dryRun": true}'` and rerun it with the
+ * returned cursor until that is null.
+ */
+export const purgeExpiredTranscripts = internalMutation({
+  args: {
+    dryRun: v.optional(v.boolean()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { dryRun = false, cursor }): Promise<TranscriptPurgeResult> => {
+    const now = Date.now()
+    const result = await ctx.db.query('huddles').paginate({
+      numItems: PURGE_HUDDLE_BATCH_SIZE,
+      cursor: cursor ?? null,
+    })
+    const workspaces = new Map<Id<'workspaces'>, Doc<'workspaces'> | null>()
+    const reports: TranscriptPurgeReport[] = []
+    for (const huddle of result.page) {
+      let workspace: Doc<'workspaces'> | null = null
+      if (huddle.workspaceId) {
+        if (!workspaces.has(huddle.workspaceId)) {
+          workspaces.set(huddle.workspaceId, await ctx.db.get(huddle.workspaceId))
+        }
+        workspace = workspaces.get(huddle.workspaceId) ?? null
+      }
+      const retentionDays = getTranscriptRetentionDays(huddle, workspace)
+      if (retentionDays === null) {
+        continue
+      }
+      const report = await purgeHuddleTranscripts(ctx, huddle, retentionDays, { dryRun, now })
+      if (report.transcriptChunks > 0 || report.researchPayloads > 0) {
+        reports.push(report)
+      }
+    }
+
+    const nextCursor = result.isDone ? null : result.continueCursor
+    if (dryRun) {
+      return { reports, cursor: nextCursor }
+    }
+
+    // A huddle with more expired chunks than one batch gets its page revisited
+    const isPageDone = !reports.some((report) => report.hasMore)
+    if (!isPageDone || nextCursor !== null) {
+      await ctx.scheduler.runAfter(0, internal.retention.purgeExpiredTranscripts, {
+        cursor: isPageDone ? nextCursor : cursor,
+      })
+    }
+    return { reports, cursor: null }
+  },
+})
+
+/**
+ * A huddle's retention settings for facilitators, with a preview of what the next purge
+ * would delete under `retentionDays` (or the current retention when omitted).
+ */
+export const getHuddleRetention = query({
+  args: {
+    huddleId: v.id('huddles'),
+    retentionDays: v.optional(retentionDaysArg),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, retentionDays, guestToken }) => {
+    const caller = await getCaller(ctx, guestToken)
+    const huddle = await ctx.db.get(huddleId)
+    if (!caller || !huddle) {
+      return null
+    }
+    const role = await getHuddleRole(ctx, huddle, caller)
+    if (!hasHuddlePermission(role, 'facilitate')) {
+      return null
+    }
+    const workspace = huddle.workspaceId ? await ctx.db.get(huddle.workspaceId) : null
+    const huddleRetentionDays =
+      retentionDays === undefined ? huddle.transcriptRetentionDays : (retentionDays ?? undefined)
+    const previewDays = getTranscriptRetentionDays(
+      { transcriptRetentionDays: huddleRetentionDays },
+      workspace,
+    )
+    return {
+      huddleRetentionDays: huddle.transcriptRetentionDays ?? null,
+      workspaceRetentionDays: workspace?.transcriptRetentionDays ?? null,
+      effectiveRetentionDays: previewDays,
+      preview:
+        previewDays === null
+          ? null
+          : (await buildPurgeReport(ctx, huddle, previewDays, Date.now())).report,
+    }
+  },
+})
+
+export const setHuddleRetention = mutation({
+  args: {
+    huddleId: v.id('huddles'),
+    retentionDays: retentionDaysArg,
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { huddleId, retentionDays, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const huddle = await ctx.db.get(huddleId)
+    invariant(huddle, `Missing huddle ${huddleId}`)
+    await enforceHuddlePermission(
+      ctx,
+      huddle,
+      caller,
+      'facilitate',
+      'Only facilitators can change how long transcripts are kept.',
+    )
+    await ctx.db.patch(huddleId, {
+      transcriptRetentionDays: normalizeRetentionDays(retentionDays),
+    })
+  },
+})
+
+export const setWorkspaceRetention = mutation({
+  args: {
+    workspaceId: v.id('workspaces'),
+    retentionDays: retentionDaysArg,
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { workspaceId, retentionDays, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    await enforceWorkspaceRole(
+      ctx,
+      workspaceId,
+      caller,
+      ['owner'],
+      'Only workspace owners can change how long transcripts are kept.',
+    )
+    await ctx.db.patch(workspaceId, {
+      transcriptRetentionDays: normalizeRetentionDays(retentionDays),
+    })
+  },
+})
@@ -1,6 +1,151 @@
 import { defineSchema, defineTable } from 'convex/server'
 import { type Infer, v } from 'convex/values'
 
+const planningItemType = v.union(
+  v.literal('idea'),
+  v.literal('task'),
+  v.literal('dependency'),
+  v.literal('owner'),
+  v.literal('risk'),
+  v.literal('outcome'),
+  v.literal('decision'),
+  v.literal('summary'),
+  // One of the huddle's customItemTypes, named by the item's customType
+  v.literal('custom')
+)
+
+// Lifecycle of task items; other item types never carry a status
+const taskStatus = v.union(
+  v.literal('todo'),
+  v.literal('in_progress'),
+  v.literal('done'),
+  v.literal('cancelled')
+)
+
+// Owners manage the workspace and its members; admins manage members; members see and create huddles
+const workspaceRole = v.union(
+  v.literal('owner'),
+  v.literal('admin'),
+  v.literal('member')
+)
+
+// What someone may do inside a huddle. The owner is always huddles.createdBy and is never stored;
+// contributors add to the board by speaking only and viewers are read-only
+const huddleRole = v.union(
+  v.literal('owner'),
+  v.literal('facilitator'),
+  v.literal('editor'),
+  v.literal('contributor'),
+  v.literal('viewer')
+)
+
+// The editable fields of a planning item, captured before/after each revision
+const planningItemSnapshot = v.object({
+  type: planningItemType,
+  text: v.string(),
+  order: v.optional(v.number()),
+  blockedBy: v.optional(v.array(v.id('planningItems'))),
+  status: v.optional(taskStatus),
+  dueDate: v.optional(v.string()),
+  completedAt: v.optional(v.string()),
+  assigneeUserIds: v.optional(v.array(v.string())),
+  customType: v.optional(v.string()),
+})
+
+// Planning actions produced by transcript analysis, applied directly or queued for review
+const voiceCreateActionSchema = v.object({
+  kind: v.literal('createItem'),
+  itemKey: v.string(),
+  type: planningItemType,
+  customType: v.optional(v.string()),
+  text: v.string(),
+  speakerLabel: v.optional(v.string()),
+  blockedByKeys: v.optional(v.array(v.string())),
+  needsResearch: v.optional(v.union(v.boolean(), v.null())),
+  status: v.optional(taskStatus),
+  dueDate: v.optional(v.string()),
+  assigneeUserIds: v.optional(v.array(v.string())),
+})
+
+const voiceUpdateActionSchema = v.object({
+  kind: v.literal('updateItem'),
+  targetKey: v.string(),
+  patch: v.object({
+    text: v.optional(v.string()),
+    blockedByKeys: v.optional(v.array(v.string())),
+    status: v.optional(taskStatus),
+    dueDate: v.optional(v.string()),
+    assigneeUserIds: v.optional(v.array(v.string())),
+  }),
+})
+
+const voiceRemoveActionSchema = v.object({
+  kind: v.literal('removeItem'),
+  targetKey: v.string(),
+})
+
+export const voiceActionSchema = v.union(
+  voiceCreateActionSchema,
+  voiceUpdateActionSchema,
+  voiceRemoveActionSchema
+)
+
+// Board shape a huddle starts from. Column labels and empty-state copy are keyed by planning item type
+const huddleTemplateSettings = {
+  columnLabels: v.optional(v.record(v.string(), v.string())),
+  emptyMessages: v.optional(v.record(v.string(), v.string())),
+  // Appended to the transcript analysis prompt for huddles created from the template
+  promptInstructions: v.optional(v.string()),
+  agenda: v.optional(v.array(v.string())),
+}
+
+// A saved board layout: which items show, how they are grouped into columns and in what order
+const boardViewConfig = v.object({
+  types: v.optional(v.array(planningItemType)),
+  speakers: v.optional(v.array(v.string())),
+  assigneeUserIds: v.optional(v.array(v.string())),
+  // Hashtags written in item text, stored lowercase without the leading '#'
+  tags: v.optional(v.array(v.string())),
+  blocked: v.optional(v.union(v.literal('blocked'), v.literal('unblocked'))),
+  groupBy: v.optional(
+    v.union(v.literal('type'), v.literal('speaker'), v.literal('assignee'), v.literal('status'))
+  ),
+  sortBy: v.optional(
+    v.union(v.literal('manual'), v.literal('newest'), v.literal('oldest'), v.literal('dueDate'))
+  ),
+  // Column keys of the chosen grouping that are collapsed out of the board
+  hiddenColumns: v.optional(v.array(v.string())),
+})
+
+// Colors a custom item type can use; each maps to a fixed set of Tailwind classes on the client
+const customItemTypeColor = v.union(
+  v.literal('amber'),
+  v.literal('sky'),
+  v.literal('emerald'),
+  v.literal('rose'),
+  v.literal('violet'),
+  v.literal('fuchsia'),
+  v.literal('slate')
+)
+
+// An extra planning item type defined by a huddle or template, e.g. "question" or "kudos"
+export const customItemTypeSchema = v.object({
+  // Lowercase snake_case, unique within the huddle and never a built-in type
+  key: v.string(),
+  label: v.string(),
+  color: customItemTypeColor,
+  // A lucide icon name from the client's custom type icon set
+  icon: v.optional(v.string()),
+  // Tells transcript analysis when to classify an item as this type
+  hint: v.optional(v.string()),
+})
+
+const huddleTemplateItem = v.object({
+  type: planningItemType,
+  customType: v.optional(v.string()),
+  text: v.string(),
+})
+
 const schema = defineSchema({
   users: defineTable({
     name: v.string(),
@@ -29,6 +174,13 @@ const schema = defineSchema({
     .index('by_external_id', ['externalId'])
     .index('by_migrated_guest_id', ['migratedFromGuestId']),
 
+  // Guest clientIds that have been issued a signed session token.
+  // Each guestId can only be claimed once so a leaked participant ID cannot be reused.
+  guestSessions: defineTable({
+    guestId: v.string(),
+    createdAt: v.string(),
+  }).index('by_guest_id', ['guestId']),
+
   huddles: defineTable({
     slug: v.string(),
     name: v.string(),
@@ -50,16 +202,74 @@ const schema = defineSchema({
     // Linear integration: project ID and URL after creating a Linear project
     linearProjectId: v.optional(v.string()),
     linearProjectUrl: v.optional(v.string()),
+    // When true, AI planning actions are queued in pendingActions until the owner reviews them
+    reviewMode: v.optional(v.boolean()),
+    // Settings copied from the template the huddle was created from
+    template: v.optional(
+      v.object({
+        key: v.string(),
+        name: v.string(),
+        ...huddleTemplateSettings,
+      })
+    ),
+    // Recurring huddles: seriesIndex is the occurrence number within the series, starting at 0
+    seriesId: v.optional(v.id('huddleSeries')),
+    seriesIndex: v.optional(v.number()),
+    // Set on huddles created with cloneHuddle
+    clonedFromHuddleId: v.optional(v.id('huddles')),
+    // Huddles without a workspace are listed in the shared personal space
+    workspaceId: v.optional(v.id('workspaces')),
+    // Denormalized from participants so huddle lists never read that table.
+    // Kept in sync by syncParticipantSummary; counts joined participants, not observers
+    participantCount: v.optional(v.number()),
+    participantNames: v.optional(v.array(v.string())),
+    // Extra item types for this huddle, copied from its template and editable by facilitators
+    customItemTypes: v.optional(v.array(customItemTypeSchema)),
+    // Can only shorten the workspace's retention, never extend it
+    transcriptRetentionDays: v.optional(v.number()),
   })
     .index('by_slug', ['slug'])
     .index('by_createdBy', ['createdBy'])
-    .index('by_status', ['status']),
+    .index('by_status', ['status'])
+    .index('by_series', ['seriesId', 'seriesIndex'])
+    .index('by_workspace', ['workspaceId'])
+    .index('by_workspace_status', ['workspaceId', 'status'])
+    .index('by_workspace_creator', ['workspaceId', 'createdBy'])
+    .index('by_workspace_creator_status', ['workspaceId', 'createdBy', 'status']),
+
+  workspaces: defineTable({
+    name: v.string(),
+    createdBy: v.string(),
+    createdAt: v.string(),
+    // Transcript chunks older than this many days are purged nightly; unset keeps them forever
+    transcriptRetentionDays: v.optional(v.number()),
+  }),
+
+  workspaceMembers: defineTable({
+    workspaceId: v.id('workspaces'),
+    userId: v.string(),
+    displayName: v.optional(v.string()),
+    role: workspaceRole,
+    joinedAt: v.string(),
+  })
+    .index('by_workspace', ['workspaceId'])
+    .index('by_user', ['userId'])
+    .index('by_workspace_user', ['workspaceId', 'userId']),
+
+  huddleSeries: defineTable({
+    name: v.string(),
+    createdBy: v.string(),
+    createdAt: v.string(),
+  }),
 
   participants: defineTable({
     huddleId: v.id('huddles'),
     userId: v.string(),
     displayName: v.optional(v.string()),
+    // Presence: 'participant' once joined, 'observer' while only watching
     role: v.optional(v.string()),
+    // Permissions; unset means editor once joined. Observers act as viewers until they join
+    huddleRole: v.optional(huddleRole),
     wasEverParticipant: v.optional(v.boolean()),
     avatarUrl: v.optional(v.string()),
     joinedAt: v.string(),
@@ -70,16 +280,9 @@ const schema = defineSchema({
 
   planningItems: defineTable({
     huddleId: v.id('huddles'),
-    type: v.union(
-      v.literal('idea'),
-      v.literal('task'),
-      v.literal('dependency'),
-      v.literal('owner'),
-      v.literal('risk'),
-      v.literal('outcome'),
-      v.literal('decision'),
-      v.literal('summary')
-    ),
+    type: planningItemType,
+    // Key of one of the huddle's customItemTypes; only set when type is 'custom'
+    customType: v.optional(v.string()),
     text: v.string(),
     timestamp: v.string(),
     speakerId: v.optional(v.string()),
@@ -87,10 +290,152 @@ const schema = defineSchema({
     metadata: v.optional(v.any()),
     order: v.optional(v.number()),
     blockedBy: v.optional(v.array(v.id('planningItems'))),
+    // Task lifecycle. dueDate is a calendar date (YYYY-MM-DD); completedAt is set when status becomes done
+    status: v.optional(taskStatus),
+    dueDate: v.optional(v.string()),
+    completedAt: v.optional(v.string()),
+    // participants.userId of the people responsible for a task
+    assigneeUserIds: v.optional(v.array(v.string())),
+    // Set on items carried over from the previous occurrence of a huddle series.
+    // seriesOriginItemId is the item in the occurrence where it first appeared
+    carriedFromItemId: v.optional(v.id('planningItems')),
+    seriesOriginItemId: v.optional(v.id('planningItems')),
+    // Set on items copied by cloneHuddle: the item in the huddle that was cloned
+    clonedFromItemId: v.optional(v.id('planningItems')),
+    // Indexed copy of metadata.itemKey, the key AI actions use to refer to the item
+    itemKey: v.optional(v.string()),
   })
     .index('by_huddle', ['huddleId'])
     .index('by_huddle_type', ['huddleId', 'type'])
-    .index('by_huddle_order', ['huddleId', 'order']),
+    .index('by_huddle_order', ['huddleId', 'order'])
+    .index('by_huddle_item_key', ['huddleId', 'itemKey'])
+    .searchIndex('search_text', {
+      searchField: 'text',
+      filterFields: ['huddleId', 'type'],
+    }),
+
+  // One row per planningItems.blockedBy edge, so the items waiting on a task can be found
+  // without reading the whole board. Kept in step by syncItemDependencies
+  planningItemDependencies: defineTable({
+    huddleId: v.id('huddles'),
+    itemId: v.id('planningItems'),
+    blockerId: v.id('planningItems'),
+  })
+    .index('by_item', ['itemId'])
+    .index('by_blocker', ['blockerId'])
+    .index('by_huddle', ['huddleId']),
+
+  // Keys of items merged into another one; AI actions that still name them resolve to it
+  planningItemKeyAliases: defineTable({
+    huddleId: v.id('huddles'),
+    itemKey: v.string(),
+    planningItemId: v.id('planningItems'),
+  })
+    .index('by_huddle_item_key', ['huddleId', 'itemKey'])
+    .index('by_planning_item', ['planningItemId']),
+
+  planningItemRevisions: defineTable({
+    huddleId: v.id('huddles'),
+    // Not a live reference: the item may have been deleted since
+    planningItemId: v.id('planningItems'),
+    action: v.union(
+      v.literal('created'),
+      v.literal('updated'),
+      v.literal('deleted'),
+      v.literal('restored')
+    ),
+    actor: v.union(
+      v.object({
+        kind: v.literal('user'),
+        userId: v.string(),
+        displayName: v.optional(v.string()),
+      }),
+      v.object({
+        kind: v.literal('ai'),
+        requestId: v.optional(v.string()),
+        sourceChunkId: v.optional(v.id('transcriptChunks')),
+        speakerId: v.optional(v.string()),
+      }),
+      // Server-side writes without a caller (e.g. generated summaries)
+      v.object({
+        kind: v.literal('system'),
+      })
+    ),
+    before: v.optional(planningItemSnapshot),
+    after: v.optional(planningItemSnapshot),
+    restoredFromRevisionId: v.optional(v.id('planningItemRevisions')),
+    createdAt: v.string(),
+  })
+    .index('by_planning_item', ['planningItemId', 'createdAt'])
+    .index('by_huddle', ['huddleId']),
+
+  planningItemComments: defineTable({
+    huddleId: v.id('huddles'),
+    // Not a live reference: comments are kept if the item is deleted
+    planningItemId: v.id('planningItems'),
+    // Replies point at the top-level comment of their thread
+    parentCommentId: v.optional(v.id('planningItemComments')),
+    authorId: v.string(),
+    authorName: v.optional(v.string()),
+    body: v.string(),
+    // participants.userId of everyone @mentioned in the body
+    mentionedUserIds: v.array(v.string()),
+    createdAt: v.string(),
+    editedAt: v.optional(v.string()),
+    // Deleted comments keep their place in the thread so replies stay attached
+    deletedAt: v.optional(v.string()),
+  })
+    .index('by_planning_item', ['planningItemId', 'createdAt'])
+    .index('by_huddle', ['huddleId']),
+
+  // Dot voting on ideas. Only one round per huddle is open at a time; closing it locks the results.
+  votingRounds: defineTable({
+    huddleId: v.id('huddles'),
+    status: v.union(v.literal('open'), v.literal('closed')),
+    votesPerParticipant: v.number(),
+    // When true, tallies are shown without revealing who voted for what
+    isAnonymous: v.boolean(),
+    startedBy: v.string(),
+    startedAt: v.string(),
+    closedAt: v.optional(v.string()),
+    // Ideas already promoted to tasks from this round
+    promotedItemIds: v.optional(v.array(v.id('planningItems'))),
+  }).index('by_huddle', ['huddleId', 'startedAt']),
+
+  // One row per dot; a participant may place several dots on the same idea
+  votes: defineTable({
+    huddleId: v.id('huddles'),
+    roundId: v.id('votingRounds'),
+    planningItemId: v.id('planningItems'),
+    userId: v.string(),
+    createdAt: v.string(),
+  })
+    .index('by_round', ['roundId'])
+    .index('by_round_user', ['roundId', 'userId'])
+    .index('by_huddle', ['huddleId']),
+
+  // AI planning actions awaiting review while the huddle is in review mode
+  pendingActions: defineTable({
+    huddleId: v.id('huddles'),
+    chunkId: v.id('transcriptChunks'),
+    action: voiceActionSchema,
+    speakerId: v.string(),
+    speakerLabel: v.string(),
+    conversationId: v.optional(v.string()),
+    requestId: v.optional(v.string()),
+    // Position of the action within its transcript turn
+    order: v.number(),
+    status: v.union(
+      v.literal('pending'),
+      v.literal('accepted'),
+      v.literal('rejected')
+    ),
+    createdAt: v.string(),
+    resolvedAt: v.optional(v.string()),
+    resolvedBy: v.optional(v.string()),
+  })
+    .index('by_huddle_status', ['huddleId', 'status'])
+    .index('by_chunk', ['chunkId']),
 
   presence: defineTable({
     huddleId: v.id('huddles'),
@@ -122,18 +467,41 @@ const schema = defineSchema({
     payload: v.string(),
     createdAt: v.string(),
     metadata: v.optional(v.any()),
+    // Client id of the voice turn; a retried upload with the same id is not applied twice
+    requestId: v.optional(v.string()),
   })
     .index('by_huddle', ['huddleId'])
     .index('by_huddle_sequence', ['huddleId', 'sequence'])
-    .index('by_huddle_source', ['huddleId', 'source']),
+    // Retention compares against createdAt, which survives export and import
+    .index('by_huddle_created_at', ['huddleId', 'createdAt'])
+    .index('by_huddle_request', ['huddleId', 'requestId'])
+    .index('by_huddle_source', ['huddleId', 'source'])
+    .searchIndex('search_payload', {
+      searchField: 'payload',
+      filterFields: ['huddleId'],
+    }),
+
+  // The last transcript sequence handed out in each huddle. Every new chunk bumps this one
+  // document, so concurrent turns get distinct sequences and deleted chunks never free theirs
+  transcriptCounters: defineTable({
+    huddleId: v.id('huddles'),
+    lastSequence: v.number(),
+  }).index('by_huddle', ['huddleId']),
 
   views: defineTable({
     huddleId: v.id('huddles'),
     label: v.string(),
-    filterType: v.string(),
-    config: v.optional(v.any()),
+    // Legacy single filter; board views keep everything in config
+    filterType: v.optional(v.string()),
+    config: v.optional(boardViewConfig),
     order: v.optional(v.number()),
-  }).index('by_huddle', ['huddleId']),
+    // Set on personal views, which only their owner sees; views without it are shared with the huddle
+    ownerUserId: v.optional(v.string()),
+    createdBy: v.optional(v.string()),
+    createdAt: v.optional(v.string()),
+  })
+    .index('by_huddle', ['huddleId'])
+    .index('by_huddle_owner', ['huddleId', 'ownerUserId']),
 
   linearTokens: defineTable({
     userId: v.optional(v.string()), // Legacy: device clientId (deprecated, use linearUserId instead)
@@ -149,6 +517,17 @@ const schema = defineSchema({
     .index('by_linear_user', ['linearUserId'])
     .index('by_linear_email', ['linearUserEmail']),
 
+  // Templates saved by users; built-in templates are defined in the client
+  huddleTemplates: defineTable({
+    ownerId: v.string(),
+    name: v.string(),
+    description: v.optional(v.string()),
+    ...huddleTemplateSettings,
+    customItemTypes: v.optional(v.array(customItemTypeSchema)),
+    items: v.array(huddleTemplateItem),
+    createdAt: v.string(),
+  }).index('by_owner', ['ownerId', 'createdAt']),
+
   researchResults: defineTable({
     planningItemId: v.id('planningItems'),
     huddleId: v.id('huddles'),
@@ -179,8 +558,26 @@ const huddle = schema.tables.huddles.validator
 const participant = schema.tables.participants.validator
 const planningItem = schema.tables.planningItems.validator
 const presenceSession = schema.tables.presence.validator
+const planningItemRevision = schema.tables.planningItemRevisions.validator
+const pendingAction = schema.tables.pendingActions.validator
+const planningItemComment = schema.tables.planningItemComments.validator
+const votingRound = schema.tables.votingRounds.validator
 const transcriptChunk = schema.tables.transcriptChunks.validator
 const view = schema.tables.views.validator
+const huddleTemplate = schema.tables.huddleTemplates.validator
+const huddleSeries = schema.tables.huddleSeries.validator
+const workspace = schema.tables.workspaces.validator
+const researchResult = schema.tables.researchResults.validator
+const workspaceMember = schema.tables.workspaceMembers.validator
+
+export const huddleTemplateSchema = v.object({
+  key: v.string(),
+  name: huddleTemplate.fields.name,
+  description: v.optional(huddleTemplate.fields.description),
+  ...huddleTemplateSettings,
+  customItemTypes: huddleTemplate.fields.customItemTypes,
+  items: huddleTemplate.fields.items,
+})
 
 export const newHuddleSchema = v.object({
   slug: huddle.fields.slug,
@@ -204,6 +601,7 @@ export const newParticipantSchema = v.object({
 export const createPlanningItemSchema = v.object({
   huddleId: planningItem.fields.huddleId,
   type: planningItem.fields.type,
+  customType: planningItem.fields.customType,
   text: planningItem.fields.text,
   timestamp: planningItem.fields.timestamp,
   speakerId: v.optional(planningItem.fields.speakerId),
@@ -211,6 +609,9 @@ export const createPlanningItemSchema = v.object({
   metadata: v.optional(planningItem.fields.metadata),
   order: v.optional(planningItem.fields.order),
   blockedBy: v.optional(planningItem.fields.blockedBy),
+  status: v.optional(planningItem.fields.status),
+  dueDate: v.optional(planningItem.fields.dueDate),
+  assigneeUserIds: v.optional(planningItem.fields.assigneeUserIds),
 })
 
 export const updatePlanningItemSchema = v.object({
@@ -223,6 +624,10 @@ export const updatePlanningItemSchema = v.object({
   metadata: v.optional(planningItem.fields.metadata),
   order: v.optional(planningItem.fields.order),
   blockedBy: v.optional(planningItem.fields.blockedBy),
+  status: v.optional(planningItem.fields.status),
+  // null clears the due date
+  dueDate: v.optional(v.union(v.string(), v.null())),
+  assigneeUserIds: v.optional(planningItem.fields.assigneeUserIds),
 })
 
 export const deletePlanningItemSchema = v.object({
@@ -230,9 +635,9 @@ export const deletePlanningItemSchema = v.object({
   huddleId: planningItem.fields.huddleId,
 })
 
+// Presence userId is derived from the caller, never accepted from the client
 export const updatePresenceSchema = v.object({
   huddleId: presenceSession.fields.huddleId,
-  userId: presenceSession.fields.userId,
   isSpeaking: presenceSession.fields.isSpeaking,
   isRecording: v.optional(presenceSession.fields.isRecording),
   cursor: v.optional(presenceSession.fields.cursor),
@@ -242,12 +647,10 @@ export const updatePresenceSchema = v.object({
 
 export const deletePresenceSchema = v.object({
   huddleId: presenceSession.fields.huddleId,
-  userId: presenceSession.fields.userId,
 })
 
 export const newTranscriptChunkSchema = v.object({
   huddleId: transcriptChunk.fields.huddleId,
-  sequence: transcriptChunk.fields.sequence,
   source: transcriptChunk.fields.source,
   payload: transcriptChunk.fields.payload,
   createdAt: transcriptChunk.fields.createdAt,
@@ -262,14 +665,85 @@ export const deleteTranscriptChunkSchema = v.object({
 export const newViewSchema = v.object({
   huddleId: view.fields.huddleId,
   label: view.fields.label,
-  filterType: view.fields.filterType,
-  config: v.optional(view.fields.config),
+  config: boardViewConfig,
+  // Personal views are only listed for their creator
+  isPersonal: v.optional(v.boolean()),
+})
+
+export const updateViewSchema = v.object({
+  id: v.id('views'),
+  label: v.optional(view.fields.label),
+  config: v.optional(boardViewConfig),
   order: v.optional(view.fields.order),
 })
 
+export const searchHuddlesSchema = v.object({
+  query: v.string(),
+  workspaceId: v.optional(v.id('workspaces')),
+  huddleId: v.optional(v.id('huddles')),
+  // A planning item type, or 'transcript' to only search what was said
+  type: v.optional(v.union(planningItem.fields.type, v.literal('transcript'))),
+  speaker: v.optional(v.string()),
+  // Calendar dates (YYYY-MM-DD), both inclusive
+  from: v.optional(v.string()),
+  to: v.optional(v.string()),
+})
+
+// A huddle serialized for moving between deployments or archiving. Documents point at each
+// other through bundle keys instead of Convex ids, which do not survive the move
+export const huddleBundleSchema = v.object({
+  format: v.literal('huddle-bundle'),
+  version: v.number(),
+  exportedAt: v.string(),
+  huddle: huddle.pick(
+    'name',
+    'createdAt',
+    'theme',
+    'status',
+    'endedAt',
+    'reviewMode',
+    'template',
+    'customItemTypes',
+    'transcriptRetentionDays'
+  ),
+  participants: v.array(participant.omit('huddleId')),
+  planningItems: v.array(
+    planningItem
+      .omit(
+        'huddleId',
+        'itemKey',
+        'blockedBy',
+        'carriedFromItemId',
+        'seriesOriginItemId',
+        'clonedFromItemId'
+      )
+      .extend({ key: v.string(), blockedByKeys: v.optional(v.array(v.string())) })
+  ),
+  transcriptChunks: v.array(transcriptChunk.omit('huddleId').extend({ key: v.string() })),
+  researchResults: v.array(
+    researchResult.omit('huddleId', 'planningItemId').extend({ planningItemKey: v.string() })
+  ),
+  views: v.array(view.omit('huddleId')),
+})
+
 export type Huddle = Infer<typeof huddle>
 export type Participant = Infer<typeof participant>
 export type PlanningItem = Infer<typeof planningItem>
+export type PlanningItemRevision = Infer<typeof planningItemRevision>
+export type PlanningItemSnapshot = Infer<typeof planningItemSnapshot>
+export type TaskStatus = Infer<typeof taskStatus>
+export type PendingAction = Infer<typeof pendingAction>
+export type PlanningItemComment = Infer<typeof planningItemComment>
+export type VotingRound = Infer<typeof votingRound>
 export type PresenceSession = Infer<typeof presenceSession>
 export type TranscriptChunk = Infer<typeof transcriptChunk>
 export type View = Infer<typeof view>
+export type BoardViewConfig = Infer<typeof boardViewConfig>
+export type HuddleTemplate = Infer<typeof huddleTemplate>
+export type CustomItemType = Infer<typeof customItemTypeSchema>
+export type HuddleSeries = Infer<typeof huddleSeries>
+export type Workspace = Infer<typeof workspace>
+export type WorkspaceMember = Infer<typeof workspaceMember>
+export type WorkspaceRole = Infer<typeof workspaceRole>
+export type HuddleRole = Infer<typeof huddleRole>
+export type HuddleBundle = Infer<typeof huddleBundleSchema>
@@ -0,0 +1,184 @@
+import { query, type QueryCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+import { searchHuddlesSchema } from './schema'
+import { type Caller, getCaller, guestTokenArg } from './sessions'
+import { getHuddleRole } from './permissions'
+import { getWorkspaceMembership } from './workspaces'
+
+// Matches read from each search index before access and filter checks drop some of them
+const SEARCH_CANDIDATE_LIMIT = 200
+const MAX_RESULTS_PER_KIND = 50
+const SNIPPET_CONTEXT_LENGTH = 80
+
+/**
+ * An excerpt of the text around the first matching search term, so long transcript turns
+ * stay readable in the result list.
+ */
+function buildSnippet(text: string, searchQuery: string) {
+  const lowerText = text.toLowerCase()
+  const matchIndexes = searchQuery
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term.length > 0)
+    .map((term) => lowerText.indexOf(term))
+    .filter((index) => index >= 0)
+  const matchIndex = matchIndexes.length > 0 ? Math.min(...matchIndexes) : 0
+
+  const start = Math.max(0, matchIndex - SNIPPET_CONTEXT_LENGTH)
+  const end = Math.min(text.length, matchIndex + SNIPPET_CONTEXT_LENGTH * 2)
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < text.length ? '…' : ''
+  return `${prefix}${text.slice(start, end).trim()}${suffix}`
+}
+
+function isWithinDateRange(isoDate: string, from?: string, to?: string) {
+  const day = isoDate.slice(0, 10)
+  return (!from || day >= from) && (!to || day <= to)
+}
+
+function matchesSpeaker(speakerLabel: string | undefined, speaker?: string) {
+  const needle = speaker?.trim().toLowerCase()
+  return !needle || (speakerLabel ?? '').toLowerCase().includes(needle)
+}
+
+function getTranscriptSpeakerLabel(chunk: Doc<'transcriptChunks'>) {
+  const label = chunk.metadata?.speakerLabel
+  return typeof label === 'string' && label.trim().length > 0 ? label.trim() : chunk.source
+}
+
+/**
+ * Loads huddles once per search and hides those outside the searched workspace and
+ * private huddles the caller has never joined or observed.
+ */
+function createHuddleVisibilityCheck(
+  ctx: QueryCtx,
+  caller: Caller | null,
+  workspaceId: Id<'workspaces'> | undefined,
+) {
+  const cache = new Map<Id<'huddles'>, Promise<Doc<'huddles'> | null>>()
+
+  const load = async (huddleId: Id<'huddles'>) => {
+    const huddle = await ctx.db.get(huddleId)
+    if (!huddle || huddle.workspaceId !== workspaceId) {
+      return null
+    }
+    if (huddle.isPrivate && (!caller || (await getHuddleRole(ctx, huddle, caller)) === null)) {
+      return null
+    }
+    return huddle
+  }
+
+  return (huddleId: Id<'huddles'>) => {
+    let huddle = cache.get(huddleId)
+    if (!huddle) {
+      huddle = load(huddleId)
+      cache.set(huddleId, huddle)
+    }
+    return huddle
+  }
+}
+
+/**
+ * Full-text search over planning items and transcript turns. Like listHuddles, it covers one
+ * workspace, or the huddles outside any workspace when none is given.
+ */
+export const searchHuddles = query({
+  args: {
+    ...searchHuddlesSchema.fields,
+    guestToken: guestTokenArg,
+  },
+  handler: async (
+    ctx,
+    { query: searchQuery, workspaceId, huddleId, type, speaker, from, to, guestToken },
+  ) => {
+    const emptyResults = { items: [], transcripts: [] }
+    const trimmedQuery = searchQuery.trim()
+    if (trimmedQuery.length === 0) {
+      return emptyResults
+    }
+
+    const caller = await getCaller(ctx, guestToken)
+    if (workspaceId && (!caller || !(await getWorkspaceMembership(ctx, workspaceId, caller)))) {
+      return emptyResults
+    }
+    const getVisibleHuddle = createHuddleVisibilityCheck(ctx, caller, workspaceId)
+
+    const itemCandidates =
+      type === 'transcript'
+        ? []
+        : await ctx.db
+            .query('planningItems')
+            .withSearchIndex('search_text', (q) => {
+              let search = q.search('text', trimmedQuery)
+              if (huddleId) {
+                search = search.eq('huddleId', huddleId)
+              }
+              if (type) {
+                search = search.eq('type', type)
+              }
+              return search
+            })
+            .take(SEARCH_CANDIDATE_LIMIT)
+
+    const transcriptCandidates =
+      type && type !== 'transcript'
+        ? []
+        : await ctx.db
+            .query('transcriptChunks')
+            .withSearchIndex('search_payload', (q) => {
+              const search = q.search('payload', trimmedQuery)
+              return huddleId ? search.eq('huddleId', huddleId) : search
+            })
+            .take(SEARCH_CANDIDATE_LIMIT)
+
+    const items = []
+    for (const item of itemCandidates) {
+      if (items.length >= MAX_RESULTS_PER_KIND) break
+      if (
+        !matchesSpeaker(item.speakerLabel, speaker) ||
+        !isWithinDateRange(item.timestamp, from, to)
+      ) {
+        continue
+      }
+      const huddle = await getVisibleHuddle(item.huddleId)
+      if (!huddle) continue
+      items.push({
+        _id: item._id,
+        id: item._id,
+        huddleId: huddle._id,
+        huddleSlug: huddle.slug,
+        huddleName: huddle.name,
+        type: item.type,
+        snippet: buildSnippet(item.text, trimmedQuery),
+        speakerLabel: item.speakerLabel,
+        timestamp: item.timestamp,
+      })
+    }
+
+    const transcripts = []
+    for (const chunk of transcriptCandidates) {
+      if (transcripts.length >= MAX_RESULTS_PER_KIND) break
+      const speakerLabel = getTranscriptSpeakerLabel(chunk)
+      if (
+        !matchesSpeaker(speakerLabel, speaker) ||
+        !isWithinDateRange(chunk.createdAt, from, to)
+      ) {
+        continue
+      }
+      const huddle = await getVisibleHuddle(chunk.huddleId)
+      if (!huddle) continue
+      transcripts.push({
+        _id: chunk._id,
+        id: chunk._id,
+        huddleId: huddle._id,
+        huddleSlug: huddle.slug,
+        huddleName: huddle.name,
+        snippet: buildSnippet(chunk.payload, trimmedQuery),
+        speakerLabel,
+        createdAt: chunk.createdAt,
+      })
+    }
+
+    return { items, transcripts }
+  },
+})
@@ -0,0 +1,123 @@
+import { v } from 'convex/values'
+import { mutation, type QueryCtx } from './_generated/server'
+import { getCurrentUser } from './users'
+import { guestTokenArg, signGuestId, verifyGuestToken } from './guestTokens'
+
+export { guestTokenArg }
+
+export type Caller = {
+  // Identifier stored in createdBy / participants.userId / presence.userId
+  userId: string
+  // Clerk user ID for authenticated callers (guest data is migrated to this ID)
+  externalId: string | null
+  isGuest: boolean
+}
+
+export const GUEST_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Resolve the caller of a mutation.
+ * Prefers the authenticated Clerk identity and falls back to a signed guest token.
+ * Returns null when neither is present or the guest token is invalid.
+ */
+export async function getCaller(
+  ctx: QueryCtx,
+  guestToken: string | undefined,
+): Promise<Caller | null> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (identity) {
+    const user = await getCurrentUser(ctx)
+    return {
+      userId: user?._id ?? identity.subject,
+      externalId: identity.subject,
+      isGuest: false,
+    }
+  }
+
+  if (!guestToken) {
+    return null
+  }
+
+  const guestId = await verifyGuestToken(guestToken)
+  if (!guestId) {
+    return null
+  }
+  return { userId: guestId, externalId: null, isGuest: true }
+}
+
+/**
+ * Same as getCaller, but throws when the caller cannot be identified.
+ */
+export async function requireCaller(
+  ctx: QueryCtx,
+  guestToken: string | undefined,
+): Promise<Caller> {
+  const caller = await getCaller(ctx, guestToken)
+  if (!caller) {
+    throw new Error('Not authenticated. Sign in or refresh to start a guest session.')
+  }
+  return caller
+}
+
+/**
+ * Check whether a stored user reference (createdBy, participant userId, ...) belongs to the caller.
+ */
+export function isCaller(caller: Caller, userId: string | undefined | null) {
+  if (!userId) {
+    return false
+  }
+  return userId === caller.userId || (caller.externalId !== null && userId === caller.externalId)
+}
+
+/**
+ * Issue a signed session token for a guest clientId.
+ * A guestId can only be claimed once, and never when it belongs to a signed-in user or is
+ * already referenced by huddle data. Those IDs are visible to other participants, and a claim
+ * carries no proof that the caller is the browser that used them, so they are never handed out.
+ */
+export const claimGuestSession = mutation({
+  args: {
+    guestId: v.string(),
+  },
+  handler: async (ctx, { guestId }) => {
+    if (!GUEST_ID_PATTERN.test(guestId)) {
+      throw new Error('Invalid guest ID')
+    }
+
+    const existingSession = await ctx.db
+      .query('guestSessions')
+      .withIndex('by_guest_id', (q) => q.eq('guestId', guestId))
+      .unique()
+    if (existingSession) {
+      throw new Error('Guest ID has already been claimed')
+    }
+
+    if (ctx.db.normalizeId('users', guestId) !== null) {
+      throw new Error('Guest ID has already been claimed')
+    }
+
+    const [participant, createdHuddle] = await Promise.all([
+      ctx.db
+        .query('participants')
+        .withIndex('by_user', (q) => q.eq('userId', guestId))
+        .first(),
+      ctx.db
+        .query('huddles')
+        .withIndex('by_createdBy', (q) => q.eq('createdBy', guestId))
+        .first(),
+    ])
+    if (participant || createdHuddle) {
+      throw new Error('Guest ID has already been claimed')
+    }
+
+    await ctx.db.insert('guestSessions', {
+      guestId,
+      createdAt: new Date().toISOString(),
+    })
+
+    return {
+      guestId,
+      token: `${guestId}.${await signGuestId(guestId)}`,
+    }
+  },
+})
@@ -0,0 +1,29 @@
+import type { MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+
+/**
+ * Hand out the next transcript sequence of a huddle. Every writer reads and bumps the same
+ * counter document, so when turns arrive together Convex reruns the mutations that lost the
+ * race and no two chunks share a sequence. Chunks listed through the by_huddle_sequence index
+ * therefore come back in the order their sequences were allocated.
+ * Huddles that have no counter yet are seeded from their latest chunk.
+ */
+export async function allocateTranscriptSequence(ctx: MutationCtx, huddleId: Id<'huddles'>) {
+  const counter = await ctx.db
+    .query('transcriptCounters')
+    .withIndex('by_huddle', (q) => q.eq('huddleId', huddleId))
+    .unique()
+  if (counter) {
+    const sequence = counter.lastSequence + 1
+    await ctx.db.patch(counter._id, { lastSequence: sequence })
+    return sequence
+  }
+  const latestChunk = await ctx.db
+    .query('transcriptChunks')
+    .withIndex('by_huddle_sequence', (q) => q.eq('huddleId', huddleId))
+    .order('desc')
+    .first()
+  const sequence = (latestChunk?.sequence ?? 0) + 1
+  await ctx.db.insert('transcriptCounters', { huddleId, lastSequence: sequence })
+  return sequence
+}
@@ -1,27 +1,34 @@
 import { v } from 'convex/values'
 import { internalMutation, mutation, query, QueryCtx, MutationCtx } from './_generated/server'
+import { guestTokenArg, verifyGuestToken } from './guestTokens'
 
 /**
  * Store or update the current authenticated user in Convex.
  * This should be called after a user signs in with Clerk.
- * Optionally migrates guest data if a guest clientId is provided.
+ * Optionally migrates guest data if the signed session token of a guest is provided.
  */
 export const store = mutation({
   args: {
-    // Optional: guest clientId to migrate from (from localStorage)
-    guestClientId: v.optional(v.string()),
+    // Optional: signed session token of the guest to migrate from (from localStorage)
+    guestToken: guestTokenArg,
     // Optional: guest profile data to migrate (name and avatar from localStorage)
     guestName: v.optional(v.string()),
     guestAvatarUrl: v.optional(v.string()),
     // Optional: email from Clerk (fallback if identity.email is not available)
     clerkEmail: v.optional(v.string()),
   },
-  handler: async (ctx, { guestClientId, guestName, guestAvatarUrl, clerkEmail }) => {
+  handler: async (ctx, { guestToken, guestName, guestAvatarUrl, clerkEmail }) => {
     const identity = await ctx.auth.getUserIdentity()
     if (!identity) {
       throw new Error('Called storeUser without authentication present')
     }
 
+    // Only the holder of a guest's session may move that guest's data to their account
+    const guestClientId = guestToken ? await verifyGuestToken(guestToken) : undefined
+    if (guestClientId === null) {
+      throw new Error('Invalid guest session')
+    }
+
     // Use tokenIdentifier as recommended by Convex docs for user lookups
     const tokenIdentifier = identity.tokenIdentifier
     // Also keep externalId (Clerk user ID) for backwards compatibility and Autumn integration
@@ -212,6 +219,16 @@ async function migrateGuestData(
   for (const token of linearTokens) {
     await ctx.db.patch(token._id, { userId: newClerkId })
   }
+
+  // 7. Migrate workspace memberships
+  const workspaceMembers = await ctx.db
+    .query('workspaceMembers')
+    .withIndex('by_user', (q) => q.eq('userId', oldGuestId))
+    .collect()
+
+  for (const member of workspaceMembers) {
+    await ctx.db.patch(member._id, { userId: newClerkId })
+  }
 }
 
 /**
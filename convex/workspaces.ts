@@ -0,0 +1,277 @@
+import invariant from 'tiny-invariant'
+import { v } from 'convex/values'
+import { mutation, query, type QueryCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+import type { WorkspaceRole } from './schema'
+import { type Caller, getCaller, guestTokenArg, requireCaller } from './sessions'
+
+const MAX_WORKSPACE_NAME_LENGTH = 80
+
+const workspaceRoleArg = v.union(
+  v.literal('owner'),
+  v.literal('admin'),
+  v.literal('member'),
+)
+
+function normalizeWorkspaceName(name: string) {
+  const trimmed = name.trim()
+  invariant(trimmed.length > 0, 'Workspace name cannot be empty.')
+  invariant(
+    trimmed.length <= MAX_WORKSPACE_NAME_LENGTH,
+    `Workspace names are limited to ${MAX_WORKSPACE_NAME_LENGTH} characters.`,
+  )
+  return trimmed
+}
+
+/**
+ * The caller's membership in a workspace, or null when they are not a member.
+ * Guest data migrated on sign-up is keyed by the Clerk ID, so both IDs are checked.
+ */
+export async function getWorkspaceMembership(
+  ctx: QueryCtx,
+  workspaceId: Id<'workspaces'>,
+  caller: Caller,
+) {
+  const userIds = caller.externalId ? [caller.userId, caller.externalId] : [caller.userId]
+  for (const userId of userIds) {
+    const membership = await ctx.db
+      .query('workspaceMembers')
+      .withIndex('by_workspace_user', (q) =>
+        q.eq('workspaceId', workspaceId).eq('userId', userId),
+      )
+      .unique()
+    if (membership) {
+      return membership
+    }
+  }
+  return null
+}
+
+/**
+ * Throw unless the caller is a member of the workspace with one of the given roles.
+ */
+export async function enforceWorkspaceRole(
+  ctx: QueryCtx,
+  workspaceId: Id<'workspaces'>,
+  caller: Caller,
+  roles: ReadonlyArray<WorkspaceRole>,
+  message: string,
+) {
+  const membership = await getWorkspaceMembership(ctx, workspaceId, caller)
+  invariant(membership && roles.includes(membership.role), message)
+  return membership
+}
+
+export const listMyWorkspaces = query({
+  args: {
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { guestToken }) => {
+    const caller = await getCaller(ctx, guestToken)
+    if (!caller) {
+      return []
+    }
+    const userIds = caller.externalId ? [caller.userId, caller.externalId] : [caller.userId]
+    const memberships = (
+      await Promise.all(
+        userIds.map((userId) =>
+          ctx.db
+            .query('workspaceMembers')
+            .withIndex('by_user', (q) => q.eq('userId', userId))
+            .collect(),
+        ),
+      )
+    ).flat()
+
+    const workspaces = await Promise.all(
+      memberships.map(async (membership) => {
+        const workspace = await ctx.db.get(membership.workspaceId)
+        return workspace
+          ? {
+              _id: workspace._id,
+              id: workspace._id,
+              name: workspace.name,
+              role: membership.role,
+              transcriptRetentionDays: workspace.transcriptRetentionDays ?? null,
+            }
+          : null
+      }),
+    )
+    return workspaces
+      .filter((workspace) => workspace !== null)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
+
+export const listWorkspaceMembers = query({
+  args: {
+    workspaceId: v.id('workspaces'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { workspaceId, guestToken }) => {
+    const caller = await getCaller(ctx, guestToken)
+    if (!caller || !(await getWorkspaceMembership(ctx, workspaceId, caller))) {
+      return []
+    }
+    const members = await ctx.db
+      .query('workspaceMembers')
+      .withIndex('by_workspace', (q) => q.eq('workspaceId', workspaceId))
+      .collect()
+    return members.map(({ _creationTime, _id, ...rest }) => ({ ...rest, _id, id: _id }))
+  },
+})
+
+export const createWorkspace = mutation({
+  args: {
+    name: v.string(),
+    displayName: v.optional(v.string()),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { name, displayName, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const now = new Date().toISOString()
+    const workspaceId = await ctx.db.insert('workspaces', {
+      name: normalizeWorkspaceName(name),
+      createdBy: caller.userId,
+      createdAt: now,
+    })
+    await ctx.db.insert('workspaceMembers', {
+      workspaceId,
+      userId: caller.userId,
+      displayName: displayName?.trim() || undefined,
+      role: 'owner',
+      joinedAt: now,
+    })
+    return workspaceId
+  },
+})
+
+export const renameWorkspace = mutation({
+  args: {
+    workspaceId: v.id('workspaces'),
+    name: v.string(),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { workspaceId, name, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    await enforceWorkspaceRole(
+      ctx,
+      workspaceId,
+      caller,
+      ['owner'],
+      'Only workspace owners can rename the workspace.',
+    )
+    await ctx.db.patch(workspaceId, { name: normalizeWorkspaceName(name) })
+    return workspaceId
+  },
+})
+
+export const addWorkspaceMember = mutation({
+  args: {
+    workspaceId: v.id('workspaces'),
+    userId: v.string(),
+    displayName: v.optional(v.string()),
+    role: workspaceRoleArg,
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { workspaceId, userId, displayName, role, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const membership = await enforceWorkspaceRole(
+      ctx,
+      workspaceId,
+      caller,
+      ['owner', 'admin'],
+      'Only workspace owners and admins can add members.',
+    )
+    invariant(
+      role !== 'owner' || membership.role === 'owner',
+      'Only workspace owners can add other owners.',
+    )
+    const trimmedUserId = userId.trim()
+    invariant(trimmedUserId.length > 0, 'User ID cannot be empty.')
+
+    const existing = await ctx.db
+      .query('workspaceMembers')
+      .withIndex('by_workspace_user', (q) =>
+        q.eq('workspaceId', workspaceId).eq('userId', trimmedUserId),
+      )
+      .unique()
+    if (existing) {
+      return existing._id
+    }
+    return await ctx.db.insert('workspaceMembers', {
+      workspaceId,
+      userId: trimmedUserId,
+      displayName: displayName?.trim() || undefined,
+      role,
+      joinedAt: new Date().toISOString(),
+    })
+  },
+})
+
+export const updateWorkspaceMemberRole = mutation({
+  args: {
+    memberId: v.id('workspaceMembers'),
+    role: workspaceRoleArg,
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { memberId, role, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const member = await ctx.db.get(memberId)
+    invariant(member, `Missing workspace member ${memberId}`)
+    await enforceWorkspaceRole(
+      ctx,
+      member.workspaceId,
+      caller,
+      ['owner'],
+      'Only workspace owners can change member roles.',
+    )
+    if (member.role === 'owner' && role !== 'owner') {
+      await ensureAnotherOwner(ctx, member.workspaceId, memberId)
+    }
+    await ctx.db.patch(memberId, { role })
+    return memberId
+  },
+})
+
+/**
+ * Remove a member. Members can always remove themselves to leave a workspace.
+ */
+export const removeWorkspaceMember = mutation({
+  args: {
+    memberId: v.id('workspaceMembers'),
+    guestToken: guestTokenArg,
+  },
+  handler: async (ctx, { memberId, guestToken }) => {
+    const caller = await requireCaller(ctx, guestToken)
+    const member = await ctx.db.get(memberId)
+    invariant(member, `Missing workspace member ${memberId}`)
+    const callerMembership = await getWorkspaceMembership(ctx, member.workspaceId, caller)
+    const isSelf = callerMembership?._id === memberId
+    invariant(
+      isSelf ||
+        callerMembership?.role === 'owner' ||
+        (callerMembership?.role === 'admin' && member.role === 'member'),
+      'You do not have permission to remove this member.',
+    )
+    if (member.role === 'owner') {
+      await ensureAnotherOwner(ctx, member.workspaceId, memberId)
+    }
+    await ctx.db.delete(memberId)
+  },
+})
+
+async function ensureAnotherOwner(
+  ctx: QueryCtx,
+  workspaceId: Id<'workspaces'>,
+  memberId: Id<'workspaceMembers'>,
+) {
+  const members = await ctx.db
+    .query('workspaceMembers')
+    .withIndex('by_workspace', (q) => q.eq('workspaceId', workspaceId))
+    .collect()
+  invariant(
+    members.some((member) => member.role === 'owner' && member._id !== memberId),
+    'A workspace needs at least one owner.',
+  )
+}
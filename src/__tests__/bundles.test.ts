@@ -0,0 +1,105 @@
+import type { Doc, Id } from '../../convex/_generated/dataModel'
+import {
+  buildHuddleBundle,
+  HUDDLE_BUNDLE_VERSION,
+  remapTranscriptChunkMetadata,
+} from '../../convex/bundles'
+
+const huddleId = 'huddle1' as Id<'huddles'>
+const itemId = (value: string) => value as Id<'planningItems'>
+
+function item(id: string, order: number, overrides: Partial<Doc<'planningItems'>> = {}) {
+  return {
+    _id: itemId(id),
+    _creationTime: order,
+    huddleId,
+    type: 'task' as const,
+    text: `Task ${id}`,
+    timestamp: '2025-01-01T00:00:00.000Z',
+    order,
+    ...overrides,
+  }
+}
+
+describe('huddle bundles', () => {
+  const bundle = buildHuddleBundle(
+    {
+      huddle: {
+        _id: huddleId,
+        _creationTime: 0,
+        slug: 'huddle-abc',
+        name: 'Launch planning',
+        createdBy: 'user1',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        privateAccessKey: 'secret',
+      },
+      participants: [
+        {
+          _id: 'participant1' as Id<'participants'>,
+          _creationTime: 0,
+          huddleId,
+          userId: 'user1',
+          joinedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      planningItems: [
+        item('build', 1, {
+          blockedBy: [itemId('design'), itemId('deleted')],
+          metadata: { sourceChunkId: 'chunk1', carriedFromHuddleId: 'huddle0' },
+          carriedFromItemId: itemId('old'),
+        }),
+        item('design', 0),
+      ],
+      transcriptChunks: [
+        {
+          _id: 'chunk1' as Id<'transcriptChunks'>,
+          _creationTime: 0,
+          huddleId,
+          sequence: 0,
+          source: 'voice',
+          payload: 'Design first, then build',
+          createdAt: '2025-01-01T00:00:00.000Z',
+          metadata: {
+            speakerLabel: 'Ada',
+            planningItemEvents: [
+              { kind: 'planningItemCreated', itemId: 'build', itemKey: 'build' },
+              { kind: 'planningItemRemoved', itemId: 'deleted', itemKey: 'deleted' },
+            ],
+          },
+        },
+      ],
+      researchResults: [],
+      views: [],
+    },
+    '2025-02-01T00:00:00.000Z',
+  )
+
+  test('keys items by board order and remaps blockers to those keys', () => {
+    expect(bundle.version).toBe(HUDDLE_BUNDLE_VERSION)
+    expect(bundle.planningItems.map((planningItem) => [planningItem.key, planningItem.text])).toEqual([
+      ['item-1', 'Task design'],
+      ['item-2', 'Task build'],
+    ])
+    expect(bundle.planningItems[1].blockedByKeys).toEqual(['item-1'])
+    expect(bundle.planningItems[1].metadata).toEqual({ sourceChunkId: 'chunk-1' })
+    expect(bundle.planningItems[1]).not.toHaveProperty('carriedFromItemId')
+  })
+
+  test('leaves out deployment-specific fields and ids', () => {
+    expect(bundle.huddle).not.toHaveProperty('slug')
+    expect(bundle.huddle).not.toHaveProperty('privateAccessKey')
+    expect(bundle.participants).toEqual([{ userId: 'user1', joinedAt: '2025-01-01T00:00:00.000Z' }])
+    expect(JSON.stringify(bundle)).not.toMatch(/"_id"|huddle1/)
+  })
+
+  test('keeps transcript events only for items that are still on the board', () => {
+    expect(bundle.transcriptChunks[0].metadata).toEqual({
+      speakerLabel: 'Ada',
+      planningItemEvents: [{ kind: 'planningItemCreated', itemId: 'item-2', itemKey: 'build' }],
+    })
+    const imported = remapTranscriptChunkMetadata(bundle.transcriptChunks[0].metadata, (key) =>
+      key === 'item-2' ? 'newBuildId' : undefined,
+    )
+    expect(imported).toMatchObject({ planningItemEvents: [{ itemId: 'newBuildId' }] })
+  })
+})
@@ -1,13 +1,23 @@
 import {
+  CUSTOM_ITEM_TYPE_COLORS,
   PLANNING_ITEM_TYPES,
   PLANNING_ITEM_TYPE_LABELS,
 } from '~/types'
 import {
+  CUSTOM_ITEM_TYPE_COLOR_LABELS,
+  CUSTOM_ITEM_TYPE_ICONS,
+  CUSTOM_ITEM_TYPE_STYLES,
+  DEFAULT_CUSTOM_ITEM_TYPE_ICON,
   TRANSCRIPT_BADGE_ELIGIBLE_TYPES,
   PRIMARY_COLUMN_CONFIG,
   SUPPORTING_SECTIONS,
   PLANNING_EMPTY_MESSAGES,
 } from '~/components/huddle/constants'
+import {
+  BLANK_TEMPLATE_KEY,
+  BUILT_IN_HUDDLE_TEMPLATES,
+  toHuddleTemplateArgs,
+} from '~/components/huddle/templates'
 
 describe('constants synchronization', () => {
   test('all planning item types have labels', () => {
@@ -64,16 +74,77 @@ describe('constants synchronization', () => {
     }
   })
 
-  test('primary and supporting sections together cover all types except summary', () => {
+  test('primary and supporting sections together cover all types except summary and custom', () => {
     const primaryTypes = new Set(PRIMARY_COLUMN_CONFIG.map((c) => c.type))
     const supportingTypes = new Set(SUPPORTING_SECTIONS.map((s) => s.type))
     const coveredTypes = new Set([...primaryTypes, ...supportingTypes])
 
-    // Summary is handled separately, so it's expected to not be in either
-    const expectedCovered = PLANNING_ITEM_TYPES.filter((t) => t !== 'summary')
+    // Summary and custom items get their own sections, so they're expected to not be in either
+    const expectedCovered = PLANNING_ITEM_TYPES.filter((t) => t !== 'summary' && t !== 'custom')
     const expectedSet = new Set(expectedCovered)
 
     expect(coveredTypes).toEqual(expectedSet)
   })
-})
 
+  test('built-in templates have distinct keys and only reference valid types', () => {
+    const keys = BUILT_IN_HUDDLE_TEMPLATES.map((template) => template.key)
+    expect(new Set(keys).size).toBe(keys.length)
+    expect(keys).not.toContain(BLANK_TEMPLATE_KEY)
+
+    const validTypes = new Set<string>(PLANNING_ITEM_TYPES)
+    for (const template of BUILT_IN_HUDDLE_TEMPLATES) {
+      for (const type of Object.keys(template.columnLabels ?? {})) {
+        expect(validTypes.has(type)).toBe(true)
+      }
+      for (const type of Object.keys(template.emptyMessages ?? {})) {
+        expect(validTypes.has(type)).toBe(true)
+      }
+      for (const item of template.items) {
+        expect(validTypes.has(item.type)).toBe(true)
+        expect(item.text.trim().length).toBeGreaterThan(0)
+      }
+    }
+  })
+
+  test('every custom item type color has styles and a label', () => {
+    for (const color of CUSTOM_ITEM_TYPE_COLORS) {
+      expect(CUSTOM_ITEM_TYPE_STYLES[color].badge).toContain(color)
+      expect(CUSTOM_ITEM_TYPE_STYLES[color].accent).toContain(color)
+      expect(CUSTOM_ITEM_TYPE_COLOR_LABELS[color].length).toBeGreaterThan(0)
+    }
+    expect(CUSTOM_ITEM_TYPE_ICONS[DEFAULT_CUSTOM_ITEM_TYPE_ICON]).toBeDefined()
+  })
+
+  test('built-in template custom types are valid and referenced by key', () => {
+    const builtInTypes = new Set<string>(PLANNING_ITEM_TYPES)
+    for (const template of BUILT_IN_HUDDLE_TEMPLATES) {
+      const customTypes = template.customItemTypes ?? []
+      const keys = customTypes.map((type) => type.key)
+      expect(new Set(keys).size).toBe(keys.length)
+      for (const type of customTypes) {
+        expect(type.key).toMatch(/^[a-z][a-z0-9_]{0,39}$/)
+        expect(builtInTypes.has(type.key)).toBe(false)
+        expect(CUSTOM_ITEM_TYPE_COLORS).toContain(type.color)
+        expect(CUSTOM_ITEM_TYPE_ICONS[type.icon ?? DEFAULT_CUSTOM_ITEM_TYPE_ICON]).toBeDefined()
+      }
+      for (const item of template.items) {
+        if (item.type === 'custom') {
+          expect(keys).toContain(item.customType)
+        } else {
+          expect(item.customType).toBeUndefined()
+        }
+      }
+    }
+  })
+
+  test('template args drop undefined labels', () => {
+    const args = toHuddleTemplateArgs({
+      key: 'custom',
+      name: 'Custom',
+      columnLabels: { idea: 'Topics', task: undefined },
+      items: [],
+    })
+    expect(args.columnLabels).toEqual({ idea: 'Topics' })
+    expect(args.emptyMessages).toBeUndefined()
+  })
+})
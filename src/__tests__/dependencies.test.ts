@@ -0,0 +1,92 @@
+import type { Id } from '../../convex/_generated/dataModel'
+import {
+  repairBlockedByGraph,
+  validateBlockedBy,
+  validateBlockedByLazily,
+} from '../../convex/dependencies'
+
+const id = (value: string) => value as Id<'planningItems'>
+
+function task(key: string, blockedBy: string[] = [], createdAt = 0) {
+  return {
+    _id: id(key),
+    _creationTime: createdAt,
+    type: 'task' as const,
+    blockedBy: blockedBy.map(id),
+  }
+}
+
+describe('blockedBy validation', () => {
+  test('accepts task dependencies that keep the graph acyclic', () => {
+    const items = [task('a'), task('b', ['a']), task('c')]
+    expect(validateBlockedBy(items, items[2], [id('a'), id('b')])).toEqual({
+      blockedBy: ['a', 'b'],
+      rejections: [],
+    })
+  })
+
+  test('rejects cycles, self references, missing blockers and non-task edges', () => {
+    const items = [
+      task('a', ['b']),
+      task('b', ['c']),
+      task('c'),
+      { _id: id('idea'), type: 'idea' as const, blockedBy: undefined },
+    ]
+    const { blockedBy, rejections } = validateBlockedBy(items, items[2], [
+      id('a'),
+      id('c'),
+      id('gone'),
+      id('idea'),
+    ])
+    expect(blockedBy).toEqual([])
+    expect(rejections.map((rejection) => [rejection.blockerId, rejection.reason])).toEqual([
+      ['a', 'cycle'],
+      ['c', 'self'],
+      ['gone', 'missing'],
+      ['idea', 'notTask'],
+    ])
+    expect(validateBlockedBy(items, { type: 'idea' }, [id('c')]).rejections[0].reason).toBe(
+      'notTask',
+    )
+  })
+
+  test('replaces the item’s own edges instead of adding to them', () => {
+    const items = [task('a', ['b']), task('b')]
+    // b -> a is fine once a no longer waits on b
+    expect(validateBlockedBy(items, items[0], []).blockedBy).toEqual([])
+    expect(validateBlockedBy(items, items[1], [id('a')]).rejections[0].reason).toBe('cycle')
+  })
+
+  test('validates lazily with the same rules, loading only the blockers’ chains', async () => {
+    const items = [
+      task('a', ['b']),
+      task('b', ['c']),
+      task('c'),
+      task('unrelated', ['c']),
+      { _id: id('idea'), type: 'idea' as const, blockedBy: undefined },
+    ]
+    const itemsById = new Map(items.map((item) => [item._id, item]))
+    const loaded: string[] = []
+    const getNode = async (itemId: Id<'planningItems'>) => {
+      loaded.push(itemId)
+      return itemsById.get(itemId) ?? null
+    }
+    const blockedBy = [id('a'), id('c'), id('gone'), id('idea')]
+    expect(await validateBlockedByLazily(getNode, items[2], blockedBy)).toEqual(
+      validateBlockedBy(items, items[2], blockedBy),
+    )
+    expect(loaded).not.toContain('unrelated')
+  })
+
+  test('repairs existing cycles by dropping the newest edge', () => {
+    const items = [task('a', ['b'], 1), task('b', ['c'], 2), task('c', ['a', 'a'], 3)]
+    expect(repairBlockedByGraph(items)).toEqual([
+      {
+        itemId: 'c',
+        blockedBy: [],
+        rejections: [{ itemId: 'c', blockerId: 'a', reason: 'cycle' }],
+      },
+    ])
+    expect(repairBlockedByGraph([task('a'), task('b', ['a'])])).toEqual([])
+  })
+})
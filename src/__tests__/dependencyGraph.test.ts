@@ -0,0 +1,55 @@
+import { buildDependencyGraph, toDot, toMermaid } from '~/utils/dependencyGraph'
+
+describe('buildDependencyGraph', () => {
+  const tasks = [
+    { id: 'design', text: 'Design the API', status: 'done' as const },
+    { id: 'build', text: 'Build the API', blockedBy: ['design'] },
+    { id: 'docs', text: 'Write "quickstart" docs', blockedBy: ['build'] },
+    { id: 'sdk', text: 'Ship the SDK', blockedBy: ['build', 'missing'] },
+    { id: 'launch', text: 'Launch', blockedBy: ['docs', 'sdk'] },
+    { id: 'tweet', text: 'Tweet about it' },
+  ]
+
+  test('layers tasks by dependency depth and ignores unknown blockers', () => {
+    const graph = buildDependencyGraph(tasks)
+    const layers = Object.fromEntries(graph.nodes.map((node) => [node.id, node.layer]))
+    expect(layers).toEqual({ design: 0, build: 1, docs: 2, sdk: 2, launch: 3, tweet: 0 })
+    expect(graph.layerCount).toBe(4)
+    expect(graph.edges).toHaveLength(5)
+  })
+
+  test('marks the longest chain of open tasks and the tasks ready to start', () => {
+    const graph = buildDependencyGraph(tasks)
+    const critical = graph.nodes.filter((node) => node.isCritical).map((node) => node.id)
+    expect(critical).toEqual(['build', 'docs', 'launch'])
+    expect(graph.edges.filter((edge) => edge.isCritical)).toEqual([
+      { from: 'build', to: 'docs', isCritical: true },
+      { from: 'docs', to: 'launch', isCritical: true },
+    ])
+    const ready = graph.nodes.filter((node) => node.isReady).map((node) => node.id)
+    expect(ready).toEqual(['build', 'tweet'])
+  })
+
+  test('survives legacy cycles', () => {
+    const graph = buildDependencyGraph([
+      { id: 'a', text: 'A', blockedBy: ['b'] },
+      { id: 'b', text: 'B', blockedBy: ['a'] },
+    ])
+    expect(graph.edges).toHaveLength(1)
+  })
+
+  test('exports Mermaid and DOT with escaped labels', () => {
+    const graph = buildDependencyGraph(tasks)
+    const mermaid = toMermaid(graph)
+    expect(mermaid).toContain('flowchart LR')
+    expect(mermaid).toContain('t3["Write #quot;quickstart#quot; docs"]')
+    expect(mermaid).toContain('t2 ==> t3')
+    expect(mermaid).toContain('t2 --> t4')
+    expect(mermaid).toContain('class t2,t3,t5 critical')
+
+    const dot = toDot(graph)
+    expect(dot).toContain('"docs" [label="Write \\"quickstart\\" docs", color="#e11d48", penwidth=2];')
+    expect(dot).toContain('"design" -> "build";')
+    expect(dot.trim().endsWith('}')).toBe(true)
+  })
+})
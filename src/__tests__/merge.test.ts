@@ -0,0 +1,57 @@
+import type { Id } from '../../convex/_generated/dataModel'
+import {
+  buildMergedItem,
+  getPlanningItemKeys,
+  pickMergedText,
+  repointBlockedBy,
+} from '../../convex/merge'
+
+const itemId = (value: string) => value as Id<'planningItems'>
+
+function task(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    _id: itemId(id),
+    type: 'task' as const,
+    text: `Task ${id}`,
+    metadata: { itemKey: `key-${id}` },
+    ...overrides,
+  }
+}
+
+describe('merging planning items', () => {
+  test('keeps the merged keys as aliases', () => {
+    const merged = buildMergedItem(task('a'), [
+      task('b', { metadata: { itemKey: 'key-b', itemKeyAliases: ['key-old'] } }),
+    ])
+    expect(merged.metadata).toEqual({ itemKey: 'key-a', itemKeyAliases: ['key-b', 'key-old'] })
+    expect(getPlanningItemKeys(merged.metadata)).toEqual(['key-a', 'key-b', 'key-old'])
+  })
+
+  test('keeps the most descriptive text unless one is given', () => {
+    const items = [task('a', { text: 'Ship it' }), task('b', { text: 'Ship the  beta to design partners' })]
+    expect(pickMergedText(items)).toBe('Ship the beta to design partners')
+    expect(buildMergedItem(items[0], [items[1]]).text).toBe('Ship the beta to design partners')
+    expect(buildMergedItem(items[0], [items[1]], '  Ship the beta ').text).toBe('Ship the beta')
+  })
+
+  test('unions blockers, assignees and the earliest due date', () => {
+    const merged = buildMergedItem(
+      task('a', { blockedBy: [itemId('x')], assigneeUserIds: ['ana'] }),
+      [
+        task('b', { blockedBy: [itemId('a'), itemId('y')], dueDate: '2025-03-01', assigneeUserIds: ['ana', 'bo'] }),
+        task('c', { blockedBy: [itemId('b'), itemId('x')], dueDate: '2025-02-01' }),
+      ],
+    )
+    expect(merged.blockedBy).toEqual(['x', 'y'])
+    expect(merged.assigneeUserIds).toEqual(['ana', 'bo'])
+    expect(merged.dueDate).toBe('2025-02-01')
+  })
+
+  test('repoints references to merged items at the target', () => {
+    const mergedIds = new Set([itemId('b'), itemId('c')])
+    expect(
+      repointBlockedBy(itemId('d'), [itemId('b'), itemId('c'), itemId('e')], mergedIds, itemId('a')),
+    ).toEqual(['a', 'e'])
+    expect(repointBlockedBy(itemId('a'), [itemId('b')], mergedIds, itemId('a'))).toEqual([])
+  })
+})
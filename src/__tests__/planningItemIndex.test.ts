@@ -0,0 +1,130 @@
+import type { MutationCtx } from '../../convex/_generated/server'
+import type { Id } from '../../convex/_generated/dataModel'
+import {
+  findPlanningItemIdByKey,
+  listDependentItemIds,
+  syncPlanningItemIndexes,
+} from '../../convex/planningItemIndex'
+
+type Row = { _id: string; _creationTime: number } & Record<string, unknown>
+
+/**
+ * An in-memory database with just enough of Convex's API for the index helpers. Index ranges
+ * are equality prefixes, and rows with equal fields come back in creation order.
+ */
+function createFakeContext() {
+  const tables = new Map<string, Map<string, Row>>()
+  let nextId = 0
+  const tableOf = (id: string) => id.slice(0, id.indexOf(':'))
+  const rowsOf = (table: string) => tables.get(table) ?? tables.set(table, new Map()).get(table)!
+
+  const db = {
+    get: async (id: string) => rowsOf(tableOf(id)).get(id) ?? null,
+    insert: async (table: string, fields: Record<string, unknown>) => {
+      const row = { ...fields, _id: `${table}:${nextId}`, _creationTime: nextId++ }
+      rowsOf(table).set(row._id, row)
+      return row._id
+    },
+    patch: async (id: string, fields: Record<string, unknown>) => {
+      const rows = rowsOf(tableOf(id))
+      const existing = rows.get(id)
+      expect(existing).toBeDefined()
+      rows.set(id, { ...existing!, ...fields })
+    },
+    delete: async (id: string) => {
+      rowsOf(tableOf(id)).delete(id)
+    },
+    query: (table: string) => ({
+      withIndex: (_index: string, range: (q: any) => unknown) => {
+        const equals: Record<string, unknown> = {}
+        const q = {
+          eq: (field: string, value: unknown) => {
+            equals[field] = value
+            return q
+          },
+        }
+        range(q)
+        let descending = false
+        const results = async () => {
+          const matches = [...rowsOf(table).values()]
+            .filter((row) => Object.entries(equals).every(([field, value]) => row[field] === value))
+            .sort((a, b) => a._creationTime - b._creationTime)
+          return descending ? matches.reverse() : matches
+        }
+        const builder = {
+          order: (order: 'asc' | 'desc') => {
+            descending = order === 'desc'
+            return builder
+          },
+          first: async () => (await results())[0] ?? null,
+          collect: results,
+        }
+        return builder
+      },
+    }),
+  }
+
+  return { ctx: { db } as unknown as MutationCtx, rows: (table: string) => [...rowsOf(table).values()] }
+}
+
+const huddleId = 'huddles:1' as Id<'huddles'>
+
+async function insertItem(
+  { ctx }: ReturnType<typeof createFakeContext>,
+  fields: Record<string, unknown> = {},
+) {
+  const id = (await ctx.db.insert('planningItems', {
+    huddleId,
+    type: 'task',
+    text: 'Task',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...fields,
+  })) as Id<'planningItems'>
+  await syncPlanningItemIndexes(ctx, huddleId, id)
+  return id
+}
+
+describe('planning item indexes', () => {
+  test('resolves keys through the indexed column, preferring own keys to merge aliases', async () => {
+    const fake = createFakeContext()
+    const target = await insertItem(fake, {
+      metadata: { itemKey: 'key-a', itemKeyAliases: ['key-b', 'key-old'] },
+    })
+    const other = await insertItem(fake, { metadata: { itemKey: 'key-old' } })
+
+    expect(fake.rows('planningItems').find((row) => row._id === target)?.itemKey).toBe('key-a')
+    expect(await findPlanningItemIdByKey(fake.ctx, huddleId, 'key-a')).toBe(target)
+    expect(await findPlanningItemIdByKey(fake.ctx, huddleId, 'key-b')).toBe(target)
+    expect(await findPlanningItemIdByKey(fake.ctx, huddleId, 'key-old')).toBe(other)
+    expect(await findPlanningItemIdByKey(fake.ctx, huddleId, 'key-missing')).toBeNull()
+  })
+
+  test('keeps dependency rows in step with blockedBy', async () => {
+    const fake = createFakeContext()
+    const blocker = await insertItem(fake)
+    const otherBlocker = await insertItem(fake)
+    const blocked = await insertItem(fake, { blockedBy: [blocker, otherBlocker] })
+    expect(await listDependentItemIds(fake.ctx, blocker)).toEqual([blocked])
+
+    await fake.ctx.db.patch(blocked, { blockedBy: [otherBlocker] })
+    await syncPlanningItemIndexes(fake.ctx, huddleId, blocked)
+    expect(await listDependentItemIds(fake.ctx, blocker)).toEqual([])
+    expect(await listDependentItemIds(fake.ctx, otherBlocker)).toEqual([blocked])
+    expect(fake.rows('planningItemDependencies')).toHaveLength(1)
+  })
+
+  test('drops the rows of deleted items', async () => {
+    const fake = createFakeContext()
+    const blocker = await insertItem(fake)
+    const merged = await insertItem(fake, {
+      metadata: { itemKey: 'key-a', itemKeyAliases: ['key-b'] },
+      blockedBy: [blocker],
+    })
+
+    await fake.ctx.db.delete(merged)
+    await syncPlanningItemIndexes(fake.ctx, huddleId, merged)
+    expect(fake.rows('planningItemDependencies')).toEqual([])
+    expect(fake.rows('planningItemKeyAliases')).toEqual([])
+    expect(await findPlanningItemIdByKey(fake.ctx, huddleId, 'key-b')).toBeNull()
+  })
+})
@@ -1,4 +1,7 @@
 import {
+  ASSIGNABLE_HUDDLE_ROLES,
+  HUDDLE_ROLES,
+  HUDDLE_ROLE_LABELS,
   PLANNING_ITEM_TYPES,
   PLANNING_ITEM_TYPE_LABELS,
 } from '~/types'
@@ -21,3 +24,15 @@ describe('planning item type definitions', () => {
   })
 })
 
+describe('huddle role definitions', () => {
+  test('every role has a label', () => {
+    expect(new Set(Object.keys(HUDDLE_ROLE_LABELS))).toEqual(new Set(HUDDLE_ROLES))
+  })
+
+  test('the owner role cannot be assigned', () => {
+    for (const role of ASSIGNABLE_HUDDLE_ROLES) {
+      expect(HUDDLE_ROLES.includes(role)).toBe(true)
+    }
+    expect((ASSIGNABLE_HUDDLE_ROLES as ReadonlyArray<string>).includes('owner')).toBe(false)
+  })
+})
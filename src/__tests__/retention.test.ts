@@ -0,0 +1,22 @@
+import { getRetentionCutoff, getTranscriptRetentionDays } from '../../convex/retention'
+
+describe('transcript retention', () => {
+  test('uses the shorter of the huddle and workspace retention', () => {
+    expect(getTranscriptRetentionDays({}, null)).toBeNull()
+    expect(getTranscriptRetentionDays({}, {})).toBeNull()
+    expect(getTranscriptRetentionDays({ transcriptRetentionDays: 30 }, null)).toBe(30)
+    expect(getTranscriptRetentionDays({}, { transcriptRetentionDays: 90 })).toBe(90)
+    expect(
+      getTranscriptRetentionDays({ transcriptRetentionDays: 7 }, { transcriptRetentionDays: 90 }),
+    ).toBe(7)
+    // A huddle cannot keep transcripts longer than its workspace allows
+    expect(
+      getTranscriptRetentionDays({ transcriptRetentionDays: 365 }, { transcriptRetentionDays: 30 }),
+    ).toBe(30)
+  })
+
+  test('counts the cutoff back in whole days', () => {
+    const now = Date.parse('2025-03-31T12:00:00.000Z')
+    expect(new Date(getRetentionCutoff(30, now)).toISOString()).toBe('2025-03-01T12:00:00.000Z')
+  })
+})
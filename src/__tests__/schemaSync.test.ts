@@ -1,6 +1,6 @@
 import { planningItemSchema, createPlanningItemSchema } from '~/db/schema'
-import { PLANNING_ITEM_TYPES } from '~/types'
-import { zPlanningItemType } from '~/dev/simulationSchema'
+import { PLANNING_ITEM_TYPES, TASK_STATUSES } from '~/types'
+import { zPlanningItemType, zTaskStatus } from '~/dev/simulationSchema'
 
 describe('schema synchronization', () => {
   test('Zod planning item schema enum matches PLANNING_ITEM_TYPES', () => {
@@ -20,6 +20,25 @@ describe('schema synchronization', () => {
     expect(simulationTypes).toEqual(declaredTypes)
   })
 
+  test('task status enums match TASK_STATUSES', () => {
+    const zodStatuses = planningItemSchema.shape.status.unwrap()._def.values
+    expect(new Set(zodStatuses)).toEqual(new Set(TASK_STATUSES))
+    expect(new Set(zTaskStatus._def.values)).toEqual(new Set(TASK_STATUSES))
+  })
+
+  test('planningItemSchema rejects malformed due dates', () => {
+    const base = {
+      id: 'item-1',
+      huddleId: 'huddle-1',
+      type: 'task' as const,
+      text: 'Ship onboarding',
+      timestamp: '2024-01-01T00:00:00Z',
+    }
+
+    expect(planningItemSchema.safeParse({ ...base, dueDate: '2024-01-05' }).success).toBe(true)
+    expect(planningItemSchema.safeParse({ ...base, dueDate: 'next friday' }).success).toBe(false)
+  })
+
   test('createPlanningItemSchema requires non-empty text', () => {
     const valid = createPlanningItemSchema.safeParse({
       huddleId: 'test-huddle',
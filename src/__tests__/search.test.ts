@@ -0,0 +1,25 @@
+import { splitSearchMatches } from '~/utils/search'
+
+describe('splitSearchMatches', () => {
+  test('marks every query term case-insensitively', () => {
+    expect(splitSearchMatches('Ship the API before the launch', 'api LAUNCH')).toEqual([
+      { text: 'Ship the ', isMatch: false },
+      { text: 'API', isMatch: true },
+      { text: ' before the ', isMatch: false },
+      { text: 'launch', isMatch: true },
+    ])
+  })
+
+  test('treats regular expression characters literally', () => {
+    expect(splitSearchMatches('Is it (v2)?', '(v2)?')).toEqual([
+      { text: 'Is it ', isMatch: false },
+      { text: '(v2)?', isMatch: true },
+    ])
+  })
+
+  test('returns the whole text when the query is blank', () => {
+    expect(splitSearchMatches('Nothing to find', '   ')).toEqual([
+      { text: 'Nothing to find', isMatch: false },
+    ])
+  })
+})
@@ -0,0 +1,174 @@
+import type { MutationCtx } from '../../convex/_generated/server'
+import type { Id } from '../../convex/_generated/dataModel'
+import { allocateTranscriptSequence } from '../../convex/transcriptSequence'
+
+type Row = { _id: string; _creationTime: number } & Record<string, unknown>
+
+const INDEX_FIELDS: Record<string, string[]> = {
+  by_huddle: ['huddleId'],
+  by_huddle_sequence: ['huddleId', 'sequence'],
+}
+
+// Let other writers run between a transaction's reads and its writes
+const interleave = () => new Promise((resolve) => setTimeout(resolve, Math.random() * 3))
+
+/**
+ * A tiny in-memory stand-in for Convex's optimistic concurrency control: each mutation sees
+ * the committed state plus its own writes, and is rerun when a table it read was written by
+ * a mutation that committed first.
+ */
+class FakeDatabase {
+  private tables = new Map<string, Map<string, Row>>()
+  private tableVersions = new Map<string, number>()
+  private nextId = 0
+  retries = 0
+
+  rows(table: string) {
+    return [...(this.tables.get(table)?.values() ?? [])]
+  }
+
+  seed(table: string, fields: Record<string, unknown>) {
+    const row = { ...fields, _id: `${table}:${this.nextId}`, _creationTime: this.nextId++ }
+    this.tables.set(table, (this.tables.get(table) ?? new Map()).set(row._id, row))
+  }
+
+  delete(table: string, id: string) {
+    this.tables.get(table)?.delete(id)
+  }
+
+  async runMutation<T>(handler: (ctx: MutationCtx) => Promise<T>): Promise<T> {
+    for (;;) {
+      const readVersions = new Map<string, number>()
+      const writes = new Map<string, { table: string; row: Row }>()
+      const read = (table: string) => {
+        if (!readVersions.has(table)) {
+          readVersions.set(table, this.tableVersions.get(table) ?? 0)
+        }
+        const rows = new Map((this.tables.get(table) ?? new Map()) as Map<string, Row>)
+        for (const write of writes.values()) {
+          if (write.table === table) rows.set(write.row._id, write.row)
+        }
+        return [...rows.values()]
+      }
+      const tableOf = (id: string) => id.slice(0, id.indexOf(':'))
+
+      const db = {
+        query: (table: string) => ({
+          withIndex: (index: string, range: (q: any) => unknown) => {
+            const equals: Record<string, unknown> = {}
+            const q = {
+              eq: (field: string, value: unknown) => {
+                equals[field] = value
+                return q
+              },
+            }
+            range(q)
+            let descending = false
+            const results = async () => {
+              await interleave()
+              const fields = INDEX_FIELDS[index]
+              const matches = read(table)
+                .filter((row) => Object.entries(equals).every(([field, value]) => row[field] === value))
+                .sort((a, b) => {
+                  for (const field of fields) {
+                    if (a[field] !== b[field]) return (a[field] as number) < (b[field] as number) ? -1 : 1
+                  }
+                  return a._creationTime - b._creationTime
+                })
+              return descending ? matches.reverse() : matches
+            }
+            const builder = {
+              order: (order: 'asc' | 'desc') => {
+                descending = order === 'desc'
+                return builder
+              },
+              first: async () => (await results())[0] ?? null,
+              unique: async () => {
+                const matches = await results()
+                expect(matches.length).toBeLessThanOrEqual(1)
+                return matches[0] ?? null
+              },
+              collect: results,
+            }
+            return builder
+          },
+        }),
+        insert: async (table: string, fields: Record<string, unknown>) => {
+          await interleave()
+          const row = { ...fields, _id: `${table}:${this.nextId}`, _creationTime: this.nextId++ }
+          writes.set(row._id, { table, row })
+          return row._id
+        },
+        patch: async (id: string, fields: Record<string, unknown>) => {
+          await interleave()
+          const table = tableOf(id)
+          const existing = read(table).find((row) => row._id === id)
+          expect(existing).toBeDefined()
+          writes.set(id, { table, row: { ...existing!, ...fields } })
+        },
+      }
+
+      const result = await handler({ db } as unknown as MutationCtx)
+
+      const isConflict = [...readVersions].some(
+        ([table, version]) => (this.tableVersions.get(table) ?? 0) !== version,
+      )
+      if (isConflict) {
+        this.retries += 1
+        continue
+      }
+      for (const { table, row } of writes.values()) {
+        this.tables.set(table, (this.tables.get(table) ?? new Map()).set(row._id, row))
+        this.tableVersions.set(table, (this.tableVersions.get(table) ?? 0) + 1)
+      }
+      return result
+    }
+  }
+}
+
+const huddleId = 'huddles:1' as Id<'huddles'>
+
+function logTurn(db: FakeDatabase, speaker: number) {
+  return db.runMutation(async (ctx) => {
+    const sequence = await allocateTranscriptSequence(ctx, huddleId)
+    await ctx.db.insert('transcriptChunks', {
+      huddleId,
+      sequence,
+      source: 'voice',
+      payload: `Turn from speaker ${speaker}`,
+      createdAt: new Date().toISOString(),
+    })
+    return sequence
+  })
+}
+
+describe('allocateTranscriptSequence', () => {
+  test('gives every concurrent writer its own sequence, with no gaps', async () => {
+    const db = new FakeDatabase()
+    const writers = 25
+    const sequences = await Promise.all(
+      Array.from({ length: writers }, (_, speaker) => logTurn(db, speaker)),
+    )
+
+    const expected = Array.from({ length: writers }, (_, index) => index + 1)
+    expect([...sequences].sort((a, b) => a - b)).toEqual(expected)
+    const chunkSequences = db.rows('transcriptChunks').map((chunk) => chunk.sequence as number)
+    expect(chunkSequences.sort((a, b) => a - b)).toEqual(expected)
+    expect(db.rows('transcriptCounters')).toHaveLength(1)
+    expect(db.rows('transcriptCounters')[0].lastSequence).toBe(writers)
+    // The writers really did collide and were rerun rather than interleaving their writes
+    expect(db.retries).toBeGreaterThan(0)
+  })
+
+  test('continues after the latest existing chunk and never reuses deleted sequences', async () => {
+    const db = new FakeDatabase()
+    for (const sequence of [1, 2, 7]) {
+      db.seed('transcriptChunks', { huddleId, sequence, source: 'voice', payload: 'Earlier' })
+    }
+    expect(await logTurn(db, 0)).toBe(8)
+
+    const latest = db.rows('transcriptChunks').find((chunk) => chunk.sequence === 8)
+    db.delete('transcriptChunks', latest!._id)
+    expect(await logTurn(db, 1)).toBe(9)
+  })
+})
@@ -4,6 +4,20 @@ import {
   createSpeakerStyle,
   truncateBadgeText,
   extractBadgesFromMetadata,
+  canRevertTranscriptTurn,
+  isTaskOverdue,
+  splitMentions,
+  extractMentionedUserIds,
+  sortByVoteCount,
+  getParticipantHuddleRole,
+  formatParticipantPreview,
+  createCustomItemTypeKey,
+  extractItemTags,
+  filterBoardItems,
+  sortBoardItems,
+  groupBoardItems,
+  retryWithDelays,
+  isTransientVoiceTurnError,
 } from '~/components/huddle/utils'
 import type { PlanningItemType } from '~/types'
 import type { TranscriptMetadata } from '~/components/huddle/types'
@@ -280,5 +294,280 @@ describe('utility functions', () => {
       expect(badges[0]!.text).toBe('Trimmed idea')
     })
   })
-})
 
+  describe('canRevertTranscriptTurn', () => {
+    const metadata: TranscriptMetadata = {
+      planningItemEvents: [
+        {
+          kind: 'planningItemUpdated',
+          itemType: 'task' as PlanningItemType,
+          itemText: 'Ship it',
+          itemId: 'item-1',
+        },
+      ],
+    }
+
+    test('returns false without planning item events', () => {
+      expect(canRevertTranscriptTurn(undefined)).toBe(false)
+      expect(canRevertTranscriptTurn({ planningItemEvents: [] })).toBe(false)
+    })
+
+    test('returns true for turns with any planning item events', () => {
+      expect(canRevertTranscriptTurn(metadata)).toBe(true)
+    })
+
+    test('returns false once the turn has been reverted', () => {
+      expect(
+        canRevertTranscriptTurn({ ...metadata, revertedAt: '2025-01-01T00:00:00.000Z' }),
+      ).toBe(false)
+    })
+  })
+  describe('isTaskOverdue', () => {
+    const now = new Date(2025, 5, 10, 12, 0, 0)
+
+    test('returns true for open tasks due before today', () => {
+      expect(isTaskOverdue({ dueDate: '2025-06-09' }, now)).toBe(true)
+      expect(isTaskOverdue({ status: 'in_progress', dueDate: '2025-06-01' }, now)).toBe(true)
+    })
+
+    test('returns false for tasks due today or later, or without a due date', () => {
+      expect(isTaskOverdue({ dueDate: '2025-06-10' }, now)).toBe(false)
+      expect(isTaskOverdue({ dueDate: '2025-07-01' }, now)).toBe(false)
+      expect(isTaskOverdue({ status: 'todo' }, now)).toBe(false)
+    })
+
+    test('returns false for completed or cancelled tasks', () => {
+      expect(isTaskOverdue({ status: 'done', dueDate: '2025-06-01' }, now)).toBe(false)
+      expect(isTaskOverdue({ status: 'cancelled', dueDate: '2025-06-01' }, now)).toBe(false)
+    })
+  })
+  describe('mentions', () => {
+    const participants = [
+      { userId: 'u1', displayName: 'Sam' },
+      { userId: 'u2', displayName: 'Sam Lee' },
+      { userId: 'u3', displayName: 'Priya' },
+    ]
+
+    test('splits known mentions from plain text', () => {
+      expect(splitMentions('Thanks @Priya, can you check?', participants)).toEqual([
+        { text: 'Thanks ' },
+        { text: '@Priya', userId: 'u3' },
+        { text: ', can you check?' },
+      ])
+    })
+
+    test('prefers the longest matching participant name', () => {
+      expect(extractMentionedUserIds('@Sam Lee owns this', participants)).toEqual(['u2'])
+      expect(extractMentionedUserIds('@sam and @Sam', participants)).toEqual(['u1'])
+    })
+
+    test('ignores unknown names, partial words and email addresses', () => {
+      expect(extractMentionedUserIds('@Samuel and sam@priya.dev', participants)).toEqual([])
+    })
+  })
+
+  describe('sortByVoteCount', () => {
+    const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }]
+
+    test('orders items by vote count, most votes first', () => {
+      expect(sortByVoteCount(items, { b: 1, c: 4, d: 2 }).map((item) => item.id)).toEqual([
+        'c',
+        'd',
+        'b',
+        'a',
+      ])
+    })
+
+    test('keeps the original order for ties and unvoted items', () => {
+      expect(sortByVoteCount(items, { c: 2, a: 2 }).map((item) => item.id)).toEqual([
+        'a',
+        'c',
+        'b',
+        'd',
+      ])
+      expect(sortByVoteCount(items, {})).toEqual(items)
+    })
+  })
+
+  describe('getParticipantHuddleRole', () => {
+    test('resolves the owner, defaults and observers', () => {
+      expect(getParticipantHuddleRole({ userId: 'owner-1', huddleRole: 'viewer' }, 'owner-1')).toBe(
+        'owner',
+      )
+      expect(getParticipantHuddleRole({ userId: 'u1', role: 'participant' }, 'owner-1')).toBe(
+        'editor',
+      )
+      expect(
+        getParticipantHuddleRole(
+          { userId: 'u2', role: 'participant', huddleRole: 'contributor' },
+          'owner-1',
+        ),
+      ).toBe('contributor')
+      expect(
+        getParticipantHuddleRole(
+          { userId: 'u3', role: 'observer', huddleRole: 'facilitator' },
+          'owner-1',
+        ),
+      ).toBe('viewer')
+    })
+  })
+
+  describe('formatParticipantPreview', () => {
+    test('lists every name when all participants are shown', () => {
+      expect(formatParticipantPreview(['Ana', 'Ben'], 2)).toBe('Ana, Ben')
+    })
+
+    test('summarises participants beyond the stored names', () => {
+      expect(formatParticipantPreview(['Ana', 'Ben'], 5)).toBe('Ana, Ben and 3 more')
+    })
+
+    test('handles huddles nobody has joined', () => {
+      expect(formatParticipantPreview([], 0)).toBe('No participants yet')
+    })
+  })
+
+  describe('createCustomItemTypeKey', () => {
+    test('slugifies the label into a snake_case key', () => {
+      expect(createCustomItemTypeKey("Didn't go well!", [])).toBe('didn_t_go_well')
+      expect(createCustomItemTypeKey('  Kudos  ', [])).toBe('kudos')
+    })
+
+    test('avoids built-in types, leading digits and existing keys', () => {
+      expect(createCustomItemTypeKey('Risk', [])).toBe('type_risk')
+      expect(createCustomItemTypeKey('1:1 notes', [])).toBe('type_1_1_notes')
+      expect(createCustomItemTypeKey('???', [])).toBe('type')
+      expect(createCustomItemTypeKey('Kudos', ['kudos', 'kudos_2'])).toBe('kudos_3')
+    })
+  })
+
+  describe('board views', () => {
+    const items = [
+      {
+        id: 'a',
+        type: 'task' as const,
+        text: 'Ship the #API docs',
+        timestamp: '2024-01-01T10:00:00Z',
+        speakerLabel: 'Ana',
+        assigneeUserIds: ['u1'],
+        status: 'todo' as const,
+        dueDate: '2024-02-10',
+      },
+      {
+        id: 'b',
+        type: 'task' as const,
+        text: 'Migrate billing #backend',
+        timestamp: '2024-01-01T11:00:00Z',
+        speakerLabel: 'Ben',
+        assigneeUserIds: ['u1', 'u2'],
+        blockedBy: ['a'],
+        status: 'in_progress' as const,
+        dueDate: '2024-02-01',
+      },
+      {
+        id: 'c',
+        type: 'idea' as const,
+        text: 'Dark mode',
+        timestamp: '2024-01-01T09:00:00Z',
+        speakerLabel: 'ana',
+      },
+    ]
+    const ids = (list: Array<{ id: string }>) => list.map((item) => item.id)
+
+    test('extracts lowercase hashtags once each', () => {
+      expect(extractItemTags('Fix #Login and #login, not a#b or #')).toEqual(['login'])
+    })
+
+    test('filters by type, speaker, assignee, tag and blocked state', () => {
+      expect(ids(filterBoardItems(items, {}))).toEqual(['a', 'b', 'c'])
+      expect(ids(filterBoardItems(items, { types: ['idea'] }))).toEqual(['c'])
+      expect(ids(filterBoardItems(items, { speakers: ['ANA'] }))).toEqual(['a', 'c'])
+      expect(ids(filterBoardItems(items, { assigneeUserIds: ['u2'] }))).toEqual(['b'])
+      expect(ids(filterBoardItems(items, { tags: ['api'] }))).toEqual(['a'])
+      expect(ids(filterBoardItems(items, { blocked: 'blocked' }))).toEqual(['b'])
+      expect(ids(filterBoardItems(items, { blocked: 'unblocked', types: ['task'] }))).toEqual(['a'])
+    })
+
+    test('sorts by time or due date and keeps board order by default', () => {
+      expect(ids(sortBoardItems(items))).toEqual(['a', 'b', 'c'])
+      expect(ids(sortBoardItems(items, 'newest'))).toEqual(['b', 'a', 'c'])
+      expect(ids(sortBoardItems(items, 'oldest'))).toEqual(['c', 'a', 'b'])
+      expect(ids(sortBoardItems(items, 'dueDate'))).toEqual(['b', 'a', 'c'])
+    })
+
+    test('groups by assignee and status with missing values last', () => {
+      expect(
+        groupBoardItems(items, 'assignee').map((column) => [column.key, ids(column.items)]),
+      ).toEqual([
+        ['u1', ['a', 'b']],
+        ['u2', ['b']],
+        ['', ['c']],
+      ])
+      expect(groupBoardItems(items, 'status').map((column) => column.key)).toEqual([
+        'todo',
+        'in_progress',
+        '',
+      ])
+    })
+  })
+
+  describe('retryWithDelays', () => {
+    test('retries until the attempt succeeds', async () => {
+      const retried: number[] = []
+      const attempts: number[] = []
+      const result = await retryWithDelays(
+        async (attemptIndex) => {
+          attempts.push(attemptIndex)
+          if (attemptIndex < 2) throw new Error('flaky network')
+          return 'done'
+        },
+        [0, 0, 0],
+        { onRetry: (_error, attemptIndex) => retried.push(attemptIndex) },
+      )
+      expect(result).toBe('done')
+      expect(attempts).toEqual([0, 1, 2])
+      expect(retried).toEqual([0, 1])
+    })
+
+    test('gives up with the last error once the delays run out', async () => {
+      let attempts = 0
+      await expect(
+        retryWithDelays(async () => {
+          attempts += 1
+          throw new Error(`attempt ${attempts}`)
+        }, [0]),
+      ).rejects.toThrow('attempt 2')
+      expect(attempts).toBe(2)
+    })
+
+    test('throws permanent voice turn failures without retrying', async () => {
+      let attempts = 0
+      await expect(
+        retryWithDelays(
+          async () => {
+            attempts += 1
+            throw new Error('Transcription failed: 400 Unsupported file format')
+          },
+          [0, 0, 0],
+          { shouldRetry: isTransientVoiceTurnError },
+        ),
+      ).rejects.toThrow('Unsupported file format')
+      expect(attempts).toBe(1)
+    })
+
+    test('retries transient voice turn failures', async () => {
+      let attempts = 0
+      const result = await retryWithDelays(
+        async () => {
+          attempts += 1
+          if (attempts === 1) throw new Error('Transcription failed [transient]: 503 Service Unavailable')
+          if (attempts === 2) throw new TypeError('Failed to fetch')
+          return 'done'
+        },
+        [0, 0, 0],
+        { shouldRetry: isTransientVoiceTurnError },
+      )
+      expect(result).toBe('done')
+      expect(attempts).toBe(3)
+    })
+  })
+})
@@ -13,6 +13,7 @@ import type { DevSimulationAction } from '~/dev/simulationSchema'
 import type { PlanningItemType } from '~/types'
 import { Button } from '~/components/ui/button'
 import { Switch } from '~/components/ui/switch'
+import { useGuestSession } from '~/context/GuestSessionContext'
 
 type PlanningItemForDev = {
   id: Id<'planningItems'>
@@ -57,6 +58,7 @@ export function DevTranscriptToolbar({
   planningItems,
   transcriptChunks,
 }: DevTranscriptToolbarProps) {
+  const { guestToken } = useGuestSession()
   const createPlanningItem = useConvexMutation(api.huddle.createPlanningItem)
   const updatePlanningItem = useConvexMutation(api.huddle.updatePlanningItem)
   const deletePlanningItem = useConvexMutation(api.huddle.deletePlanningItem)
@@ -182,13 +184,19 @@ export function DevTranscriptToolbar({
         
         const newId = await createPlanningItem({
           huddleId,
+          guestToken,
           type: action.type,
+          customType: action.type === 'custom' ? action.customType ?? undefined : undefined,
           text: action.text,
           timestamp: new Date().toISOString(),
           speakerId: defaults.speakerId,
           speakerLabel: action.speakerLabel ?? defaults.speakerLabel,
           metadata,
           blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+          status: action.type === 'task' ? action.status ?? undefined : undefined,
+          dueDate: action.type === 'task' ? action.dueDate ?? undefined : undefined,
+          assigneeUserIds:
+            action.type === 'task' ? action.assigneeUserIds ?? undefined : undefined,
         })
 
         itemIdsRef.current[action.itemKey] = newId
@@ -224,6 +232,10 @@ export function DevTranscriptToolbar({
           huddleId,
           text: textPatch,
           blockedBy,
+          status: action.patch.status ?? undefined,
+          dueDate: action.patch.dueDate ?? undefined,
+          assigneeUserIds: action.patch.assigneeUserIds ?? undefined,
+          guestToken,
         })
       } catch (error) {
         console.error('Failed to update planning item from dev action', error)
@@ -243,7 +255,7 @@ export function DevTranscriptToolbar({
       }
 
       try {
-        await deletePlanningItem({ id: targetId, huddleId })
+        await deletePlanningItem({ id: targetId, huddleId, guestToken })
         delete itemIdsRef.current[action.targetKey]
       } catch (error) {
         console.error('Failed to remove planning item from dev action', error)
@@ -307,7 +319,7 @@ export function DevTranscriptToolbar({
 
       await logTranscriptChunk({
         huddleId,
-        sequence,
+        guestToken,
         source: 'transcript',
         payload: nextChunk.text,
         createdAt: new Date().toISOString(),
@@ -19,15 +19,28 @@ import {
     useDeleteHuddleMutation,
     useSetInviteOnlyMutation,
     useSetPrivateMutation,
+    useSetReviewModeMutation,
     useInviteUserMutation,
     useRemoveInviteMutation,
+    useSetParticipantRoleMutation,
     useAutoEndHuddleMutation,
+    useRevertTranscriptTurnMutation,
+    useCastVoteMutation,
+    useStartNextOccurrenceMutation,
+    useRemoveVoteMutation,
+    useDeleteViewMutation,
     linearQueries,
 } from '~/queries'
+import type { Id } from '../../convex/_generated/dataModel'
 import {
+    HUDDLE_ROLE_LABELS,
     PLANNING_ITEM_TYPE_LABELS,
     PLANNING_ITEM_TYPES,
+    TASK_STATUS_LABELS,
+    type AssignableHuddleRole,
+    type BoardViewGrouping,
     type PlanningItemType,
+    type TaskStatus,
 } from '~/types'
 import { EditableText } from './EditableText'
 import { DevTranscriptToolbar } from './DevTranscriptToolbar'
@@ -49,6 +62,20 @@ import { NameDialog } from './huddle/NameDialog'
 import { DeleteHuddleDialog } from './huddle/DeleteHuddleDialog'
 import { DevDiagnostics } from './huddle/DevDiagnostics'
 import { PlanningItemList } from './huddle/PlanningItemList'
+import { PendingActionsPanel } from './huddle/PendingActionsPanel'
+import { VotingControls } from './huddle/VotingControls'
+import { AgendaCard } from './huddle/AgendaCard'
+import { SaveTemplateDialog } from './huddle/SaveTemplateDialog'
+import { CloneHuddleDialog } from './huddle/CloneHuddleDialog'
+import { BoardViewTabs } from './huddle/BoardViewTabs'
+import { BoardViewDialog } from './huddle/BoardViewDialog'
+import { GroupedBoard } from './huddle/GroupedBoard'
+import { CustomTypeSections } from './huddle/CustomTypeSections'
+import { CustomItemTypesDialog } from './huddle/CustomItemTypesDialog'
+import { TranscriptRetentionDialog } from './huddle/TranscriptRetentionDialog'
+import { DependencyGraphDialog } from './huddle/DependencyGraphDialog'
+import { DuplicateItemsDialog } from './huddle/DuplicateItemsDialog'
+import { ItemDetailPanel } from './huddle/ItemDetailPanel'
 import { ResearchDebug } from './huddle/ResearchDebug'
 import {
     FALLBACK_SPEAKER_STYLE,
@@ -58,13 +85,23 @@ import {
     SUPPORTING_SECTIONS,
     DEV_TOOLBAR_STORAGE_KEY,
     RECORDING_MODE_STORAGE_KEY,
+    VOICE_TURN_RETRY_DELAYS_MS,
 } from './huddle/constants'
 import {
+    canRevertTranscriptTurn,
     createSpeakerStyle,
     extractBadgesFromMetadata,
+    extractItemTags,
+    filterBoardItems,
     getInitials,
+    groupBoardItems,
     hashStringToSeed,
+    generateHuddleSlug,
+    isTransientVoiceTurnError,
     normalizeAudioBlob,
+    retryWithDelays,
+    sortBoardItems,
+    sortByVoteCount,
 } from './huddle/utils'
 import type {
     OverallRecordingStatus,
@@ -96,8 +133,11 @@ import {
     AlertDialogTrigger,
 } from '~/components/ui/alert-dialog'
 import { useUserProfile } from '~/context/UserProfileContext'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { Loader } from '~/components/Loader'
 import { Input } from '~/components/ui/input'
 import { useMicrophone } from '~/hooks/useMicrophone'
+import { useCallerCredentials } from '~/hooks/useCallerCredentials'
 import { useDarkMode } from '~/hooks/useDarkMode'
 import {
     useVoiceActivityRecorder,
@@ -115,8 +155,17 @@ import { api } from '../../convex/_generated/api'
 import { FREE_HUDDLE_DURATION_MS } from '~/shared/huddle'
 
 export function Huddle({ slug }: { slug: string }) {
+    // Workspace huddles are only returned to members, so wait until we know who is calling
+    const { isReady, guestToken } = useGuestSession()
+    if (!isReady) {
+        return <Loader />
+    }
+    return <HuddleForCaller slug={slug} guestToken={guestToken} />
+}
+
+function HuddleForCaller({ slug, guestToken }: { slug: string; guestToken: string | undefined }) {
     const router = useRouter()
-    const { data: huddle } = useSuspenseQuery(huddleQueries.detail(slug))
+    const { data: huddle } = useSuspenseQuery(huddleQueries.detail(slug, guestToken))
     const microphone = useMicrophone()
     const huddleContentRef = useRef<typeof HuddleContent | null>(null)
     if (!huddleContentRef.current) {
@@ -154,7 +203,7 @@ export function Huddle({ slug }: { slug: string }) {
     useEffect(() => {
         return () => {
             try {
-                const { queryKey } = huddleQueries.detail(slug)
+                const { queryKey } = huddleQueries.detail(slug, guestToken)
                 // Cancel the query to stop streaming, but don't remove it from cache
                 // This avoids the race condition where unsubscribe might be undefined
                 void queryClient.cancelQueries({ queryKey })
@@ -167,7 +216,7 @@ export function Huddle({ slug }: { slug: string }) {
                 }
             }
         }
-    }, [queryClient, slug])
+    }, [queryClient, slug, guestToken])
 
     if (!huddle) {
         return null
@@ -189,6 +238,8 @@ export function Huddle({ slug }: { slug: string }) {
         microphone: MicrophoneControls
     }) {
         const { profile, isComplete, isReady, setName } = useUserProfile()
+        const { isReady: isGuestSessionReady, guestToken } = useGuestSession()
+        const getCallerCredentials = useCallerCredentials()
         const { isDark } = useDarkMode()
 
         // Get primary-foreground color for border animation
@@ -202,6 +253,7 @@ export function Huddle({ slug }: { slug: string }) {
         const updatePlanningItem = useUpdatePlanningItemMutation()
         const deletePlanningItem = useDeletePlanningItemMutation()
         const addParticipant = useAddParticipantMutation()
+        const startNextOccurrence = useStartNextOccurrenceMutation()
         const {
             mutateAsync: registerObserverAsync,
             isPending: isRegisterObserverPending,
@@ -215,9 +267,12 @@ export function Huddle({ slug }: { slug: string }) {
         const { mutate: upsertPresenceMutate } = useUpsertPresenceMutation()
         const setInviteOnly = useSetInviteOnlyMutation()
         const setPrivate = useSetPrivateMutation()
+        const setReviewMode = useSetReviewModeMutation()
         const inviteUser = useInviteUserMutation()
         const removeInvite = useRemoveInviteMutation()
+        const setParticipantRole = useSetParticipantRoleMutation()
         const autoEndHuddle = useAutoEndHuddleMutation()
+        const revertTranscriptTurn = useRevertTranscriptTurnMutation()
 
         const debugLog = useCallback(
             (...args: Array<unknown>) => {
@@ -234,10 +289,19 @@ export function Huddle({ slug }: { slug: string }) {
         const [isLinearAuthDialogOpen, setIsLinearAuthDialogOpen] = useState(false)
         const [isLinearProjectDialogOpen, setIsLinearProjectDialogOpen] = useState(false)
         const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+        const [isSaveTemplateDialogOpen, setIsSaveTemplateDialogOpen] = useState(false)
+        const [isCloneDialogOpen, setIsCloneDialogOpen] = useState(false)
+        const [isBoardViewDialogOpen, setIsBoardViewDialogOpen] = useState(false)
+        const [isCustomItemTypesDialogOpen, setIsCustomItemTypesDialogOpen] = useState(false)
+        const [isDependencyGraphOpen, setIsDependencyGraphOpen] = useState(false)
+        const [isDuplicateItemsOpen, setIsDuplicateItemsOpen] = useState(false)
+        const [isTranscriptRetentionOpen, setIsTranscriptRetentionOpen] = useState(false)
         const navigate = useNavigate({ from: '/huddles/$huddleSlug' })
         const search = useSearch({ from: '/huddles/$huddleSlug' })
         const itemId = (search as any).itemId as string | undefined
         const shareKey = (search as any).shareKey as string | undefined
+        const chunkId = (search as any).chunkId as string | undefined
+        const viewId = (search as any).viewId as string | undefined
         const itemRefs = useRef<Map<string, HTMLElement>>(new Map())
         const [highlightedItemId, setHighlightedItemId] = useState<string | null>(null)
         const previousItemsRef = useRef<Array<(typeof huddle.planningItems)[number]>>([])
@@ -357,15 +421,12 @@ export function Huddle({ slug }: { slug: string }) {
 
         const rawTranscriptChunks = huddle.transcriptChunks
         const huddleId = huddle._id
-        const isOwner =
-            huddle.createdBy === profile.clientId ||
-            (typeof profile.name === 'string' &&
-                profile.name.trim().length > 0 &&
-                huddle.createdBy === profile.name.trim())
+        const isOwner = huddle.createdBy === profile.clientId
         const isHuddleCompleted = huddle.status === 'completed'
         const isTimeLimited = huddle.isTimeLimited !== false
         const isPrivate = huddle.isPrivate === true
         const isInviteOnly = huddle.isInviteOnly === true
+        const isReviewMode = huddle.reviewMode === true
         const invitedUserIds = huddle.invitedUserIds ?? []
         const isInvited = invitedUserIds.includes(profile.clientId)
         const hasValidShareKey = !isPrivate || (typeof shareKey === 'string' && shareKey === huddle.privateAccessKey)
@@ -406,7 +467,7 @@ export function Huddle({ slug }: { slug: string }) {
             const elapsedMs = currentTime - createdAtMs
             if (elapsedMs < FREE_HUDDLE_DURATION_MS) return
             hasAttemptedAutoEndRef.current = true
-            void autoEndHuddle.mutateAsync({ huddleId })
+            autoEndHuddle.mutate({ huddleId })
         }, [isTimeLimited, isHuddleCompleted, huddle.createdAt, huddleId, autoEndHuddle, currentTime])
 
         // Auto-end when time limit is exceeded while on the page
@@ -418,7 +479,7 @@ export function Huddle({ slug }: { slug: string }) {
             if (!isFreeLimitExceeded) return
 
             hasAutoEndedWhileOnPageRef.current = true
-            void autoEndHuddle.mutateAsync({ huddleId })
+            autoEndHuddle.mutate({ huddleId })
         }, [isFreeLimitExceeded, isHuddleCompleted, isTimeLimited, huddleId, autoEndHuddle])
 
         // Check Linear authentication status (non-blocking, optional feature)
@@ -468,6 +529,16 @@ export function Huddle({ slug }: { slug: string }) {
             [currentParticipant],
         )
 
+        // Until the caller's role has loaded, fall back to the pre-role behaviour
+        const { data: huddleAccess } = useQuery(huddleQueries.access(huddle._id, guestToken))
+        const huddlePermissions = huddleAccess?.permissions
+        const canEditBoard = huddlePermissions?.editItems ?? isParticipant
+        const canSpeak = huddlePermissions?.speak ?? isParticipant
+        const canVote = huddlePermissions?.vote ?? (isParticipant || isOwner)
+        const canFacilitate = huddlePermissions?.facilitate ?? isOwner
+        const canExportToLinear = huddlePermissions?.exportToLinear ?? isOwner
+        const canManageRoles = huddlePermissions?.manageRoles ?? false
+
         const canJoin = useMemo(() => {
             if (isOwner) return true
             if (isPrivate && !hasValidShareKey) return false
@@ -816,7 +887,7 @@ export function Huddle({ slug }: { slug: string }) {
         const [lastRecordingDuration, setLastRecordingDuration] = useState<number | null>(null)
         const [conversationId, setConversationId] = useState<string | null>(null)
         const isPushToTalkReady =
-            isParticipant && isMicrophoneSupported && microphonePermission === 'granted'
+            canSpeak && isMicrophoneSupported && microphonePermission === 'granted'
         const startPushToTalk = useCallback(async () => {
             if (!isMicrophoneSupported) {
                 setMicrophoneStatusMessage('Microphone recording is not supported in this browser.')
@@ -877,6 +948,9 @@ export function Huddle({ slug }: { slug: string }) {
                 if (!isParticipant) {
                     throw new Error('Join the huddle before sending audio.')
                 }
+                if (!canSpeak) {
+                    throw new Error('Your role in this huddle cannot add to the board by voice.')
+                }
 
                 const audioFile = normalizeAudioBlob(blob)
                 const normalizedMimeType = audioFile.type || mimeType
@@ -904,8 +978,34 @@ export function Huddle({ slug }: { slug: string }) {
                 formData.set('requestId', requestId)
 
                 try {
-                    const response = await speakToHuddle({ data: formData })
+                    // Retries reuse the requestId, so a turn the server already applied is not applied again.
+                    // Only transient failures are retried; a bad recording would fail (and cost) every time
+                    const response = await retryWithDelays(
+                        async () => {
+                            const credentials = await getCallerCredentials()
+                            if (credentials.authToken) {
+                                formData.set('authToken', credentials.authToken)
+                            }
+                            if (credentials.guestToken) {
+                                formData.set('guestToken', credentials.guestToken)
+                            }
+                            return await speakToHuddle({ data: formData })
+                        },
+                        VOICE_TURN_RETRY_DELAYS_MS,
+                        {
+                            shouldRetry: isTransientVoiceTurnError,
+                            onRetry: (error, attemptIndex) => {
+                                console.warn('Voice turn failed, retrying', { requestId, attemptIndex, error })
+                            },
+                        },
+                    )
                     setConversationId(response?.conversationId ?? null)
+                    const droppedDependencies = response?.mutation.dependencyRejections.length ?? 0
+                    if (droppedDependencies > 0) {
+                        toast(
+                            `Skipped ${droppedDependencies} invalid ${droppedDependencies === 1 ? 'dependency' : 'dependencies'}: only tasks can block tasks, and never in a loop.`,
+                        )
+                    }
                     debugLog('recording processed', { response })
                 } catch (submissionError) {
                     throw submissionError instanceof Error
@@ -914,8 +1014,10 @@ export function Huddle({ slug }: { slug: string }) {
                 }
             },
             [
+                canSpeak,
                 conversationId,
                 debugLog,
+                getCallerCredentials,
                 huddleId,
                 isParticipant,
                 profile.clientId,
@@ -988,7 +1090,7 @@ export function Huddle({ slug }: { slug: string }) {
             enabled:
                 isAutoDetectionMode &&
                 autoDetectionActive &&
-                isParticipant &&
+                canSpeak &&
                 isHuddleActive &&
                 isDevEnvironment,
             onTurn: handleAutoTurn,
@@ -1154,7 +1256,6 @@ export function Huddle({ slug }: { slug: string }) {
             upsertPresenceMutate(
                 {
                     huddleId,
-                    userId,
                     isSpeaking: false,
                     isRecording: nextIsRecording,
                     updatedAt,
@@ -1444,6 +1545,69 @@ export function Huddle({ slug }: { slug: string }) {
             overallRecordingStatus,
         ])
 
+        async function handleStartNextOccurrence() {
+            try {
+                const next = await startNextOccurrence.mutateAsync({
+                    huddleId,
+                    slug: generateHuddleSlug(),
+                    name: huddle.name,
+                })
+                await addParticipant.mutateAsync({
+                    huddleId: next.huddleId,
+                    displayName: profile.name.trim(),
+                    avatarUrl: profile.avatar?.url ?? undefined,
+                })
+                toast.success(
+                    `Carried over ${next.carriedCount} open item${next.carriedCount === 1 ? '' : 's'}.`,
+                )
+                await navigate({
+                    to: '/huddles/$huddleSlug',
+                    params: { huddleSlug: next.slug },
+                })
+            } catch (error) {
+                console.error('Failed to start the next occurrence', error)
+                toast.error(
+                    error instanceof Error ? error.message : 'Unable to start the next occurrence.',
+                )
+            }
+        }
+
+        async function handleCloned(clone: { huddleId: Id<'huddles'>; slug: string; clonedCount: number }) {
+            try {
+                await addParticipant.mutateAsync({
+                    huddleId: clone.huddleId,
+                    displayName: profile.name.trim(),
+                    avatarUrl: profile.avatar?.url ?? undefined,
+                })
+                toast.success(`Cloned ${clone.clonedCount} item${clone.clonedCount === 1 ? '' : 's'}.`)
+                await navigate({
+                    to: '/huddles/$huddleSlug',
+                    params: { huddleSlug: clone.slug },
+                })
+            } catch (error) {
+                console.error('Failed to open the cloned huddle', error)
+                toast.error(error instanceof Error ? error.message : 'Unable to open the cloned huddle.')
+            }
+        }
+
+        async function handleExportBundle() {
+            try {
+                const bundle = await queryClient.fetchQuery(huddleQueries.bundle(huddleId, guestToken))
+                const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+                const url = URL.createObjectURL(blob)
+                const a = document.createElement('a')
+                a.href = url
+                a.download = `${huddle.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_huddle.json`
+                document.body.appendChild(a)
+                a.click()
+                document.body.removeChild(a)
+                URL.revokeObjectURL(url)
+            } catch (error) {
+                console.error('Failed to export huddle', error)
+                toast.error(error instanceof Error ? error.message : 'Unable to export the huddle.')
+            }
+        }
+
         async function handleJoin() {
             if (!canJoin) {
                 toast.error('You’re not invited to this huddle.')
@@ -1457,7 +1621,6 @@ export function Huddle({ slug }: { slug: string }) {
             try {
                 await addParticipant.mutateAsync({
                     huddleId,
-                    userId: profile.clientId,
                     displayName: profile.name.trim(),
                     avatarUrl: profile.avatar?.url ?? undefined,
                 })
@@ -1474,12 +1637,10 @@ export function Huddle({ slug }: { slug: string }) {
             try {
                 await removeParticipant.mutateAsync({
                     huddleId,
-                    userId: profile.clientId,
                 })
                 if (!isDevEnvironment) {
                     await clearPresence.mutateAsync({
                         huddleId,
-                        userId: profile.clientId,
                     })
                 }
                 toast.success('You left the huddle.')
@@ -1498,7 +1659,6 @@ export function Huddle({ slug }: { slug: string }) {
             try {
                 await endHuddleMutation.mutateAsync({
                     huddleId,
-                    userId: profile.clientId,
                 })
                 
                 // Generate AI summary only once when End huddle is clicked
@@ -1515,7 +1675,7 @@ export function Huddle({ slug }: { slug: string }) {
                     try {
                         const { generateHuddleSummary } = await import('~/server/generateHuddleSummary')
                         await generateHuddleSummary({
-                            data: { huddleId },
+                            data: { huddleId, ...(await getCallerCredentials()) },
                         })
                     } catch (summaryError) {
                         // Log but don't fail the end huddle operation
@@ -1539,7 +1699,6 @@ export function Huddle({ slug }: { slug: string }) {
             try {
                 await startHuddleMutation.mutateAsync({
                     huddleId,
-                    userId: profile.clientId,
                 })
                 toast.success('Huddle restarted — let the ideas flow.')
             } catch (error) {
@@ -1567,6 +1726,7 @@ export function Huddle({ slug }: { slug: string }) {
                     speakerLabel,
                     speakerKey,
                     badges: extractBadgesFromMetadata(metadata),
+                    canRevert: canRevertTranscriptTurn(metadata),
                 }
             })
         }, [rawTranscriptChunks])
@@ -1739,43 +1899,177 @@ export function Huddle({ slug }: { slug: string }) {
         const [isGeneratingSummary, setIsGeneratingSummary] = useState(false)
 
         const autoTitleAttemptedGoalIdsRef = useRef(new Set<string>())
-        const previousPlanningItemsCountRef = useRef(huddle.planningItems.length)
-        const lastCreatedItemIdRef = useRef<string | null>(null)
 
-        // Watch for new planning items and update URL
-        useEffect(() => {
-            const currentCount = huddle.planningItems.length
-            const previousCount = previousPlanningItemsCountRef.current
-
-            // If a new item was added
-            if (currentCount > previousCount && currentCount > 0) {
-                // Find the most recently created item (by timestamp)
-                const sortedItems = [...huddle.planningItems].sort((a, b) =>
-                    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+        const { data: commentCountsData } = useQuery(huddleQueries.commentCounts(huddle._id, guestToken))
+        const commentCounts = useMemo(() => commentCountsData ?? {}, [commentCountsData])
+
+        // The itemId search param opens the detail panel so item discussions can be linked to
+        const detailItem = itemId ? planningItemsById[itemId] : undefined
+        const handleOpenItemDetail = useCallback(
+            (id: string | undefined) => {
+                void navigate({
+                    search: (previous) => ({ ...previous, itemId: id }),
+                })
+            },
+            [navigate],
+        )
+        const canComment = isOwner || participantsByUserId.has(profile.clientId)
+
+        const { data: votingState } = useQuery(huddleQueries.votingRound(huddle._id, guestToken))
+        const castVote = useCastVoteMutation()
+        const removeVote = useRemoveVoteMutation()
+        const votingRound = votingState?.round ?? null
+        const ideaVoting = useMemo(() => {
+            if (!votingState) return null
+            return {
+                isOpen: votingState.round.status === 'open',
+                canVote: canVote && !isHuddleCompleted,
+                remainingVotes: votingState.remainingVotes,
+                tallies: votingState.tallies,
+                myVotes: votingState.myVotes,
+                voters: votingState.voters,
+            }
+        }, [votingState, canVote, isHuddleCompleted])
+        const handleVote = useCallback(
+            (planningItemId: string, vote: boolean) => {
+                if (!votingRound) return
+                const mutation = vote ? castVote : removeVote
+                mutation.mutate(
+                    {
+                        roundId: votingRound._id,
+                        planningItemId: planningItemId as Id<'planningItems'>,
+                    },
+                    {
+                        onError: (error) => {
+                            console.error('Failed to update vote', error)
+                            toast.error(error instanceof Error ? error.message : 'Failed to update vote')
+                        },
+                    },
                 )
-                const newestItem = sortedItems[0]
-
-                // Only update if this is a different item than the last one we processed
-                if (newestItem && newestItem.id !== lastCreatedItemIdRef.current) {
-                    lastCreatedItemIdRef.current = newestItem.id
-
-                    // Update URL with the new itemId
-                    void router.navigate({
-                        to: '/huddles/$huddleSlug',
-                        params: { huddleSlug: slug },
-                        search: {
-                            itemId: newestItem.id,
+            },
+            [votingRound, castVote, removeVote],
+        )
+
+        // Once a round is closed its results are locked, so ideas are ranked by votes
+        const boardItems = useMemo(() => {
+            if (!votingState || votingState.round.status !== 'closed') {
+                return groupedItems
+            }
+            return { ...groupedItems, idea: sortByVoteCount(groupedItems.idea, votingState.tallies) }
+        }, [groupedItems, votingState])
+
+        // The viewId search param picks a saved view, so a view can be linked to like an item
+        const { data: boardViews = [] } = useQuery(huddleQueries.views(huddle._id, guestToken))
+        const activeBoardView = boardViews.find((view) => view._id === viewId) ?? null
+        const activeViewConfig = activeBoardView?.config
+        const [editingBoardView, setEditingBoardView] = useState<(typeof boardViews)[number] | null>(null)
+        const deleteBoardView = useDeleteViewMutation()
+        const canSaveBoardViews = huddleAccess ? huddleAccess.role !== null : isParticipant || isOwner
+        const handleSelectBoardView = useCallback(
+            (id: string | undefined) => {
+                void navigate({
+                    search: (previous) => ({ ...previous, viewId: id }),
+                })
+            },
+            [navigate],
+        )
+        const handleDeleteBoardView = useCallback(
+            (view: (typeof boardViews)[number]) => {
+                deleteBoardView.mutate(
+                    { id: view._id },
+                    {
+                        onSuccess: () => {
+                            toast.success(`Deleted ${view.label}`)
+                            handleSelectBoardView(undefined)
                         },
-                        replace: false,
-                    })
+                        onError: (error) => {
+                            console.error('Failed to delete view', error)
+                            toast.error(error instanceof Error ? error.message : 'Failed to delete view')
+                        },
+                    },
+                )
+            },
+            [deleteBoardView, handleSelectBoardView],
+        )
+
+        const viewBoardItems = useMemo(() => {
+            if (!activeViewConfig) {
+                return boardItems
+            }
+            return Object.fromEntries(
+                PLANNING_ITEM_TYPES.map((type) => [
+                    type,
+                    sortBoardItems(filterBoardItems(boardItems[type], activeViewConfig), activeViewConfig.sortBy),
+                ]),
+            ) as typeof boardItems
+        }, [boardItems, activeViewConfig])
+
+        const getBoardColumnTitle = useCallback(
+            (groupBy: BoardViewGrouping, key: string) => {
+                if (groupBy === 'type') {
+                    const type = key as PlanningItemType
+                    return huddle.template?.columnLabels?.[type] ?? PLANNING_ITEM_TYPE_LABELS[type]
                 }
-            }
+                if (groupBy === 'speaker') {
+                    return key || 'No speaker'
+                }
+                if (groupBy === 'assignee') {
+                    if (!key) return 'Unassigned'
+                    return participantsByUserId.get(key)?.displayName?.trim() || 'Former participant'
+                }
+                return key ? TASK_STATUS_LABELS[key as TaskStatus] : 'No status'
+            },
+            [huddle.template?.columnLabels, participantsByUserId],
+        )
 
-            previousPlanningItemsCountRef.current = currentCount
-        }, [huddle.planningItems, router, slug])
+        // Summaries have their own card, so views never regroup them
+        const boardViewColumns = useMemo(() => {
+            const groupBy = activeViewConfig?.groupBy
+            if (!activeViewConfig || !groupBy || groupBy === 'type') {
+                return null
+            }
+            const items = PLANNING_ITEM_TYPES.filter((type) => type !== 'summary').flatMap(
+                (type) => viewBoardItems[type],
+            )
+            return groupBoardItems(items, groupBy)
+                .filter((column) => !activeViewConfig.hiddenColumns?.includes(column.key))
+                .map((column) => ({ ...column, title: getBoardColumnTitle(groupBy, column.key) }))
+        }, [activeViewConfig, viewBoardItems, getBoardColumnTitle])
+
+        const boardViewOptions = useMemo(() => {
+            const speakers = new Set<string>()
+            const tags = new Set<string>()
+            for (const item of huddle.planningItems) {
+                const speaker = item.speakerLabel?.trim()
+                if (speaker) speakers.add(speaker)
+                for (const tag of extractItemTags(item.text)) tags.add(tag)
+            }
+            return {
+                speakers: [...speakers].sort().map((speaker) => ({ value: speaker, label: speaker })),
+                tags: [...tags].sort().map((tag) => ({ value: tag, label: `#${tag}` })),
+                assignees: huddle.participants.flatMap((participant) => {
+                    const name = participant.displayName?.trim()
+                    return name ? [{ value: participant.userId, label: name }] : []
+                }),
+            }
+        }, [huddle.planningItems, huddle.participants])
+
+        const getBoardViewColumnOptions = useCallback(
+            (groupBy: BoardViewGrouping) => {
+                const keys =
+                    groupBy === 'type'
+                        ? PLANNING_ITEM_TYPES.filter((type) => type !== 'summary')
+                        : groupBoardItems(
+                              huddle.planningItems.filter((item) => item.type !== 'summary'),
+                              groupBy,
+                          ).map((column) => column.key)
+                return keys.map((key) => ({ value: key, label: getBoardColumnTitle(groupBy, key) }))
+            },
+            [huddle.planningItems, getBoardColumnTitle],
+        )
 
         useEffect(() => {
-            if (typeof huddle.autoTitleGeneratedAt === 'string') {
+            if (typeof huddle.autoTitleGeneratedAt === 'string' || !canEditBoard) {
                 return
             }
             const goalItems = groupedItems.outcome ?? []
@@ -1793,16 +2087,22 @@ export function Huddle({ slug }: { slug: string }) {
                 return
             }
             autoTitleAttemptedGoalIdsRef.current.add(primaryGoal.id)
-            void requestHuddleAutoTitle({
-                data: {
-                    huddleId: huddle._id as string,
-                    goalId: primaryGoal.id,
-                },
-            }).catch((error) => {
-                console.error('Failed to request auto-generated huddle title', error)
-                autoTitleAttemptedGoalIdsRef.current.delete(primaryGoal.id)
-            })
-        }, [groupedItems, huddle._id, huddle.autoTitleGeneratedAt])
+            const goalId = primaryGoal.id
+            void getCallerCredentials()
+                .then((credentials) =>
+                    requestHuddleAutoTitle({
+                        data: {
+                            huddleId: huddle._id as string,
+                            goalId,
+                            ...credentials,
+                        },
+                    }),
+                )
+                .catch((error) => {
+                    console.error('Failed to request auto-generated huddle title', error)
+                    autoTitleAttemptedGoalIdsRef.current.delete(goalId)
+                })
+        }, [canEditBoard, getCallerCredentials, groupedItems, huddle._id, huddle.autoTitleGeneratedAt])
 
         const renderItemList = useCallback((
             items: Array<(typeof huddle.planningItems)[number]>,
@@ -1838,6 +2138,25 @@ export function Huddle({ slug }: { slug: string }) {
                             text,
                         })
                     }}
+                    onUpdateTask={(id, patch) => {
+                        updatePlanningItem.mutate(
+                            {
+                                id,
+                                huddleId: huddle._id,
+                                ...patch,
+                            },
+                            {
+                                onError: (error) => {
+                                    console.error('Failed to update task', error)
+                                    toast.error(
+                                        error instanceof Error
+                                            ? error.message
+                                            : 'Failed to update task',
+                                    )
+                                },
+                            },
+                        )
+                    }}
                     onDeleteItem={(id) => {
                         deletePlanningItem.mutate({
                             id,
@@ -1865,7 +2184,13 @@ export function Huddle({ slug }: { slug: string }) {
                     //     }
                     // }}
                     onResearchClick={undefined}
-                    canEdit={isParticipant}
+                    commentCounts={commentCounts}
+                    onOpenItem={handleOpenItemDetail}
+                    emptyMessage={huddle.template?.emptyMessages?.[type]}
+                    voting={ideaVoting}
+                    onVote={(itemId) => handleVote(itemId, true)}
+                    onUnvote={(itemId) => handleVote(itemId, false)}
+                    canEdit={canEditBoard}
                 />
             )
         }, [
@@ -1881,7 +2206,12 @@ export function Huddle({ slug }: { slug: string }) {
             itemRefs,
             updatePlanningItem,
             deletePlanningItem,
-            isParticipant,
+            commentCounts,
+            handleOpenItemDetail,
+            ideaVoting,
+            handleVote,
+            huddle.template,
+            canEditBoard,
         ])
 
         const resolveJoinTimestamp = useCallback(
@@ -1924,6 +2254,7 @@ export function Huddle({ slug }: { slug: string }) {
         const shouldRegisterObserver = useMemo(
             () =>
                 isAutoObserverRegistrationEnabled &&
+                isGuestSessionReady &&
                 !isParticipant &&
                 typeof profile.clientId === 'string' &&
                 profile.clientId.trim().length > 0 &&
@@ -1933,6 +2264,7 @@ export function Huddle({ slug }: { slug: string }) {
             [
                 currentUserEntry,
                 isAutoObserverRegistrationEnabled,
+                isGuestSessionReady,
                 isParticipant,
                 profile.clientId,
                 isPrivate,
@@ -1995,7 +2327,6 @@ export function Huddle({ slug }: { slug: string }) {
                     try {
                         await registerObserverAsync({
                             huddleId,
-                            userId: profile.clientId,
                             displayName: name ?? 'Anonymous',
                             avatarUrl: profile.avatar?.url ?? undefined,
                         })
@@ -2035,7 +2366,6 @@ export function Huddle({ slug }: { slug: string }) {
                 try {
                     await setInviteOnly.mutateAsync({
                         huddleId,
-                        userId: profile.clientId,
                         isInviteOnly: enabled,
                     })
                     toast.success(enabled ? 'Huddle is now invite-only' : 'Huddle is now public')
@@ -2056,14 +2386,12 @@ export function Huddle({ slug }: { slug: string }) {
                 try {
                     await setPrivate.mutateAsync({
                         huddleId,
-                        userId: profile.clientId,
                         isPrivate: enabled,
                     })
                     // If making private, turn off invite-only so anyone with the share link can join
                     if (enabled && isInviteOnly) {
                         await setInviteOnly.mutateAsync({
                             huddleId,
-                            userId: profile.clientId,
                             isInviteOnly: false,
                         })
                     }
@@ -2080,12 +2408,35 @@ export function Huddle({ slug }: { slug: string }) {
             [huddleId, profile.clientId, setPrivate, setInviteOnly, isInviteOnly],
         )
 
+        const handleToggleReviewMode = useCallback(
+            async (enabled: boolean) => {
+                try {
+                    await setReviewMode.mutateAsync({
+                        huddleId,
+                        reviewMode: enabled,
+                    })
+                    toast.success(
+                        enabled
+                            ? 'AI suggestions will wait for your review'
+                            : 'AI suggestions will go straight to the board',
+                    )
+                } catch (error) {
+                    console.error('Failed to toggle review mode', error)
+                    toast.error(
+                        error instanceof Error
+                            ? error.message
+                            : 'Failed to update review mode',
+                    )
+                }
+            },
+            [huddleId, setReviewMode],
+        )
+
         const handleInviteUser = useCallback(
             async (userId: string, displayName?: string, avatarUrl?: string) => {
                 try {
                     await inviteUser.mutateAsync({
                         huddleId,
-                        userId: profile.clientId,
                         inviteUserId: userId,
                         displayName,
                         avatarUrl,
@@ -2106,7 +2457,6 @@ export function Huddle({ slug }: { slug: string }) {
                 try {
                     await removeInvite.mutateAsync({
                         huddleId,
-                        userId: profile.clientId,
                         removeUserId,
                     })
                     toast.success('Invitation removed')
@@ -2120,6 +2470,21 @@ export function Huddle({ slug }: { slug: string }) {
             [huddleId, profile.clientId, removeInvite],
         )
 
+        const handleChangeParticipantRole = useCallback(
+            async (userId: string, huddleRole: AssignableHuddleRole) => {
+                try {
+                    await setParticipantRole.mutateAsync({ huddleId, userId, huddleRole })
+                    toast.success(`Role changed to ${HUDDLE_ROLE_LABELS[huddleRole]}`)
+                } catch (error) {
+                    console.error('Failed to change participant role', error)
+                    toast.error(
+                        error instanceof Error ? error.message : 'Failed to change role',
+                    )
+                }
+            },
+            [huddleId, setParticipantRole],
+        )
+
         const handleAutoEndHuddle = useCallback(async () => {
             try {
                 await autoEndHuddle.mutateAsync({ huddleId })
@@ -2130,6 +2495,27 @@ export function Huddle({ slug }: { slug: string }) {
             }
         }, [huddleId, autoEndHuddle])
 
+        const handleRevertTranscriptTurn = useCallback(
+            async (chunkId: string) => {
+                try {
+                    const result = await revertTranscriptTurn.mutateAsync({
+                        chunkId: chunkId as Id<'transcriptChunks'>,
+                    })
+                    const total =
+                        result.deletedCount + result.restoredCount + result.recreatedCount
+                    toast.success(
+                        total === 1 ? 'Reverted 1 change from this turn' : `Reverted ${total} changes from this turn`,
+                    )
+                } catch (error) {
+                    console.error('Failed to revert transcript turn', error)
+                    toast.error(
+                        error instanceof Error ? error.message : 'Failed to revert this turn',
+                    )
+                }
+            },
+            [revertTranscriptTurn],
+        )
+
         const participantsPanel = (
             <ParticipantsPanel
                 participants={participantEntries}
@@ -2141,6 +2527,10 @@ export function Huddle({ slug }: { slug: string }) {
                 isJoining={isJoining}
                 isLeaving={isLeaving}
                 isOwner={isOwner}
+                ownerUserId={huddle.createdBy}
+                canFacilitate={canFacilitate}
+                canManageRoles={canManageRoles && isHuddleActive}
+                canAssignFacilitator={isOwner}
                 isHuddleActive={isHuddleActive}
                 isStartPending={startHuddleMutation.isPending}
                 isEndPending={endHuddleMutation.isPending}
@@ -2149,6 +2539,7 @@ export function Huddle({ slug }: { slug: string }) {
                 invitedUserIds={invitedUserIds}
                 isPrivate={isPrivate}
                 canTogglePrivate={isOwner && userHasActiveSubscription}
+                isReviewMode={isReviewMode}
                 privateAccessKey={huddle.privateAccessKey}
                 huddleSlug={slug}
                 isFreeLimitExceeded={isFreeLimitExceeded}
@@ -2164,8 +2555,11 @@ export function Huddle({ slug }: { slug: string }) {
                 onLeave={handleLeave}
                 onToggleInviteOnly={handleToggleInviteOnly}
                 onTogglePrivate={handleTogglePrivate}
+                onToggleReviewMode={handleToggleReviewMode}
+                onOpenTranscriptRetention={() => setIsTranscriptRetentionOpen(true)}
                 onInviteUser={handleInviteUser}
                 onRemoveInvite={handleRemoveInvite}
+                onChangeRole={handleChangeParticipantRole}
             />
         )
 
@@ -2222,20 +2616,40 @@ export function Huddle({ slug }: { slug: string }) {
                                 huddleId={huddle._id}
                                 createdAt={huddle.createdAt}
                                 ownerDisplayName={ownerDisplayName}
-                                isOwner={isOwner}
+                                canFacilitate={canFacilitate}
+                                canExportToLinear={canExportToLinear}
                                 isHuddleCompleted={isHuddleCompleted}
                                 hasLinearToken={hasLinearToken}
                                 linearProjectUrl={huddle.linearProjectUrl}
+                                templateName={huddle.template?.name}
+                                seriesId={huddle.seriesId}
+                                seriesIndex={huddle.seriesIndex}
+                                isStartingNextOccurrence={startNextOccurrence.isPending}
                                 clientId={profile.clientId}
                                 onUpdateName={async (name) => {
                                     await updateHuddleName.mutateAsync({
                                         huddleId: huddle._id,
-                                        userId: profile.clientId,
                                         name,
                                     })
                                 }}
                                 onOpenReport={() => setIsReportModalOpen(true)}
                                 onOpenLinearProject={() => setIsLinearProjectDialogOpen(true)}
+                                onSaveAsTemplate={() => setIsSaveTemplateDialogOpen(true)}
+                                onCloneHuddle={() => setIsCloneDialogOpen(true)}
+                                clonedFrom={huddle.clonedFrom}
+                                onStartNextOccurrence={() => void handleStartNextOccurrence()}
+                                onOpenDependencyGraph={
+                                    groupedItems.task.length > 0 ? () => setIsDependencyGraphOpen(true) : undefined
+                                }
+                                onFindDuplicates={
+                                    canEditBoard && !isHuddleCompleted && huddle.planningItems.length > 1
+                                        ? () => setIsDuplicateItemsOpen(true)
+                                        : undefined
+                                }
+                                onEditItemTypes={
+                                    isHuddleCompleted ? undefined : () => setIsCustomItemTypesDialogOpen(true)
+                                }
+                                onExportBundle={() => void handleExportBundle()}
                                 onConnectLinear={async () => {
                                     try {
                                         const { getLinearAuthUrl } = await import('~/server/linear')
@@ -2261,7 +2675,8 @@ export function Huddle({ slug }: { slug: string }) {
                             )}
 
 
-                            {isHuddleActive ? (
+                            {/* Viewers who have joined have nothing to record; observers still see the join prompt */}
+                            {isHuddleActive && (canSpeak || !isParticipant) ? (
                                 <RecordingControlsCard
                                     isDetectionSwitchOn={isDetectionSwitchOn}
                                     autoDetectionActive={autoDetectionActive}
@@ -2297,18 +2712,87 @@ export function Huddle({ slug }: { slug: string }) {
                                 />
                             ) : null}
 
-                            <PlanningBoard
-                                groupedItems={groupedItems}
-                                renderItemList={renderItemList}
+                            {huddle.template?.agenda ? (
+                                <AgendaCard
+                                    templateName={huddle.template.name}
+                                    agenda={huddle.template.agenda}
+                                />
+                            ) : null}
+
+                            <PendingActionsPanel
+                                huddleId={huddle._id}
+                                planningItems={huddle.planningItems}
+                                canReview={canFacilitate && !isHuddleCompleted}
                             />
 
-                            {hasConversationStarted ? (
-                                <SupportingSections
-                                    groupedItems={groupedItems}
-                                    renderItemList={renderItemList}
+                            {boardViews.length > 0 || canSaveBoardViews ? (
+                                <BoardViewTabs
+                                    views={boardViews}
+                                    activeViewId={activeBoardView?._id}
+                                    canCreate={canSaveBoardViews}
+                                    canEditView={(view) =>
+                                        view.ownerUserId
+                                            ? view.ownerUserId === profile.clientId
+                                            : canFacilitate
+                                    }
+                                    onSelect={handleSelectBoardView}
+                                    onCreate={() => {
+                                        setEditingBoardView(null)
+                                        setIsBoardViewDialogOpen(true)
+                                    }}
+                                    onEdit={(view) => {
+                                        setEditingBoardView(view)
+                                        setIsBoardViewDialogOpen(true)
+                                    }}
+                                    onDelete={handleDeleteBoardView}
                                 />
                             ) : null}
 
+                            {boardViewColumns ? (
+                                <GroupedBoard
+                                    columns={boardViewColumns}
+                                    renderItemList={renderItemList}
+                                    columnLabels={huddle.template?.columnLabels}
+                                />
+                            ) : (
+                                <>
+                                    <PlanningBoard
+                                        groupedItems={viewBoardItems}
+                                        renderItemList={renderItemList}
+                                        columnLabels={huddle.template?.columnLabels}
+                                        hiddenTypes={activeViewConfig?.hiddenColumns}
+                                        columnActions={{
+                                            idea: (
+                                                <VotingControls
+                                                    huddleId={huddle._id}
+                                                    round={votingRound}
+                                                    remainingVotes={votingState?.remainingVotes ?? 0}
+                                                    canFacilitate={canFacilitate && !isHuddleCompleted}
+                                                    canVote={canVote && !isHuddleCompleted}
+                                                    hasIdeas={groupedItems.idea.length > 0}
+                                                />
+                                            ),
+                                        }}
+                                    />
+
+                                    <CustomTypeSections
+                                        customItemTypes={huddle.customItemTypes ?? []}
+                                        items={viewBoardItems.custom}
+                                        renderItemList={renderItemList}
+                                        hiddenTypes={activeViewConfig?.hiddenColumns}
+                                    />
+
+                                    {hasConversationStarted ? (
+                                        <SupportingSections
+                                            groupedItems={activeBoardView ? viewBoardItems : groupedItems}
+                                            renderItemList={renderItemList}
+                                            columnLabels={huddle.template?.columnLabels}
+                                            hiddenTypes={activeViewConfig?.hiddenColumns}
+                                        />
+                                    ) : null}
+                                </>
+                            )}
+
                             <TranscriptCard
                                 entries={transcriptEntries}
                                 speakerStyles={speakerStyles}
@@ -2318,6 +2802,14 @@ export function Huddle({ slug }: { slug: string }) {
                                 microphoneStatusMessage={microphoneStatusMessage}
                                 microphoneError={microphoneError}
                                 lastRecordingDuration={lastRecordingDuration}
+                                revertingEntryId={
+                                    revertTranscriptTurn.isPending
+                                        ? revertTranscriptTurn.variables?.chunkId ?? null
+                                        : null
+                                }
+                                onRevertEntry={canFacilitate ? handleRevertTranscriptTurn : undefined}
+                                highlightedEntryId={chunkId}
+                                customItemTypes={huddle.customItemTypes}
                             />
 
                             {isDevEnvironment ? (
@@ -2357,7 +2849,6 @@ export function Huddle({ slug }: { slug: string }) {
                         isReady={isReady}
                         currentParticipant={currentParticipant}
                         huddleId={huddle._id}
-                        clientId={profile.clientId}
                         avatarUrl={profile.avatar?.url}
                         onSetName={setName}
                         onRegisterObserver={registerObserverAsync}
@@ -2387,13 +2878,99 @@ export function Huddle({ slug }: { slug: string }) {
                             setIsLinearAuthDialogOpen(true)
                         }}
                     />
+                    {detailItem ? (
+                        <ItemDetailPanel
+                            open
+                            onOpenChange={(open) => {
+                                if (!open) handleOpenItemDetail(undefined)
+                            }}
+                            item={detailItem}
+                            participants={huddle.participants}
+                            currentUserId={profile.clientId}
+                            canModerate={canFacilitate}
+                            canComment={canComment}
+                            customItemTypes={huddle.customItemTypes}
+                        />
+                    ) : null}
+                    {canFacilitate && isSaveTemplateDialogOpen ? (
+                        <SaveTemplateDialog
+                            open
+                            onOpenChange={setIsSaveTemplateDialogOpen}
+                            huddleId={huddle._id}
+                            defaultName={huddle.template?.name ?? huddle.name}
+                        />
+                    ) : null}
+                    {canFacilitate && isCloneDialogOpen ? (
+                        <CloneHuddleDialog
+                            open
+                            onOpenChange={setIsCloneDialogOpen}
+                            huddleId={huddle._id}
+                            huddleName={huddle.name}
+                            itemCounts={Object.fromEntries(
+                                Object.entries(groupedItems).map(([type, items]) => [type, items.length]),
+                            )}
+                            hasInvites={invitedUserIds.length > 0}
+                            onCloned={handleCloned}
+                        />
+                    ) : null}
+                    {isDependencyGraphOpen ? (
+                        <DependencyGraphDialog
+                            open
+                            onOpenChange={setIsDependencyGraphOpen}
+                            huddleName={huddle.name}
+                            tasks={groupedItems.task}
+                            onSelectItem={(id) => {
+                                setIsDependencyGraphOpen(false)
+                                handleOpenItemDetail(id)
+                            }}
+                        />
+                    ) : null}
+                    {canEditBoard && isDuplicateItemsOpen ? (
+                        <DuplicateItemsDialog
+                            open
+                            onOpenChange={setIsDuplicateItemsOpen}
+                            huddleId={huddle._id}
+                            planningItems={huddle.planningItems}
+                            customItemTypes={huddle.customItemTypes}
+                        />
+                    ) : null}
+                    {isCustomItemTypesDialogOpen ? (
+                        <CustomItemTypesDialog
+                            open
+                            onOpenChange={setIsCustomItemTypesDialogOpen}
+                            huddleId={huddle._id}
+                            customItemTypes={huddle.customItemTypes ?? []}
+                        />
+                    ) : null}
+                    {isTranscriptRetentionOpen ? (
+                        <TranscriptRetentionDialog
+                            open
+                            onOpenChange={setIsTranscriptRetentionOpen}
+                            huddleId={huddle._id}
+                            transcriptRetentionDays={huddle.transcriptRetentionDays ?? null}
+                            isInWorkspace={huddle.workspaceId !== undefined}
+                        />
+                    ) : null}
+                    {isBoardViewDialogOpen ? (
+                        <BoardViewDialog
+                            open
+                            onOpenChange={setIsBoardViewDialogOpen}
+                            huddleId={huddle._id}
+                            view={editingBoardView}
+                            canShare={canFacilitate}
+                            speakerOptions={boardViewOptions.speakers}
+                            assigneeOptions={boardViewOptions.assignees}
+                            tagOptions={boardViewOptions.tags}
+                            getColumnOptions={getBoardViewColumnOptions}
+                            onSaved={handleSelectBoardView}
+                        />
+                    ) : null}
                     {isOwner ? (
                         <DeleteHuddleDialog
                             open={isDeleteDialogOpen}
                             onOpenChange={setIsDeleteDialogOpen}
                             huddleName={huddle.name}
                             huddleId={huddle._id}
-                            userId={profile.clientId}
                             isPending={deleteHuddleMutation.isPending}
                             onDelete={deleteHuddleMutation.mutateAsync}
                             onNavigate={() => void navigate({ to: '/' })}
@@ -0,0 +1,400 @@
+import * as React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { Building2, Trash2 } from 'lucide-react'
+import type { Id } from '../../convex/_generated/dataModel'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import { useWorkspace } from '~/context/WorkspaceContext'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { useUserProfile } from '~/context/UserProfileContext'
+import {
+  useAddWorkspaceMemberMutation,
+  useCreateWorkspaceMutation,
+  useRemoveWorkspaceMemberMutation,
+  useSetWorkspaceRetentionMutation,
+  useUpdateWorkspaceMemberRoleMutation,
+  workspaceQueries,
+} from '~/queries'
+import { TRANSCRIPT_RETENTION_DAY_OPTIONS, formatRetentionDays } from '~/types'
+
+const PERSONAL_VALUE = 'personal'
+const NEW_WORKSPACE_VALUE = 'new-workspace'
+const MANAGE_MEMBERS_VALUE = 'manage-members'
+const RETENTION_VALUE = 'retention'
+const COPY_USER_ID_VALUE = 'copy-user-id'
+const KEEP_FOREVER_VALUE = 'forever'
+
+const ROLE_LABELS = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+} as const
+
+type WorkspaceRole = keyof typeof ROLE_LABELS
+
+export function WorkspaceSwitcher() {
+  const { workspaceId, workspace, workspaces, setWorkspaceId } = useWorkspace()
+  const { profile } = useUserProfile()
+  const createWorkspace = useCreateWorkspaceMutation()
+  const [isCreateOpen, setIsCreateOpen] = React.useState(false)
+  const [isMembersOpen, setIsMembersOpen] = React.useState(false)
+  const [isRetentionOpen, setIsRetentionOpen] = React.useState(false)
+  const [newWorkspaceName, setNewWorkspaceName] = React.useState('')
+
+  const canManageMembers = workspace?.role === 'owner' || workspace?.role === 'admin'
+
+  // Workspace members are added by user ID, so everyone needs a way to share theirs
+  const handleCopyUserId = async () => {
+    try {
+      await navigator.clipboard.writeText(profile.clientId)
+      toast.success('User ID copied. Share it with a workspace admin to be added.')
+    } catch (error) {
+      console.error('Failed to copy user ID', error)
+      toast.error(`Unable to copy. Your user ID is ${profile.clientId}`)
+    }
+  }
+
+  const handleValueChange = (value: string) => {
+    if (value === NEW_WORKSPACE_VALUE) {
+      setIsCreateOpen(true)
+      return
+    }
+    if (value === MANAGE_MEMBERS_VALUE) {
+      setIsMembersOpen(true)
+      return
+    }
+    if (value === RETENTION_VALUE) {
+      setIsRetentionOpen(true)
+      return
+    }
+    if (value === COPY_USER_ID_VALUE) {
+      void handleCopyUserId()
+      return
+    }
+    setWorkspaceId(value === PERSONAL_VALUE ? null : (value as Id<'workspaces'>))
+  }
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      const createdWorkspaceId = await createWorkspace.mutateAsync({
+        name: newWorkspaceName,
+        displayName: profile.name.trim() || undefined,
+      })
+      setWorkspaceId(createdWorkspaceId)
+      setNewWorkspaceName('')
+      setIsCreateOpen(false)
+      toast.success('Workspace created.')
+    } catch (error) {
+      console.error('Failed to create workspace', error)
+      toast.error(error instanceof Error ? error.message : 'Unable to create the workspace.')
+    }
+  }
+
+  return (
+    <>
+      <Select value={workspaceId ?? PERSONAL_VALUE} onValueChange={handleValueChange}>
+        <SelectTrigger size="sm" className="max-w-44 gap-2" aria-label="Workspace">
+          <Building2 className="h-4 w-4" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL_VALUE}>Personal</SelectItem>
+          {workspaces.map((candidate) => (
+            <SelectItem key={candidate._id} value={candidate._id}>
+              {candidate.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          {canManageMembers ? (
+            <SelectItem value={MANAGE_MEMBERS_VALUE}>Manage members…</SelectItem>
+          ) : null}
+          {workspace?.role === 'owner' ? (
+            <SelectItem value={RETENTION_VALUE}>Transcript retention…</SelectItem>
+          ) : null}
+          <SelectItem value={NEW_WORKSPACE_VALUE}>New workspace…</SelectItem>
+          {profile.clientId ? (
+            <SelectItem value={COPY_USER_ID_VALUE}>Copy my user ID</SelectItem>
+          ) : null}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>
+              Huddles created in a workspace are only listed for its members.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="flex flex-col gap-4">
+            <Input
+              autoFocus
+              placeholder="Platform team"
+              value={newWorkspaceName}
+              maxLength={80}
+              onChange={(event) => setNewWorkspaceName(event.target.value)}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={createWorkspace.isPending || !newWorkspaceName.trim()}
+              >
+                Create workspace
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {workspace && isMembersOpen ? (
+        <WorkspaceMembersDialog
+          workspaceId={workspace._id}
+          workspaceName={workspace.name}
+          callerRole={workspace.role}
+          onOpenChange={setIsMembersOpen}
+        />
+      ) : null}
+
+      {workspace && isRetentionOpen ? (
+        <WorkspaceRetentionDialog
+          workspaceId={workspace._id}
+          workspaceName={workspace.name}
+          transcriptRetentionDays={workspace.transcriptRetentionDays}
+          onOpenChange={setIsRetentionOpen}
+        />
+      ) : null}
+    </>
+  )
+}
+
+function WorkspaceMembersDialog({
+  workspaceId,
+  workspaceName,
+  callerRole,
+  onOpenChange,
+}: {
+  workspaceId: Id<'workspaces'>
+  workspaceName: string
+  callerRole: WorkspaceRole
+  onOpenChange: (open: boolean) => void
+}) {
+  const { guestToken } = useGuestSession()
+  const { data: members = [] } = useQuery(workspaceQueries.members(workspaceId, guestToken))
+  const addMember = useAddWorkspaceMemberMutation()
+  const updateMemberRole = useUpdateWorkspaceMemberRoleMutation()
+  const removeMember = useRemoveWorkspaceMemberMutation()
+  const [newMemberUserId, setNewMemberUserId] = React.useState('')
+  const [newMemberRole, setNewMemberRole] = React.useState<WorkspaceRole>('member')
+
+  const isOwner = callerRole === 'owner'
+  // Owners can remove anyone; admins only plain members
+  const canRemove = (member: { role: WorkspaceRole }) =>
+    isOwner || (callerRole === 'admin' && member.role === 'member')
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      await addMember.mutateAsync({
+        workspaceId,
+        userId: newMemberUserId,
+        role: newMemberRole,
+      })
+      setNewMemberUserId('')
+      toast.success('Member added.')
+    } catch (error) {
+      console.error('Failed to add workspace member', error)
+      toast.error(error instanceof Error ? error.message : 'Unable to add the member.')
+    }
+  }
+
+  const handleRoleChange = async (memberId: Id<'workspaceMembers'>, role: WorkspaceRole) => {
+    try {
+      await updateMemberRole.mutateAsync({ memberId, role })
+    } catch (error) {
+      console.error('Failed to update workspace member role', error)
+      toast.error(error instanceof Error ? error.message : 'Unable to change the role.')
+    }
+  }
+
+  const handleRemove = async (memberId: Id<'workspaceMembers'>) => {
+    try {
+      await removeMember.mutateAsync({ memberId })
+    } catch (error) {
+      console.error('Failed to remove workspace member', error)
+      toast.error(error instanceof Error ? error.message : 'Unable to remove the member.')
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{workspaceName} members</DialogTitle>
+          <DialogDescription>
+            Members can see and create huddles in this workspace. To add someone, ask them for the
+            ID they get from “Copy my user ID” in the workspace menu.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <li key={member._id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate">{member.displayName || member.userId}</span>
+              {isOwner ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(role) => void handleRoleChange(member._id, role as WorkspaceRole)}
+                >
+                  <SelectTrigger size="sm" className="w-28" aria-label="Member role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                      <SelectItem key={role} value={role}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+              )}
+              {canRemove(member) ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${member.displayName || member.userId}`}
+                  disabled={removeMember.isPending}
+                  onClick={() => void handleRemove(member._id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAdd} className="flex items-center gap-2">
+          <Input
+            placeholder="User ID"
+            value={newMemberUserId}
+            onChange={(event) => setNewMemberUserId(event.target.value)}
+          />
+          <Select
+            value={newMemberRole}
+            onValueChange={(role) => setNewMemberRole(role as WorkspaceRole)}
+          >
+            <SelectTrigger className="w-28" aria-label="New member role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(isOwner ? ['owner', 'admin', 'member'] as const : ['admin', 'member'] as const).map(
+                (role) => (
+                  <SelectItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ),
+              )}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={addMember.isPending || !newMemberUserId.trim()}>
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function WorkspaceRetentionDialog({
+  workspaceId,
+  workspaceName,
+  transcriptRetentionDays,
+  onOpenChange,
+}: {
+  workspaceId: Id<'workspaces'>
+  workspaceName: string
+  transcriptRetentionDays: number | null
+  onOpenChange: (open: boolean) => void
+}) {
+  const setWorkspaceRetention = useSetWorkspaceRetentionMutation()
+  const [draftDays, setDraftDays] = React.useState(transcriptRetentionDays)
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      await setWorkspaceRetention.mutateAsync({ workspaceId, retentionDays: draftDays })
+      toast.success('Transcript retention saved.')
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save workspace transcript retention', error)
+      toast.error(error instanceof Error ? error.message : 'Unable to save the retention policy.')
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{workspaceName} transcript retention</DialogTitle>
+          <DialogDescription>
+            Transcripts, recorded audio and raw research data in this workspace's huddles are
+            deleted every night once they are older than this. Planning items and summaries are
+            always kept, and huddles can only choose a shorter retention.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="flex flex-col gap-4">
+          <Select
+            value={draftDays === null ? KEEP_FOREVER_VALUE : String(draftDays)}
+            onValueChange={(value) =>
+              setDraftDays(value === KEEP_FOREVER_VALUE ? null : Number(value))
+            }
+          >
+            <SelectTrigger className="w-full" aria-label="Transcript retention">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP_FOREVER_VALUE}>{formatRetentionDays(null)}</SelectItem>
+              {TRANSCRIPT_RETENTION_DAY_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {formatRetentionDays(days)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={setWorkspaceRetention.isPending || draftDays === transcriptRetentionDays}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
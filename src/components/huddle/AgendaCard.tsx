@@ -0,0 +1,28 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card'
+
+type AgendaCardProps = {
+    templateName: string
+    agenda: string[]
+}
+
+export function AgendaCard({ templateName, agenda }: AgendaCardProps) {
+    if (agenda.length === 0) {
+        return null
+    }
+
+    return (
+        <Card className="gap-3">
+            <CardHeader>
+                <CardTitle>Agenda</CardTitle>
+                <CardDescription>From the {templateName} template</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <ol className="list-decimal space-y-1 pl-5 text-sm">
+                    {agenda.map((step, index) => (
+                        <li key={index}>{step}</li>
+                    ))}
+                </ol>
+            </CardContent>
+        </Card>
+    )
+}
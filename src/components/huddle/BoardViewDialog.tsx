@@ -0,0 +1,325 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Switch } from '~/components/ui/switch'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '~/components/ui/select'
+import { useCreateViewMutation, useUpdateViewMutation } from '~/queries'
+import {
+    BOARD_VIEW_GROUPINGS,
+    BOARD_VIEW_GROUPING_LABELS,
+    BOARD_VIEW_SORTS,
+    BOARD_VIEW_SORT_LABELS,
+    PLANNING_ITEM_TYPES,
+    PLANNING_ITEM_TYPE_LABELS,
+    type BoardViewGrouping,
+} from '~/types'
+import type { BoardViewConfig } from './types'
+
+const ANY_BLOCKED_VALUE = 'any'
+
+type BoardViewOption = {
+    value: string
+    label: string
+}
+
+type EditableBoardView = {
+    _id: Id<'views'>
+    label: string
+    config?: BoardViewConfig
+    ownerUserId?: string
+}
+
+type BoardViewDialogProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    huddleId: Id<'huddles'>
+    // The view being edited; a new view is created when missing
+    view?: EditableBoardView | null
+    canShare: boolean
+    speakerOptions: BoardViewOption[]
+    assigneeOptions: BoardViewOption[]
+    tagOptions: BoardViewOption[]
+    getColumnOptions: (groupBy: BoardViewGrouping) => BoardViewOption[]
+    onSaved?: (viewId: Id<'views'>) => void
+}
+
+function toggleValue(values: string[] | undefined, value: string) {
+    const current = values ?? []
+    return current.includes(value)
+        ? current.filter((existing) => existing !== value)
+        : [...current, value]
+}
+
+function OptionToggles({
+    label,
+    options,
+    selected,
+    emptyMessage,
+    onToggle,
+}: {
+    label: string
+    options: BoardViewOption[]
+    selected: string[] | undefined
+    emptyMessage?: string
+    onToggle: (value: string) => void
+}) {
+    return (
+        <div className="space-y-1">
+            <Label>{label}</Label>
+            {options.length === 0 ? (
+                <p className="text-xs text-muted-foreground">{emptyMessage}</p>
+            ) : (
+                <div className="flex flex-wrap gap-1.5">
+                    {options.map((option) => {
+                        const isSelected = selected?.includes(option.value) ?? false
+                        return (
+                            <Button
+                                key={option.value}
+                                type="button"
+                                size="sm"
+                                variant={isSelected ? 'secondary' : 'outline'}
+                                aria-pressed={isSelected}
+                                className="h-7 px-2 text-xs"
+                                onClick={() => onToggle(option.value)}
+                            >
+                                {option.label}
+                            </Button>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
+
+export function BoardViewDialog({
+    open,
+    onOpenChange,
+    huddleId,
+    view,
+    canShare,
+    speakerOptions,
+    assigneeOptions,
+    tagOptions,
+    getColumnOptions,
+    onSaved,
+}: BoardViewDialogProps) {
+    const createView = useCreateViewMutation()
+    const updateView = useUpdateViewMutation()
+    const [label, setLabel] = useState(view?.label ?? '')
+    const [isPersonal, setIsPersonal] = useState(view ? Boolean(view.ownerUserId) : !canShare)
+    const [config, setConfig] = useState<BoardViewConfig>(view?.config ?? {})
+
+    const groupBy = config.groupBy ?? 'type'
+    const columnOptions = getColumnOptions(groupBy)
+    const isSaving = createView.isPending || updateView.isPending
+
+    const updateConfig = (patch: Partial<BoardViewConfig>) => {
+        setConfig((previous) => ({ ...previous, ...patch }))
+    }
+
+    const handleSave = async () => {
+        try {
+            let viewId: Id<'views'>
+            if (view) {
+                viewId = await updateView.mutateAsync({ id: view._id, label, config })
+            } else {
+                viewId = await createView.mutateAsync({ huddleId, label, config, isPersonal })
+            }
+            toast.success('View saved')
+            onSaved?.(viewId)
+            onOpenChange(false)
+        } catch (error) {
+            console.error('Failed to save view', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to save view')
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{view ? 'Edit view' : 'New board view'}</DialogTitle>
+                    <DialogDescription>
+                        Choose which items show, how they are grouped into columns and in what order.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <div className="space-y-1">
+                        <Label htmlFor="board-view-label">Name</Label>
+                        <Input
+                            id="board-view-label"
+                            value={label}
+                            placeholder="My open tasks"
+                            onChange={(event) => setLabel(event.target.value)}
+                        />
+                    </div>
+                    {!view ? (
+                        <div className="flex items-center justify-between gap-3">
+                            <div className="flex flex-col gap-1">
+                                <Label htmlFor="board-view-personal" className="text-sm font-medium">
+                                    Personal
+                                </Label>
+                                <p className="text-xs text-muted-foreground">
+                                    {isPersonal
+                                        ? 'Only you will see this view.'
+                                        : 'Everyone in the huddle will see this view.'}
+                                </p>
+                            </div>
+                            <Switch
+                                id="board-view-personal"
+                                className={canShare ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'}
+                                checked={isPersonal}
+                                disabled={!canShare}
+                                onCheckedChange={setIsPersonal}
+                            />
+                        </div>
+                    ) : null}
+                    <OptionToggles
+                        label="Types"
+                        options={PLANNING_ITEM_TYPES.map((type) => ({
+                            value: type,
+                            label: PLANNING_ITEM_TYPE_LABELS[type],
+                        }))}
+                        selected={config.types}
+                        onToggle={(value) =>
+                            updateConfig({
+                                types: toggleValue(config.types, value) as BoardViewConfig['types'],
+                            })
+                        }
+                    />
+                    <OptionToggles
+                        label="Speakers"
+                        options={speakerOptions}
+                        selected={config.speakers}
+                        emptyMessage="No one has spoken yet."
+                        onToggle={(value) => updateConfig({ speakers: toggleValue(config.speakers, value) })}
+                    />
+                    <OptionToggles
+                        label="Assignees"
+                        options={assigneeOptions}
+                        selected={config.assigneeUserIds}
+                        emptyMessage="Nothing is assigned yet."
+                        onToggle={(value) =>
+                            updateConfig({ assigneeUserIds: toggleValue(config.assigneeUserIds, value) })
+                        }
+                    />
+                    <OptionToggles
+                        label="Tags"
+                        options={tagOptions}
+                        selected={config.tags}
+                        emptyMessage="Add #tags to item text to filter by them."
+                        onToggle={(value) => updateConfig({ tags: toggleValue(config.tags, value) })}
+                    />
+                    <div className="grid gap-3 sm:grid-cols-3">
+                        <div className="space-y-1">
+                            <Label htmlFor="board-view-blocked">Blocked</Label>
+                            <Select
+                                value={config.blocked ?? ANY_BLOCKED_VALUE}
+                                onValueChange={(value) =>
+                                    updateConfig({
+                                        blocked:
+                                            value === ANY_BLOCKED_VALUE
+                                                ? undefined
+                                                : (value as BoardViewConfig['blocked']),
+                                    })
+                                }
+                            >
+                                <SelectTrigger id="board-view-blocked" className="w-full">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ANY_BLOCKED_VALUE}>Any</SelectItem>
+                                    <SelectItem value="blocked">Blocked</SelectItem>
+                                    <SelectItem value="unblocked">Unblocked</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="board-view-group">Group by</Label>
+                            <Select
+                                value={groupBy}
+                                onValueChange={(value) =>
+                                    // Hidden columns belong to a grouping, so they reset with it
+                                    updateConfig({
+                                        groupBy: value as BoardViewGrouping,
+                                        hiddenColumns: undefined,
+                                    })
+                                }
+                            >
+                                <SelectTrigger id="board-view-group" className="w-full">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {BOARD_VIEW_GROUPINGS.map((grouping) => (
+                                        <SelectItem key={grouping} value={grouping}>
+                                            {BOARD_VIEW_GROUPING_LABELS[grouping]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="board-view-sort">Sort</Label>
+                            <Select
+                                value={config.sortBy ?? 'manual'}
+                                onValueChange={(value) =>
+                                    updateConfig({ sortBy: value as BoardViewConfig['sortBy'] })
+                                }
+                            >
+                                <SelectTrigger id="board-view-sort" className="w-full">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {BOARD_VIEW_SORTS.map((sort) => (
+                                        <SelectItem key={sort} value={sort}>
+                                            {BOARD_VIEW_SORT_LABELS[sort]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <OptionToggles
+                        label="Hidden columns"
+                        options={columnOptions}
+                        selected={config.hiddenColumns}
+                        emptyMessage="Columns appear here once items are captured."
+                        onToggle={(value) =>
+                            updateConfig({ hiddenColumns: toggleValue(config.hiddenColumns, value) })
+                        }
+                    />
+                </div>
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        disabled={isSaving || label.trim().length === 0}
+                        onClick={() => void handleSave()}
+                    >
+                        {isSaving ? 'Saving…' : 'Save view'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
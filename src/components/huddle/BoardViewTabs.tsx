@@ -0,0 +1,94 @@
+import { Pencil, Plus, Trash2, User } from 'lucide-react'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { Button } from '~/components/ui/button'
+
+type BoardViewTab = {
+    _id: Id<'views'>
+    label: string
+    ownerUserId?: string
+}
+
+type BoardViewTabsProps<View extends BoardViewTab> = {
+    views: View[]
+    activeViewId?: string
+    canCreate: boolean
+    canEditView: (view: View) => boolean
+    onSelect: (viewId: Id<'views'> | undefined) => void
+    onCreate: () => void
+    onEdit: (view: View) => void
+    onDelete: (view: View) => void
+}
+
+export function BoardViewTabs<View extends BoardViewTab>({
+    views,
+    activeViewId,
+    canCreate,
+    canEditView,
+    onSelect,
+    onCreate,
+    onEdit,
+    onDelete,
+}: BoardViewTabsProps<View>) {
+    const activeView = views.find((view) => view._id === activeViewId)
+    const canEditActiveView = activeView ? canEditView(activeView) : false
+
+    return (
+        <div className="flex flex-wrap items-center gap-2" role="tablist" aria-label="Board views">
+            <Button
+                type="button"
+                size="sm"
+                role="tab"
+                aria-selected={!activeView}
+                variant={activeView ? 'ghost' : 'secondary'}
+                onClick={() => onSelect(undefined)}
+            >
+                Board
+            </Button>
+            {views.map((view) => (
+                <Button
+                    key={view._id}
+                    type="button"
+                    size="sm"
+                    role="tab"
+                    aria-selected={view._id === activeViewId}
+                    variant={view._id === activeViewId ? 'secondary' : 'ghost'}
+                    className="gap-1.5"
+                    onClick={() => onSelect(view._id)}
+                >
+                    {view.ownerUserId ? (
+                        <User className="h-3.5 w-3.5" aria-label="Personal view" />
+                    ) : null}
+                    {view.label}
+                </Button>
+            ))}
+            {canCreate ? (
+                <Button type="button" size="sm" variant="outline" className="gap-1.5" onClick={onCreate}>
+                    <Plus className="h-3.5 w-3.5" />
+                    New view
+                </Button>
+            ) : null}
+            {activeView && canEditActiveView ? (
+                <div className="ml-auto flex items-center gap-1">
+                    <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        aria-label={`Edit ${activeView.label}`}
+                        onClick={() => onEdit(activeView)}
+                    >
+                        <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        aria-label={`Delete ${activeView.label}`}
+                        onClick={() => onDelete(activeView)}
+                    >
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            ) : null}
+        </div>
+    )
+}
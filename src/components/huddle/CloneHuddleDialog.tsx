@@ -0,0 +1,165 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Switch } from '~/components/ui/switch'
+import { useCloneHuddleMutation } from '~/queries'
+import { PLANNING_ITEM_TYPES, PLANNING_ITEM_TYPE_LABELS, type PlanningItemType } from '~/types'
+import { generateHuddleSlug } from './utils'
+
+type CloneHuddleDialogProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    huddleId: Id<'huddles'>
+    huddleName: string
+    itemCounts: Partial<Record<PlanningItemType, number>>
+    hasInvites: boolean
+    onCloned: (clone: { huddleId: Id<'huddles'>; slug: string; clonedCount: number }) => Promise<void> | void
+}
+
+export function CloneHuddleDialog({
+    open,
+    onOpenChange,
+    huddleId,
+    huddleName,
+    itemCounts,
+    hasInvites,
+    onCloned,
+}: CloneHuddleDialogProps) {
+    const cloneHuddle = useCloneHuddleMutation()
+    const availableTypes = PLANNING_ITEM_TYPES.filter((type) => (itemCounts[type] ?? 0) > 0)
+    const [name, setName] = useState(`${huddleName} (copy)`)
+    const [selectedTypes, setSelectedTypes] = useState<PlanningItemType[]>(availableTypes)
+    const [includeParticipants, setIncludeParticipants] = useState(true)
+    const [includeInvites, setIncludeInvites] = useState(hasInvites)
+
+    const toggleType = (type: PlanningItemType) => {
+        setSelectedTypes((previous) =>
+            previous.includes(type) ? previous.filter((value) => value !== type) : [...previous, type],
+        )
+    }
+
+    const handleClone = async () => {
+        try {
+            const clone = await cloneHuddle.mutateAsync({
+                huddleId,
+                slug: generateHuddleSlug(),
+                name,
+                // Leaving itemTypes out copies every type, including ones added meanwhile
+                itemTypes: selectedTypes.length === availableTypes.length ? undefined : selectedTypes,
+                includeParticipants,
+                includeInvites,
+            })
+            onOpenChange(false)
+            await onCloned(clone)
+        } catch (error) {
+            console.error('Failed to clone huddle', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to clone the huddle')
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Clone huddle</DialogTitle>
+                    <DialogDescription>
+                        Start a new huddle with this board. The transcript stays with this huddle.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <div className="space-y-1">
+                        <Label htmlFor="clone-huddle-name">Name</Label>
+                        <Input
+                            id="clone-huddle-name"
+                            value={name}
+                            onChange={(event) => setName(event.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label>Items to copy</Label>
+                        {availableTypes.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">The board is empty.</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-1.5">
+                                {availableTypes.map((type) => {
+                                    const isSelected = selectedTypes.includes(type)
+                                    return (
+                                        <Button
+                                            key={type}
+                                            type="button"
+                                            size="sm"
+                                            variant={isSelected ? 'secondary' : 'outline'}
+                                            aria-pressed={isSelected}
+                                            className="h-7 px-2 text-xs"
+                                            onClick={() => toggleType(type)}
+                                        >
+                                            {PLANNING_ITEM_TYPE_LABELS[type]} ({itemCounts[type]})
+                                        </Button>
+                                    )
+                                })}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="flex flex-col gap-1">
+                            <Label htmlFor="clone-huddle-participants" className="text-sm font-medium">
+                                Copy participants
+                            </Label>
+                            <p className="text-xs text-muted-foreground">
+                                They keep their roles and can join the new huddle. Task assignees are
+                                only kept when participants are copied.
+                            </p>
+                        </div>
+                        <Switch
+                            id="clone-huddle-participants"
+                            className="cursor-pointer"
+                            checked={includeParticipants}
+                            onCheckedChange={setIncludeParticipants}
+                        />
+                    </div>
+                    {hasInvites ? (
+                        <div className="flex items-center justify-between gap-3">
+                            <div className="flex flex-col gap-1">
+                                <Label htmlFor="clone-huddle-invites" className="text-sm font-medium">
+                                    Copy invites
+                                </Label>
+                                <p className="text-xs text-muted-foreground">
+                                    Keep the new huddle invite-only for the same people.
+                                </p>
+                            </div>
+                            <Switch
+                                id="clone-huddle-invites"
+                                className="cursor-pointer"
+                                checked={includeInvites}
+                                onCheckedChange={setIncludeInvites}
+                            />
+                        </div>
+                    ) : null}
+                </div>
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        disabled={cloneHuddle.isPending || name.trim().length === 0}
+                        onClick={() => void handleClone()}
+                    >
+                        {cloneHuddle.isPending ? 'Cloning…' : 'Clone huddle'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
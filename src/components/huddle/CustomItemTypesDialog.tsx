@@ -0,0 +1,202 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { Plus, Trash2 } from 'lucide-react'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '~/components/ui/select'
+import { useSetCustomItemTypesMutation } from '~/queries'
+import { CUSTOM_ITEM_TYPE_COLORS, type CustomItemTypeColor } from '~/types'
+import {
+    CUSTOM_ITEM_TYPE_COLOR_LABELS,
+    CUSTOM_ITEM_TYPE_ICONS,
+    DEFAULT_CUSTOM_ITEM_TYPE_ICON,
+} from './constants'
+import type { CustomItemType } from './types'
+import { createCustomItemTypeKey } from './utils'
+
+// Rows added in the dialog get their key when saved, so renaming them is free
+type DraftCustomItemType = Omit<CustomItemType, 'key'> & { key?: string; draftId: string }
+
+type CustomItemTypesDialogProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    huddleId: Id<'huddles'>
+    customItemTypes: CustomItemType[]
+}
+
+export function CustomItemTypesDialog({
+    open,
+    onOpenChange,
+    huddleId,
+    customItemTypes,
+}: CustomItemTypesDialogProps) {
+    const setCustomItemTypes = useSetCustomItemTypesMutation()
+    const [drafts, setDrafts] = useState<DraftCustomItemType[]>(() =>
+        customItemTypes.map((type) => ({ ...type, draftId: type.key })),
+    )
+
+    const updateDraft = (draftId: string, patch: Partial<DraftCustomItemType>) => {
+        setDrafts((previous) =>
+            previous.map((draft) => (draft.draftId === draftId ? { ...draft, ...patch } : draft)),
+        )
+    }
+
+    const handleAdd = () => {
+        setDrafts((previous) => [
+            ...previous,
+            {
+                draftId: crypto.randomUUID(),
+                label: '',
+                color: CUSTOM_ITEM_TYPE_COLORS[previous.length % CUSTOM_ITEM_TYPE_COLORS.length],
+                icon: DEFAULT_CUSTOM_ITEM_TYPE_ICON,
+            },
+        ])
+    }
+
+    const handleSave = async () => {
+        const keys = drafts.flatMap((draft) => (draft.key ? [draft.key] : []))
+        const types = drafts.map(({ draftId: _draftId, key, ...draft }) => {
+            const resolvedKey = key ?? createCustomItemTypeKey(draft.label, keys)
+            if (!key) keys.push(resolvedKey)
+            return { ...draft, key: resolvedKey, hint: draft.hint?.trim() || undefined }
+        })
+        try {
+            await setCustomItemTypes.mutateAsync({ huddleId, customItemTypes: types })
+            toast.success('Item types saved')
+            onOpenChange(false)
+        } catch (error) {
+            console.error('Failed to save item types', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to save item types')
+        }
+    }
+
+    const hasEmptyLabel = drafts.some((draft) => draft.label.trim().length === 0)
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Item types</DialogTitle>
+                    <DialogDescription>
+                        Add your own kinds of planning items. The hint tells the AI when to use each one.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                    {drafts.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                            This huddle only uses the built-in item types.
+                        </p>
+                    ) : null}
+                    {drafts.map((draft, index) => (
+                        <div key={draft.draftId} className="space-y-2 rounded-lg border p-3">
+                            <div className="grid gap-2 sm:grid-cols-[1fr_8rem_9rem_auto] sm:items-end">
+                                <div className="space-y-1">
+                                    <Label htmlFor={`custom-type-label-${index}`}>Label</Label>
+                                    <Input
+                                        id={`custom-type-label-${index}`}
+                                        value={draft.label}
+                                        placeholder="Question"
+                                        onChange={(event) => updateDraft(draft.draftId, { label: event.target.value })}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <Label htmlFor={`custom-type-color-${index}`}>Color</Label>
+                                    <Select
+                                        value={draft.color}
+                                        onValueChange={(value) =>
+                                            updateDraft(draft.draftId, { color: value as CustomItemTypeColor })
+                                        }
+                                    >
+                                        <SelectTrigger id={`custom-type-color-${index}`} className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {CUSTOM_ITEM_TYPE_COLORS.map((color) => (
+                                                <SelectItem key={color} value={color}>
+                                                    {CUSTOM_ITEM_TYPE_COLOR_LABELS[color]}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-1">
+                                    <Label htmlFor={`custom-type-icon-${index}`}>Icon</Label>
+                                    <Select
+                                        value={draft.icon ?? DEFAULT_CUSTOM_ITEM_TYPE_ICON}
+                                        onValueChange={(value) => updateDraft(draft.draftId, { icon: value })}
+                                    >
+                                        <SelectTrigger id={`custom-type-icon-${index}`} className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {Object.entries(CUSTOM_ITEM_TYPE_ICONS).map(([name, Icon]) => (
+                                                <SelectItem key={name} value={name}>
+                                                    <Icon className="h-4 w-4" />
+                                                    {name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <Button
+                                    type="button"
+                                    size="icon"
+                                    variant="ghost"
+                                    aria-label={`Remove ${draft.label || 'item type'}`}
+                                    onClick={() =>
+                                        setDrafts((previous) =>
+                                            previous.filter((existing) => existing.draftId !== draft.draftId),
+                                        )
+                                    }
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor={`custom-type-hint-${index}`}>AI hint</Label>
+                                <Input
+                                    id={`custom-type-hint-${index}`}
+                                    value={draft.hint ?? ''}
+                                    placeholder="Open questions the team wants answered"
+                                    onChange={(event) => updateDraft(draft.draftId, { hint: event.target.value })}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                    <Button type="button" variant="outline" size="sm" className="gap-1.5" onClick={handleAdd}>
+                        <Plus className="h-3.5 w-3.5" />
+                        Add item type
+                    </Button>
+                </div>
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        disabled={setCustomItemTypes.isPending || hasEmptyLabel}
+                        onClick={() => void handleSave()}
+                    >
+                        {setCustomItemTypes.isPending ? 'Saving…' : 'Save item types'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
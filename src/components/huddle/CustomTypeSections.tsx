@@ -0,0 +1,58 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card'
+import { CUSTOM_ITEM_TYPE_ICONS, CUSTOM_ITEM_TYPE_STYLES, DEFAULT_CUSTOM_ITEM_TYPE_ICON } from './constants'
+import type { PlanningItemType } from '~/types'
+import type { ReactNode } from 'react'
+import type { CustomItemType } from './types'
+
+type CustomTypeSectionsProps = {
+    customItemTypes: CustomItemType[]
+    items: Array<{ customType?: string }>
+    renderItemList: (items: any[], type: PlanningItemType) => ReactNode
+    hiddenTypes?: ReadonlyArray<string>
+}
+
+/**
+ * One column per custom item type the huddle defines, shown even while empty so the
+ * team can see what the AI is listening for.
+ */
+export function CustomTypeSections({
+    customItemTypes,
+    items,
+    renderItemList,
+    hiddenTypes,
+}: CustomTypeSectionsProps) {
+    if (customItemTypes.length === 0 || hiddenTypes?.includes('custom')) {
+        return null
+    }
+
+    return (
+        <section className="grid gap-4 md:grid-cols-2">
+            {customItemTypes.map((customType) => {
+                const Icon =
+                    CUSTOM_ITEM_TYPE_ICONS[customType.icon ?? DEFAULT_CUSTOM_ITEM_TYPE_ICON] ??
+                    CUSTOM_ITEM_TYPE_ICONS[DEFAULT_CUSTOM_ITEM_TYPE_ICON]
+                return (
+                    <Card key={customType.key}>
+                        <CardHeader className="flex flex-row items-center gap-3">
+                            <div
+                                className={`flex size-10 shrink-0 items-center justify-center rounded-2xl bg-linear-to-br ${CUSTOM_ITEM_TYPE_STYLES[customType.color].accent} shadow-sm ring-1 ring-white/60 dark:ring-white/10`}
+                            >
+                                <Icon className="size-5" strokeWidth={1.6} />
+                            </div>
+                            <div className="space-y-1">
+                                <CardTitle>{customType.label}</CardTitle>
+                                {customType.hint ? <CardDescription>{customType.hint}</CardDescription> : null}
+                            </div>
+                        </CardHeader>
+                        <CardContent>
+                            {renderItemList(
+                                items.filter((item) => item.customType === customType.key),
+                                'custom',
+                            )}
+                        </CardContent>
+                    </Card>
+                )
+            })}
+        </section>
+    )
+}
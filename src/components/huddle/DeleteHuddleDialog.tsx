@@ -18,9 +18,8 @@ type DeleteHuddleDialogProps = {
     onOpenChange: (open: boolean) => void
     huddleName: string
     huddleId: string
-    userId: string
     isPending: boolean
-    onDelete: (payload: { huddleId: any; userId: string }) => Promise<any>
+    onDelete: (payload: { huddleId: any }) => Promise<any>
     onNavigate: () => void
 }
 
@@ -29,14 +28,13 @@ export function DeleteHuddleDialog({
     onOpenChange,
     huddleName,
     huddleId,
-    userId,
     isPending,
     onDelete,
     onNavigate,
 }: DeleteHuddleDialogProps) {
     const handleDelete = async () => {
         try {
-            await onDelete({ huddleId, userId })
+            await onDelete({ huddleId })
             toast.success('Huddle deleted successfully')
             onOpenChange(false)
             onNavigate()
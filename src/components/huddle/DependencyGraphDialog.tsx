@@ -0,0 +1,201 @@
+import { useMemo } from 'react'
+import toast from 'react-hot-toast'
+import { Copy, Download } from 'lucide-react'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Button } from '~/components/ui/button'
+import { TASK_STATUS_LABELS } from '~/types'
+import {
+    buildDependencyGraph,
+    toDot,
+    toMermaid,
+    type DependencyGraphItem,
+    type DependencyGraphNode,
+} from '~/utils/dependencyGraph'
+
+const NODE_WIDTH = 220
+const NODE_HEIGHT = 72
+const COLUMN_GAP = 64
+const ROW_GAP = 20
+
+type DependencyGraphDialogProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    huddleName: string
+    tasks: DependencyGraphItem[]
+    onSelectItem: (id: string) => void
+}
+
+function getNodeClasses(node: DependencyGraphNode) {
+    const classes = [
+        'absolute flex flex-col gap-1 overflow-hidden rounded-lg border bg-card px-3 py-2 text-left text-xs shadow-sm transition hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+    ]
+    if (node.isReady) classes.push('border-emerald-400 bg-emerald-50 dark:bg-emerald-950/40')
+    if (node.isCritical) classes.push('ring-2 ring-rose-500')
+    if (node.isClosed) classes.push('opacity-60')
+    return classes.join(' ')
+}
+
+export function DependencyGraphDialog({
+    open,
+    onOpenChange,
+    huddleName,
+    tasks,
+    onSelectItem,
+}: DependencyGraphDialogProps) {
+    const graph = useMemo(() => buildDependencyGraph(tasks), [tasks])
+    const nodesById = useMemo(() => new Map(graph.nodes.map((node) => [node.id, node])), [graph])
+    const width = Math.max(graph.layerCount * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP, 0)
+    const height = Math.max(graph.rowCount * (NODE_HEIGHT + ROW_GAP) - ROW_GAP, 0)
+    const getPosition = (node: DependencyGraphNode) => ({
+        x: node.layer * (NODE_WIDTH + COLUMN_GAP),
+        y: node.row * (NODE_HEIGHT + ROW_GAP),
+    })
+
+    const handleCopyMermaid = async () => {
+        try {
+            await navigator.clipboard.writeText(toMermaid(graph))
+            toast.success('Mermaid diagram copied')
+        } catch (error) {
+            console.error('Failed to copy Mermaid diagram', error)
+            toast.error('Failed to copy the diagram')
+        }
+    }
+
+    const handleDownloadDot = () => {
+        const blob = new Blob([toDot(graph)], { type: 'text/vnd.graphviz' })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = `${huddleName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_dependencies.dot`
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="w-dvw sm:max-w-7xl! sm:w-[calc(100%-4rem)] h-full rounded-none sm:rounded-lg sm:max-h-[90vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>Task dependencies</DialogTitle>
+                    <DialogDescription>
+                        Blockers sit to the left of the tasks waiting on them. Select a task to open it.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1.5">
+                        <span className="size-3 rounded-sm ring-2 ring-rose-500" />
+                        Critical path
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                        <span className="size-3 rounded-sm border border-emerald-400 bg-emerald-50" />
+                        Ready to start
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                        <span className="size-3 rounded-sm border bg-card opacity-60" />
+                        Done or cancelled
+                    </span>
+                </div>
+                <div className="flex-1 overflow-auto rounded-lg border p-6">
+                    {graph.nodes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No tasks planned yet.</p>
+                    ) : (
+                        <div className="relative" style={{ width, height }}>
+                            <svg
+                                className="pointer-events-none absolute inset-0 overflow-visible"
+                                width={width}
+                                height={height}
+                                aria-hidden
+                            >
+                                <defs>
+                                    <marker
+                                        id="dependency-arrow"
+                                        viewBox="0 0 10 10"
+                                        refX="10"
+                                        refY="5"
+                                        markerWidth="6"
+                                        markerHeight="6"
+                                        orient="auto-start-reverse"
+                                    >
+                                        <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+                                    </marker>
+                                </defs>
+                                {graph.edges.map((edge) => {
+                                    const from = nodesById.get(edge.from)
+                                    const to = nodesById.get(edge.to)
+                                    if (!from || !to) return null
+                                    const start = getPosition(from)
+                                    const end = getPosition(to)
+                                    const x1 = start.x + NODE_WIDTH
+                                    const y1 = start.y + NODE_HEIGHT / 2
+                                    const x2 = end.x
+                                    const y2 = end.y + NODE_HEIGHT / 2
+                                    const bend = COLUMN_GAP / 2
+                                    return (
+                                        <path
+                                            key={`${edge.from}-${edge.to}`}
+                                            d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                                            fill="none"
+                                            markerEnd="url(#dependency-arrow)"
+                                            className={
+                                                edge.isCritical
+                                                    ? 'stroke-rose-500 stroke-2'
+                                                    : 'stroke-muted-foreground/50'
+                                            }
+                                        />
+                                    )
+                                })}
+                            </svg>
+                            {graph.nodes.map((node) => {
+                                const position = getPosition(node)
+                                return (
+                                    <button
+                                        key={node.id}
+                                        type="button"
+                                        className={getNodeClasses(node)}
+                                        style={{
+                                            left: position.x,
+                                            top: position.y,
+                                            width: NODE_WIDTH,
+                                            height: NODE_HEIGHT,
+                                        }}
+                                        onClick={() => onSelectItem(node.id)}
+                                    >
+                                        <span className={`line-clamp-2 font-medium${node.isClosed ? ' line-through' : ''}`}>
+                                            {node.text}
+                                        </span>
+                                        <span className="text-muted-foreground">
+                                            {node.isReady
+                                                ? 'Ready to start'
+                                                : TASK_STATUS_LABELS[node.status ?? 'todo']}
+                                        </span>
+                                    </button>
+                                )
+                            })}
+                        </div>
+                    )}
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        Close
+                    </Button>
+                    <Button variant="outline" disabled={graph.nodes.length === 0} onClick={() => void handleCopyMermaid()}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        Copy Mermaid
+                    </Button>
+                    <Button disabled={graph.nodes.length === 0} onClick={handleDownloadDot}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Download DOT
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
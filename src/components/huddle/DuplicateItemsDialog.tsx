@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react'
+import toast from 'react-hot-toast'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { Textarea } from '~/components/ui/textarea'
+import { useCallerCredentials } from '~/hooks/useCallerCredentials'
+import { useMergePlanningItemsMutation } from '~/queries'
+import type { DuplicateSuggestion } from '~/server/findDuplicatePlanningItems'
+import type { PlanningItemType } from '~/types'
+import type { CustomItemType } from './types'
+import { findCustomItemType, getTranscriptBadgeLabel } from './utils'
+
+type DuplicateItemsDialogProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    huddleId: Id<'huddles'>
+    planningItems: Array<{
+        _id: Id<'planningItems'>
+        type: PlanningItemType
+        customType?: string
+        text: string
+    }>
+    customItemTypes?: CustomItemType[]
+}
+
+export function DuplicateItemsDialog({
+    open,
+    onOpenChange,
+    huddleId,
+    planningItems,
+    customItemTypes,
+}: DuplicateItemsDialogProps) {
+    const getCallerCredentials = useCallerCredentials()
+    const mergePlanningItems = useMergePlanningItemsMutation()
+    const [suggestions, setSuggestions] = useState<DuplicateSuggestion[] | null>(null)
+    const [mergedTexts, setMergedTexts] = useState<Record<string, string>>({})
+    const [mergingTargetId, setMergingTargetId] = useState<string | null>(null)
+    const itemsById = useMemo(
+        () => new Map(planningItems.map((item) => [item._id, item])),
+        [planningItems],
+    )
+
+    useEffect(() => {
+        let isCancelled = false
+        const findDuplicates = async () => {
+            try {
+                const { findDuplicatePlanningItems } = await import('~/server/findDuplicatePlanningItems')
+                const result = await findDuplicatePlanningItems({
+                    data: { huddleId, ...(await getCallerCredentials()) },
+                })
+                if (!isCancelled) {
+                    setSuggestions(result.suggestions)
+                    setMergedTexts(
+                        Object.fromEntries(
+                            result.suggestions.map((suggestion) => [suggestion.targetId, suggestion.text]),
+                        ),
+                    )
+                }
+            } catch (error) {
+                console.error('Failed to find duplicate items', error)
+                toast.error(error instanceof Error ? error.message : 'Failed to find duplicates')
+                if (!isCancelled) {
+                    setSuggestions([])
+                }
+            }
+        }
+        void findDuplicates()
+        return () => {
+            isCancelled = true
+        }
+    }, [huddleId])
+
+    // Suggestions whose items were merged or deleted since the scan are hidden
+    const visibleSuggestions = (suggestions ?? []).filter((suggestion) =>
+        [suggestion.targetId, ...suggestion.sourceIds].every((id) => itemsById.has(id)),
+    )
+
+    const handleDismiss = (targetId: string) => {
+        setSuggestions((previous) =>
+            (previous ?? []).filter((suggestion) => suggestion.targetId !== targetId),
+        )
+    }
+
+    const handleMerge = async (suggestion: DuplicateSuggestion) => {
+        setMergingTargetId(suggestion.targetId)
+        try {
+            const { mergedCount, droppedDependencyCount } = await mergePlanningItems.mutateAsync({
+                huddleId,
+                targetId: suggestion.targetId,
+                sourceIds: suggestion.sourceIds,
+                text: mergedTexts[suggestion.targetId],
+            })
+            toast.success(
+                `Merged ${mergedCount + 1} items${droppedDependencyCount > 0 ? `; ${droppedDependencyCount} conflicting dependencies were dropped` : ''}`,
+            )
+            handleDismiss(suggestion.targetId)
+        } catch (error) {
+            console.error('Failed to merge planning items', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to merge items')
+        } finally {
+            setMergingTargetId(null)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Find duplicates</DialogTitle>
+                    <DialogDescription>
+                        AI suggests items that say the same thing. Merging keeps the first item with
+                        the combined text and dependencies, and deletes the others.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex max-h-[60vh] flex-col gap-3 overflow-y-auto">
+                    {suggestions === null ? (
+                        <p className="text-sm text-muted-foreground">Looking for duplicates…</p>
+                    ) : visibleSuggestions.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No duplicates found.</p>
+                    ) : (
+                        visibleSuggestions.map((suggestion) => (
+                            <div
+                                key={suggestion.targetId}
+                                className="flex flex-col gap-2 rounded-lg border p-3"
+                            >
+                                <ul className="flex flex-col gap-1 text-sm">
+                                    {[suggestion.targetId, ...suggestion.sourceIds].map((id, index) => {
+                                        const item = itemsById.get(id)
+                                        if (!item) return null
+                                        return (
+                                            <li key={id} className="flex items-start gap-2">
+                                                <Badge variant={index === 0 ? 'default' : 'outline'}>
+                                                    {index === 0
+                                                        ? 'Keep'
+                                                        : getTranscriptBadgeLabel(
+                                                              item.type,
+                                                              findCustomItemType(customItemTypes, item.customType),
+                                                          )}
+                                                </Badge>
+                                                <span>{item.text}</span>
+                                            </li>
+                                        )
+                                    })}
+                                </ul>
+                                {suggestion.reason ? (
+                                    <p className="text-xs text-muted-foreground">{suggestion.reason}</p>
+                                ) : null}
+                                <Textarea
+                                    aria-label="Merged item text"
+                                    value={mergedTexts[suggestion.targetId] ?? ''}
+                                    onChange={(event) =>
+                                        setMergedTexts((previous) => ({
+                                            ...previous,
+                                            [suggestion.targetId]: event.target.value,
+                                        }))
+                                    }
+                                />
+                                <div className="flex justify-end gap-2">
+                                    <Button
+                                        type="button"
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => handleDismiss(suggestion.targetId)}
+                                    >
+                                        Dismiss
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        size="sm"
+                                        disabled={
+                                            mergingTargetId !== null ||
+                                            (mergedTexts[suggestion.targetId] ?? '').trim().length === 0
+                                        }
+                                        onClick={() => void handleMerge(suggestion)}
+                                    >
+                                        {mergingTargetId === suggestion.targetId ? 'Merging…' : 'Merge'}
+                                    </Button>
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Close
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
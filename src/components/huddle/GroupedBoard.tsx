@@ -0,0 +1,57 @@
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+import { PLANNING_ITEM_TYPE_LABELS, PLANNING_ITEM_TYPES, type PlanningItemType } from '~/types'
+import type { ReactNode } from 'react'
+
+type GroupedBoardColumn = {
+    key: string
+    title: string
+    items: Array<{ type: PlanningItemType }>
+}
+
+type GroupedBoardProps = {
+    columns: GroupedBoardColumn[]
+    renderItemList: (items: any[], type: PlanningItemType) => ReactNode
+    columnLabels?: Partial<Record<PlanningItemType, string>>
+}
+
+/**
+ * The board of a saved view grouped by something other than item type. Each column lists
+ * its items per type so type-specific controls (votes, task status) keep working.
+ */
+export function GroupedBoard({ columns, renderItemList, columnLabels }: GroupedBoardProps) {
+    if (columns.length === 0) {
+        return (
+            <section className="space-y-2">
+                <p className="text-sm text-muted-foreground">No items match this view.</p>
+            </section>
+        )
+    }
+
+    return (
+        <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {columns.map((column) => (
+                <Card key={column.key}>
+                    <CardHeader>
+                        <CardTitle>{column.title}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {PLANNING_ITEM_TYPES.map((type) => {
+                            const items = column.items.filter((item) => item.type === type)
+                            if (items.length === 0) {
+                                return null
+                            }
+                            return (
+                                <div key={type} className="space-y-2">
+                                    <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                                        {columnLabels?.[type] ?? PLANNING_ITEM_TYPE_LABELS[type]}
+                                    </h4>
+                                    {renderItemList(items, type)}
+                                </div>
+                            )
+                        })}
+                    </CardContent>
+                </Card>
+            ))}
+        </section>
+    )
+}
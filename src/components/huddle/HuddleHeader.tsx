@@ -1,4 +1,6 @@
-import { Download } from 'lucide-react'
+import { Link } from '@tanstack/react-router'
+import { BookmarkPlus, Combine, Copy, Download, FileJson, Network, Repeat, Shapes } from 'lucide-react'
+import { Badge } from '~/components/ui/badge'
 import { Button } from '~/components/ui/button'
 import { EditableText } from '../EditableText'
 import { Linear } from '~/components/assets/icons/LinearLogo'
@@ -10,15 +12,28 @@ type HuddleHeaderProps = {
     huddleId: string
     createdAt: string
     ownerDisplayName: string
-    isOwner: boolean
+    canFacilitate: boolean
+    canExportToLinear: boolean
     isHuddleCompleted: boolean
     hasLinearToken: boolean
     linearProjectUrl?: string | null
+    templateName?: string | null
+    seriesId?: string | null
+    seriesIndex?: number | null
+    clonedFrom?: { slug: string; name: string } | null
+    isStartingNextOccurrence?: boolean
     clientId: string
     onUpdateName: (name: string) => Promise<void>
     onOpenReport: () => void
     onOpenLinearProject: () => void
     onConnectLinear: () => Promise<void>
+    onSaveAsTemplate?: () => void
+    onStartNextOccurrence?: () => void
+    onEditItemTypes?: () => void
+    onOpenDependencyGraph?: () => void
+    onFindDuplicates?: () => void
+    onExportBundle?: () => void
+    onCloneHuddle?: () => void
 }
 
 export function HuddleHeader({
@@ -26,19 +41,32 @@ export function HuddleHeader({
     huddleId,
     createdAt,
     ownerDisplayName,
-    isOwner,
+    canFacilitate,
+    canExportToLinear,
     isHuddleCompleted,
     hasLinearToken,
     linearProjectUrl,
+    templateName,
+    seriesId,
+    seriesIndex,
+    clonedFrom,
+    isStartingNextOccurrence = false,
     clientId,
     onUpdateName,
     onOpenReport,
     onOpenLinearProject,
     onConnectLinear,
+    onSaveAsTemplate,
+    onStartNextOccurrence,
+    onEditItemTypes,
+    onOpenDependencyGraph,
+    onFindDuplicates,
+    onExportBundle,
+    onCloneHuddle,
 }: HuddleHeaderProps) {
     return (
         <header className="flex flex-col items-start justify-start space-y- mb-2">
-            {isOwner ? (
+            {canFacilitate ? (
                 <EditableText
                     fieldName="huddle-name"
                     value={huddleName}
@@ -69,6 +97,29 @@ export function HuddleHeader({
             )}
             <p className="text-sm text-muted-foreground">
                 Created by {ownerDisplayName} on {formatDateTime(createdAt)}
+                {templateName ? (
+                    <Badge variant="outline" className="ml-2">
+                        {templateName}
+                    </Badge>
+                ) : null}
+                {seriesId ? (
+                    <Link
+                        to="/series/$seriesId"
+                        params={{ seriesId }}
+                        className="ml-2 underline underline-offset-2"
+                    >
+                        Occurrence #{(seriesIndex ?? 0) + 1} · View series
+                    </Link>
+                ) : null}
+                {clonedFrom ? (
+                    <Link
+                        to="/huddles/$huddleSlug"
+                        params={{ huddleSlug: clonedFrom.slug }}
+                        className="ml-2 underline underline-offset-2"
+                    >
+                        Cloned from {clonedFrom.name}
+                    </Link>
+                ) : null}
             </p>
             <div className="flex items-center gap-3 mt-4 flex-wrap">
                 {isHuddleCompleted ? (
@@ -93,7 +144,7 @@ export function HuddleHeader({
                                     <Linear className="h-4 w-4" />
                                     View in Linear
                                 </Button>
-                            ) : (
+                            ) : canExportToLinear ? (
                                 <Button
                                     variant="outline"
                                     onClick={async () => {
@@ -108,10 +159,57 @@ export function HuddleHeader({
                                     <Linear className="h-4 w-4" />
                                     {hasLinearToken ? 'Send to Linear' : 'Connect to Linear'}
                                 </Button>
-                            )}
+                            ) : null}
                         </div>
                     </>
                 ) : null}
+                {canFacilitate && onStartNextOccurrence ? (
+                    <Button
+                        variant="outline"
+                        onClick={onStartNextOccurrence}
+                        disabled={isStartingNextOccurrence}
+                        className="gap-2"
+                    >
+                        <Repeat className="h-4 w-4" />
+                        {isStartingNextOccurrence ? 'Starting…' : 'Start next occurrence'}
+                    </Button>
+                ) : null}
+                {canFacilitate && onCloneHuddle ? (
+                    <Button variant="outline" onClick={onCloneHuddle} className="gap-2">
+                        <Copy className="h-4 w-4" />
+                        Clone
+                    </Button>
+                ) : null}
+                {canFacilitate && onSaveAsTemplate ? (
+                    <Button variant="outline" onClick={onSaveAsTemplate} className="gap-2">
+                        <BookmarkPlus className="h-4 w-4" />
+                        Save as template
+                    </Button>
+                ) : null}
+                {onOpenDependencyGraph ? (
+                    <Button variant="outline" onClick={onOpenDependencyGraph} className="gap-2">
+                        <Network className="h-4 w-4" />
+                        Dependencies
+                    </Button>
+                ) : null}
+                {onFindDuplicates ? (
+                    <Button variant="outline" onClick={onFindDuplicates} className="gap-2">
+                        <Combine className="h-4 w-4" />
+                        Find duplicates
+                    </Button>
+                ) : null}
+                {canFacilitate && onEditItemTypes ? (
+                    <Button variant="outline" onClick={onEditItemTypes} className="gap-2">
+                        <Shapes className="h-4 w-4" />
+                        Item types
+                    </Button>
+                ) : null}
+                {canFacilitate && onExportBundle ? (
+                    <Button variant="outline" onClick={onExportBundle} className="gap-2">
+                        <FileJson className="h-4 w-4" />
+                        Export JSON
+                    </Button>
+                ) : null}
             </div>
         </header>
     )
@@ -0,0 +1,392 @@
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { AtSign, CornerDownRight, Pencil, Trash2 } from 'lucide-react'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { Textarea } from '~/components/ui/textarea'
+import { Loader } from '../Loader'
+import {
+    huddleQueries,
+    useAddPlanningItemCommentMutation,
+    useDeletePlanningItemCommentMutation,
+    useUpdatePlanningItemCommentMutation,
+} from '~/queries'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { formatDateTime } from '~/utils/dates'
+import { PLANNING_ITEM_TYPE_LABELS, type PlanningItemType } from '~/types'
+import { extractMentionedUserIds, findCustomItemType, splitMentions } from './utils'
+import type { CustomItemType } from './types'
+
+type Participant = {
+    userId: string
+    displayName?: string | null
+}
+
+type ItemDetailPanelProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    item: { id: string; text: string; type: PlanningItemType; customType?: string }
+    participants: Participant[]
+    currentUserId: string
+    // Facilitators can delete anyone's comment
+    canModerate: boolean
+    canComment: boolean
+    customItemTypes?: CustomItemType[]
+}
+
+type Comment = {
+    _id: Id<'planningItemComments'>
+    parentCommentId?: Id<'planningItemComments'>
+    authorId: string
+    authorName?: string
+    body: string
+    createdAt: string
+    editedAt?: string
+    deletedAt?: string
+}
+
+function CommentBody({ body, participants }: { body: string; participants: Participant[] }) {
+    return (
+        <p className="whitespace-pre-wrap break-words text-sm">
+            {splitMentions(body, participants).map((part, index) =>
+                part.userId ? (
+                    <span key={index} className="font-semibold text-primary">
+                        {part.text}
+                    </span>
+                ) : (
+                    <span key={index}>{part.text}</span>
+                ),
+            )}
+        </p>
+    )
+}
+
+function CommentComposer({
+    participants,
+    placeholder,
+    initialValue = '',
+    submitLabel,
+    isPending,
+    onSubmit,
+    onCancel,
+}: {
+    participants: Participant[]
+    placeholder: string
+    initialValue?: string
+    submitLabel: string
+    isPending: boolean
+    onSubmit: (body: string) => Promise<boolean>
+    onCancel?: () => void
+}) {
+    const [body, setBody] = useState(initialValue)
+    const [isMentionListOpen, setIsMentionListOpen] = useState(false)
+    const mentionable = participants.filter(
+        (participant) => (participant.displayName ?? '').trim().length > 0,
+    )
+
+    const handleSubmit = async () => {
+        if (!body.trim()) return
+        if (await onSubmit(body)) {
+            setBody('')
+            setIsMentionListOpen(false)
+        }
+    }
+
+    return (
+        <div className="space-y-2">
+            <Textarea
+                value={body}
+                placeholder={placeholder}
+                className="min-h-20 text-sm"
+                onChange={(event) => setBody(event.target.value)}
+                onKeyDown={(event) => {
+                    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+                        event.preventDefault()
+                        void handleSubmit()
+                    }
+                }}
+            />
+            {isMentionListOpen ? (
+                <div className="flex flex-wrap gap-1">
+                    {mentionable.map((participant) => (
+                        <Button
+                            key={participant.userId}
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => {
+                                const name = participant.displayName?.trim() ?? ''
+                                setBody((previous) => {
+                                    const separator = previous.length > 0 && !/\s$/.test(previous) ? ' ' : ''
+                                    return `${previous}${separator}@${name} `
+                                })
+                            }}
+                        >
+                            @{participant.displayName?.trim()}
+                        </Button>
+                    ))}
+                </div>
+            ) : null}
+            <div className="flex items-center justify-between gap-2">
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 text-xs text-muted-foreground"
+                    disabled={mentionable.length === 0}
+                    onClick={() => setIsMentionListOpen((previous) => !previous)}
+                >
+                    <AtSign className="size-3" />
+                    Mention
+                </Button>
+                <div className="flex gap-2">
+                    {onCancel ? (
+                        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+                            Cancel
+                        </Button>
+                    ) : null}
+                    <Button
+                        type="button"
+                        size="sm"
+                        disabled={isPending || body.trim().length === 0}
+                        onClick={() => void handleSubmit()}
+                    >
+                        {submitLabel}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    )
+}
+
+export function ItemDetailPanel({
+    open,
+    onOpenChange,
+    item,
+    participants,
+    currentUserId,
+    canModerate,
+    canComment,
+    customItemTypes,
+}: ItemDetailPanelProps) {
+    const { guestToken } = useGuestSession()
+    const commentsQuery = useQuery({
+        ...huddleQueries.comments(item.id as Id<'planningItems'>, guestToken),
+        enabled: open,
+    })
+    const addComment = useAddPlanningItemCommentMutation()
+    const updateComment = useUpdatePlanningItemCommentMutation()
+    const deleteComment = useDeletePlanningItemCommentMutation()
+    const [replyingToId, setReplyingToId] = useState<Id<'planningItemComments'> | null>(null)
+    const [editingId, setEditingId] = useState<Id<'planningItemComments'> | null>(null)
+
+    const threads = useMemo(() => {
+        const comments = (commentsQuery.data ?? []) as Comment[]
+        const repliesByParent = new Map<string, Comment[]>()
+        const roots: Comment[] = []
+        for (const comment of comments) {
+            if (comment.parentCommentId) {
+                const replies = repliesByParent.get(comment.parentCommentId) ?? []
+                replies.push(comment)
+                repliesByParent.set(comment.parentCommentId, replies)
+            } else {
+                roots.push(comment)
+            }
+        }
+        return roots
+            .map((root) => ({ root, replies: repliesByParent.get(root._id) ?? [] }))
+            // Drop deleted threads once nothing is left to anchor
+            .filter(({ root, replies }) => !root.deletedAt || replies.some((reply) => !reply.deletedAt))
+    }, [commentsQuery.data])
+
+    const handleAdd = async (body: string, parentCommentId?: Id<'planningItemComments'>) => {
+        try {
+            await addComment.mutateAsync({
+                planningItemId: item.id as Id<'planningItems'>,
+                body,
+                parentCommentId,
+                mentionedUserIds: extractMentionedUserIds(body, participants),
+            })
+            setReplyingToId(null)
+            return true
+        } catch (error) {
+            console.error('Failed to add comment', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to add comment')
+            return false
+        }
+    }
+
+    const handleUpdate = async (id: Id<'planningItemComments'>, body: string) => {
+        try {
+            await updateComment.mutateAsync({
+                id,
+                body,
+                mentionedUserIds: extractMentionedUserIds(body, participants),
+            })
+            setEditingId(null)
+            return true
+        } catch (error) {
+            console.error('Failed to update comment', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to update comment')
+            return false
+        }
+    }
+
+    const handleDelete = async (id: Id<'planningItemComments'>) => {
+        try {
+            await deleteComment.mutateAsync({ id })
+        } catch (error) {
+            console.error('Failed to delete comment', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to delete comment')
+        }
+    }
+
+    const renderComment = (comment: Comment, threadId: Id<'planningItemComments'>) => {
+        if (comment.deletedAt) {
+            return (
+                <p key={comment._id} className="text-xs italic text-muted-foreground">
+                    This comment was deleted.
+                </p>
+            )
+        }
+        const isAuthor = comment.authorId === currentUserId
+        const canDelete = canComment && (isAuthor || canModerate)
+        return (
+            <div key={comment._id} className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">
+                        {comment.authorName?.trim() || 'A participant'}
+                    </span>
+                    <span>{formatDateTime(comment.createdAt)}</span>
+                    {comment.editedAt ? <span>(edited)</span> : null}
+                </div>
+                {editingId === comment._id ? (
+                    <CommentComposer
+                        participants={participants}
+                        placeholder="Edit your comment"
+                        initialValue={comment.body}
+                        submitLabel="Save"
+                        isPending={updateComment.isPending}
+                        onSubmit={(body) => handleUpdate(comment._id, body)}
+                        onCancel={() => setEditingId(null)}
+                    />
+                ) : (
+                    <CommentBody body={comment.body} participants={participants} />
+                )}
+                {canComment && editingId !== comment._id ? (
+                    <div className="flex gap-1">
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 gap-1 px-2 text-xs text-muted-foreground"
+                            onClick={() => setReplyingToId(threadId)}
+                        >
+                            <CornerDownRight className="size-3" />
+                            Reply
+                        </Button>
+                        {isAuthor ? (
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 gap-1 px-2 text-xs text-muted-foreground"
+                                onClick={() => setEditingId(comment._id)}
+                            >
+                                <Pencil className="size-3" />
+                                Edit
+                            </Button>
+                        ) : null}
+                        {canDelete ? (
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 gap-1 px-2 text-xs text-muted-foreground"
+                                disabled={deleteComment.isPending}
+                                onClick={() => void handleDelete(comment._id)}
+                            >
+                                <Trash2 className="size-3" />
+                                Delete
+                            </Button>
+                        ) : null}
+                    </div>
+                ) : null}
+            </div>
+        )
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="top-0 right-0 left-auto h-dvh max-w-md! translate-x-0 translate-y-0 rounded-none sm:rounded-none flex flex-col">
+                <DialogHeader>
+                    <div>
+                        <Badge variant="outline">
+                            {findCustomItemType(customItemTypes, item.customType)?.label ??
+                                PLANNING_ITEM_TYPE_LABELS[item.type]}
+                        </Badge>
+                    </div>
+                    <DialogTitle className="text-base leading-relaxed">{item.text}</DialogTitle>
+                    <DialogDescription>Discussion</DialogDescription>
+                </DialogHeader>
+                <div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+                    {commentsQuery.isLoading ? (
+                        <Loader />
+                    ) : threads.length === 0 ? (
+                        <p className="text-sm italic text-muted-foreground">
+                            No comments yet. Start the conversation.
+                        </p>
+                    ) : (
+                        threads.map(({ root, replies }) => (
+                            <div key={root._id} className="rounded-lg border p-3 space-y-3">
+                                {renderComment(root, root._id)}
+                                {replies.length > 0 ? (
+                                    <div className="space-y-3 border-l-2 pl-3">
+                                        {replies.map((reply) => renderComment(reply, root._id))}
+                                    </div>
+                                ) : null}
+                                {replyingToId === root._id ? (
+                                    <div className="border-l-2 pl-3">
+                                        <CommentComposer
+                                            participants={participants}
+                                            placeholder="Write a reply"
+                                            submitLabel="Reply"
+                                            isPending={addComment.isPending}
+                                            onSubmit={(body) => handleAdd(body, root._id)}
+                                            onCancel={() => setReplyingToId(null)}
+                                        />
+                                    </div>
+                                ) : null}
+                            </div>
+                        ))
+                    )}
+                </div>
+                {canComment ? (
+                    <div className="border-t pt-3">
+                        <CommentComposer
+                            participants={participants}
+                            placeholder="Add a comment. Use @ to mention someone."
+                            submitLabel="Comment"
+                            isPending={addComment.isPending}
+                            onSubmit={(body) => handleAdd(body)}
+                        />
+                    </div>
+                ) : (
+                    <p className="border-t pt-3 text-xs text-muted-foreground">
+                        Join the huddle to comment.
+                    </p>
+                )}
+            </DialogContent>
+        </Dialog>
+    )
+}
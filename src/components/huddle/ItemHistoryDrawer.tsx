@@ -0,0 +1,175 @@
+import { useQuery } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { RotateCcw } from 'lucide-react'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { Loader } from '../Loader'
+import { huddleQueries, useRestorePlanningItemRevisionMutation } from '~/queries'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { formatDateTime, formatDueDate } from '~/utils/dates'
+import { PLANNING_ITEM_TYPE_LABELS, TASK_STATUS_LABELS } from '~/types'
+
+type ItemHistoryDrawerProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    planningItemId: string
+    currentText: string
+    planningItemsById: Record<string, { text: string }>
+    canRestore: boolean
+}
+
+const ACTION_LABELS = {
+    created: 'Created',
+    updated: 'Edited',
+    deleted: 'Deleted',
+    restored: 'Restored',
+} as const
+
+type RevisionActor =
+    | { kind: 'user'; userId: string; displayName?: string }
+    | { kind: 'ai'; requestId?: string; sourceChunkId?: string; speakerId?: string }
+    | { kind: 'system' }
+
+function describeActor(actor: RevisionActor) {
+    if (actor.kind === 'user') {
+        return actor.displayName?.trim() || 'A participant'
+    }
+    if (actor.kind === 'ai') {
+        return 'AI'
+    }
+    return 'System'
+}
+
+export function ItemHistoryDrawer({
+    open,
+    onOpenChange,
+    planningItemId,
+    currentText,
+    planningItemsById,
+    canRestore,
+}: ItemHistoryDrawerProps) {
+    const { guestToken } = useGuestSession()
+    const revisionsQuery = useQuery({
+        ...huddleQueries.revisions(planningItemId as Id<'planningItems'>, guestToken),
+        enabled: open,
+    })
+    const restoreRevision = useRestorePlanningItemRevisionMutation()
+
+    const revisions = revisionsQuery.data ?? []
+
+    const handleRestore = async (revisionId: Id<'planningItemRevisions'>) => {
+        try {
+            await restoreRevision.mutateAsync({ revisionId })
+            toast.success('Item restored')
+        } catch (error) {
+            console.error('Failed to restore revision', error)
+            toast.error(
+                error instanceof Error ? error.message : 'Failed to restore revision',
+            )
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="top-0 right-0 left-auto h-dvh max-w-md! translate-x-0 translate-y-0 rounded-none sm:rounded-none flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>Item history</DialogTitle>
+                    <DialogDescription className="line-clamp-2">{currentText}</DialogDescription>
+                </DialogHeader>
+                <div className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+                    {revisionsQuery.isLoading ? (
+                        <Loader />
+                    ) : revisions.length === 0 ? (
+                        <p className="text-sm italic text-muted-foreground">
+                            No changes recorded for this item yet.
+                        </p>
+                    ) : (
+                        revisions.map((revision, index) => {
+                            const snapshot = revision.after ?? revision.before
+                            const textChanged =
+                                revision.before &&
+                                revision.after &&
+                                revision.before.text !== revision.after.text
+                            const blockers = (snapshot?.blockedBy ?? []).map(
+                                (id) => planningItemsById[id]?.text ?? 'Removed item',
+                            )
+                            // The newest revision is the current state, so there is nothing to restore
+                            const isCurrent = index === 0
+                            return (
+                                <div
+                                    key={revision._id}
+                                    className="rounded-lg border p-3 space-y-2 text-sm"
+                                >
+                                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                        <Badge variant="outline">
+                                            {ACTION_LABELS[revision.action]}
+                                        </Badge>
+                                        <span className="font-medium text-foreground">
+                                            {describeActor(revision.actor)}
+                                        </span>
+                                        <span>{formatDateTime(revision.createdAt)}</span>
+                                    </div>
+                                    {textChanged ? (
+                                        <div className="space-y-1">
+                                            <p className="text-muted-foreground line-through">
+                                                {revision.before?.text}
+                                            </p>
+                                            <p>{revision.after?.text}</p>
+                                        </div>
+                                    ) : snapshot ? (
+                                        <p>{snapshot.text}</p>
+                                    ) : null}
+                                    {revision.before &&
+                                    revision.after &&
+                                    revision.before.type !== revision.after.type ? (
+                                        <p className="text-xs text-muted-foreground">
+                                            Moved from {PLANNING_ITEM_TYPE_LABELS[revision.before.type]} to{' '}
+                                            {PLANNING_ITEM_TYPE_LABELS[revision.after.type]}
+                                        </p>
+                                    ) : null}
+                                    {revision.before?.status !== revision.after?.status &&
+                                    revision.after?.status ? (
+                                        <p className="text-xs text-muted-foreground">
+                                            Status set to {TASK_STATUS_LABELS[revision.after.status]}
+                                        </p>
+                                    ) : null}
+                                    {snapshot?.dueDate ? (
+                                        <p className="text-xs text-muted-foreground">
+                                            Due {formatDueDate(snapshot.dueDate)}
+                                        </p>
+                                    ) : null}
+                                    {blockers.length > 0 ? (
+                                        <p className="text-xs text-muted-foreground">
+                                            Blocked by {blockers.join(', ')}
+                                        </p>
+                                    ) : null}
+                                    {canRestore && revision.after && !isCurrent ? (
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            size="sm"
+                                            className="gap-1"
+                                            disabled={restoreRevision.isPending}
+                                            onClick={() => void handleRestore(revision._id)}
+                                        >
+                                            <RotateCcw className="size-3" />
+                                            Restore this version
+                                        </Button>
+                                    ) : null}
+                                </div>
+                            )
+                        })
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -16,6 +16,7 @@ import {
   isLinearAuthenticationError,
 } from '~/server/linear'
 import { linearQueries, useRemoveLinearTokenMutation } from '~/queries'
+import { useCallerCredentials } from '~/hooks/useCallerCredentials'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import {
   Select,
@@ -63,6 +64,7 @@ export function LinearProjectDialog({
   const [projectUrl, setProjectUrl] = useState<string | null>(null)
   const removeToken = useRemoveLinearTokenMutation()
   const queryClient = useQueryClient()
+  const getCallerCredentials = useCallerCredentials()
   // Get Linear user ID from localStorage (stored after first auth)
   const linearUserId = typeof window !== 'undefined'
     ? localStorage.getItem('huddle:linear-user-id')
@@ -166,6 +168,7 @@ export function LinearProjectDialog({
           tasks: tasks.length > 0 ? tasks : [], // Ensure we pass an empty array if no tasks
           accessToken: tokenData.accessToken,
           linearUserId: linearUser.id, // Set the Linear user who authorized as project lead
+          ...(await getCallerCredentials()),
         },
       })
 
@@ -24,18 +24,15 @@ type NameDialogProps = {
     isReady: boolean
     currentParticipant: Participant | undefined
     huddleId: string
-    clientId: string
     avatarUrl?: string | null
     onSetName: (name: string) => void
     onRegisterObserver: (payload: {
         huddleId: any
-        userId: string
         displayName: string
         avatarUrl?: string
     }) => Promise<any>
     onAddParticipant: (payload: {
         huddleId: any
-        userId: string
         displayName: string
         avatarUrl?: string
     }) => Promise<any>
@@ -49,7 +46,6 @@ export function NameDialog({
     isReady,
     currentParticipant,
     huddleId,
-    clientId,
     avatarUrl,
     onSetName,
     onRegisterObserver,
@@ -77,7 +73,6 @@ export function NameDialog({
             if (currentParticipant) {
                 const payload = {
                     huddleId,
-                    userId: clientId,
                     displayName: trimmed,
                     avatarUrl: avatarUrl ?? undefined,
                 }
@@ -28,7 +28,15 @@ import {
 import { Switch } from '~/components/ui/switch'
 import { Label } from '~/components/ui/label'
 import { Input } from '~/components/ui/input'
-import { getInitials } from './utils'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '~/components/ui/select'
+import { ASSIGNABLE_HUDDLE_ROLES, HUDDLE_ROLE_LABELS, type AssignableHuddleRole } from '~/types'
+import { getInitials, getParticipantHuddleRole } from './utils'
 import type { ParticipantListEntry } from './types'
 import { Spinner } from '~/components/ui/Spinner'
 import { motion, AnimatePresence } from 'motion/react'
@@ -47,6 +55,11 @@ type ParticipantsPanelProps<T extends ParticipantListEntry = ParticipantListEntr
     isJoining: boolean
     isLeaving: boolean
     isOwner: boolean
+    ownerUserId: string
+    canFacilitate: boolean
+    canManageRoles?: boolean
+    // Only the owner can hand out or take away the facilitator role
+    canAssignFacilitator?: boolean
     isHuddleActive: boolean
     isStartPending: boolean
     isEndPending: boolean
@@ -55,6 +68,7 @@ type ParticipantsPanelProps<T extends ParticipantListEntry = ParticipantListEntr
     invitedUserIds: string[]
     isPrivate?: boolean
     canTogglePrivate?: boolean
+    isReviewMode?: boolean
     privateAccessKey?: string | null
     huddleSlug?: string
     isFreeLimitExceeded?: boolean
@@ -67,8 +81,11 @@ type ParticipantsPanelProps<T extends ParticipantListEntry = ParticipantListEntr
     onLeave: () => void
     onToggleInviteOnly: (enabled: boolean) => Promise<void> | void
     onTogglePrivate?: (enabled: boolean) => Promise<void> | void
+    onToggleReviewMode?: (enabled: boolean) => Promise<void> | void
+    onOpenTranscriptRetention?: () => void
     onInviteUser: (userId: string, displayName?: string, avatarUrl?: string) => Promise<void> | void
     onRemoveInvite: (userId: string) => Promise<void> | void
+    onChangeRole?: (userId: string, huddleRole: AssignableHuddleRole) => Promise<void> | void
 }
 
 export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantListEntry>({
@@ -81,6 +98,10 @@ export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantLi
     isJoining,
     isLeaving,
     isOwner,
+    ownerUserId,
+    canFacilitate,
+    canManageRoles = false,
+    canAssignFacilitator = false,
     isHuddleActive,
     isStartPending,
     isEndPending,
@@ -89,6 +110,7 @@ export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantLi
     invitedUserIds,
     isPrivate = false,
     canTogglePrivate = false,
+    isReviewMode = false,
     privateAccessKey = null,
     huddleSlug = '',
     isFreeLimitExceeded = false,
@@ -101,8 +123,11 @@ export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantLi
     onLeave,
     onToggleInviteOnly,
     onTogglePrivate,
+    onToggleReviewMode,
+    onOpenTranscriptRetention,
     onInviteUser,
     onRemoveInvite,
+    onChangeRole,
 }: ParticipantsPanelProps<T>) {
     const [isConfirmOpen, setIsConfirmOpen] = useState(false)
     const [inviteUserId, setInviteUserId] = useState('')
@@ -280,6 +305,12 @@ export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantLi
                                                     speakingUserIds={speakingUserIds}
                                                     recordingUserIds={recordingUserIds}
                                                     currentUserId={currentUserId}
+                                                    ownerUserId={ownerUserId}
+                                                    canChangeRole={
+                                                        canManageRoles && participant.userId !== ownerUserId
+                                                    }
+                                                    canAssignFacilitator={canAssignFacilitator}
+                                                    onChangeRole={onChangeRole}
                                                 />
                                             </li>
                                         ))}
@@ -304,6 +335,7 @@ export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantLi
                                                     speakingUserIds={speakingUserIds}
                                                     recordingUserIds={recordingUserIds}
                                                     currentUserId={currentUserId}
+                                                    ownerUserId={ownerUserId}
                                                     canInviteObserver={isOwner && isInviteOnly}
                                                     onInviteObserver={async (p) =>
                                                         onInviteUser(
@@ -337,9 +369,9 @@ export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantLi
                                     </p>
                                 </section>
                             ) : null}
-                            {isOwner && isHuddleActive ? (
+                            {canFacilitate && isHuddleActive ? (
                                 <section className="border-t py-4">
-                                    {!isPrivate && (
+                                    {isOwner && !isPrivate && (
                                         <div className="flex items-center justify-between gap-3 py-2">
                                             <div className="flex flex-col gap-1">
                                                 <Label htmlFor="invite-only-switch" className="text-sm font-medium">
@@ -391,6 +423,50 @@ export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantLi
                                             />
                                         </div>
                                     ) : null}
+                                    {onToggleReviewMode ? (
+                                        <div className="flex items-center justify-between gap-3 py-2">
+                                            <div className="flex flex-col gap-1">
+                                                <Label htmlFor="review-mode-switch" className="text-sm font-medium">
+                                                    Review mode
+                                                </Label>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {isReviewMode
+                                                        ? 'AI suggestions wait for your approval.'
+                                                        : 'AI suggestions go straight to the board.'}
+                                                </p>
+                                            </div>
+                                            <Switch
+                                                id="review-mode-switch"
+                                                className="cursor-pointer"
+                                                checked={isReviewMode}
+                                                onCheckedChange={async (checked) => {
+                                                    try {
+                                                        await onToggleReviewMode(checked)
+                                                    } catch (error) {
+                                                        console.error('Failed to toggle review mode', error)
+                                                    }
+                                                }}
+                                            />
+                                        </div>
+                                    ) : null}
+                                    {onOpenTranscriptRetention ? (
+                                        <div className="flex items-center justify-between gap-3 py-2">
+                                            <div className="flex flex-col gap-1">
+                                                <span className="text-sm font-medium">Transcript retention</span>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Choose how long transcripts are kept.
+                                                </p>
+                                            </div>
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={onOpenTranscriptRetention}
+                                            >
+                                                Manage
+                                            </Button>
+                                        </div>
+                                    ) : null}
                                 </section>
                             ) : null}
                         </AccordionContent>
@@ -441,7 +517,7 @@ export function ParticipantsPanel<T extends ParticipantListEntry = ParticipantLi
                         ) : null}
                     </div>
                 ) : null}
-                {isOwner && canShowHuddleAction ? (
+                {canFacilitate && canShowHuddleAction ? (
                     <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
                         <AlertDialogTrigger asChild>
                             <Button
@@ -513,6 +589,10 @@ type ParticipantRowProps = {
     speakingUserIds: Set<string>
     recordingUserIds: Set<string>
     currentUserId?: string | null
+    ownerUserId: string
+    canChangeRole?: boolean
+    canAssignFacilitator?: boolean
+    onChangeRole?: (userId: string, huddleRole: AssignableHuddleRole) => Promise<void> | void
     canInviteObserver?: boolean
     onInviteObserver?: (participant: ParticipantListEntry) => Promise<void> | void
 }
@@ -523,6 +603,10 @@ function ParticipantRow({
     speakingUserIds,
     recordingUserIds,
     currentUserId,
+    ownerUserId,
+    canChangeRole = false,
+    canAssignFacilitator = false,
+    onChangeRole,
     canInviteObserver,
     onInviteObserver,
 }: ParticipantRowProps) {
@@ -565,6 +649,16 @@ function ParticipantRow({
     }
 
     const statusView = statusStyles[status]
+    const huddleRole = getParticipantHuddleRole(participant, ownerUserId)
+    const assignableRoles = ASSIGNABLE_HUDDLE_ROLES.filter(
+        (role) => canAssignFacilitator || role !== 'facilitator',
+    )
+    // Facilitators cannot demote each other, so hide the picker rather than offer a failing change
+    const showRolePicker =
+        !isObserver &&
+        canChangeRole &&
+        onChangeRole &&
+        (canAssignFacilitator || huddleRole !== 'facilitator')
 
     return (
         <div className="flex items-center justify-between gap-3 px-3 py-2">
@@ -605,13 +699,44 @@ function ParticipantRow({
                             <div className="size-2 rounded-full bg-current" />
                         </div>
                     </div>
-                    <span className="text-sm font-semibold">
-                        {safeName}
-                        {isCurrentUser ? ' (You)' : ''}
-                    </span>
+                    <div className="flex flex-col">
+                        <span className="text-sm font-semibold">
+                            {safeName}
+                            {isCurrentUser ? ' (You)' : ''}
+                        </span>
+                        {!isObserver && !showRolePicker ? (
+                            <span className="text-xs text-muted-foreground">
+                                {HUDDLE_ROLE_LABELS[huddleRole]}
+                            </span>
+                        ) : null}
+                    </div>
                 </div>
             </div>
 
+            {showRolePicker ? (
+                <Select
+                    value={huddleRole}
+                    onValueChange={async (value) => {
+                        try {
+                            await onChangeRole(participant.userId, value as AssignableHuddleRole)
+                        } catch (error) {
+                            console.error('Failed to change participant role', error)
+                        }
+                    }}
+                >
+                    <SelectTrigger size="sm" className="w-28 text-xs" aria-label={`${safeName} role`}>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {assignableRoles.map((role) => (
+                            <SelectItem key={role} value={role}>
+                                {HUDDLE_ROLE_LABELS[role]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            ) : null}
+
             {isObserver && canInviteObserver ? (
                 <div className="flex items-center gap-2">
                     <Button
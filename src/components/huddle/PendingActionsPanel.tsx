@@ -0,0 +1,247 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { Check, X } from 'lucide-react'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { EditableText } from '../EditableText'
+import {
+    huddleQueries,
+    useResolvePendingActionsMutation,
+    useUpdatePendingActionMutation,
+} from '~/queries'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { PLANNING_ITEM_TYPE_LABELS, TASK_STATUS_LABELS, type PlanningItemType } from '~/types'
+import { formatDueDate } from '~/utils/dates'
+
+type PendingActionsPanelProps = {
+    huddleId: Id<'huddles'>
+    planningItems: Array<{ text: string; type: PlanningItemType; metadata?: unknown }>
+    canReview: boolean
+}
+
+const ACTION_LABELS = {
+    createItem: 'New',
+    updateItem: 'Edit',
+    removeItem: 'Remove',
+} as const
+
+export function PendingActionsPanel({
+    huddleId,
+    planningItems,
+    canReview,
+}: PendingActionsPanelProps) {
+    const { guestToken } = useGuestSession()
+    const { data: pendingActions = [] } = useQuery(
+        huddleQueries.pendingActions(huddleId, guestToken),
+    )
+    const resolvePendingActions = useResolvePendingActionsMutation()
+    const updatePendingAction = useUpdatePendingActionMutation()
+
+    // AI actions reference items by their itemKey rather than by id. Keys of items merged
+    // away are kept as aliases on the item they were merged into
+    const itemsByKey = useMemo(() => {
+        const map: Record<string, { text: string; type: PlanningItemType }> = {}
+        for (const item of planningItems) {
+            const { itemKeyAliases } = (item.metadata ?? {}) as { itemKeyAliases?: unknown }
+            if (Array.isArray(itemKeyAliases)) {
+                for (const alias of itemKeyAliases) {
+                    if (typeof alias === 'string') {
+                        map[alias] = item
+                    }
+                }
+            }
+        }
+        for (const item of planningItems) {
+            const itemKey = (item.metadata as { itemKey?: unknown } | undefined)?.itemKey
+            if (typeof itemKey === 'string') {
+                map[itemKey] = item
+            }
+        }
+        return map
+    }, [planningItems])
+
+    if (pendingActions.length === 0) {
+        return null
+    }
+
+    const handleResolve = async (
+        pendingActionIds: Array<Id<'pendingActions'>>,
+        decision: 'accept' | 'reject',
+    ) => {
+        try {
+            const { resolvedCount } = await resolvePendingActions.mutateAsync({
+                huddleId,
+                pendingActionIds,
+                decision,
+            })
+            if (pendingActionIds.length > 1) {
+                toast.success(
+                    `${decision === 'accept' ? 'Accepted' : 'Rejected'} ${resolvedCount} suggestion${resolvedCount === 1 ? '' : 's'}`,
+                )
+            }
+        } catch (error) {
+            console.error('Failed to review suggestions', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to review suggestions')
+        }
+    }
+
+    const handleEdit = async (id: Id<'pendingActions'>, text: string) => {
+        try {
+            await updatePendingAction.mutateAsync({ id, text })
+        } catch (error) {
+            console.error('Failed to edit suggestion', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to edit suggestion')
+        }
+    }
+
+    const allIds = pendingActions.map((pendingAction) => pendingAction._id)
+    const isResolving = resolvePendingActions.isPending
+
+    return (
+        <Card className="gap-3">
+            <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3">
+                <div className="space-y-1.5">
+                    <CardTitle>Suggestions to review</CardTitle>
+                    <CardDescription>
+                        {canReview
+                            ? 'The AI is in review mode. Accept, edit or reject each change before it reaches the board.'
+                            : 'Waiting for the huddle owner to review these changes.'}
+                    </CardDescription>
+                </div>
+                {canReview ? (
+                    <div className="flex gap-2">
+                        <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            disabled={isResolving}
+                            onClick={() => void handleResolve(allIds, 'reject')}
+                        >
+                            Reject all
+                        </Button>
+                        <Button
+                            type="button"
+                            size="sm"
+                            disabled={isResolving}
+                            onClick={() => void handleResolve(allIds, 'accept')}
+                        >
+                            Accept all
+                        </Button>
+                    </div>
+                ) : null}
+            </CardHeader>
+            <CardContent>
+                <ul className="space-y-2">
+                    {pendingActions.map((pendingAction) => {
+                        const { action } = pendingAction
+                        const target =
+                            action.kind === 'createItem' ? undefined : itemsByKey[action.targetKey]
+                        const type = action.kind === 'createItem' ? action.type : target?.type
+                        const text =
+                            action.kind === 'createItem'
+                                ? action.text
+                                : action.kind === 'updateItem'
+                                  ? action.patch.text
+                                  : undefined
+                        const isEditable = canReview && typeof text === 'string'
+                        const taskFields =
+                            action.kind === 'createItem'
+                                ? action
+                                : action.kind === 'updateItem'
+                                  ? action.patch
+                                  : undefined
+                        const taskDetails = [
+                            taskFields?.status ? `Status: ${TASK_STATUS_LABELS[taskFields.status]}` : null,
+                            taskFields?.dueDate ? `Due ${formatDueDate(taskFields.dueDate)}` : null,
+                        ].filter((detail): detail is string => detail !== null)
+                        return (
+                            <li
+                                key={pendingAction._id}
+                                className="rounded-xl border border-dashed bg-muted/40 p-3 text-sm opacity-80"
+                            >
+                                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                    <Badge variant="outline">{ACTION_LABELS[action.kind]}</Badge>
+                                    {type ? <span>{PLANNING_ITEM_TYPE_LABELS[type]}</span> : null}
+                                    <span>· {pendingAction.speakerLabel}</span>
+                                </div>
+                                {target && action.kind !== 'createItem' ? (
+                                    <p
+                                        className={
+                                            action.kind === 'removeItem'
+                                                ? 'mt-2 line-through text-muted-foreground'
+                                                : 'mt-2 text-xs text-muted-foreground'
+                                        }
+                                    >
+                                        {target.text}
+                                    </p>
+                                ) : null}
+                                {typeof text === 'string' ? (
+                                    <div className="mt-2">
+                                        <EditableText
+                                            fieldName="text"
+                                            value={text}
+                                            inputClassName="w-full rounded-xl border px-[7px] py-[7px] leading-relaxed text-sm h-fit min-h-fit"
+                                            inputLabel="Edit suggestion text"
+                                            buttonClassName="w-full px-2 h-fit text-left text-sm leading-relaxed"
+                                            buttonLabel="Edit suggestion text"
+                                            onChange={(value) => {
+                                                const nextText = value.trim()
+                                                if (!nextText) return
+                                                void handleEdit(pendingAction._id, nextText)
+                                            }}
+                                            disabled={!isEditable}
+                                        />
+                                    </div>
+                                ) : null}
+                                {action.kind === 'updateItem' && action.patch.blockedByKeys ? (
+                                    <p className="mt-1 text-xs text-muted-foreground">
+                                        Blocked by{' '}
+                                        {action.patch.blockedByKeys.length > 0
+                                            ? action.patch.blockedByKeys
+                                                  .map((key) => itemsByKey[key]?.text ?? key)
+                                                  .join(', ')
+                                            : 'nothing'}
+                                    </p>
+                                ) : null}
+                                {taskDetails.length > 0 ? (
+                                    <p className="mt-1 text-xs text-muted-foreground">
+                                        {taskDetails.join(' · ')}
+                                    </p>
+                                ) : null}
+                                {canReview ? (
+                                    <div className="mt-2 flex justify-end gap-2">
+                                        <Button
+                                            type="button"
+                                            size="sm"
+                                            variant="ghost"
+                                            className="gap-1"
+                                            disabled={isResolving}
+                                            onClick={() => void handleResolve([pendingAction._id], 'reject')}
+                                        >
+                                            <X className="size-3" />
+                                            Reject
+                                        </Button>
+                                        <Button
+                                            type="button"
+                                            size="sm"
+                                            variant="outline"
+                                            className="gap-1"
+                                            disabled={isResolving}
+                                            onClick={() => void handleResolve([pendingAction._id], 'accept')}
+                                        >
+                                            <Check className="size-3" />
+                                            Accept
+                                        </Button>
+                                    </div>
+                                ) : null}
+                            </li>
+                        )
+                    })}
+                </ul>
+            </CardContent>
+        </Card>
+    )
+}
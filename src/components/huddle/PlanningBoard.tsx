@@ -6,9 +6,25 @@ import type { ReactNode } from 'react'
 type PlanningBoardProps = {
     groupedItems: Record<PlanningItemType, any[]>
     renderItemList: (items: any[], type: PlanningItemType) => ReactNode
+    columnActions?: Partial<Record<PlanningItemType, ReactNode>>
+    columnLabels?: Partial<Record<PlanningItemType, string>>
+    hiddenTypes?: ReadonlyArray<string>
 }
 
-export function PlanningBoard({ groupedItems, renderItemList }: PlanningBoardProps) {
+export function PlanningBoard({
+    groupedItems,
+    renderItemList,
+    columnActions,
+    columnLabels,
+    hiddenTypes,
+}: PlanningBoardProps) {
+    const visibleColumns = PRIMARY_COLUMN_CONFIG.filter(
+        (column) => !hiddenTypes?.includes(column.type),
+    )
+    if (visibleColumns.length === 0) {
+        return null
+    }
+
     return (
         <section className="space-y-6">
             <Card
@@ -21,7 +37,7 @@ export function PlanningBoard({ groupedItems, renderItemList }: PlanningBoardPro
                 <div className="pointer-events-none absolute -bottom-32 left-[-15%] size-[380px] rounded-full bg-accent/10 blur-3xl opacity-70 dark:bg-accent/20" aria-hidden />
                 <CardContent className="relative z-10 px-0">
                     <div className="flex flex-col divide-y divide-primary/20 md:flex-row md:divide-y-0 md:divide-x">
-                        {PRIMARY_COLUMN_CONFIG.map((column) => {
+                        {visibleColumns.map((column) => {
                             const Icon = column.icon
                             const items = groupedItems[column.type]
                             return (
@@ -37,10 +53,13 @@ export function PlanningBoard({ groupedItems, renderItemList }: PlanningBoardPro
                                         </div>
                                         <div className="space-y-1">
                                             <h3 className="text-3xl font-semibold">
-                                                {column.title}
+                                                {columnLabels?.[column.type] ?? column.title}
                                             </h3>
                                         </div>
                                     </div>
+                                    {columnActions?.[column.type] ? (
+                                        <div className="mt-4">{columnActions[column.type]}</div>
+                                    ) : null}
                                     <div className="mt-5">
                                         {renderItemList(items, column.type)}
                                     </div>
@@ -1,12 +1,23 @@
+import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Card, CardContent, CardFooter } from '~/components/ui/card'
 import { Badge } from '~/components/ui/badge'
 import { Button } from '~/components/ui/button'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '~/components/ui/tooltip'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
 import { EditableText } from '../EditableText'
-import { PLANNING_ITEM_TYPE_LABELS, type PlanningItemType } from '~/types'
+import {
+    PLANNING_ITEM_TYPE_LABELS,
+    TASK_STATUSES,
+    TASK_STATUS_LABELS,
+    type PlanningItemType,
+    type TaskStatus,
+} from '~/types'
+import { formatDateTime, formatDueDate } from '~/utils/dates'
 import { PLANNING_EMPTY_MESSAGES } from './constants'
-import { Search } from 'lucide-react'
+import { ItemHistoryDrawer } from './ItemHistoryDrawer'
+import { getInitials, isTaskOverdue } from './utils'
+import { History, MessageSquare, Minus, Plus, Search } from 'lucide-react'
 
 type PlanningItem = {
     id: string
@@ -15,6 +26,10 @@ type PlanningItem = {
     speakerId?: string | null
     speakerLabel?: string | null
     blockedBy?: string[] | null
+    status?: TaskStatus | null
+    dueDate?: string | null
+    completedAt?: string | null
+    assigneeUserIds?: string[] | null
     huddleId: string
     timestamp: string
     metadata?: {
@@ -26,6 +41,22 @@ type PlanningItem = {
 type Participant = {
     userId?: string | null
     displayName?: string | null
+    avatarUrl?: string | null
+}
+
+type TaskPatch = {
+    status?: TaskStatus
+    dueDate?: string | null
+    assigneeUserIds?: string[]
+}
+
+type IdeaVoting = {
+    isOpen: boolean
+    canVote: boolean
+    remainingVotes: number
+    tallies: Record<string, number>
+    myVotes: Record<string, number>
+    voters: Record<string, string[]> | null
 }
 
 type PlanningItemListProps = {
@@ -48,8 +79,15 @@ type PlanningItemListProps = {
     itemRefs: React.MutableRefObject<Map<string, HTMLElement>>
     onItemRef: (id: string) => (el: HTMLElement | null) => void
     onUpdateItem: (id: any, text: string) => void
+    onUpdateTask?: (id: any, patch: TaskPatch) => void
     onDeleteItem: (id: any) => void
     onResearchClick?: (itemId: string, itemText: string) => void
+    commentCounts?: Record<string, number>
+    onOpenItem?: (itemId: string) => void
+    voting?: IdeaVoting | null
+    onVote?: (itemId: string) => void
+    onUnvote?: (itemId: string) => void
+    emptyMessage?: string
     canEdit?: boolean
 }
 
@@ -68,19 +106,30 @@ export function PlanningItemList({
     itemRefs,
     onItemRef,
     onUpdateItem,
+    onUpdateTask,
     onDeleteItem,
     onResearchClick,
+    commentCounts = {},
+    onOpenItem,
+    voting,
+    onVote,
+    onUnvote,
+    emptyMessage,
     canEdit = true,
 }: PlanningItemListProps) {
+    const [historyItemId, setHistoryItemId] = useState<string | null>(null)
+    const historyItem = historyItemId ? items.find((item) => item.id === historyItemId) : undefined
+
     if (items.length === 0) {
         return (
             <p className="text-sm italic">
-                {PLANNING_EMPTY_MESSAGES[type] ?? 'Nothing captured yet.'}
+                {emptyMessage ?? PLANNING_EMPTY_MESSAGES[type] ?? 'Nothing captured yet.'}
             </p>
         )
     }
 
     return (
+        <>
         <ul className="planning-item-list space-y-3">
             <AnimatePresence mode="popLayout" initial={false}>
                 {items.map((item) => {
@@ -119,6 +168,21 @@ export function PlanningItemList({
 
                     const isNewlyAdded = newlyAddedItemIds.has(item.id)
                     const needsResearch = item.metadata?.needsResearch === true && type === 'idea'
+                    const taskStatus: TaskStatus = item.status ?? 'todo'
+                    const isClosedTask = taskStatus === 'done' || taskStatus === 'cancelled'
+                    const isOverdue = type === 'task' && isTaskOverdue(item)
+                    const ideaVoting = type === 'idea' ? voting : null
+                    const voteCount = ideaVoting?.tallies[item.id] ?? 0
+                    const myVoteCount = ideaVoting?.myVotes[item.id] ?? 0
+                    const voterNames = (ideaVoting?.voters?.[item.id] ?? []).map(
+                        (userId) => participantsByUserId.get(userId)?.displayName?.trim() || 'Former participant',
+                    )
+                    const assigneeUserIds = item.assigneeUserIds ?? []
+                    const assignableParticipants = Array.from(participantsByUserId.values()).filter(
+                        (participant) =>
+                            typeof participant.userId === 'string' &&
+                            !assigneeUserIds.includes(participant.userId),
+                    )
 
                     return (
                         <motion.li
@@ -152,7 +216,7 @@ export function PlanningItemList({
                                         value={item.text}
                                         inputClassName="w-full rounded-xl border px-[7px] py-[7px] leading-relaxed text-sm h-fit min-h-fit"
                                         inputLabel={`Edit ${PLANNING_ITEM_TYPE_LABELS[type]} text`}
-                                        buttonClassName="w-full px-2 h-fit text-left text-sm leading-relaxed"
+                                        buttonClassName={`w-full px-2 h-fit text-left text-sm leading-relaxed${type === 'task' && isClosedTask ? ' line-through text-muted-foreground' : ''}`}
                                         buttonLabel={`Edit ${PLANNING_ITEM_TYPE_LABELS[type]} text`}
                                         onChange={(value) => {
                                             const text = value.trim()
@@ -169,6 +233,137 @@ export function PlanningItemList({
                                                 .join(', ')}
                                         </p>
                                     ) : null}
+                                    {type === 'task' ? (
+                                        <div className="mt-2 flex flex-wrap items-center gap-2 px-2 text-xs">
+                                            <Select
+                                                value={taskStatus}
+                                                disabled={!canEdit || !onUpdateTask}
+                                                onValueChange={(value) => {
+                                                    onUpdateTask?.(item.id, { status: value as TaskStatus })
+                                                }}
+                                            >
+                                                <SelectTrigger
+                                                    size="sm"
+                                                    className="h-7 px-2 text-xs"
+                                                    aria-label="Task status"
+                                                >
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {TASK_STATUSES.map((status) => (
+                                                        <SelectItem key={status} value={status}>
+                                                            {TASK_STATUS_LABELS[status]}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            {canEdit && onUpdateTask ? (
+                                                <input
+                                                    type="date"
+                                                    aria-label="Due date"
+                                                    className={`h-7 rounded-md border bg-transparent px-2 text-xs${isOverdue ? ' border-red-500 text-red-500' : ''}`}
+                                                    value={item.dueDate ?? ''}
+                                                    onChange={(event) => {
+                                                        onUpdateTask(item.id, {
+                                                            dueDate: event.target.value || null,
+                                                        })
+                                                    }}
+                                                />
+                                            ) : item.dueDate ? (
+                                                <span className={isOverdue ? 'font-medium text-red-500' : 'text-muted-foreground'}>
+                                                    Due {formatDueDate(item.dueDate)}
+                                                </span>
+                                            ) : null}
+                                            {assigneeUserIds.map((userId) => {
+                                                const assignee = participantsByUserId.get(userId)
+                                                const name = assignee?.displayName?.trim() || 'Former participant'
+                                                const colors = participantColors.get(userId)
+                                                const chip = (
+                                                    <span
+                                                        className="flex size-6 items-center justify-center overflow-hidden rounded-full border-2 bg-slate-100 text-[10px] font-semibold uppercase text-slate-700 dark:bg-gray-800 dark:text-slate-200"
+                                                        style={{
+                                                            borderColor: colors
+                                                                ? isDark ? colors.borderColorDark : colors.borderColorLight
+                                                                : undefined,
+                                                        }}
+                                                    >
+                                                        {assignee?.avatarUrl ? (
+                                                            <img
+                                                                src={assignee.avatarUrl}
+                                                                alt={`${name} avatar`}
+                                                                className="size-full object-cover"
+                                                            />
+                                                        ) : (
+                                                            getInitials(name)
+                                                        )}
+                                                    </span>
+                                                )
+                                                return (
+                                                    <TooltipProvider key={userId}>
+                                                        <Tooltip>
+                                                            <TooltipTrigger asChild>
+                                                                {canEdit && onUpdateTask ? (
+                                                                    <button
+                                                                        type="button"
+                                                                        aria-label={`Unassign ${name}`}
+                                                                        onClick={() => {
+                                                                            onUpdateTask(item.id, {
+                                                                                assigneeUserIds: assigneeUserIds.filter(
+                                                                                    (id) => id !== userId,
+                                                                                ),
+                                                                            })
+                                                                        }}
+                                                                    >
+                                                                        {chip}
+                                                                    </button>
+                                                                ) : (
+                                                                    chip
+                                                                )}
+                                                            </TooltipTrigger>
+                                                            <TooltipContent>
+                                                                <p>{canEdit && onUpdateTask ? `${name} · click to unassign` : name}</p>
+                                                            </TooltipContent>
+                                                        </Tooltip>
+                                                    </TooltipProvider>
+                                                )
+                                            })}
+                                            {canEdit && onUpdateTask && assignableParticipants.length > 0 ? (
+                                                <Select
+                                                    value=""
+                                                    onValueChange={(userId) => {
+                                                        onUpdateTask(item.id, {
+                                                            assigneeUserIds: [...assigneeUserIds, userId],
+                                                        })
+                                                    }}
+                                                >
+                                                    <SelectTrigger
+                                                        size="sm"
+                                                        className="h-7 px-2 text-xs"
+                                                        aria-label="Assign task"
+                                                    >
+                                                        <SelectValue placeholder="Assign" />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {assignableParticipants.map((participant) => (
+                                                            <SelectItem
+                                                                key={participant.userId}
+                                                                value={participant.userId as string}
+                                                            >
+                                                                {participant.displayName?.trim() || 'Anonymous'}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            ) : null}
+                                            {taskStatus === 'done' && item.completedAt ? (
+                                                <span className="text-muted-foreground">
+                                                    Completed {formatDateTime(item.completedAt)}
+                                                </span>
+                                            ) : isOverdue ? (
+                                                <span className="font-medium text-red-500">Overdue</span>
+                                            ) : null}
+                                        </div>
+                                    ) : null}
                                 </CardContent>
 
                                 <CardFooter className="mt-3 flex flex-wrap items-center justify-end gap-2 text-xs">
@@ -184,6 +379,61 @@ export function PlanningItemList({
                                             {speakerDisplayName}
                                         </Badge>
                                     ) : null}
+                                    {ideaVoting ? (
+                                        <div className="mr-auto flex items-center gap-1">
+                                            {ideaVoting.isOpen && ideaVoting.canVote && onUnvote ? (
+                                                <Button
+                                                    type="button"
+                                                    variant="outline"
+                                                    size="icon-sm"
+                                                    className="size-6 rounded-full border-none text-muted-foreground"
+                                                    aria-label="Remove vote"
+                                                    disabled={myVoteCount === 0}
+                                                    onClick={() => {
+                                                        onUnvote(item.id)
+                                                    }}
+                                                >
+                                                    <Minus className="size-3" />
+                                                </Button>
+                                            ) : null}
+                                            <TooltipProvider>
+                                                <Tooltip>
+                                                    <TooltipTrigger asChild>
+                                                        <Badge
+                                                            variant={myVoteCount > 0 ? 'default' : 'outline'}
+                                                            className="cursor-default"
+                                                        >
+                                                            {voteCount} vote{voteCount === 1 ? '' : 's'}
+                                                        </Badge>
+                                                    </TooltipTrigger>
+                                                    <TooltipContent>
+                                                        <p>
+                                                            {ideaVoting.voters === null
+                                                                ? `Anonymous voting${myVoteCount > 0 ? ` · ${myVoteCount} from you` : ''}`
+                                                                : voterNames.length > 0
+                                                                    ? voterNames.join(', ')
+                                                                    : 'No votes yet'}
+                                                        </p>
+                                                    </TooltipContent>
+                                                </Tooltip>
+                                            </TooltipProvider>
+                                            {ideaVoting.isOpen && ideaVoting.canVote && onVote ? (
+                                                <Button
+                                                    type="button"
+                                                    variant="outline"
+                                                    size="icon-sm"
+                                                    className="size-6 rounded-full border-none text-muted-foreground"
+                                                    aria-label="Add vote"
+                                                    disabled={ideaVoting.remainingVotes === 0}
+                                                    onClick={() => {
+                                                        onVote(item.id)
+                                                    }}
+                                                >
+                                                    <Plus className="size-3" />
+                                                </Button>
+                                            ) : null}
+                                        </div>
+                                    ) : null}
                                     {needsResearch && onResearchClick ? (
                                         <TooltipProvider>
                                             <Tooltip>
@@ -206,6 +456,51 @@ export function PlanningItemList({
                                             </Tooltip>
                                         </TooltipProvider>
                                     ) : null}
+                                    {onOpenItem ? (
+                                        <TooltipProvider>
+                                            <Tooltip>
+                                                <TooltipTrigger asChild>
+                                                    <Button
+                                                        type="button"
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="h-6 gap-1 rounded-full border-none px-2 text-muted-foreground"
+                                                        onClick={() => {
+                                                            onOpenItem(item.id)
+                                                        }}
+                                                    >
+                                                        <MessageSquare className="size-3" />
+                                                        {commentCounts[item.id] ? (
+                                                            <span>{commentCounts[item.id]}</span>
+                                                        ) : null}
+                                                    </Button>
+                                                </TooltipTrigger>
+                                                <TooltipContent>
+                                                    <p>Comments</p>
+                                                </TooltipContent>
+                                            </Tooltip>
+                                        </TooltipProvider>
+                                    ) : null}
+                                    <TooltipProvider>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <Button
+                                                    type="button"
+                                                    variant="outline"
+                                                    size="icon-sm"
+                                                    className="size-6 rounded-full border-none text-muted-foreground"
+                                                    onClick={() => {
+                                                        setHistoryItemId(item.id)
+                                                    }}
+                                                >
+                                                    <History className="size-3" />
+                                                </Button>
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p>View history</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </TooltipProvider>
                                     {/* Don't show delete button for summary items or non-participants */}
                                     {type !== 'summary' && canEdit && (
                                         <Button
@@ -228,6 +523,19 @@ export function PlanningItemList({
                 })}
             </AnimatePresence>
         </ul>
+        {historyItem ? (
+            <ItemHistoryDrawer
+                open
+                onOpenChange={(open) => {
+                    if (!open) setHistoryItemId(null)
+                }}
+                planningItemId={historyItem.id}
+                currentText={historyItem.text}
+                planningItemsById={planningItemsById}
+                canRestore={canEdit && type !== 'summary'}
+            />
+        ) : null}
+        </>
     )
 }
 
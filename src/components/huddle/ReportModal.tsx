@@ -17,6 +17,7 @@ import type { TranscriptEntry } from './types'
 type PlanningItem = {
     id: string
     type: PlanningItemType
+    customType?: string
     text: string
     timestamp: string
     order?: number
@@ -28,6 +29,7 @@ type HuddleData = {
     createdAt: string
     endedAt?: string
     planningItems: PlanningItem[]
+    customItemTypes?: Array<{ key: string; label: string }>
     transcriptChunks?: Array<{
         id: string
         payload: string
@@ -1,7 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
-import { convexQuery } from '@convex-dev/react-query'
-import { api } from '../../../convex/_generated/api'
 import type { Id } from '../../../convex/_generated/dataModel'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { huddleQueries } from '~/queries'
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
 import { Loader } from '../Loader'
 import { ExternalLink } from 'lucide-react'
@@ -11,9 +11,8 @@ type ResearchProps = {
 }
 
 export function Research({ planningItemId }: ResearchProps) {
-  const researchResult = useQuery(
-    convexQuery(api.huddle.getResearchResult, { planningItemId })
-  )
+  const { guestToken } = useGuestSession()
+  const researchResult = useQuery(huddleQueries.researchResult(planningItemId, guestToken))
 
   if (researchResult.isLoading) {
     return (
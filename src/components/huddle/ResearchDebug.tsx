@@ -1,7 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
-import { convexQuery } from '@convex-dev/react-query'
-import { api } from '../../../convex/_generated/api'
 import type { Id } from '../../../convex/_generated/dataModel'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { huddleQueries } from '~/queries'
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
 import { Badge } from '~/components/ui/badge'
 import { ExternalLink, ChevronDown, ChevronUp } from 'lucide-react'
@@ -43,9 +43,8 @@ export function ResearchDebug({ planningItems, huddleId }: ResearchDebugProps) {
     }
 
     // Fetch all research results for the huddle in a single query
-    const allResearchResults = useQuery(
-        convexQuery(api.huddle.getAllResearchResults, { huddleId })
-    )
+    const { guestToken } = useGuestSession()
+    const allResearchResults = useQuery(huddleQueries.researchResults(huddleId, guestToken))
 
     return (
         <Card>
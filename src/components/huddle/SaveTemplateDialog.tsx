@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import { useSaveHuddleAsTemplateMutation } from '~/queries'
+
+type SaveTemplateDialogProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    huddleId: Id<'huddles'>
+    defaultName: string
+}
+
+export function SaveTemplateDialog({
+    open,
+    onOpenChange,
+    huddleId,
+    defaultName,
+}: SaveTemplateDialogProps) {
+    const saveHuddleAsTemplate = useSaveHuddleAsTemplateMutation()
+    const [name, setName] = useState(defaultName)
+    const [description, setDescription] = useState('')
+
+    const handleSave = async () => {
+        try {
+            await saveHuddleAsTemplate.mutateAsync({
+                huddleId,
+                name,
+                description: description.trim() || undefined,
+            })
+            toast.success('Template saved')
+            onOpenChange(false)
+        } catch (error) {
+            console.error('Failed to save template', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to save template')
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Save as template</DialogTitle>
+                    <DialogDescription>
+                        New huddles created from this template start with the current board items, column labels and agenda.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="template-name">Name</Label>
+                        <Input
+                            id="template-name"
+                            value={name}
+                            onChange={(event) => setName(event.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="template-description">Description</Label>
+                        <Textarea
+                            id="template-description"
+                            value={description}
+                            placeholder="When should the team use this template?"
+                            onChange={(event) => setDescription(event.target.value)}
+                        />
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        disabled={saveHuddleAsTemplate.isPending || name.trim().length === 0}
+                        onClick={() => void handleSave()}
+                    >
+                        {saveHuddleAsTemplate.isPending ? 'Saving…' : 'Save template'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -6,12 +6,19 @@ import type { ReactNode } from 'react'
 type SupportingSectionsProps = {
     groupedItems: Record<PlanningItemType, any[]>
     renderItemList: (items: any[], type: PlanningItemType) => ReactNode
+    columnLabels?: Partial<Record<PlanningItemType, string>>
+    hiddenTypes?: ReadonlyArray<string>
 }
 
-export function SupportingSections({ groupedItems, renderItemList }: SupportingSectionsProps) {
+export function SupportingSections({
+    groupedItems,
+    renderItemList,
+    columnLabels,
+    hiddenTypes,
+}: SupportingSectionsProps) {
     const visibleSupportingSections = SUPPORTING_SECTIONS.filter((section) => {
         const items = groupedItems[section.type]
-        return Array.isArray(items) && items.length > 0
+        return Array.isArray(items) && items.length > 0 && !hiddenTypes?.includes(section.type)
     })
 
     if (visibleSupportingSections.length === 0) {
@@ -38,7 +45,7 @@ export function SupportingSections({ groupedItems, renderItemList }: SupportingS
                     return (
                         <Card key={section.type} className="">
                             <CardHeader>
-                                <CardTitle>{section.title}</CardTitle>
+                                <CardTitle>{columnLabels?.[section.type] ?? section.title}</CardTitle>
                             </CardHeader>
                             <CardContent>{renderItemList(items, section.type)}</CardContent>
                         </Card>
@@ -1,14 +1,23 @@
-import type { CSSProperties } from 'react'
+import { useEffect, useRef, type CSSProperties } from 'react'
 import {
     Card,
     CardContent,
     CardHeader,
     CardTitle,
 } from '~/components/ui/card'
-import { getInitials, getTranscriptBadgeClasses, getTranscriptBadgeLabel, truncateBadgeText } from './utils'
+import { Button } from '~/components/ui/button'
+import { Undo2 } from 'lucide-react'
+import {
+    findCustomItemType,
+    getInitials,
+    getTranscriptBadgeClasses,
+    getTranscriptBadgeLabel,
+    truncateBadgeText,
+} from './utils'
 import { TRANSCRIPT_BADGE_BASE_CLASSES } from './constants'
 import { formatTime } from '~/utils/dates'
 import type {
+    CustomItemType,
     ParticipantListEntry,
     SpeakerStyle,
     TranscriptEntry,
@@ -23,6 +32,13 @@ type TranscriptCardProps<TParticipant extends ParticipantListEntry = Participant
     microphoneStatusMessage: string | null
     microphoneError: string | null
     lastRecordingDuration: number | null
+    // Provided only for users allowed to undo a turn's AI actions
+    onRevertEntry?: (entryId: string) => void
+    revertingEntryId?: string | null
+    // Scrolled into view and outlined, e.g. when opened from a search result
+    highlightedEntryId?: string | null
+    // Labels and colors for badges of the huddle's custom item types
+    customItemTypes?: CustomItemType[]
 }
 
 export function TranscriptCard<TParticipant extends ParticipantListEntry = ParticipantListEntry>({
@@ -34,7 +50,21 @@ export function TranscriptCard<TParticipant extends ParticipantListEntry = Parti
     microphoneStatusMessage,
     microphoneError,
     lastRecordingDuration,
+    onRevertEntry,
+    revertingEntryId = null,
+    highlightedEntryId = null,
+    customItemTypes,
 }: TranscriptCardProps<TParticipant>) {
+    const entryRefs = useRef<Map<string, HTMLDivElement>>(new Map())
+    const hasHighlightedEntry = highlightedEntryId
+        ? entries.some((entry) => entry.id === highlightedEntryId)
+        : false
+
+    useEffect(() => {
+        if (!highlightedEntryId || !hasHighlightedEntry) return
+        entryRefs.current.get(highlightedEntryId)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }, [highlightedEntryId, hasHighlightedEntry])
+
     return (
         <Card>
             <CardHeader>
@@ -106,7 +136,22 @@ export function TranscriptCard<TParticipant extends ParticipantListEntry = Parti
                                     : null
                             const initials = getInitials(participantName)
                             return (
-                                <div key={entry.id} className="flex items-start gap-4" style={styleVars}>
+                                <div
+                                    key={entry.id}
+                                    ref={(element) => {
+                                        if (element) {
+                                            entryRefs.current.set(entry.id, element)
+                                        } else {
+                                            entryRefs.current.delete(entry.id)
+                                        }
+                                    }}
+                                    className={`flex items-start gap-4${
+                                        entry.id === highlightedEntryId
+                                            ? ' rounded-md ring-2 ring-amber-400 ring-offset-4 ring-offset-background'
+                                            : ''
+                                    }`}
+                                    style={styleVars}
+                                >
                                     <div className="flex w-[50px] flex-none justify-center pt-0.5">
                                         {showSpeakerMeta ? (
                                             <div className="transcript-avatar flex size-[50px] items-center justify-center overflow-hidden rounded-full border text-sm font-semibold uppercase">
@@ -145,9 +190,10 @@ export function TranscriptCard<TParticipant extends ParticipantListEntry = Parti
                                         {entry.badges.length > 0 ? (
                                             <div className="flex flex-wrap gap-2 pt-2">
                                                 {entry.badges.map((badge) => {
-                                                    const badgeLabel = getTranscriptBadgeLabel(badge.type)
+                                                    const customType = findCustomItemType(customItemTypes, badge.customType)
+                                                    const badgeLabel = getTranscriptBadgeLabel(badge.type, customType)
                                                     const badgeText = truncateBadgeText(badge.text)
-                                                    const badgeClassName = `${TRANSCRIPT_BADGE_BASE_CLASSES} ${getTranscriptBadgeClasses(badge.type)}`
+                                                    const badgeClassName = `${TRANSCRIPT_BADGE_BASE_CLASSES} ${getTranscriptBadgeClasses(badge.type, customType)}`
                                                     return (
                                                         <span key={`${entry.id}-${badge.id}`} className={badgeClassName}>
                                                             <span className="font-semibold">{badgeLabel} created:</span>
@@ -157,6 +203,21 @@ export function TranscriptCard<TParticipant extends ParticipantListEntry = Parti
                                                 })}
                                             </div>
                                         ) : null}
+                                        {onRevertEntry && entry.canRevert ? (
+                                            <div className="pt-1">
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    className="h-7 gap-1 px-2 text-xs text-muted-foreground"
+                                                    disabled={revertingEntryId !== null}
+                                                    onClick={() => onRevertEntry(entry.id)}
+                                                >
+                                                    <Undo2 className="size-3" />
+                                                    {revertingEntryId === entry.id ? 'Reverting...' : 'Revert this turn'}
+                                                </Button>
+                                            </div>
+                                        ) : null}
                                     </div>
                                 </div>
                             )
@@ -0,0 +1,144 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '~/components/ui/dialog'
+import { Button } from '~/components/ui/button'
+import { Label } from '~/components/ui/label'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '~/components/ui/select'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { huddleQueries, useSetHuddleRetentionMutation } from '~/queries'
+import { TRANSCRIPT_RETENTION_DAY_OPTIONS, formatRetentionDays } from '~/types'
+
+const NO_HUDDLE_RETENTION_VALUE = 'none'
+
+type TranscriptRetentionDialogProps = {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    huddleId: Id<'huddles'>
+    transcriptRetentionDays: number | null
+    isInWorkspace: boolean
+}
+
+export function TranscriptRetentionDialog({
+    open,
+    onOpenChange,
+    huddleId,
+    transcriptRetentionDays,
+    isInWorkspace,
+}: TranscriptRetentionDialogProps) {
+    const { guestToken } = useGuestSession()
+    const setHuddleRetention = useSetHuddleRetentionMutation()
+    const [draftDays, setDraftDays] = useState<number | null>(transcriptRetentionDays)
+    const { data: retention } = useQuery({
+        ...huddleQueries.retention(huddleId, draftDays, guestToken),
+        enabled: open,
+    })
+    const workspaceDays = retention?.workspaceRetentionDays ?? null
+    const preview = retention?.preview ?? null
+
+    const handleSave = async () => {
+        try {
+            await setHuddleRetention.mutateAsync({ huddleId, retentionDays: draftDays })
+            toast.success('Transcript retention saved')
+            onOpenChange(false)
+        } catch (error) {
+            console.error('Failed to save transcript retention', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to save transcript retention')
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Transcript retention</DialogTitle>
+                    <DialogDescription>
+                        Transcripts, recorded audio and raw research data older than this are deleted
+                        every night. Planning items and summaries are always kept.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="transcript-retention">Keep transcripts for</Label>
+                    <Select
+                        value={draftDays === null ? NO_HUDDLE_RETENTION_VALUE : String(draftDays)}
+                        onValueChange={(value) =>
+                            setDraftDays(value === NO_HUDDLE_RETENTION_VALUE ? null : Number(value))
+                        }
+                    >
+                        <SelectTrigger id="transcript-retention" className="w-full">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={NO_HUDDLE_RETENTION_VALUE}>
+                                {isInWorkspace ? 'Follow the workspace policy' : 'Forever'}
+                            </SelectItem>
+                            {TRANSCRIPT_RETENTION_DAY_OPTIONS.map((days) => (
+                                <SelectItem
+                                    key={days}
+                                    value={String(days)}
+                                    // The workspace policy already deletes sooner
+                                    disabled={workspaceDays !== null && days > workspaceDays}
+                                >
+                                    {days} days
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {isInWorkspace ? (
+                        <p className="text-xs text-muted-foreground">
+                            Workspace policy: {formatRetentionDays(workspaceDays).toLowerCase()}. A
+                            huddle can shorten it but not extend it.
+                        </p>
+                    ) : null}
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3 text-sm">
+                    {!retention ? (
+                        <p className="text-muted-foreground">Checking what would be deleted…</p>
+                    ) : !preview ? (
+                        <p className="text-muted-foreground">Transcripts will be kept forever.</p>
+                    ) : (
+                        <>
+                            <p className="font-medium">
+                                {formatRetentionDays(preview.retentionDays)}. The next purge would delete:
+                            </p>
+                            <ul className="mt-1 list-disc pl-5 text-muted-foreground">
+                                <li>
+                                    {preview.transcriptChunks}
+                                    {preview.hasMore ? '+' : ''} transcript entries
+                                </li>
+                                <li>{preview.audioFiles} audio recordings</li>
+                                <li>{preview.pendingActions} AI suggestions made from those entries</li>
+                                <li>{preview.researchPayloads} raw research responses</li>
+                            </ul>
+                        </>
+                    )}
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        disabled={setHuddleRetention.isPending || draftDays === transcriptRetentionDays}
+                        onClick={() => void handleSave()}
+                    >
+                        Save
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { Lock, Vote } from 'lucide-react'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Switch } from '~/components/ui/switch'
+import {
+    useCloseVotingRoundMutation,
+    usePromoteTopIdeasMutation,
+    useStartVotingRoundMutation,
+} from '~/queries'
+
+const DEFAULT_VOTES_PER_PARTICIPANT = 3
+const DEFAULT_PROMOTE_COUNT = 3
+
+type VotingRound = {
+    _id: Id<'votingRounds'>
+    status: 'open' | 'closed'
+    votesPerParticipant: number
+    isAnonymous: boolean
+    promotedItemIds?: Array<Id<'planningItems'>>
+}
+
+type VotingControlsProps = {
+    huddleId: Id<'huddles'>
+    round: VotingRound | null
+    remainingVotes: number
+    canFacilitate: boolean
+    canVote: boolean
+    hasIdeas: boolean
+}
+
+function parseCount(value: string, fallback: number) {
+    const parsed = Number.parseInt(value, 10)
+    return Number.isNaN(parsed) ? fallback : parsed
+}
+
+export function VotingControls({
+    huddleId,
+    round,
+    remainingVotes,
+    canFacilitate,
+    canVote,
+    hasIdeas,
+}: VotingControlsProps) {
+    const startVotingRound = useStartVotingRoundMutation()
+    const closeVotingRound = useCloseVotingRoundMutation()
+    const promoteTopIdeas = usePromoteTopIdeasMutation()
+    const [votesPerParticipant, setVotesPerParticipant] = useState(String(DEFAULT_VOTES_PER_PARTICIPANT))
+    const [isAnonymous, setIsAnonymous] = useState(false)
+    const [promoteCount, setPromoteCount] = useState(String(DEFAULT_PROMOTE_COUNT))
+
+    const isOpen = round?.status === 'open'
+
+    const handleStart = async () => {
+        try {
+            await startVotingRound.mutateAsync({
+                huddleId,
+                votesPerParticipant: parseCount(votesPerParticipant, DEFAULT_VOTES_PER_PARTICIPANT),
+                isAnonymous,
+            })
+            toast.success('Voting started')
+        } catch (error) {
+            console.error('Failed to start voting', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to start voting')
+        }
+    }
+
+    const handleClose = async () => {
+        if (!round) return
+        try {
+            await closeVotingRound.mutateAsync({ roundId: round._id })
+            toast.success('Voting closed')
+        } catch (error) {
+            console.error('Failed to close voting', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to close voting')
+        }
+    }
+
+    const handlePromote = async () => {
+        if (!round) return
+        try {
+            const createdTaskIds = await promoteTopIdeas.mutateAsync({
+                roundId: round._id,
+                count: parseCount(promoteCount, DEFAULT_PROMOTE_COUNT),
+            })
+            toast.success(
+                createdTaskIds.length > 0
+                    ? `Promoted ${createdTaskIds.length} idea${createdTaskIds.length === 1 ? '' : 's'} to tasks`
+                    : 'No voted ideas left to promote',
+            )
+        } catch (error) {
+            console.error('Failed to promote ideas', error)
+            toast.error(error instanceof Error ? error.message : 'Failed to promote ideas')
+        }
+    }
+
+    if (!round && (!canFacilitate || !hasIdeas)) {
+        return null
+    }
+
+    return (
+        <div className="space-y-2 rounded-xl border border-dashed p-3 text-xs">
+            {round ? (
+                <div className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                    {isOpen ? <Vote className="size-3" /> : <Lock className="size-3" />}
+                    <span className="font-medium text-foreground">
+                        {isOpen ? 'Voting open' : 'Results locked'}
+                    </span>
+                    <span>
+                        {round.votesPerParticipant} vote{round.votesPerParticipant === 1 ? '' : 's'} each
+                        {round.isAnonymous ? ' · anonymous' : ''}
+                    </span>
+                    {isOpen && canVote ? (
+                        <span>
+                            · {remainingVotes} left
+                        </span>
+                    ) : null}
+                </div>
+            ) : null}
+            {canFacilitate && isOpen ? (
+                <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={closeVotingRound.isPending}
+                    onClick={() => void handleClose()}
+                >
+                    Close voting
+                </Button>
+            ) : null}
+            {canFacilitate && round && !isOpen ? (
+                <div className="flex flex-wrap items-center gap-2">
+                    <Label htmlFor="promote-count" className="text-xs">
+                        Promote top
+                    </Label>
+                    <Input
+                        id="promote-count"
+                        type="number"
+                        min={1}
+                        className="h-7 w-16 text-xs"
+                        value={promoteCount}
+                        onChange={(event) => setPromoteCount(event.target.value)}
+                    />
+                    <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={promoteTopIdeas.isPending}
+                        onClick={() => void handlePromote()}
+                    >
+                        Promote to tasks
+                    </Button>
+                </div>
+            ) : null}
+            {canFacilitate && !isOpen && hasIdeas ? (
+                <div className="flex flex-wrap items-center gap-2">
+                    <Label htmlFor="votes-per-participant" className="text-xs">
+                        Votes each
+                    </Label>
+                    <Input
+                        id="votes-per-participant"
+                        type="number"
+                        min={1}
+                        max={20}
+                        className="h-7 w-16 text-xs"
+                        value={votesPerParticipant}
+                        onChange={(event) => setVotesPerParticipant(event.target.value)}
+                    />
+                    <Switch
+                        id="anonymous-voting-switch"
+                        className="cursor-pointer"
+                        checked={isAnonymous}
+                        onCheckedChange={setIsAnonymous}
+                    />
+                    <Label htmlFor="anonymous-voting-switch" className="text-xs">
+                        Anonymous
+                    </Label>
+                    <Button
+                        type="button"
+                        size="sm"
+                        disabled={startVotingRound.isPending}
+                        onClick={() => void handleStart()}
+                    >
+                        {round ? 'New round' : 'Start voting'}
+                    </Button>
+                </div>
+            ) : null}
+        </div>
+    )
+}
@@ -1,6 +1,20 @@
 import type { LucideIcon } from 'lucide-react'
-import { Flag, ListChecks, Sparkles } from 'lucide-react'
-import { PLANNING_ITEM_TYPE_LABELS, type PlanningItemType } from '~/types'
+import {
+    CircleHelp,
+    Flag,
+    Heart,
+    Lightbulb,
+    ListChecks,
+    MessageCircle,
+    OctagonAlert,
+    Sparkles,
+    Star,
+    Tag,
+    ThumbsDown,
+    ThumbsUp,
+    Trophy,
+} from 'lucide-react'
+import { PLANNING_ITEM_TYPE_LABELS, type CustomItemTypeColor, type PlanningItemType } from '~/types'
 import type { SpeakerStyle } from './types'
 
 export const TRANSCRIPT_BADGE_ELIGIBLE_TYPES = new Set<PlanningItemType>([
@@ -10,6 +24,7 @@ export const TRANSCRIPT_BADGE_ELIGIBLE_TYPES = new Set<PlanningItemType>([
     'risk',
     'decision',
     'outcome',
+    'custom',
 ])
 
 export const TRANSCRIPT_BADGE_LABEL_OVERRIDES: Partial<Record<PlanningItemType, string>> = {
@@ -27,6 +42,64 @@ export const TRANSCRIPT_BADGE_STYLE_BY_TYPE: Partial<Record<PlanningItemType, st
         'bg-indigo-100/80 text-indigo-900 ring-indigo-200/70 dark:bg-indigo-900/30 dark:text-indigo-100 dark:ring-indigo-500/40',
 }
 
+// Tailwind only ships classes it can see, so each color spells its classes out in full
+export const CUSTOM_ITEM_TYPE_STYLES: Record<CustomItemTypeColor, { badge: string; accent: string }> = {
+    amber: {
+        badge: 'bg-amber-100/80 text-amber-900 ring-amber-200/70 dark:bg-amber-900/30 dark:text-amber-100 dark:ring-amber-500/40',
+        accent: 'from-amber-200/60 via-white/40 dark:via-white/10 to-transparent dark:from-amber-400/10',
+    },
+    sky: {
+        badge: 'bg-sky-100/80 text-sky-900 ring-sky-200/70 dark:bg-sky-900/30 dark:text-sky-100 dark:ring-sky-500/40',
+        accent: 'from-sky-200/60 via-white/50 dark:via-white/10 to-transparent dark:from-sky-400/10',
+    },
+    emerald: {
+        badge: 'bg-emerald-100/80 text-emerald-900 ring-emerald-200/70 dark:bg-emerald-900/30 dark:text-emerald-100 dark:ring-emerald-500/40',
+        accent: 'from-emerald-200/60 via-white/50 dark:via-white/10 to-transparent dark:from-emerald-400/10',
+    },
+    rose: {
+        badge: 'bg-rose-100/80 text-rose-900 ring-rose-200/70 dark:bg-rose-900/30 dark:text-rose-100 dark:ring-rose-500/40',
+        accent: 'from-rose-200/60 via-white/50 dark:via-white/10 to-transparent dark:from-rose-400/10',
+    },
+    violet: {
+        badge: 'bg-violet-100/80 text-violet-900 ring-violet-200/70 dark:bg-violet-900/30 dark:text-violet-100 dark:ring-violet-500/40',
+        accent: 'from-violet-200/60 via-white/50 dark:via-white/10 to-transparent dark:from-violet-400/10',
+    },
+    fuchsia: {
+        badge: 'bg-fuchsia-100/80 text-fuchsia-900 ring-fuchsia-200/70 dark:bg-fuchsia-900/30 dark:text-fuchsia-100 dark:ring-fuchsia-500/40',
+        accent: 'from-fuchsia-200/60 via-white/50 dark:via-white/10 to-transparent dark:from-fuchsia-400/10',
+    },
+    slate: {
+        badge: 'bg-slate-200/80 text-slate-900 ring-slate-300/70 dark:bg-slate-900/30 dark:text-slate-100 dark:ring-slate-600/50',
+        accent: 'from-slate-200/60 via-white/50 dark:via-white/10 to-transparent dark:from-slate-400/10',
+    },
+}
+
+export const CUSTOM_ITEM_TYPE_COLOR_LABELS: Record<CustomItemTypeColor, string> = {
+    amber: 'Amber',
+    sky: 'Sky',
+    emerald: 'Emerald',
+    rose: 'Rose',
+    violet: 'Violet',
+    fuchsia: 'Fuchsia',
+    slate: 'Slate',
+}
+
+export const DEFAULT_CUSTOM_ITEM_TYPE_ICON = 'tag'
+
+// Icon names a custom item type can pick, keyed by their lucide name
+export const CUSTOM_ITEM_TYPE_ICONS: Record<string, LucideIcon> = {
+    tag: Tag,
+    'circle-help': CircleHelp,
+    'octagon-alert': OctagonAlert,
+    heart: Heart,
+    'thumbs-up': ThumbsUp,
+    'thumbs-down': ThumbsDown,
+    star: Star,
+    lightbulb: Lightbulb,
+    'message-circle': MessageCircle,
+    trophy: Trophy,
+}
+
 export const TRANSCRIPT_BADGE_FALLBACK_CLASSES =
     'bg-slate-200/80 text-slate-900 ring-slate-300/70 dark:bg-slate-900/30 dark:text-slate-100 dark:ring-slate-600/50'
 
@@ -42,6 +115,7 @@ export const PLANNING_EMPTY_MESSAGES: Partial<Record<PlanningItemType, string>>
     decision: 'Decisions will appear here as they are made.',
     risk: 'Mention risks as they show up.',
     summary: 'When the huddle wraps, summarize the plan in this space.',
+    custom: 'Nothing captured here yet.',
 }
 
 export const PRIMARY_COLUMN_CONFIG: Array<{
@@ -124,3 +198,5 @@ export const DEV_TOOLBAR_STORAGE_KEY = 'huddle:dev-toolbar-visible'
 export const RECORDING_MODE_STORAGE_KEY = 'huddle:recording-mode'
 export const PRESENCE_HEARTBEAT_INTERVAL_MS = 20_000
 
+// Waits between automatic retries of a voice turn that failed to upload or process
+export const VOICE_TURN_RETRY_DELAYS_MS = [1_000, 3_000, 8_000]
@@ -5,6 +5,7 @@ import type { TranscriptEntry } from './types'
 type PlanningItem = {
     id: string
     type: PlanningItemType
+    customType?: string
     text: string
     timestamp: string
     order?: number
@@ -16,6 +17,7 @@ type HuddleData = {
     createdAt: string
     endedAt?: string
     planningItems: PlanningItem[]
+    customItemTypes?: Array<{ key: string; label: string }>
     transcriptChunks?: Array<{
         id: string
         payload: string
@@ -44,6 +46,7 @@ export function generateHuddleReportMarkdown(huddle: HuddleData, transcriptEntri
         outcome: [],
         decision: [],
         summary: [],
+        custom: [],
     }
 
     for (const item of huddle.planningItems) {
@@ -121,6 +124,19 @@ export function generateHuddleReportMarkdown(huddle: HuddleData, transcriptEntri
         }
     }
 
+    // Custom item types, in the order the huddle defines them
+    for (const customType of huddle.customItemTypes ?? []) {
+        const items = groupedItems.custom.filter((item) => item.customType === customType.key)
+        if (items.length > 0) {
+            lines.push(`## ${customType.label}`)
+            lines.push('')
+            for (const item of items) {
+                lines.push(`- ${item.text}`)
+            }
+            lines.push('')
+        }
+    }
+
     // Transcript
     if (transcriptEntries.length > 0) {
         lines.push('## Transcript')
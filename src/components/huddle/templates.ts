@@ -0,0 +1,143 @@
+import type { PlanningItemType } from '~/types'
+import type { CustomItemType } from './types'
+
+export type HuddleTemplateDefinition = {
+    key: string
+    name: string
+    description?: string
+    columnLabels?: Partial<Record<PlanningItemType, string>>
+    emptyMessages?: Partial<Record<PlanningItemType, string>>
+    promptInstructions?: string
+    agenda?: string[]
+    customItemTypes?: CustomItemType[]
+    items: Array<{ type: PlanningItemType; customType?: string; text: string }>
+}
+
+export const BLANK_TEMPLATE_KEY = 'blank'
+
+export const BUILT_IN_HUDDLE_TEMPLATES: HuddleTemplateDefinition[] = [
+    {
+        key: 'retro',
+        name: 'Retrospective',
+        description: 'Look back on the last iteration and agree on improvements.',
+        columnLabels: {
+            task: 'Action items',
+            outcome: 'Focus for next sprint',
+        },
+        emptyMessages: {
+            task: 'Improvements the team commits to will land here.',
+            outcome: 'Agree on one thing to get better at.',
+        },
+        promptInstructions:
+            'This huddle is a sprint retrospective. Record things that went well as went_well items, problems and frustrations as didnt_go_well items, and agreed improvements as tasks. Keep each item short and blameless.',
+        agenda: [
+            'Set the stage and review last retro actions',
+            'What went well',
+            'What did not go well',
+            'Agree on action items',
+        ],
+        customItemTypes: [
+            {
+                key: 'went_well',
+                label: 'What went well',
+                color: 'emerald',
+                icon: 'thumbs-up',
+                hint: 'Things that worked well this sprint.',
+            },
+            {
+                key: 'didnt_go_well',
+                label: 'What did not go well',
+                color: 'rose',
+                icon: 'thumbs-down',
+                hint: 'Problems and frustrations that slowed the team down.',
+            },
+        ],
+        items: [{ type: 'outcome', text: 'Leave with one or two improvements the team owns.' }],
+    },
+    {
+        key: 'sprint-planning',
+        name: 'Sprint planning',
+        description: 'Pick the sprint goal and break the work into tasks.',
+        columnLabels: {
+            idea: 'Candidates',
+            task: 'Sprint backlog',
+            outcome: 'Sprint goal',
+        },
+        emptyMessages: {
+            idea: 'Backlog items the team is considering.',
+            task: 'Committed work for this sprint will land here.',
+            outcome: 'State the sprint goal once the team agrees on it.',
+        },
+        promptInstructions:
+            'This huddle is sprint planning. Capture the sprint goal as an outcome, work the team commits to as tasks (with assignees and due dates when mentioned), and work that is discussed but not committed as ideas. Record capacity concerns as risks.',
+        agenda: [
+            'Review capacity and carry-over',
+            'Agree on the sprint goal',
+            'Select and size backlog items',
+            'Confirm owners and risks',
+        ],
+        items: [],
+    },
+    {
+        key: 'incident-review',
+        name: 'Incident review',
+        description: 'Reconstruct what happened and prevent it from happening again.',
+        columnLabels: {
+            idea: 'Timeline',
+            task: 'Follow-ups',
+            outcome: 'Impact',
+        },
+        emptyMessages: {
+            idea: 'Walk through the incident step by step.',
+            task: 'Remediation and prevention work will land here.',
+            outcome: 'Summarize who and what was affected.',
+            risk: 'Contributing factors will appear here.',
+        },
+        promptInstructions:
+            'This huddle is a blameless incident review. Record timeline events as ideas in the order they happened, contributing factors as risks, the customer and business impact as an outcome, and remediation work as tasks. Never attribute blame to individuals.',
+        agenda: [
+            'Summarize the impact',
+            'Walk through the timeline',
+            'Identify contributing factors',
+            'Agree on follow-ups and owners',
+        ],
+        items: [],
+    },
+    {
+        key: 'one-on-one',
+        name: '1:1',
+        description: 'A recurring conversation between a manager and a report.',
+        columnLabels: {
+            idea: 'Talking points',
+            task: 'Action items',
+            outcome: 'Growth goals',
+        },
+        emptyMessages: {
+            idea: 'Add topics either of you wants to cover.',
+            task: 'Commitments from this conversation will land here.',
+            outcome: 'Longer-term goals you are working toward.',
+        },
+        promptInstructions:
+            'This huddle is a 1:1 between two people. Record topics raised as ideas, commitments as tasks assigned to the person who made them, and career or growth goals as outcomes. Keep personal details out of item text.',
+        agenda: ['Check in', 'Talking points', 'Feedback both ways', 'Review action items'],
+        items: [],
+    },
+]
+
+// Convex records cannot hold undefined values
+function compactRecord(record?: Partial<Record<PlanningItemType, string>>) {
+    if (!record) return undefined
+    return Object.fromEntries(
+        Object.entries(record).filter(
+            (entry): entry is [string, string] => typeof entry[1] === 'string',
+        ),
+    )
+}
+
+export function toHuddleTemplateArgs(template: HuddleTemplateDefinition) {
+    return {
+        ...template,
+        columnLabels: compactRecord(template.columnLabels),
+        emptyMessages: compactRecord(template.emptyMessages),
+    }
+}
@@ -1,9 +1,12 @@
 import { useMicrophone } from '~/hooks/useMicrophone'
-import type { PlanningItemType } from '~/types'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import type { HuddleRole, PlanningItemType } from '~/types'
 
 export type TranscriptBadge = {
     id: string
     type: PlanningItemType
+    // Key of the huddle's custom item type for custom badges
+    customType?: string
     text: string
 }
 
@@ -14,6 +17,8 @@ export type TranscriptEntry = {
     speakerLabel: string
     speakerKey: string
     badges: TranscriptBadge[]
+    // True when the turn's AI actions can still be reverted
+    canRevert: boolean
 }
 
 export type SpeakerStyle = {
@@ -28,8 +33,10 @@ export type TranscriptMetadata = {
         itemId?: string
         itemKey?: string
         itemType?: PlanningItemType
+        itemCustomType?: string
         itemText?: string
     }>
+    revertedAt?: string
 }
 
 export type ParticipantListEntry = {
@@ -38,6 +45,7 @@ export type ParticipantListEntry = {
     displayName?: string | null
     avatarUrl?: string | null
     role?: string | null
+    huddleRole?: HuddleRole | null
 }
 
 export type OverallRecordingStatus = 'idle' | 'recording'
@@ -46,3 +54,6 @@ export type RecordingMode = 'pushToTalk' | 'autoPushToTalk' | 'realtimePrototype
 
 export type MicrophoneControls = ReturnType<typeof useMicrophone>
 
+export type BoardViewConfig = NonNullable<Doc<'views'>['config']>
+
+export type CustomItemType = NonNullable<Doc<'huddles'>['customItemTypes']>[number]
@@ -1,4 +1,5 @@
 import {
+    CUSTOM_ITEM_TYPE_STYLES,
     GOLDEN_ANGLE_DEGREES,
     PLANNING_TYPE_LABEL_MAP,
     TRANSCRIPT_BADGE_BASE_CLASSES,
@@ -8,17 +9,60 @@ import {
     TRANSCRIPT_BADGE_STYLE_BY_TYPE,
 } from './constants'
 import type {
+    BoardViewConfig,
+    CustomItemType,
     SpeakerStyle,
     TranscriptBadge,
     TranscriptMetadata,
 } from './types'
-import type { PlanningItemType } from '~/types'
+import {
+    PLANNING_ITEM_TYPES,
+    TASK_STATUSES,
+    type BoardViewSort,
+    type HuddleRole,
+    type PlanningItemType,
+    type TaskStatus,
+} from '~/types'
+import { TRANSIENT_VOICE_TURN_ERROR_MARKER } from '~/shared/huddle'
+
+export function findCustomItemType(
+    customItemTypes: CustomItemType[] | undefined,
+    key: string | undefined,
+) {
+    return key === undefined ? undefined : customItemTypes?.find((type) => type.key === key)
+}
+
+/**
+ * A snake_case key for a new custom item type, kept clear of built-in types and of the
+ * huddle's existing keys.
+ */
+export function createCustomItemTypeKey(label: string, existingKeys: ReadonlyArray<string>) {
+    const slug =
+        label
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '_')
+            .replace(/^_+|_+$/g, '')
+            .slice(0, 32) || 'type'
+    const base = /^[a-z]/.test(slug) && !PLANNING_ITEM_TYPES.includes(slug as PlanningItemType)
+        ? slug
+        : `type_${slug}`
+    let key = base
+    for (let suffix = 2; existingKeys.includes(key); suffix += 1) {
+        key = `${base}_${suffix}`
+    }
+    return key
+}
 
-export function getTranscriptBadgeLabel(type: PlanningItemType) {
-    return TRANSCRIPT_BADGE_LABEL_OVERRIDES[type] ?? PLANNING_TYPE_LABEL_MAP[type] ?? type
+export function getTranscriptBadgeLabel(type: PlanningItemType, customType?: CustomItemType) {
+    return (
+        customType?.label ?? TRANSCRIPT_BADGE_LABEL_OVERRIDES[type] ?? PLANNING_TYPE_LABEL_MAP[type] ?? type
+    )
 }
 
-export function getTranscriptBadgeClasses(type: PlanningItemType) {
+export function getTranscriptBadgeClasses(type: PlanningItemType, customType?: CustomItemType) {
+    if (customType) {
+        return CUSTOM_ITEM_TYPE_STYLES[customType.color].badge
+    }
     return TRANSCRIPT_BADGE_STYLE_BY_TYPE[type] ?? TRANSCRIPT_BADGE_FALLBACK_CLASSES
 }
 
@@ -83,6 +127,260 @@ export function createSpeakerStyle(baseHueSeed: number, offset: number): Speaker
     return { style: vars }
 }
 
+export function canRevertTranscriptTurn(metadata?: TranscriptMetadata): boolean {
+    if (!metadata || typeof metadata.revertedAt === 'string') {
+        return false
+    }
+    return Array.isArray(metadata.planningItemEvents) && metadata.planningItemEvents.length > 0
+}
+
+// Due dates are calendar dates (YYYY-MM-DD), so compare them against the local calendar day
+export function isTaskOverdue(
+    task: { status?: TaskStatus | null; dueDate?: string | null },
+    now: Date = new Date(),
+): boolean {
+    if (!task.dueDate || task.status === 'done' || task.status === 'cancelled') {
+        return false
+    }
+    const year = now.getFullYear()
+    const month = String(now.getMonth() + 1).padStart(2, '0')
+    const day = String(now.getDate()).padStart(2, '0')
+    return task.dueDate < `${year}-${month}-${day}`
+}
+
+export function generateHuddleSlug(timestamp: Date = new Date()) {
+    return `huddle-${timestamp.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+// Most voted first; ties keep their existing board order
+export function sortByVoteCount<T extends { id: string }>(
+    items: T[],
+    tallies: Record<string, number>,
+): T[] {
+    return items
+        .map((item, index) => ({ item, index }))
+        .sort((a, b) => (tallies[b.item.id] ?? 0) - (tallies[a.item.id] ?? 0) || a.index - b.index)
+        .map(({ item }) => item)
+}
+
+// Mirrors the server: unassigned participants are editors and observers are viewers until they join
+export function getParticipantHuddleRole(
+    participant: { userId: string; role?: string | null; huddleRole?: HuddleRole | null },
+    ownerUserId: string,
+): HuddleRole {
+    if (participant.userId === ownerUserId) {
+        return 'owner'
+    }
+    if ((participant.role ?? '').toLowerCase() === 'observer') {
+        return 'viewer'
+    }
+    return participant.huddleRole ?? 'editor'
+}
+
+/**
+ * The participant line of a huddle card, from the names and count stored on the huddle.
+ */
+export function formatParticipantPreview(names: string[], count: number) {
+    if (names.length === 0) {
+        return 'No participants yet'
+    }
+    const remaining = count - names.length
+    if (remaining <= 0) {
+        return names.join(', ')
+    }
+    return `${names.join(', ')} and ${remaining} more`
+}
+
+// Tags are the #hashtags written in an item's text
+export function extractItemTags(text: string) {
+    const tags = new Set<string>()
+    for (const match of text.matchAll(/(?:^|\s)#([\p{L}\p{N}_-]+)/gu)) {
+        tags.add(match[1].toLowerCase())
+    }
+    return [...tags]
+}
+
+type BoardViewItem = {
+    type: PlanningItemType
+    text: string
+    timestamp: string
+    speakerLabel?: string | null
+    assigneeUserIds?: string[] | null
+    blockedBy?: string[] | null
+    status?: TaskStatus | null
+    dueDate?: string | null
+}
+
+/**
+ * Keep the items matching every filter of a board view. Empty filter lists match everything.
+ */
+export function filterBoardItems<T extends BoardViewItem>(items: T[], config: BoardViewConfig): T[] {
+    const speakers = new Set(config.speakers?.map((speaker) => speaker.toLowerCase()))
+    const tags = new Set(config.tags)
+    return items.filter((item) => {
+        if (config.types?.length && !config.types.includes(item.type)) {
+            return false
+        }
+        if (speakers.size > 0 && !speakers.has((item.speakerLabel ?? '').toLowerCase())) {
+            return false
+        }
+        if (
+            config.assigneeUserIds?.length &&
+            !item.assigneeUserIds?.some((userId) => config.assigneeUserIds?.includes(userId))
+        ) {
+            return false
+        }
+        if (tags.size > 0 && !extractItemTags(item.text).some((tag) => tags.has(tag))) {
+            return false
+        }
+        if (config.blocked) {
+            const isBlocked = (item.blockedBy?.length ?? 0) > 0
+            if (isBlocked !== (config.blocked === 'blocked')) {
+                return false
+            }
+        }
+        return true
+    })
+}
+
+// 'manual' keeps the board order the items arrive in; undated tasks sort after dated ones
+export function sortBoardItems<T extends BoardViewItem>(items: T[], sortBy: BoardViewSort = 'manual'): T[] {
+    if (sortBy === 'manual') {
+        return items
+    }
+    return items
+        .map((item, index) => ({ item, index }))
+        .sort((a, b) => {
+            if (sortBy === 'dueDate') {
+                const dueA = a.item.dueDate ?? '\uffff'
+                const dueB = b.item.dueDate ?? '\uffff'
+                return dueA.localeCompare(dueB) || a.index - b.index
+            }
+            const byTime = a.item.timestamp.localeCompare(b.item.timestamp)
+            return (sortBy === 'newest' ? -byTime : byTime) || a.index - b.index
+        })
+        .map(({ item }) => item)
+}
+
+/**
+ * Split items into board columns by speaker, assignee or task status. Items with several
+ * assignees show in each of their columns; items missing the field land in the '' column, last.
+ */
+export function groupBoardItems<T extends BoardViewItem>(
+    items: T[],
+    groupBy: 'speaker' | 'assignee' | 'status',
+): Array<{ key: string; items: T[] }> {
+    const groups = new Map<string, T[]>()
+    const add = (key: string, item: T) => {
+        const group = groups.get(key)
+        if (group) {
+            group.push(item)
+        } else {
+            groups.set(key, [item])
+        }
+    }
+
+    for (const item of items) {
+        if (groupBy === 'speaker') {
+            add(item.speakerLabel?.trim() ?? '', item)
+        } else if (groupBy === 'assignee') {
+            const assignees = item.assigneeUserIds ?? []
+            if (assignees.length === 0) {
+                add('', item)
+            }
+            for (const userId of assignees) {
+                add(userId, item)
+            }
+        } else {
+            add(item.status ?? '', item)
+        }
+    }
+
+    const rank = (key: string) => {
+        if (key === '') return Number.POSITIVE_INFINITY
+        return groupBy === 'status' ? TASK_STATUSES.indexOf(key as TaskStatus) : 0
+    }
+    return [...groups.entries()]
+        .sort(([keyA], [keyB]) => rank(keyA) - rank(keyB) || keyA.localeCompare(keyB))
+        .map(([key, groupItems]) => ({ key, items: groupItems }))
+}
+
+type MentionCandidate = {
+    userId?: string | null
+    displayName?: string | null
+}
+
+function getMentionableNames(participants: Iterable<MentionCandidate>) {
+    const names: Array<{ userId: string; name: string }> = []
+    for (const participant of participants) {
+        const name = participant.displayName?.trim()
+        if (participant.userId && name) {
+            names.push({ userId: participant.userId, name })
+        }
+    }
+    // Longest names first so "@Sam Lee" wins over "@Sam"
+    return names.sort((a, b) => b.name.length - a.name.length)
+}
+
+function isMentionBoundary(char: string | undefined) {
+    return char === undefined || !/[\p{L}\p{N}_]/u.test(char)
+}
+
+/**
+ * Split comment text into plain text and `@Display Name` mentions of known participants.
+ */
+export function splitMentions(
+    body: string,
+    participants: Iterable<MentionCandidate>,
+): Array<{ text: string; userId?: string }> {
+    const names = getMentionableNames(participants)
+    const parts: Array<{ text: string; userId?: string }> = []
+    const lowerBody = body.toLowerCase()
+    let plainStart = 0
+    let index = 0
+
+    while (index < body.length) {
+        if (body[index] === '@' && isMentionBoundary(body[index - 1])) {
+            const match = names.find(({ name }) => {
+                const end = index + 1 + name.length
+                return (
+                    lowerBody.startsWith(name.toLowerCase(), index + 1) &&
+                    isMentionBoundary(body[end])
+                )
+            })
+            if (match) {
+                if (index > plainStart) {
+                    parts.push({ text: body.slice(plainStart, index) })
+                }
+                const end = index + 1 + match.name.length
+                parts.push({ text: body.slice(index, end), userId: match.userId })
+                index = end
+                plainStart = end
+                continue
+            }
+        }
+        index += 1
+    }
+
+    if (plainStart < body.length) {
+        parts.push({ text: body.slice(plainStart) })
+    }
+    return parts
+}
+
+export function extractMentionedUserIds(
+    body: string,
+    participants: Iterable<MentionCandidate>,
+): string[] {
+    const userIds = new Set<string>()
+    for (const part of splitMentions(body, participants)) {
+        if (part.userId) {
+            userIds.add(part.userId)
+        }
+    }
+    return Array.from(userIds)
+}
+
 export function extractBadgesFromMetadata(metadata?: TranscriptMetadata): TranscriptBadge[] {
     if (!metadata || !Array.isArray(metadata.planningItemEvents)) {
         return []
@@ -122,6 +420,7 @@ export function extractBadgesFromMetadata(metadata?: TranscriptMetadata): Transc
         badges.push({
             id,
             type: normalizedType,
+            customType: typeof rawEvent.itemCustomType === 'string' ? rawEvent.itemCustomType : undefined,
             text,
         })
     }
@@ -135,3 +434,43 @@ export function normalizeAudioBlob(blob: Blob) {
     const extension = cleanType.split('/').pop() ?? 'webm'
     return new File([blob], `voice-${Date.now()}.${extension}`, { type: cleanType })
 }
+
+/**
+ * Run `attempt` until it succeeds, waiting each of `delaysMs` before the next try. Errors
+ * `shouldRetry` rejects are thrown straight away. Only for calls that are safe to repeat,
+ * such as a voice turn keyed by its requestId.
+ */
+export async function retryWithDelays<T>(
+    attempt: (attemptIndex: number) => Promise<T>,
+    delaysMs: ReadonlyArray<number>,
+    {
+        shouldRetry = () => true,
+        onRetry,
+    }: {
+        shouldRetry?: (error: unknown) => boolean
+        onRetry?: (error: unknown, attemptIndex: number) => void
+    } = {},
+): Promise<T> {
+    for (let attemptIndex = 0; ; attemptIndex += 1) {
+        try {
+            return await attempt(attemptIndex)
+        } catch (error) {
+            if (attemptIndex >= delaysMs.length || !shouldRetry(error)) {
+                throw error
+            }
+            onRetry?.(error, attemptIndex)
+            await new Promise((resolve) => setTimeout(resolve, delaysMs[attemptIndex]))
+        }
+    }
+}
+
+/**
+ * Whether a failed voice turn may succeed when sent again: the upload itself failed to reach
+ * the server, or the server marked the failure as transient.
+ */
+export function isTransientVoiceTurnError(error: unknown) {
+    if (error instanceof TypeError) {
+        return true
+    }
+    return error instanceof Error && error.message.includes(TRANSIENT_VOICE_TURN_ERROR_MARKER)
+}
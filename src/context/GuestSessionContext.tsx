@@ -0,0 +1,146 @@
+import * as React from 'react'
+import { useConvexAuth } from 'convex/react'
+import { useConvexMutation } from '@convex-dev/react-query'
+import { api } from '../../convex/_generated/api'
+import { useUserProfile } from './UserProfileContext'
+
+const STORAGE_KEY = 'huddle:guest-session'
+
+type StoredGuestSession = {
+  guestId: string
+  token: string
+}
+
+type GuestSessionContextValue = {
+  // Signed token proving ownership of the guest clientId; undefined for signed-in users
+  guestToken: string | undefined
+  isReady: boolean
+}
+
+const GuestSessionContext = React.createContext<GuestSessionContextValue | null>(
+  null,
+)
+
+function readStoredSession(): StoredGuestSession | null {
+  if (typeof window === 'undefined') {
+    return null
+  }
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) {
+      return null
+    }
+    const parsed = JSON.parse(raw) as Partial<StoredGuestSession>
+    if (typeof parsed?.guestId !== 'string' || typeof parsed.token !== 'string') {
+      return null
+    }
+    return { guestId: parsed.guestId, token: parsed.token }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The stored session token for a guest clientId, if this browser claimed it.
+ * Signed-in users pass it along so their guest data can be migrated to their account.
+ */
+export function readStoredGuestToken(guestId: string | undefined) {
+  const stored = readStoredSession()
+  return stored && stored.guestId === guestId ? stored.token : undefined
+}
+
+function storeSession(session: StoredGuestSession) {
+  if (typeof window === 'undefined') {
+    return
+  }
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session))
+  } catch (error) {
+    console.warn('Failed to persist guest session', error)
+  }
+}
+
+/**
+ * Claims a signed guest session for the guest clientId so Convex mutations can
+ * verify who is calling. Signed-in users are identified by Clerk instead.
+ * Must be mounted inside UserProfileProvider.
+ */
+export function GuestSessionProvider({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const { isAuthenticated, isLoading: isAuthLoading } = useConvexAuth()
+  const { profile, isReady: isProfileReady, rotateGuestClientId } = useUserProfile()
+  const claimGuestSession = useConvexMutation(api.sessions.claimGuestSession)
+  const [session, setSession] = React.useState<StoredGuestSession | null>(null)
+  const claimingGuestIdRef = React.useRef<string | null>(null)
+
+  const guestId = profile.clientId
+
+  React.useEffect(() => {
+    if (isAuthLoading || isAuthenticated || !isProfileReady || !guestId) {
+      return
+    }
+
+    const stored = readStoredSession()
+    if (stored && stored.guestId === guestId) {
+      setSession(stored)
+      return
+    }
+
+    if (claimingGuestIdRef.current === guestId) {
+      return
+    }
+    claimingGuestIdRef.current = guestId
+
+    claimGuestSession({ guestId })
+      .then((claimed) => {
+        storeSession(claimed)
+        setSession(claimed)
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : String(error)
+        if (message.includes('already been claimed') || message.includes('Invalid guest ID')) {
+          // The clientId already has a session that this browser lost the token for, or
+          // it is referenced by huddle data and cannot be proven to be ours - switch to a
+          // fresh clientId so a new session can be issued.
+          console.warn('Guest ID cannot be claimed, rotating guest ID', error)
+          rotateGuestClientId()
+          return
+        }
+        console.error('Failed to claim guest session:', error)
+        claimingGuestIdRef.current = null
+      })
+  }, [
+    isAuthLoading,
+    isAuthenticated,
+    isProfileReady,
+    guestId,
+    claimGuestSession,
+    rotateGuestClientId,
+  ])
+
+  const value = React.useMemo<GuestSessionContextValue>(() => {
+    if (isAuthenticated) {
+      return { guestToken: undefined, isReady: !isAuthLoading }
+    }
+    const guestToken =
+      session && session.guestId === guestId ? session.token : undefined
+    return { guestToken, isReady: guestToken !== undefined }
+  }, [isAuthenticated, isAuthLoading, session, guestId])
+
+  return (
+    <GuestSessionContext.Provider value={value}>
+      {children}
+    </GuestSessionContext.Provider>
+  )
+}
+
+export function useGuestSession() {
+  const context = React.useContext(GuestSessionContext)
+  if (!context) {
+    throw new Error('useGuestSession must be used within GuestSessionProvider')
+  }
+  return context
+}
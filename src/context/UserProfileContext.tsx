@@ -27,6 +27,8 @@ type UserProfileContextValue = {
   setName: (name: string) => void
   setAvatar: (avatar: UserAvatar | null) => void
   reset: () => void
+  // Replace the guest clientId (keeping name/avatar) when it cannot be claimed as a guest session
+  rotateGuestClientId: () => void
   isComplete: boolean
   isReady: boolean
 }
@@ -409,6 +411,17 @@ export function UserProfileProvider({
     }
   }, [setProfile])
 
+  const rotateGuestClientId = React.useCallback(() => {
+    if (isAuthenticated) {
+      return
+    }
+    setProfile((prev) => ({
+      ...prev,
+      clientId: generateClientId(),
+      lastUpdated: new Date().toISOString(),
+    }))
+  }, [isAuthenticated, setProfile])
+
   // Only recreate context value when profile values actually change
   // Determine readiness:
   // - Authenticated users: ready when auth settled and convex user query fetched
@@ -426,10 +439,11 @@ export function UserProfileProvider({
       setName,
       setAvatar,
       reset,
+      rotateGuestClientId,
       isComplete: profile.name.trim().length > 0,
       isReady,
     }),
-    [profile, reset, setAvatar, setName, isReady],
+    [profile, reset, rotateGuestClientId, setAvatar, setName, isReady],
   )
 
   return (
@@ -0,0 +1,87 @@
+import * as React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import type { Id } from '../../convex/_generated/dataModel'
+import { workspaceQueries } from '~/queries'
+import { useGuestSession } from './GuestSessionContext'
+
+const WORKSPACE_STORAGE_KEY = 'huddle:workspace-id'
+
+type WorkspaceRole = 'owner' | 'admin' | 'member'
+
+type WorkspaceSummary = {
+  _id: Id<'workspaces'>
+  name: string
+  role: WorkspaceRole
+  transcriptRetentionDays: number | null
+}
+
+interface WorkspaceContextValue {
+  // null is the personal space: huddles that do not belong to any workspace
+  workspaceId: Id<'workspaces'> | null
+  workspace: WorkspaceSummary | null
+  workspaces: WorkspaceSummary[]
+  setWorkspaceId: (workspaceId: Id<'workspaces'> | null) => void
+}
+
+const WorkspaceContext = React.createContext<WorkspaceContextValue | undefined>(undefined)
+
+function getStoredWorkspaceId() {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem(WORKSPACE_STORAGE_KEY)
+}
+
+function setStoredWorkspaceId(workspaceId: string | null) {
+  if (typeof window === 'undefined') return
+  if (workspaceId) {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId)
+  } else {
+    localStorage.removeItem(WORKSPACE_STORAGE_KEY)
+  }
+}
+
+/**
+ * Tracks the workspace the user is working in. Must be mounted inside GuestSessionProvider.
+ */
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { guestToken, isReady: isGuestSessionReady } = useGuestSession()
+  // Read after mount so the server render and hydration agree
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    setSelectedWorkspaceId(getStoredWorkspaceId())
+  }, [])
+
+  const workspacesQuery = useQuery({
+    ...workspaceQueries.mine(guestToken),
+    enabled: isGuestSessionReady,
+  })
+  const workspaces = React.useMemo(() => workspacesQuery.data ?? [], [workspacesQuery.data])
+
+  // A selection the user no longer belongs to falls back to the personal space
+  const workspace = workspaces.find((candidate) => candidate._id === selectedWorkspaceId) ?? null
+
+  const setWorkspaceId = React.useCallback((workspaceId: Id<'workspaces'> | null) => {
+    setSelectedWorkspaceId(workspaceId)
+    setStoredWorkspaceId(workspaceId)
+  }, [])
+
+  const value = React.useMemo(
+    () => ({
+      workspaceId: workspace?._id ?? null,
+      workspace,
+      workspaces,
+      setWorkspaceId,
+    }),
+    [workspace, workspaces, setWorkspaceId],
+  )
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>
+}
+
+export function useWorkspace() {
+  const context = React.useContext(WorkspaceContext)
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider')
+  }
+  return context
+}
@@ -14,13 +14,24 @@ export const planningItemSchema = z.object({
     'outcome',
     'decision',
     'summary',
+    'custom',
   ]),
   text: z.string(),
   timestamp: z.string(),
   speakerId: z.string().optional(),
   speakerLabel: z.string().optional(),
+  // Key of one of the huddle's custom item types when type is 'custom'
+  customType: z.string().optional(),
   metadata: z.unknown().optional(),
   order: z.number().optional(),
+  status: z.enum(['todo', 'in_progress', 'done', 'cancelled']).optional(),
+  dueDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Due date must be YYYY-MM-DD')
+    .optional(),
+  completedAt: z.string().optional(),
+  // participants.userId of the people responsible for a task
+  assigneeUserIds: z.array(z.string().min(1)).optional(),
 })
 
 export const createPlanningItemSchema = z.object({
@@ -30,8 +41,12 @@ export const createPlanningItemSchema = z.object({
   timestamp: planningItemSchema.shape.timestamp,
   speakerId: planningItemSchema.shape.speakerId,
   speakerLabel: planningItemSchema.shape.speakerLabel,
+  customType: planningItemSchema.shape.customType,
   metadata: planningItemSchema.shape.metadata,
   order: planningItemSchema.shape.order,
+  status: planningItemSchema.shape.status,
+  dueDate: planningItemSchema.shape.dueDate,
+  assigneeUserIds: planningItemSchema.shape.assigneeUserIds,
 })
 
 export const deletePlanningItemSchema = z.object({
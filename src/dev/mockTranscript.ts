@@ -19,10 +19,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'idea_goal_alignment',
         type: 'idea',
+        customType: null,
         text: 'Clarify the onboarding sprint goal with the team.',
         speakerLabel: null,
         blockedByKeys: null,
         needsResearch: false,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -36,10 +40,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'outcome_beta_ready',
         type: 'outcome',
+        customType: null,
         text: 'Guided onboarding experience ready for beta testers by Friday.',
         speakerLabel: null,
         blockedByKeys: null,
         needsResearch: null,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -53,10 +61,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'idea_contextual_tips',
         type: 'idea',
+        customType: null,
         text: 'Embed contextual tips on each onboarding screen.',
         speakerLabel: null,
         blockedByKeys: null,
         needsResearch: false,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -70,10 +82,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'idea_quickstart_checklist',
         type: 'idea',
+        customType: null,
         text: 'Provide a quickstart checklist after signup.',
         speakerLabel: null,
         blockedByKeys: null,
         needsResearch: false,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -87,10 +103,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'task_audit_flow',
         type: 'task',
+        customType: null,
         text: 'Audit current onboarding screens for gaps.',
         speakerLabel: null,
         blockedByKeys: null,
         needsResearch: null,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -104,10 +124,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'task_write_tip_copy',
         type: 'task',
+        customType: null,
         text: 'Draft contextual tip copy for the onboarding screens.',
         speakerLabel: null,
         blockedByKeys: ['task_audit_flow'],
         needsResearch: null,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -121,10 +145,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'task_prototype_checklist',
         type: 'task',
+        customType: null,
         text: 'Prototype the quickstart checklist experience.',
         speakerLabel: null,
         blockedByKeys: ['task_write_tip_copy'],
         needsResearch: null,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -138,10 +166,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'task_instrument_analytics',
         type: 'task',
+        customType: null,
         text: 'Hook up analytics to track onboarding completion.',
         speakerLabel: null,
         blockedByKeys: ['task_prototype_checklist'],
         needsResearch: null,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -155,10 +187,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'decision_mixpanel',
         type: 'decision',
+        customType: null,
         text: 'Use Mixpanel events to measure onboarding flow engagement.',
         speakerLabel: null,
         blockedByKeys: null,
         needsResearch: null,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -172,10 +208,14 @@ export const DEV_TRANSCRIPT_CHUNKS: Array<DevTranscriptChunk> = [
         kind: 'createItem',
         itemKey: 'summary_review',
         type: 'summary',
+        customType: null,
         text: 'Review onboarding sprint progress in Thursday standup.',
         speakerLabel: null,
         blockedByKeys: null,
         needsResearch: null,
+        status: null,
+        dueDate: null,
+        assigneeUserIds: null,
       },
     ],
   },
@@ -1,10 +1,28 @@
 import { z } from 'zod'
-import { PLANNING_ITEM_TYPES } from '~/types'
+import { PLANNING_ITEM_TYPES, TASK_STATUSES } from '~/types'
 
 export const zPlanningItemType = z.enum(PLANNING_ITEM_TYPES, {
   message: 'type is required',
 })
 
+export const zTaskStatus = z.enum(TASK_STATUSES)
+
+const zNullableTaskStatus = zTaskStatus
+  .nullable()
+  .describe('Task status. Only for task items; null for other types or when not mentioned.')
+
+const zNullableDueDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .nullable()
+  .describe('Task due date as YYYY-MM-DD, resolved against the current date. Only for task items; null otherwise.')
+
+const zNullableAssigneeUserIds = z
+  .array(z.string().min(1))
+  .min(1)
+  .nullable()
+  .describe('userIds of the huddle participants who own this task. Only for task items; null otherwise.')
+
 const zNullableNonEmptyString = z
   .string()
   .min(1)
@@ -17,6 +35,11 @@ export const zDevSimulationCreateAction = z.object({
     .string()
     .min(1, 'itemKey must reference the deterministic key for the item'),
   type: zPlanningItemType,
+  customType: z
+    .string()
+    .min(1)
+    .nullable()
+    .describe('Key of the huddle custom item type when type is "custom"; null otherwise.'),
   text: z.string().min(1, 'text is required'),
   speakerLabel: zNullableNonEmptyString,
   blockedByKeys: z
@@ -28,6 +51,9 @@ export const zDevSimulationCreateAction = z.object({
     .boolean()
     .nullable()
     .describe('For idea items: set to true if the user explicitly requests research or information lookup (e.g., "look up", "research", "find out about"), otherwise set to false. For all other item types, use null. Always provide a boolean value (true or false) for ideas, never omit this field.'),
+  status: zNullableTaskStatus,
+  dueDate: zNullableDueDate,
+  assigneeUserIds: zNullableAssigneeUserIds,
 })
 
 const zDevSimulationUpdatePatch = z
@@ -38,12 +64,18 @@ const zDevSimulationUpdatePatch = z
       .min(1)
       .nullable()
       .describe('List of item keys this item depends on; null when unchanged.'),
+    status: zNullableTaskStatus,
+    dueDate: zNullableDueDate,
+    assigneeUserIds: zNullableAssigneeUserIds,
   })
   .superRefine((patch, ctx) => {
     const hasText = patch.text !== null
     const hasBlockedBy = patch.blockedByKeys !== null
+    const hasStatus = patch.status !== null
+    const hasDueDate = patch.dueDate !== null
+    const hasAssignees = patch.assigneeUserIds !== null
 
-    if (!hasText && !hasBlockedBy) {
+    if (!hasText && !hasBlockedBy && !hasStatus && !hasDueDate && !hasAssignees) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message:
@@ -0,0 +1,21 @@
+import { useCallback } from 'react'
+import { useAuth } from '@clerk/clerk-react'
+import { useGuestSession } from '../context/GuestSessionContext'
+
+export type CallerCredentials = {
+  authToken?: string
+  guestToken?: string
+}
+
+/**
+ * Returns a function that collects what server functions need to call Convex as the current user:
+ * a Clerk token for signed-in users, or the guest session token.
+ */
+export function useCallerCredentials() {
+  const { getToken } = useAuth()
+  const { guestToken } = useGuestSession()
+  return useCallback(async (): Promise<CallerCredentials> => {
+    const authToken = await getToken({ template: 'convex' })
+    return { authToken: authToken ?? undefined, guestToken }
+  }, [getToken, guestToken])
+}
@@ -6,6 +6,7 @@ import { useConvexMutation } from '@convex-dev/react-query'
 import { api } from '../../convex/_generated/api'
 import type { Id } from '../../convex/_generated/dataModel'
 import { useUserProfile } from '../context/UserProfileContext'
+import { readStoredGuestToken } from '../context/GuestSessionContext'
 
 /**
  * Hook to automatically store/update the current user in Convex after Clerk authentication.
@@ -58,7 +59,7 @@ export function useStoreUser() {
 
     // Store the user in the database.
     // The storeUser mutation gets the user information via ctx.auth.getUserIdentity()
-    // on the server. We also pass the guest clientId to migrate their data.
+    // on the server. We also pass the guest session token to migrate their data.
     async function createUser() {
       try {
         // Only migrate guest data if:
@@ -97,8 +98,11 @@ export function useStoreUser() {
           (email: any) => email.id === primaryEmailAddressId
         )?.emailAddress || clerkUser?.emailAddresses?.[0]?.emailAddress || undefined
         
+        // The server only migrates guest data for the holder of the guest's signed session
+        const guestToken = shouldMigrate ? readStoredGuestToken(guestClientId) : undefined
+
         const id = await storeUserMutation.mutateAsync({ 
-          guestClientId: shouldMigrate ? guestClientId : undefined,
+          guestToken,
           guestName: guestName || undefined,
           guestAvatarUrl: guestAvatarUrl || undefined,
           clerkEmail: primaryEmail, // Pass email as fallback if identity.email is not available
@@ -1,7 +1,26 @@
+import { useCallback } from 'react'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
+import type { FunctionArgs, FunctionReference, OptionalRestArgs } from 'convex/server'
 import { api } from '../convex/_generated/api'
 import type { Id } from '../convex/_generated/dataModel'
+import { useGuestSession } from './context/GuestSessionContext'
+
+type CallerMutation = FunctionReference<'mutation', 'public', { guestToken?: string }>
+
+/**
+ * Wraps a Convex mutation that identifies its caller, attaching the guest
+ * session token (if any) so callers never pass user IDs themselves.
+ */
+function useCallerMutationFn<Mutation extends CallerMutation>(mutation: Mutation) {
+  const mutationFn = useConvexMutation(mutation)
+  const { guestToken } = useGuestSession()
+  return useCallback(
+    (args: Omit<FunctionArgs<Mutation>, 'guestToken'>) =>
+      mutationFn(...([{ ...args, guestToken }] as OptionalRestArgs<Mutation>)),
+    [mutationFn, guestToken],
+  )
+}
 
 export const userQueries = {
   current: () => convexQuery(api.users.current, {}),
@@ -11,31 +30,106 @@ export const userQueries = {
 }
 
 export const huddleQueries = {
-  list: () => convexQuery(api.huddle.listHuddles, {}),
-  detail: (slug: string) => convexQuery(api.huddle.getHuddle, { slug }),
-  transcript: (huddleId: Id<'huddles'>) =>
-    convexQuery(api.huddle.listTranscriptChunks, { huddleId }),
-  researchResult: (planningItemId: Id<'planningItems'>) =>
-    convexQuery(api.huddle.getResearchResult, { planningItemId }),
+  series: (seriesId: Id<'huddleSeries'>, guestToken?: string) =>
+    convexQuery(api.huddle.getHuddleSeries, { seriesId, guestToken }),
+  templates: (guestToken?: string) =>
+    convexQuery(api.huddle.listHuddleTemplates, { guestToken }),
+  detail: (slug: string, guestToken?: string) =>
+    convexQuery(api.huddle.getHuddle, { slug, guestToken }),
+  transcript: (huddleId: Id<'huddles'>, guestToken?: string) =>
+    convexQuery(api.huddle.listTranscriptChunks, { huddleId, guestToken }),
+  researchResult: (planningItemId: Id<'planningItems'>, guestToken?: string) =>
+    convexQuery(api.huddle.getResearchResult, { planningItemId, guestToken }),
+  researchResults: (huddleId: Id<'huddles'>, guestToken?: string) =>
+    convexQuery(api.huddle.getAllResearchResults, { huddleId, guestToken }),
+  revisions: (planningItemId: Id<'planningItems'>, guestToken?: string) =>
+    convexQuery(api.huddle.listPlanningItemRevisions, { planningItemId, guestToken }),
+  pendingActions: (huddleId: Id<'huddles'>, guestToken?: string) =>
+    convexQuery(api.huddle.listPendingActions, { huddleId, guestToken }),
+  comments: (planningItemId: Id<'planningItems'>, guestToken?: string) =>
+    convexQuery(api.huddle.listPlanningItemComments, { planningItemId, guestToken }),
+  commentCounts: (huddleId: Id<'huddles'>, guestToken?: string) =>
+    convexQuery(api.huddle.listPlanningItemCommentCounts, { huddleId, guestToken }),
+  votingRound: (huddleId: Id<'huddles'>, guestToken?: string) =>
+    convexQuery(api.huddle.getVotingRound, { huddleId, guestToken }),
+  access: (huddleId: Id<'huddles'>, guestToken?: string) =>
+    convexQuery(api.huddle.getHuddleAccess, { huddleId, guestToken }),
+  views: (huddleId: Id<'huddles'>, guestToken?: string) =>
+    convexQuery(api.huddle.listViews, { huddleId, guestToken }),
+  bundle: (huddleId: Id<'huddles'>, guestToken?: string) =>
+    convexQuery(api.huddle.exportHuddleBundle, { huddleId, guestToken }),
+  retention: (huddleId: Id<'huddles'>, retentionDays: number | null | undefined, guestToken?: string) =>
+    convexQuery(api.retention.getHuddleRetention, { huddleId, retentionDays, guestToken }),
+}
+
+export type SearchHuddlesArgs = FunctionArgs<typeof api.search.searchHuddles>
+
+export const searchQueries = {
+  results: (args: SearchHuddlesArgs) => convexQuery(api.search.searchHuddles, args),
 }
 
 export function useCreateHuddleMutation() {
-  const mutationFn = useConvexMutation(api.huddle.createHuddle)
+  const mutationFn = useCallerMutationFn(api.huddle.createHuddle)
+  return useMutation({ mutationFn })
+}
+
+export function useImportHuddleBundleMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.importHuddleBundle)
+  return useMutation({ mutationFn })
+}
+
+export function useStartNextOccurrenceMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.startNextOccurrence)
+  return useMutation({ mutationFn })
+}
+
+export function useCloneHuddleMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.cloneHuddle)
+  return useMutation({ mutationFn })
+}
+
+export function useSaveHuddleAsTemplateMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.saveHuddleAsTemplate)
+  return useMutation({ mutationFn })
+}
+
+export function useDeleteHuddleTemplateMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.deleteHuddleTemplate)
   return useMutation({ mutationFn })
 }
 
 export function useAddParticipantMutation() {
-  const mutationFn = useConvexMutation(api.huddle.addParticipant)
+  const mutationFn = useCallerMutationFn(api.huddle.addParticipant)
   return useMutation({ mutationFn })
 }
 
 export function useRemoveParticipantMutation() {
-  const mutationFn = useConvexMutation(api.huddle.removeParticipant)
+  const mutationFn = useCallerMutationFn(api.huddle.removeParticipant)
   return useMutation({ mutationFn })
 }
 
 export function useAddObserverMutation() {
-  const mutationFn = useConvexMutation(api.huddle.addObserver)
+  const mutationFn = useCallerMutationFn(api.huddle.addObserver)
+  return useMutation({ mutationFn })
+}
+
+export function useSetCustomItemTypesMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.setCustomItemTypes)
+  return useMutation({ mutationFn })
+}
+
+export function useCreateViewMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.createView)
+  return useMutation({ mutationFn })
+}
+
+export function useUpdateViewMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.updateView)
+  return useMutation({ mutationFn })
+}
+
+export function useDeleteViewMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.deleteView)
   return useMutation({ mutationFn })
 }
 
@@ -45,54 +139,95 @@ export function useResetAllHuddlesMutation() {
 }
 
 export function useCreatePlanningItemMutation() {
-  const mutationFn = useConvexMutation(api.huddle.createPlanningItem)
+  const mutationFn = useCallerMutationFn(api.huddle.createPlanningItem)
   return useMutation({ mutationFn })
 }
 
 export function useUpdatePlanningItemMutation() {
-  const mutationFn = useConvexMutation(api.huddle.updatePlanningItem)
+  const mutationFn = useCallerMutationFn(api.huddle.updatePlanningItem)
   return useMutation({ mutationFn })
 }
 
 export function useDeletePlanningItemMutation() {
-  const mutationFn = useConvexMutation(api.huddle.deletePlanningItem)
+  const mutationFn = useCallerMutationFn(api.huddle.deletePlanningItem)
+  return useMutation({ mutationFn })
+}
+
+export function useMergePlanningItemsMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.mergePlanningItems)
+  return useMutation({ mutationFn })
+}
+
+export function useRestorePlanningItemRevisionMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.restorePlanningItemRevision)
+  return useMutation({ mutationFn })
+}
+
+export function useRevertTranscriptTurnMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.revertTranscriptTurn)
+  return useMutation({ mutationFn })
+}
+
+export function useAddPlanningItemCommentMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.addPlanningItemComment)
+  return useMutation({ mutationFn })
+}
+
+export function useUpdatePlanningItemCommentMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.updatePlanningItemComment)
+  return useMutation({ mutationFn })
+}
+
+export function useDeletePlanningItemCommentMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.deletePlanningItemComment)
+  return useMutation({ mutationFn })
+}
+
+export function useUpdatePendingActionMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.updatePendingAction)
+  return useMutation({ mutationFn })
+}
+
+export function useResolvePendingActionsMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.resolvePendingActions)
   return useMutation({ mutationFn })
 }
 
 export function useUpsertPresenceMutation() {
-  const mutationFn = useConvexMutation(api.huddle.upsertPresence)
+  const mutationFn = useCallerMutationFn(api.huddle.upsertPresence)
   return useMutation({ mutationFn })
 }
 
 export function useClearPresenceMutation() {
-  const mutationFn = useConvexMutation(api.huddle.clearPresence)
+  const mutationFn = useCallerMutationFn(api.huddle.clearPresence)
   return useMutation({ mutationFn })
 }
 
 export function useEndHuddleMutation() {
-  const mutationFn = useConvexMutation(api.huddle.endHuddle)
+  const mutationFn = useCallerMutationFn(api.huddle.endHuddle)
   return useMutation({ mutationFn })
 }
 
 export function useAutoEndHuddleMutation() {
-  const mutationFn = useConvexMutation(api.huddle.autoEndHuddle)
+  const mutationFn = useCallerMutationFn(api.huddle.autoEndHuddle)
   return useMutation({ mutationFn })
 }
 
 export function useStartHuddleMutation() {
-  const mutationFn = useConvexMutation(api.huddle.startHuddle)
+  const mutationFn = useCallerMutationFn(api.huddle.startHuddle)
   return useMutation({ mutationFn })
 }
 
 export function useUpdateHuddleNameMutation(slug: string) {
   const queryClient = useQueryClient()
-  const mutationFn = useConvexMutation(api.huddle.updateHuddleName)
+  const { guestToken } = useGuestSession()
+  const mutationFn = useCallerMutationFn(api.huddle.updateHuddleName)
   return useMutation({
     mutationFn,
     // Optimistic update: update the cache immediately before the mutation completes
     onMutate: async (variables) => {
-      // Construct the query key manually - Convex queries use ['convex', api.function, args]
-      const huddleQueryKey = ['convex', api.huddle.getHuddle, { slug }] as const
+      // The same query key the huddle page subscribes to
+      const huddleQueryKey = huddleQueries.detail(slug, guestToken).queryKey
       
       // Cancel outgoing refetches (so they don't overwrite our optimistic update)
       await queryClient.cancelQueries({ queryKey: huddleQueryKey })
@@ -119,40 +254,111 @@ export function useUpdateHuddleNameMutation(slug: string) {
     // If the mutation fails, roll back to the previous value
     onError: (err, variables, context) => {
       if (context?.previousHuddle) {
-        const huddleQueryKey = ['convex', api.huddle.getHuddle, { slug }] as const
+        const huddleQueryKey = huddleQueries.detail(slug, guestToken).queryKey
         queryClient.setQueryData(huddleQueryKey, context.previousHuddle)
       }
     },
     // Always refetch after error or success to ensure we have the latest data
     onSettled: () => {
-      const huddleQueryKey = ['convex', api.huddle.getHuddle, { slug }] as const
+      const huddleQueryKey = huddleQueries.detail(slug, guestToken).queryKey
       queryClient.invalidateQueries({ queryKey: huddleQueryKey })
     },
   })
 }
 
 export function useDeleteHuddleMutation() {
-  const mutationFn = useConvexMutation(api.huddle.deleteHuddle)
+  const mutationFn = useCallerMutationFn(api.huddle.deleteHuddle)
   return useMutation({ mutationFn })
 }
 
 export function useSetInviteOnlyMutation() {
-  const mutationFn = useConvexMutation(api.huddle.setInviteOnly)
+  const mutationFn = useCallerMutationFn(api.huddle.setInviteOnly)
+  return useMutation({ mutationFn })
+}
+
+export function useSetReviewModeMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.setReviewMode)
+  return useMutation({ mutationFn })
+}
+
+export function useSetHuddleRetentionMutation() {
+  const mutationFn = useCallerMutationFn(api.retention.setHuddleRetention)
+  return useMutation({ mutationFn })
+}
+
+export function useStartVotingRoundMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.startVotingRound)
+  return useMutation({ mutationFn })
+}
+
+export function useCastVoteMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.castVote)
+  return useMutation({ mutationFn })
+}
+
+export function useRemoveVoteMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.removeVote)
+  return useMutation({ mutationFn })
+}
+
+export function useCloseVotingRoundMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.closeVotingRound)
+  return useMutation({ mutationFn })
+}
+
+export function usePromoteTopIdeasMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.promoteTopIdeas)
   return useMutation({ mutationFn })
 }
 
 export function useSetPrivateMutation() {
-  const mutationFn = useConvexMutation(api.huddle.setPrivate)
+  const mutationFn = useCallerMutationFn(api.huddle.setPrivate)
   return useMutation({ mutationFn })
 }
 
 export function useInviteUserMutation() {
-  const mutationFn = useConvexMutation(api.huddle.inviteUser)
+  const mutationFn = useCallerMutationFn(api.huddle.inviteUser)
   return useMutation({ mutationFn })
 }
 
 export function useRemoveInviteMutation() {
-  const mutationFn = useConvexMutation(api.huddle.removeInvite)
+  const mutationFn = useCallerMutationFn(api.huddle.removeInvite)
+  return useMutation({ mutationFn })
+}
+
+export function useSetParticipantRoleMutation() {
+  const mutationFn = useCallerMutationFn(api.huddle.setParticipantRole)
+  return useMutation({ mutationFn })
+}
+
+export const workspaceQueries = {
+  mine: (guestToken?: string) => convexQuery(api.workspaces.listMyWorkspaces, { guestToken }),
+  members: (workspaceId: Id<'workspaces'>, guestToken?: string) =>
+    convexQuery(api.workspaces.listWorkspaceMembers, { workspaceId, guestToken }),
+}
+
+export function useCreateWorkspaceMutation() {
+  const mutationFn = useCallerMutationFn(api.workspaces.createWorkspace)
+  return useMutation({ mutationFn })
+}
+
+export function useAddWorkspaceMemberMutation() {
+  const mutationFn = useCallerMutationFn(api.workspaces.addWorkspaceMember)
+  return useMutation({ mutationFn })
+}
+
+export function useUpdateWorkspaceMemberRoleMutation() {
+  const mutationFn = useCallerMutationFn(api.workspaces.updateWorkspaceMemberRole)
+  return useMutation({ mutationFn })
+}
+
+export function useRemoveWorkspaceMemberMutation() {
+  const mutationFn = useCallerMutationFn(api.workspaces.removeWorkspaceMember)
+  return useMutation({ mutationFn })
+}
+
+export function useSetWorkspaceRetentionMutation() {
+  const mutationFn = useCallerMutationFn(api.retention.setWorkspaceRetention)
   return useMutation({ mutationFn })
 }
 
@@ -192,4 +398,4 @@ export function useDeleteOpenAIApiKeyMutation() {
 export function useSetOpenAIApiKeyEncryptedMutation() {
   const mutationFn = useConvexMutation(api.users.setOpenAIApiKeyEncrypted)
   return useMutation({ mutationFn })
-}
\ No newline at end of file
+}
@@ -9,15 +9,27 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as SearchRouteImport } from './routes/search'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as SeriesSeriesIdRouteImport } from './routes/series.$seriesId'
 import { Route as LinearCallbackRouteImport } from './routes/linear.callback'
 import { Route as HuddlesHuddleSlugRouteImport } from './routes/huddles.$huddleSlug'
 
+const SearchRoute = SearchRouteImport.update({
+  id: '/search',
+  path: '/search',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SeriesSeriesIdRoute = SeriesSeriesIdRouteImport.update({
+  id: '/series/$seriesId',
+  path: '/series/$seriesId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const LinearCallbackRoute = LinearCallbackRouteImport.update({
   id: '/linear/callback',
   path: '/linear/callback',
@@ -31,36 +43,67 @@ const HuddlesHuddleSlugRoute = HuddlesHuddleSlugRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/search': typeof SearchRoute
   '/huddles/$huddleSlug': typeof HuddlesHuddleSlugRoute
   '/linear/callback': typeof LinearCallbackRoute
+  '/series/$seriesId': typeof SeriesSeriesIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/search': typeof SearchRoute
   '/huddles/$huddleSlug': typeof HuddlesHuddleSlugRoute
   '/linear/callback': typeof LinearCallbackRoute
+  '/series/$seriesId': typeof SeriesSeriesIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/search': typeof SearchRoute
   '/huddles/$huddleSlug': typeof HuddlesHuddleSlugRoute
   '/linear/callback': typeof LinearCallbackRoute
+  '/series/$seriesId': typeof SeriesSeriesIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/huddles/$huddleSlug' | '/linear/callback'
+  fullPaths:
+    | '/'
+    | '/search'
+    | '/huddles/$huddleSlug'
+    | '/linear/callback'
+    | '/series/$seriesId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/huddles/$huddleSlug' | '/linear/callback'
-  id: '__root__' | '/' | '/huddles/$huddleSlug' | '/linear/callback'
+  to:
+    | '/'
+    | '/search'
+    | '/huddles/$huddleSlug'
+    | '/linear/callback'
+    | '/series/$seriesId'
+  id:
+    | '__root__'
+    | '/'
+    | '/search'
+    | '/huddles/$huddleSlug'
+    | '/linear/callback'
+    | '/series/$seriesId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  SearchRoute: typeof SearchRoute
   HuddlesHuddleSlugRoute: typeof HuddlesHuddleSlugRoute
   LinearCallbackRoute: typeof LinearCallbackRoute
+  SeriesSeriesIdRoute: typeof SeriesSeriesIdRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/search': {
+      id: '/search'
+      path: '/search'
+      fullPath: '/search'
+      preLoaderRoute: typeof SearchRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -68,6 +111,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/series/$seriesId': {
+      id: '/series/$seriesId'
+      path: '/series/$seriesId'
+      fullPath: '/series/$seriesId'
+      preLoaderRoute: typeof SeriesSeriesIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/linear/callback': {
       id: '/linear/callback'
       path: '/linear/callback'
@@ -87,8 +137,10 @@ declare module '@tanstack/react-router' {
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  SearchRoute: SearchRoute,
   HuddlesHuddleSlugRoute: HuddlesHuddleSlugRoute,
   LinearCallbackRoute: LinearCallbackRoute,
+  SeriesSeriesIdRoute: SeriesSeriesIdRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
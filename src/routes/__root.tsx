@@ -19,14 +19,17 @@ import appCss from '~/styles/app.css?url'
 import { seo } from '~/utils/seo'
 import { Loader } from '~/components/Loader'
 import { UserProfileProvider, useUserProfile } from '~/context/UserProfileContext'
+import { GuestSessionProvider } from '~/context/GuestSessionContext'
+import { WorkspaceProvider } from '~/context/WorkspaceContext'
 import { ThemeProvider, useTheme } from '~/context/ThemeContext'
 import { ThemeSelector } from '~/components/ThemeSelector'
+import { WorkspaceSwitcher } from '~/components/WorkspaceSwitcher'
 import { DarkModeToggle } from '~/components/DarkModeToggle'
 import { SubscriptionButton } from '~/components/SubscriptionButton'
 import { ClerkProvider, SignedIn, SignedOut, SignInButton, SignOutButton, UserButton, useAuth, useClerk } from '@clerk/clerk-react'
 import { ConvexProviderWithClerk } from 'convex/react-clerk'
 import { Button } from '~/components/ui/button'
-import { LogIn, UserPlus, LogOut } from 'lucide-react'
+import { LogIn, UserPlus, LogOut, Search } from 'lucide-react'
 import { useStoreUser } from '~/hooks/useStoreUser'
 import { getConvexQueryClient } from '~/router'
 import { AutumnProvider } from 'autumn-js/react'
@@ -140,7 +143,11 @@ function RootDocument({ children }: { children: React.ReactNode }) {
       <ConvexProviderWithClerk client={convexQueryClient.convexClient} useAuth={useAuth}>
         <AutumnProviderWrapper convexClient={convexQueryClient.convexClient}>
           <UserProfileProvider>
-            <RootDocumentContent>{children}</RootDocumentContent>
+            <GuestSessionProvider>
+              <WorkspaceProvider>
+                <RootDocumentContent>{children}</RootDocumentContent>
+              </WorkspaceProvider>
+            </GuestSessionProvider>
           </UserProfileProvider>
         </AutumnProviderWrapper>
       </ConvexProviderWithClerk>
@@ -238,6 +245,13 @@ function RootDocumentContent({ children }: { children: React.ReactNode }) {
                 </Link>
               </div>
               <div className="flex items-center gap-2 md:gap-3">
+                <Button asChild variant="ghost" size="sm" className="gap-2 px-2 md:px-3">
+                  <Link to="/search" aria-label="Search huddles">
+                    <Search className="h-4 w-4" />
+                    <span className="hidden md:inline">Search</span>
+                  </Link>
+                </Button>
+                <WorkspaceSwitcher />
                 <SubscriptionButton />
                 <SignedIn>
                   <OpenAIApiKeyButtonWrapper />
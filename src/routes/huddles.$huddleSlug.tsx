@@ -1,4 +1,4 @@
-import { createFileRoute, redirect } from '@tanstack/react-router'
+import { createFileRoute } from '@tanstack/react-router'
 import { z } from 'zod'
 import { Huddle } from '~/components/Huddle'
 import { Loader } from '~/components/Loader'
@@ -9,16 +9,16 @@ export const Route = createFileRoute('/huddles/$huddleSlug')({
   pendingComponent: () => <Loader />,
   validateSearch: z.object({
     itemId: z.string().optional(),
+    // A transcript turn to scroll to, e.g. from a search result
+    chunkId: z.string().optional(),
+    // A saved board view to open
+    viewId: z.string().optional(),
     shareKey: z.string().optional(),
   }),
+  // Only prefetches: workspace huddles are hidden until the page knows who is calling,
+  // and the page itself leaves for home when the huddle is missing
   loader: async ({ params, context: { queryClient } }) => {
-    const huddle = await queryClient.ensureQueryData(
-      huddleQueries.detail(params.huddleSlug),
-    )
-
-    if (!huddle) {
-      throw redirect({ to: '/' })
-    }
+    await queryClient.ensureQueryData(huddleQueries.detail(params.huddleSlug))
   },
 })
 
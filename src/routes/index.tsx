@@ -1,17 +1,21 @@
 import * as React from 'react'
-import { useQueryClient, useSuspenseQuery } from '@tanstack/react-query'
+import { useQueryClient } from '@tanstack/react-query'
 import { Link, createFileRoute, useRouter } from '@tanstack/react-router'
 import toast from 'react-hot-toast'
 import {
   huddleQueries,
   useAddParticipantMutation,
   useCreateHuddleMutation,
+  useDeleteHuddleTemplateMutation,
+  useImportHuddleBundleMutation,
   useResetAllHuddlesMutation,
   userQueries,
 } from '~/queries'
 import { Loader } from '~/components/Loader'
 import { UserProfileSetup } from '~/components/UserProfileSetup'
 import { useUserProfile } from '~/context/UserProfileContext'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { useWorkspace } from '~/context/WorkspaceContext'
 import { formatDate } from '~/utils/dates'
 import {
   AlertDialog,
@@ -33,10 +37,28 @@ import {
   CardTitle,
 } from '~/components/ui/card'
 import { Badge } from '~/components/ui/badge'
-import { ChevronRight, Lock } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  BLANK_TEMPLATE_KEY,
+  BUILT_IN_HUDDLE_TEMPLATES,
+  toHuddleTemplateArgs,
+  type HuddleTemplateDefinition,
+} from '~/components/huddle/templates'
+import { formatParticipantPreview, generateHuddleSlug } from '~/components/huddle/utils'
+import { ChevronRight, Lock, Trash2 } from 'lucide-react'
 import { PricingTable } from 'autumn-js/react'
 import { useQuery } from '@tanstack/react-query'
-import { useConvexAuth } from 'convex/react'
+import { useConvexAuth, usePaginatedQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
 
 const HOME_DEBUG_TAG = '[HomeRoute]'
 const isHomeDebugEnabled = import.meta.env.DEV
@@ -58,19 +80,51 @@ export const Route = createFileRoute('/')({
   pendingComponent: () => <Loader />,
 })
 
+const HUDDLE_PAGE_SIZE = 12
+const ANY_STATUS = 'any'
+
+const HUDDLE_LIST_FILTER_LABELS = {
+  all: 'All huddles',
+  created: 'Created by me',
+  participated: 'I participated',
+} as const
+
+type HuddleListFilter = keyof typeof HUDDLE_LIST_FILTER_LABELS
+type HuddleStatusFilter = 'active' | 'completed' | typeof ANY_STATUS
+
 type PendingAction =
   | { type: 'create' }
   | { type: 'navigate'; slug: string }
 
 function Home() {
-  const huddlesQuery = useSuspenseQuery(huddleQueries.list())
+  const { workspaceId, workspace } = useWorkspace()
+  const { isReady: isGuestSessionReady, guestToken } = useGuestSession()
+  const [listFilter, setListFilter] = React.useState<HuddleListFilter>('all')
+  const [statusFilter, setStatusFilter] = React.useState<HuddleStatusFilter>(ANY_STATUS)
+  const huddlesQuery = usePaginatedQuery(
+    api.huddle.listHuddles,
+    isGuestSessionReady
+      ? {
+          workspaceId: workspaceId ?? undefined,
+          filter: listFilter,
+          status: statusFilter === ANY_STATUS ? undefined : statusFilter,
+          guestToken,
+        }
+      : 'skip',
+    { initialNumItems: HUDDLE_PAGE_SIZE },
+  )
+  const huddles = huddlesQuery.results
   const createHuddle = useCreateHuddleMutation()
   const addParticipant = useAddParticipantMutation()
   const resetAllHuddles = useResetAllHuddlesMutation()
+  const importHuddleBundle = useImportHuddleBundleMutation()
+  const importInputRef = React.useRef<HTMLInputElement>(null)
   const router = useRouter()
   const queryClient = useQueryClient()
   const nameInputRef = React.useRef<HTMLInputElement>(null)
   const { profile, isComplete, setName } = useUserProfile()
+  const deleteHuddleTemplate = useDeleteHuddleTemplateMutation()
+  const [templateKey, setTemplateKey] = React.useState(BLANK_TEMPLATE_KEY)
   const [profileAlertOpen, setProfileAlertOpen] = React.useState(false)
   const [pendingAction, setPendingAction] = React.useState<PendingAction | null>(null)
   const [nameDialogValue, setNameDialogValue] = React.useState(profile.name)
@@ -85,6 +139,30 @@ function Home() {
     enabled: isAuthenticated, // Only query when authenticated
   })
   
+  const savedTemplatesQuery = useQuery({
+    ...huddleQueries.templates(guestToken),
+    enabled: isGuestSessionReady,
+  })
+  const savedTemplates = React.useMemo<HuddleTemplateDefinition[]>(
+    () =>
+      (savedTemplatesQuery.data ?? []).map((template) => ({
+        key: template._id,
+        name: template.name,
+        description: template.description,
+        columnLabels: template.columnLabels,
+        emptyMessages: template.emptyMessages,
+        promptInstructions: template.promptInstructions,
+        agenda: template.agenda,
+        customItemTypes: template.customItemTypes,
+        items: template.items,
+      })),
+    [savedTemplatesQuery.data],
+  )
+  const selectedTemplate = [...BUILT_IN_HUDDLE_TEMPLATES, ...savedTemplates].find(
+    (template) => template.key === templateKey,
+  )
+  const isSavedTemplateSelected = savedTemplates.some((template) => template.key === templateKey)
+
   const hasSubscription = subscriptionStatusQuery.data?.hasActiveSubscription ?? false
   const hasApiKey = hasApiKeyQuery.data ?? false
 
@@ -96,7 +174,7 @@ function Home() {
     profileAlertOpen,
     pendingActionType: pendingAction?.type ?? null,
     pendingActionSlug: pendingAction?.type === 'navigate' ? pendingAction.slug : null,
-    huddleCount: huddlesQuery.data.length,
+    huddleCount: huddles.length,
     createPending: createHuddle.isPending,
     addParticipantPending: addParticipant.isPending,
     resetPending: resetAllHuddles.isPending,
@@ -114,23 +192,21 @@ function Home() {
       }
 
       const timestamp = new Date()
-      const slug = `huddle-${timestamp.getTime().toString(36)}-${Math.random()
-        .toString(36)
-        .slice(2, 6)}`
-      const name = `New Huddle ${timestamp.toLocaleTimeString()}`
+      const slug = generateHuddleSlug(timestamp)
+      const name = `${selectedTemplate?.name ?? 'New Huddle'} ${timestamp.toLocaleTimeString()}`
 
       try {
         const huddleId = await createHuddle.mutateAsync({
           slug,
           name,
-          createdBy: profile.clientId,
           status: 'active',
           forceTimeLimited: isFree, // Force time-limited for free huddles
+          template: selectedTemplate ? toHuddleTemplateArgs(selectedTemplate) : undefined,
+          workspaceId: workspaceId ?? undefined,
         })
 
         await addParticipant.mutateAsync({
           huddleId,
-          userId: profile.clientId,
           displayName: profile.name.trim(),
           avatarUrl: profile.avatar?.url ?? undefined,
         })
@@ -148,11 +224,11 @@ function Home() {
         toast.error('Unable to create a new huddle.')
       }
     },
-    [addParticipant, createHuddle, profile, router],
+    [addParticipant, createHuddle, profile, router, selectedTemplate, workspaceId],
   )
 
   React.useEffect(() => {
-    if (!isComplete || !pendingAction) {
+    if (!isComplete || !isGuestSessionReady || !pendingAction) {
       return
     }
 
@@ -174,7 +250,7 @@ function Home() {
     return () => {
       cancelled = true
     }
-  }, [executeAction, isComplete, pendingAction])
+  }, [executeAction, isComplete, isGuestSessionReady, pendingAction])
 
   function handleCreateHuddleIntent() {
     homeDebugLog('handleCreateHuddleIntent')
@@ -186,6 +262,12 @@ function Home() {
       return
     }
 
+    if (!isGuestSessionReady) {
+      // Run once the guest session has been issued
+      setPendingAction({ type: 'create' })
+      return
+    }
+
     executeAction({ type: 'create' })
   }
   
@@ -201,9 +283,7 @@ function Home() {
     // Check if huddle is private and user is not owner
     if (huddle) {
       const isPrivate = huddle.isPrivate === true
-      const isOwner = huddle.createdBy === profile.clientId || 
-        (typeof profile.name === 'string' && profile.name.trim().length > 0 && 
-         huddle.createdBy === profile.name.trim())
+      const isOwner = huddle.createdBy === profile.clientId
       if (isPrivate && !isOwner) {
         toast.error('This huddle is private. You need a share link to access it.')
         return
@@ -248,6 +328,61 @@ function Home() {
     }
   }
 
+  async function handleImportBundle(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0]
+    // Clear the input so picking the same file again still triggers a change
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+    try {
+      const bundle = JSON.parse(await file.text())
+      if (bundle?.format !== 'huddle-bundle') {
+        toast.error('That file is not a huddle export.')
+        return
+      }
+      const { slug } = await importHuddleBundle.mutateAsync({
+        bundle,
+        slug: generateHuddleSlug(),
+        workspaceId: workspaceId ?? undefined,
+      })
+      toast.success(`Imported ${bundle.huddle.name}.`)
+      await router.navigate({
+        to: '/huddles/$huddleSlug',
+        params: { huddleSlug: slug },
+      })
+    } catch (error) {
+      console.error('Failed to import huddle', error)
+      toast.error(
+        error instanceof SyntaxError
+          ? 'That file is not valid JSON.'
+          : error instanceof Error
+            ? error.message
+            : 'Unable to import the huddle.',
+      )
+    }
+  }
+
+  async function handleDeleteSelectedTemplate() {
+    if (!isSavedTemplateSelected || !selectedTemplate) {
+      return
+    }
+    const confirmed = window.confirm(`Delete the "${selectedTemplate.name}" template?`)
+    if (!confirmed) {
+      return
+    }
+    try {
+      await deleteHuddleTemplate.mutateAsync({
+        id: selectedTemplate.key as Id<'huddleTemplates'>,
+      })
+      setTemplateKey(BLANK_TEMPLATE_KEY)
+      toast.success('Template deleted.')
+    } catch (error) {
+      console.error('Failed to delete template', error)
+      toast.error(error instanceof Error ? error.message : 'Unable to delete the template.')
+    }
+  }
+
   function handleAlertAction() {
     const trimmed = nameDialogValue.trim()
     if (!trimmed) {
@@ -278,19 +413,22 @@ function Home() {
 
   React.useEffect(() => {
     homeDebugLog('query data updated', {
-      huddleCount: huddlesQuery.data.length,
-      huddleNames: huddlesQuery.data.map((huddle) => huddle.name),
+      huddleCount: huddles.length,
+      huddleNames: huddles.map((huddle) => huddle.name),
     })
-  }, [huddlesQuery.data])
+  }, [huddles])
 
   return (
     <div className="p-8 space-y-4">
       <header className="flex items-center justify-between gap-4">
         <div>
-          <h1 className="text-2xl font-black">Huddles</h1>
+          <h1 className="text-2xl font-black">{workspace ? `${workspace.name} huddles` : 'Huddles'}</h1>
           <p className="text-sm">
             Launch a new planning session or jump back into an existing one.
           </p>
+          {selectedTemplate?.description ? (
+            <p className="text-sm text-muted-foreground">{selectedTemplate.description}</p>
+          ) : null}
         </div>
         <div className="flex items-center gap-2">
           {import.meta.env.DEV && (
@@ -304,6 +442,59 @@ function Home() {
               {resetAllHuddles.isPending ? 'Resetting…' : 'Reset All Huddles'}
             </Button>
           )}
+          <Select value={templateKey} onValueChange={setTemplateKey}>
+            <SelectTrigger className="w-48" aria-label="Huddle template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BLANK_TEMPLATE_KEY}>Blank huddle</SelectItem>
+              <SelectGroup>
+                <SelectLabel>Templates</SelectLabel>
+                {BUILT_IN_HUDDLE_TEMPLATES.map((template) => (
+                  <SelectItem key={template.key} value={template.key}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {savedTemplates.length > 0 ? (
+                <SelectGroup>
+                  <SelectLabel>Saved templates</SelectLabel>
+                  {savedTemplates.map((template) => (
+                    <SelectItem key={template.key} value={template.key}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ) : null}
+            </SelectContent>
+          </Select>
+          {isSavedTemplateSelected ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              aria-label="Delete template"
+              onClick={handleDeleteSelectedTemplate}
+              disabled={deleteHuddleTemplate.isPending}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          ) : null}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => void handleImportBundle(event)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => importInputRef.current?.click()}
+            disabled={importHuddleBundle.isPending}
+          >
+            {importHuddleBundle.isPending ? 'Importing…' : 'Import'}
+          </Button>
           <Button
             type="button"
             onClick={handleCreateHuddleIntent}
@@ -323,29 +514,52 @@ function Home() {
         </div>
       </div>
 
-      {huddlesQuery.data.length === 0 ? (
-        <p className="text-slate-500">No huddles yet. Create one to get started.</p>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={listFilter}
+          onValueChange={(value) => setListFilter(value as HuddleListFilter)}
+        >
+          <SelectTrigger className="w-44" aria-label="Show huddles">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(HUDDLE_LIST_FILTER_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as HuddleStatusFilter)}
+        >
+          <SelectTrigger className="w-36" aria-label="Huddle status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_STATUS}>Any status</SelectItem>
+            <SelectItem value="active">In progress</SelectItem>
+            <SelectItem value="completed">Ended</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {huddlesQuery.status === 'LoadingFirstPage' ? (
+        <Loader />
+      ) : huddles.length === 0 ? (
+        <p className="text-slate-500">
+          {listFilter === 'all' && statusFilter === ANY_STATUS
+            ? 'No huddles yet. Create one to get started.'
+            : 'No huddles match these filters.'}
+        </p>
       ) : (
         <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
-          {huddlesQuery.data.map((huddle) => {
-            const participantList = Array.isArray(huddle.participants) ? huddle.participants : []
-            const participantNames = participantList
-              .filter(
-                (participant) =>
-                  (participant.role ?? '').toLowerCase() !== 'observer' &&
-                  typeof participant.displayName === 'string' &&
-                  participant.displayName.trim().length > 0,
-              )
-              .map((participant) => participant.displayName!.trim())
-            const fallbackNames = participantList
-              .filter((participant) => (participant.role ?? '').toLowerCase() !== 'observer')
-              .map((participant) => participant.displayName?.trim() ?? 'Anonymous')
-            const displayNames =
-              participantNames.length > 0
-                ? participantNames
-                : fallbackNames.length > 0
-                  ? fallbackNames
-                  : ['No participants yet']
+          {huddles.map((huddle) => {
+            const participantPreview = formatParticipantPreview(
+              huddle.participantNames ?? [],
+              huddle.participantCount ?? 0,
+            )
             const statusLabel = huddle.status === 'completed' ? 'Ended' : 'In progress'
             const statusTone =
               huddle.status === 'completed'
@@ -353,9 +567,7 @@ function Home() {
                 : 'bg-sky-50 text-sky-700 border border-sky-200 dark:bg-sky-900/10 dark:text-sky-300 dark:border-sky-800/50'
             
             const isPrivate = huddle.isPrivate === true
-            const isOwner = huddle.createdBy === profile.clientId || 
-              (typeof profile.name === 'string' && profile.name.trim().length > 0 && 
-               huddle.createdBy === profile.name.trim())
+            const isOwner = huddle.createdBy === profile.clientId
             const canAccess = !isPrivate || isOwner
             const isPrivateAndNoAccess = isPrivate && !isOwner
 
@@ -399,7 +611,7 @@ function Home() {
                             Participants
                           </p>
                           <p className="mt-1 text-smline-clamp-3">
-                            {displayNames.join(', ')}
+                            {participantPreview}
                           </p>
                         </section>
                       </CardContent>
@@ -444,7 +656,7 @@ function Home() {
                           Participants
                         </p>
                         <p className="mt-1 text-smline-clamp-3">
-                          {displayNames.join(', ')}
+                          {participantPreview}
                         </p>
                       </section>
                     </CardContent>
@@ -467,6 +679,18 @@ function Home() {
           })}
         </div>
       )}
+      {huddlesQuery.status === 'CanLoadMore' || huddlesQuery.status === 'LoadingMore' ? (
+        <div className="flex justify-center">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => huddlesQuery.loadMore(HUDDLE_PAGE_SIZE)}
+            disabled={huddlesQuery.status === 'LoadingMore'}
+          >
+            {huddlesQuery.status === 'LoadingMore' ? 'Loading…' : 'Load more'}
+          </Button>
+        </div>
+      ) : null}
 
       <AlertDialog open={profileAlertOpen} onOpenChange={(open) => {
         setProfileAlertOpen(open)
@@ -0,0 +1,296 @@
+import * as React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
+import { usePaginatedQuery } from 'convex/react'
+import { z } from 'zod'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { useWorkspace } from '~/context/WorkspaceContext'
+import { searchQueries } from '~/queries'
+import { PLANNING_ITEM_TYPE_LABELS, PLANNING_ITEM_TYPES } from '~/types'
+import { formatDateTime } from '~/utils/dates'
+import { splitSearchMatches } from '~/utils/search'
+
+const ALL_VALUE = 'all'
+const TRANSCRIPT_TYPE = 'transcript'
+// The huddle filter offers the most recent huddles only
+const HUDDLE_FILTER_OPTION_LIMIT = 50
+
+const searchParamsSchema = z.object({
+  q: z.string().optional(),
+  type: z.enum([...PLANNING_ITEM_TYPES, TRANSCRIPT_TYPE]).optional(),
+  huddleId: z.string().optional(),
+  speaker: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+})
+
+type SearchParams = z.infer<typeof searchParamsSchema>
+
+export const Route = createFileRoute('/search')({
+  component: SearchRoute,
+  validateSearch: searchParamsSchema,
+})
+
+function HighlightedText({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {splitSearchMatches(text, query).map((segment, index) =>
+        segment.isMatch ? (
+          <mark key={index} className="rounded-sm bg-amber-200 px-0.5 text-inherit dark:bg-amber-500/40">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        ),
+      )}
+    </>
+  )
+}
+
+function SearchRoute() {
+  const search = Route.useSearch()
+  const navigate = useNavigate({ from: '/search' })
+  const { guestToken, isReady: isGuestSessionReady } = useGuestSession()
+  const { workspaceId, workspace } = useWorkspace()
+  const [draft, setDraft] = React.useState<SearchParams>(search)
+
+  // Keep the form in step with back/forward navigation
+  React.useEffect(() => {
+    setDraft(search)
+  }, [search])
+
+  const { results: huddles } = usePaginatedQuery(
+    api.huddle.listHuddles,
+    isGuestSessionReady ? { workspaceId: workspaceId ?? undefined, guestToken } : 'skip',
+    { initialNumItems: HUDDLE_FILTER_OPTION_LIMIT },
+  )
+
+  const query = search.q?.trim() ?? ''
+  const { data: results, isFetching } = useQuery({
+    ...searchQueries.results({
+      query,
+      workspaceId: workspaceId ?? undefined,
+      huddleId: search.huddleId as Id<'huddles'> | undefined,
+      type: search.type,
+      speaker: search.speaker,
+      from: search.from,
+      to: search.to,
+      guestToken,
+    }),
+    enabled: isGuestSessionReady && query.length > 0,
+  })
+
+  const updateDraft = (patch: Partial<SearchParams>) => {
+    setDraft((previous) => ({ ...previous, ...patch }))
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    // Drop empty filters so they don't linger in the URL
+    const next = Object.fromEntries(
+      Object.entries(draft).filter(([, value]) => typeof value === 'string' && value.trim() !== ''),
+    ) as SearchParams
+    void navigate({ search: next })
+  }
+
+  const resultCount = (results?.items.length ?? 0) + (results?.transcripts.length ?? 0)
+
+  return (
+    <div className="p-8 space-y-6 max-w-5xl">
+      <header>
+        <h1 className="text-2xl font-black">Search</h1>
+        <p className="text-sm text-muted-foreground">
+          Find planning items and what was said across {workspace ? workspace.name : 'your'} huddles.
+        </p>
+      </header>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            autoFocus
+            type="search"
+            placeholder="Which meeting did we decide…"
+            aria-label="Search query"
+            value={draft.q ?? ''}
+            onChange={(event) => updateDraft({ q: event.target.value })}
+          />
+          <Button type="submit" disabled={!draft.q?.trim()}>
+            Search
+          </Button>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-1">
+            <Label htmlFor="search-type">Type</Label>
+            <Select
+              value={draft.type ?? ALL_VALUE}
+              onValueChange={(value) =>
+                updateDraft({
+                  type: value === ALL_VALUE ? undefined : (value as SearchParams['type']),
+                })
+              }
+            >
+              <SelectTrigger id="search-type" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VALUE}>Everything</SelectItem>
+                <SelectItem value={TRANSCRIPT_TYPE}>Transcript</SelectItem>
+                <SelectSeparator />
+                {PLANNING_ITEM_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {PLANNING_ITEM_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-huddle">Huddle</Label>
+            <Select
+              value={draft.huddleId ?? ALL_VALUE}
+              onValueChange={(value) =>
+                updateDraft({ huddleId: value === ALL_VALUE ? undefined : value })
+              }
+            >
+              <SelectTrigger id="search-huddle" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VALUE}>All huddles</SelectItem>
+                {huddles.map((huddle) => (
+                  <SelectItem key={huddle._id} value={huddle._id}>
+                    {huddle.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-speaker">Speaker</Label>
+            <Input
+              id="search-speaker"
+              placeholder="Anyone"
+              value={draft.speaker ?? ''}
+              onChange={(event) => updateDraft({ speaker: event.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-from">From</Label>
+            <Input
+              id="search-from"
+              type="date"
+              value={draft.from ?? ''}
+              onChange={(event) => updateDraft({ from: event.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-to">To</Label>
+            <Input
+              id="search-to"
+              type="date"
+              value={draft.to ?? ''}
+              onChange={(event) => updateDraft({ to: event.target.value })}
+            />
+          </div>
+        </div>
+      </form>
+
+      {query.length === 0 ? null : results === undefined ? (
+        <p className="text-sm text-muted-foreground">{isFetching ? 'Searching…' : null}</p>
+      ) : resultCount === 0 ? (
+        <p className="text-sm italic text-muted-foreground">Nothing matched “{query}”.</p>
+      ) : (
+        <div className="space-y-6">
+          {results.items.length > 0 ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Planning items</CardTitle>
+                <CardDescription>
+                  {results.items.length} match{results.items.length === 1 ? '' : 'es'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {results.items.map((item) => (
+                    <li key={item._id} className="py-3">
+                      <Link
+                        to="/huddles/$huddleSlug"
+                        params={{ huddleSlug: item.huddleSlug }}
+                        search={{ itemId: item._id }}
+                        className="group block space-y-1"
+                      >
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <Badge variant="outline">{PLANNING_ITEM_TYPE_LABELS[item.type]}</Badge>
+                          <span className="font-medium text-foreground">{item.huddleName}</span>
+                          {item.speakerLabel ? <span>{item.speakerLabel}</span> : null}
+                          <span>{formatDateTime(item.timestamp)}</span>
+                        </div>
+                        <p className="text-sm group-hover:underline">
+                          <HighlightedText text={item.snippet} query={query} />
+                        </p>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ) : null}
+          {results.transcripts.length > 0 ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Transcript</CardTitle>
+                <CardDescription>
+                  {results.transcripts.length} match{results.transcripts.length === 1 ? '' : 'es'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {results.transcripts.map((entry) => (
+                    <li key={entry._id} className="py-3">
+                      <Link
+                        to="/huddles/$huddleSlug"
+                        params={{ huddleSlug: entry.huddleSlug }}
+                        search={{ chunkId: entry._id }}
+                        className="group block space-y-1"
+                      >
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <span className="font-medium text-foreground">{entry.huddleName}</span>
+                          <span>{entry.speakerLabel}</span>
+                          <span>{formatDateTime(entry.createdAt)}</span>
+                        </div>
+                        <p className="text-sm group-hover:underline">
+                          <HighlightedText text={entry.snippet} query={query} />
+                        </p>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ) : null}
+        </div>
+      )}
+    </div>
+  )
+}
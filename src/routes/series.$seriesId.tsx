@@ -0,0 +1,160 @@
+import { useSuspenseQuery } from '@tanstack/react-query'
+import { Link, Navigate, createFileRoute } from '@tanstack/react-router'
+import type { Id } from '../../convex/_generated/dataModel'
+import { Loader } from '~/components/Loader'
+import { Badge } from '~/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import { huddleQueries } from '~/queries'
+import { useGuestSession } from '~/context/GuestSessionContext'
+import { PLANNING_ITEM_TYPE_LABELS, TASK_STATUS_LABELS } from '~/types'
+import { formatDate, formatDueDate } from '~/utils/dates'
+
+export const Route = createFileRoute('/series/$seriesId')({
+  component: SeriesRoute,
+  pendingComponent: () => <Loader />,
+  // Only prefetches: workspace series are hidden until the page knows who is calling
+  loader: async ({ params, context: { queryClient } }) => {
+    await queryClient.ensureQueryData(
+      huddleQueries.series(params.seriesId as Id<'huddleSeries'>),
+    )
+  },
+})
+
+function SeriesRoute() {
+  const { isReady, guestToken } = useGuestSession()
+  if (!isReady) {
+    return <Loader />
+  }
+  return <SeriesForCaller guestToken={guestToken} />
+}
+
+function SeriesForCaller({ guestToken }: { guestToken: string | undefined }) {
+  const { seriesId } = Route.useParams()
+  const { data: series } = useSuspenseQuery(
+    huddleQueries.series(seriesId as Id<'huddleSeries'>, guestToken),
+  )
+
+  if (!series) {
+    return <Navigate to="/" />
+  }
+
+  return (
+    <div className="p-8 space-y-6">
+      <header>
+        <h1 className="text-2xl font-black">{series.name}</h1>
+        <p className="text-sm text-muted-foreground">
+          {series.occurrences.length} occurrence{series.occurrences.length === 1 ? '' : 's'}
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Occurrences</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-2">
+            {series.occurrences.map((occurrence) => (
+              <li key={occurrence._id} className="flex items-center gap-3 text-sm">
+                <span className="w-8 text-muted-foreground">#{occurrence.seriesIndex + 1}</span>
+                <Link
+                  to="/huddles/$huddleSlug"
+                  params={{ huddleSlug: occurrence.slug }}
+                  className="font-medium underline-offset-2 hover:underline"
+                >
+                  {occurrence.name}
+                </Link>
+                <span className="text-muted-foreground">{formatDate(occurrence.createdAt)}</span>
+                {occurrence.status === 'completed' ? (
+                  <Badge variant="outline">Completed</Badge>
+                ) : null}
+              </li>
+            ))}
+          </ol>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Carried-over items</CardTitle>
+          <CardDescription>
+            Unfinished tasks, risks and dependencies follow the series into each new occurrence.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {series.carriedItems.length === 0 ? (
+            <p className="text-sm italic text-muted-foreground">
+              Nothing has been carried over yet.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Item</th>
+                    {series.occurrences.map((occurrence) => (
+                      <th key={occurrence._id} className="py-2 pr-4 font-medium">
+                        #{occurrence.seriesIndex + 1}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {series.carriedItems.map(({ originItemId, appearances }) => {
+                    const latest = appearances[appearances.length - 1]?.item
+                    return (
+                      <tr key={originItemId} className="border-t align-top">
+                        <td className="py-2 pr-4">
+                          <Badge variant="outline" className="mb-1">
+                            {latest ? PLANNING_ITEM_TYPE_LABELS[latest.type] : null}
+                          </Badge>
+                          <p>{latest?.text}</p>
+                        </td>
+                        {series.occurrences.map((occurrence) => {
+                          const index = appearances.findIndex(
+                            (appearance) => appearance.huddleId === occurrence._id,
+                          )
+                          if (index === -1) {
+                            return (
+                              <td key={occurrence._id} className="py-2 pr-4 text-muted-foreground">
+                                —
+                              </td>
+                            )
+                          }
+                          const { item } = appearances[index]!
+                          const previous = index > 0 ? appearances[index - 1]!.item : undefined
+                          return (
+                            <td key={occurrence._id} className="py-2 pr-4 text-xs space-y-1">
+                              {item.type === 'task' ? (
+                                <p className="font-medium">
+                                  {TASK_STATUS_LABELS[item.status ?? 'todo']}
+                                </p>
+                              ) : (
+                                <p className="font-medium">Open</p>
+                              )}
+                              {item.dueDate ? (
+                                <p className="text-muted-foreground">Due {formatDueDate(item.dueDate)}</p>
+                              ) : null}
+                              {previous && previous.text !== item.text ? (
+                                <p className="text-muted-foreground">Renamed: {item.text}</p>
+                              ) : null}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
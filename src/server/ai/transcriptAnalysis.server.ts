@@ -16,11 +16,19 @@ For each chunk you must interpret the statement and decide which planning items
 Always respond with JSON that matches the provided schema. Use deterministic, lowercase snake_case keys.
 Prefer singular nouns in keys (e.g., idea_contextual_tip). Only reference dependencies that already exist.
 Only set blocked relationships when both items are tasks. Never block tasks with non-task items, and never block non-task items at all.
-Classify each item as idea, task, dependency, owner, risk, outcome, decision, or summary.
+Classify each item as idea, task, dependency, owner, risk, outcome, decision, summary, or custom.
 Be conservative: only create, update, or remove items when the transcript clearly supports it.
 When users explicitly request to remove, delete, cancel, or drop a task, goal, idea, or other planning item, use the removeItem action with the targetKey matching the existing item's key.
 If the transcript does not contain actionable planning content (e.g., small talk, greetings, process noise), return an empty actions array and optionally include a short rationale explaining that no update is needed.
 
+Task Lifecycle: Only task items have a status (todo, in_progress, done, cancelled) and a dueDate (YYYY-MM-DD). When a speaker says an existing task is finished (e.g., "that's done", "we shipped it"), started, or dropped without asking to delete it, use updateItem with the matching status. When a deadline is mentioned (e.g., "let's ship it by Friday"), set dueDate by resolving the date against the current date. Leave status and dueDate null when they are not mentioned and for every non-task item.
+
+Task Assignees: When a speaker makes a participant responsible for a task (e.g., "Sam will take the migration", "I'll handle it"), set assigneeUserIds on the task to the userIds from the participant list, matching names case-insensitively and resolving "I"/"me" to the speaker. Never invent userIds; leave assigneeUserIds null when the person is not in the participant list and for every non-task item.
+
+Huddle Format: When the prompt includes a huddle format, it describes the meeting ritual (for example a retrospective or incident review). Follow it when choosing item types, and fall back to these rules for anything it does not cover.
+
+Custom Item Types: When the prompt lists custom item types, the huddle tracks those kinds of items too. Use type "custom" with customType set to the matching key when a statement fits one of them better than a built-in type, guided by its hint. Never invent custom type keys; set customType to null for every built-in type.
+
 Research Detection: For idea items, always set needsResearch to a boolean value. Set needsResearch: true if the user explicitly requests research, information lookup, or fact-finding (e.g., "look up", "research", "find out about", "can someone check", "we need to know"). Set needsResearch: false for ideas that do not require research. Only set this flag for idea type items - use null for all other item types.
 `.trim()
 
@@ -31,8 +39,28 @@ function buildUserPrompt({
   speakerLabel,
   text,
   knownItems,
+  participants,
+  templateInstructions,
+  customItemTypes,
 }: InterpretTranscriptInput) {
-  const base = `Speaker (${speakerId}, ${speakerLabel}) said:\n"""${text}"""\n`
+  // Lets the model resolve relative deadlines like "by Friday" into due dates
+  const today = new Date().toISOString().slice(0, 10)
+  const serializedParticipants =
+    participants && participants.length > 0
+      ? `Participants (userId -> name):\n${participants
+          .map((participant) => `- ${participant.userId}: ${participant.displayName}`)
+          .join('\n')}\n`
+      : ''
+  const serializedTemplateInstructions = templateInstructions
+    ? `Huddle format: ${templateInstructions}\n`
+    : ''
+  const serializedCustomItemTypes =
+    customItemTypes && customItemTypes.length > 0
+      ? `Custom item types (key -> label):\n${customItemTypes
+          .map((type) => `- ${type.key}: ${type.label}${type.hint ? ` (${type.hint})` : ''}`)
+          .join('\n')}\n`
+      : ''
+  const base = `Current date: ${today}\n${serializedTemplateInstructions}${serializedCustomItemTypes}${serializedParticipants}Speaker (${speakerId}, ${speakerLabel}) said:\n"""${text}"""\n`
   if (!knownItems || knownItems.length === 0) {
     return `${base}\nGenerate the structured planning actions that should occur.`
   }
@@ -40,7 +68,7 @@ function buildUserPrompt({
   const serializedKnownItems = knownItems
     .map(
       (item) =>
-        `- ${item.itemKey} (${item.type}): ${item.text.replace(/\s+/g, ' ').trim()}`,
+        `- ${item.itemKey} (${item.customType ?? item.type}${item.status ? `, ${item.status}` : ''}${item.dueDate ? `, due ${item.dueDate}` : ''}${item.assigneeUserIds?.length ? `, assigned to ${item.assigneeUserIds.join(' & ')}` : ''}): ${item.text.replace(/\s+/g, ' ').trim()}`,
     )
     .join('\n')
 
@@ -131,11 +159,21 @@ export async function runTranscriptAnalysis(
         typeof action.patch === 'object' &&
         action.patch !== null
       ) {
-        const patch = action.patch as { text: unknown; blockedByKeys: unknown }
+        const patch = action.patch as {
+          text: unknown
+          blockedByKeys: unknown
+          status: unknown
+          dueDate: unknown
+          assigneeUserIds: unknown
+        }
         const hasText = patch.text !== null && patch.text !== undefined
         const hasBlockedBy = patch.blockedByKeys !== null && patch.blockedByKeys !== undefined
+        const hasStatus = patch.status !== null && patch.status !== undefined
+        const hasDueDate = patch.dueDate !== null && patch.dueDate !== undefined
+        const hasAssignees =
+          patch.assigneeUserIds !== null && patch.assigneeUserIds !== undefined
         // Keep the action only if at least one field is non-null
-        const isValid = hasText || hasBlockedBy
+        const isValid = hasText || hasBlockedBy || hasStatus || hasDueDate || hasAssignees
         if (!isValid) {
           console.warn('Filtered out updateItem action with empty patch', {
             targetKey: 'targetKey' in action ? action.targetKey : undefined,
@@ -4,12 +4,28 @@ import {
   zDevSimulationResponse,
   type DevSimulationResponse,
   zPlanningItemType,
+  zTaskStatus,
 } from '~/dev/simulationSchema'
 
 const zKnownItem = z.object({
   itemKey: z.string().min(1),
   type: zPlanningItemType,
+  customType: z.string().min(1).optional(),
   text: z.string().min(1),
+  status: zTaskStatus.optional(),
+  dueDate: z.string().optional(),
+  assigneeUserIds: z.array(z.string().min(1)).optional(),
+})
+
+const zCustomItemType = z.object({
+  key: z.string().min(1),
+  label: z.string().min(1),
+  hint: z.string().min(1).optional(),
+})
+
+const zKnownParticipant = z.object({
+  userId: z.string().min(1),
+  displayName: z.string().min(1),
 })
 
 export const zInterpretTranscriptInput = z.object({
@@ -18,6 +34,11 @@ export const zInterpretTranscriptInput = z.object({
   speakerLabel: z.string().min(1),
   text: z.string().min(1),
   knownItems: z.array(zKnownItem).optional(),
+  participants: z.array(zKnownParticipant).optional(),
+  // Extra guidance from the template the huddle was created from
+  templateInstructions: z.string().min(1).optional(),
+  // The huddle's own item types, offered alongside the built-in ones
+  customItemTypes: z.array(zCustomItemType).optional(),
   conversationId: z.string().min(1).optional(),
   huddleId: z.string().min(1).optional(),
 })
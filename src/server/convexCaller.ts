@@ -0,0 +1,23 @@
+import { ConvexHttpClient } from 'convex/browser'
+import { z } from 'zod'
+
+export const zCallerCredentials = z.object({
+  authToken: z.string().optional(),
+  guestToken: z.string().optional(),
+})
+
+/**
+ * A Convex client that acts as the user who called the server function, so
+ * huddle role checks apply. Guests still pass `guestToken` to each mutation.
+ */
+export function createCallerConvexClient(
+  convexUrl: string,
+  credentials: z.infer<typeof zCallerCredentials>,
+  options?: ConstructorParameters<typeof ConvexHttpClient>[1],
+) {
+  const client = new ConvexHttpClient(convexUrl, options)
+  if (credentials.authToken) {
+    client.setAuth(credentials.authToken)
+  }
+  return client
+}
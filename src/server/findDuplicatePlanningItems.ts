@@ -0,0 +1,140 @@
+import { createServerFn } from '@tanstack/react-start'
+import { zodTextFormat } from 'openai/helpers/zod'
+import { z } from 'zod'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import { createCallerConvexClient, zCallerCredentials } from './convexCaller'
+import { getOpenAIClient } from './openaiClient'
+
+const MODEL = process.env.OPENAI_RESPONSES_MODEL ?? 'gpt-4.1-mini'
+
+const DUPLICATES_INPUT_SCHEMA = z.object({
+  huddleId: z.string().trim().min(1, 'huddleId is required'),
+  ...zCallerCredentials.shape,
+})
+
+const zDuplicateGroups = z.object({
+  groups: z.array(
+    z.object({
+      // Item numbers from the prompt; the first is the item to keep
+      itemNumbers: z.array(z.number().int()),
+      mergedText: z.string(),
+      reason: z.string(),
+    }),
+  ),
+})
+
+const duplicateGroupsTextFormat = zodTextFormat(zDuplicateGroups, 'duplicate_planning_items')
+
+export type DuplicateSuggestion = {
+  targetId: Id<'planningItems'>
+  sourceIds: Array<Id<'planningItems'>>
+  text: string
+  reason: string
+}
+
+function requireConvexUrl() {
+  const url =
+    process.env.NODE_ENV === 'production'
+      ? process.env.VITE_CONVEX_URL
+      : process.env.VITE_DEV_CONVEX_URL ?? process.env.VITE_CONVEX_URL
+  if (!url) {
+    throw new Error(
+      'Set VITE_CONVEX_URL (prod) or VITE_DEV_CONVEX_URL (dev) to call Convex from server functions.',
+    )
+  }
+  return url
+}
+
+const SYSTEM_PROMPT = `You review the planning board of a team meeting and find items that say the same thing twice.
+
+Rules:
+- Group items only when they describe the same goal, task, idea, decision or risk, worded differently. Related but distinct items are not duplicates.
+- Each group has at least two items and an item appears in at most one group.
+- List the item that should be kept first: prefer the most specific one, and a task over other types.
+- mergedText is the best single wording for the merged item. Keep every concrete detail (names, dates, numbers) from the group and stay as short as the longest original.
+- reason is one short sentence explaining why the items are duplicates.
+- Return an empty list when nothing is duplicated.`
+
+function buildUserPrompt(items: Array<{ type: string; text: string }>) {
+  const lines = items.map(
+    (item, index) => `${index + 1}. (${item.type}) ${item.text.replace(/\s+/g, ' ').trim()}`,
+  )
+  return `Planning items:\n${lines.join('\n')}\n\nFind the groups of duplicate items.`
+}
+
+/**
+ * Ask the model which items on a huddle's board duplicate each other. Nothing is merged
+ * here; the caller reviews the suggestions and merges them with mergePlanningItems.
+ */
+export const findDuplicatePlanningItems = createServerFn({ method: 'POST' })
+  .inputValidator((payload: unknown) => DUPLICATES_INPUT_SCHEMA.parse(payload))
+  .handler(async ({ data }): Promise<{ suggestions: Array<DuplicateSuggestion> }> => {
+    const { huddleId } = data
+    const convexUrl = requireConvexUrl()
+    const client = createCallerConvexClient(convexUrl, data)
+
+    const huddle = await client.query(api.huddle.getHuddleById, {
+      id: huddleId as Id<'huddles'>,
+      guestToken: data.guestToken,
+    })
+    if (!huddle) {
+      throw new Error(`Huddle ${huddleId} not found`)
+    }
+    const fullHuddle = await client.query(api.huddle.getHuddle, {
+      slug: huddle.slug,
+      guestToken: data.guestToken,
+    })
+    if (!fullHuddle) {
+      throw new Error(`Huddle ${huddleId} not found`)
+    }
+
+    const items = (fullHuddle.planningItems ?? []).filter((item) => item.type !== 'summary')
+    if (items.length < 2) {
+      return { suggestions: [] }
+    }
+
+    // Get user's API key if provided (for subscribed users)
+    const userApiKey = (data as any).userApiKey || undefined
+    const openai = getOpenAIClient(userApiKey)
+
+    let parsed: z.infer<typeof zDuplicateGroups>
+    try {
+      const response = await openai.responses.create({
+        model: MODEL,
+        instructions: SYSTEM_PROMPT,
+        input: buildUserPrompt(
+          items.map((item) => ({ type: item.customType ?? item.type, text: item.text })),
+        ),
+        text: {
+          format: duplicateGroupsTextFormat,
+        },
+      })
+      parsed = zDuplicateGroups.parse(JSON.parse(response.output_text))
+    } catch (error) {
+      console.error('Failed to find duplicate planning items with OpenAI', error)
+      throw new Error('Failed to find duplicates with AI')
+    }
+
+    // The model only sees item numbers; drop any it made up or reused across groups
+    const claimed = new Set<number>()
+    const suggestions: Array<DuplicateSuggestion> = []
+    for (const group of parsed.groups) {
+      const numbers = [...new Set(group.itemNumbers)].filter(
+        (number) => number >= 1 && number <= items.length && !claimed.has(number),
+      )
+      if (numbers.length < 2) {
+        continue
+      }
+      numbers.forEach((number) => claimed.add(number))
+      const [target, ...sources] = numbers.map((number) => items[number - 1])
+      suggestions.push({
+        targetId: target._id,
+        sourceIds: sources.map((source) => source._id),
+        text: group.mergedText.trim() || target.text,
+        reason: group.reason.trim(),
+      })
+    }
+
+    return { suggestions }
+  })
@@ -1,14 +1,15 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
-import { ConvexHttpClient } from 'convex/browser'
 import { api } from '../../convex/_generated/api'
 import type { Id } from '../../convex/_generated/dataModel'
+import { createCallerConvexClient, zCallerCredentials } from './convexCaller'
 import { getOpenAIClient } from './openaiClient'
 
 const MODEL = process.env.OPENAI_RESPONSES_MODEL ?? 'gpt-4.1-mini'
 
 const SUMMARY_INPUT_SCHEMA = z.object({
   huddleId: z.string().trim().min(1, 'huddleId is required'),
+  ...zCallerCredentials.shape,
 })
 
 function requireConvexUrl() {
@@ -87,13 +88,15 @@ function buildUserPrompt(planningItems: Array<{ type: string; text: string }>) {
 export const generateHuddleSummary = createServerFn({ method: 'POST' })
   .inputValidator((payload: unknown) => SUMMARY_INPUT_SCHEMA.parse(payload))
   .handler(async ({ data }) => {
-    const { huddleId } = data
+    const { huddleId, guestToken } = data
     const convexUrl = requireConvexUrl()
-    const client = new ConvexHttpClient(convexUrl)
+    // The summary is written as the caller, so it needs a role that can edit the board
+    const client = createCallerConvexClient(convexUrl, data)
 
     // Get huddle to verify it exists
     const huddle = await client.query(api.huddle.getHuddleById, {
       id: huddleId as Id<'huddles'>,
+      guestToken,
     })
 
     if (!huddle) {
@@ -103,6 +106,7 @@ export const generateHuddleSummary = createServerFn({ method: 'POST' })
     // Get all planning items by querying the full huddle
     const fullHuddle = await client.query(api.huddle.getHuddle, {
       slug: huddle.slug,
+      guestToken,
     })
 
     if (!fullHuddle) {
@@ -221,6 +225,7 @@ export const generateHuddleSummary = createServerFn({ method: 'POST' })
       metadata: {
         autoGenerated: true,
       },
+      guestToken,
     })
 
     return {
@@ -1,9 +1,9 @@
 import { createServerFn } from '@tanstack/react-start'
-import { ConvexHttpClient } from 'convex/browser'
 import { z } from 'zod'
 import { api } from '../../convex/_generated/api'
 import type { Id } from '../../convex/_generated/dataModel'
 import { getOpenAIClient } from './openaiClient'
+import { createCallerConvexClient, zCallerCredentials } from './convexCaller'
 
 const MODEL = process.env.OPENAI_RESPONSES_MODEL ?? 'gpt-4.1-mini'
 
@@ -20,6 +20,7 @@ Constraints:
 const TITLE_INPUT_SCHEMA = z.object({
   huddleId: z.string().trim().min(1, 'huddleId is required'),
   goalId: z.string().trim().min(1, 'goalId is required'),
+  ...zCallerCredentials.shape,
 })
 
 function requireConvexUrl() {
@@ -95,14 +96,21 @@ function normalizeTitle(raw: string, fallback: string) {
 export const requestHuddleAutoTitle = createServerFn({ method: 'POST' })
   .inputValidator((payload: unknown) => TITLE_INPUT_SCHEMA.parse(payload))
   .handler(async ({ data }) => {
-    const { huddleId, goalId } = data
+    const { huddleId, goalId, guestToken } = data
     const convexUrl = requireConvexUrl()
-    const client = new ConvexHttpClient(convexUrl)
+    // Transcripts of workspace huddles are only readable by the caller
+    const client = createCallerConvexClient(convexUrl, data)
 
     const [huddle, goal, transcriptChunks] = await Promise.all([
-      client.query(api.huddle.getHuddleById, { id: huddleId as Id<'huddles'> }),
-      client.query(api.huddle.getPlanningItemById, { id: goalId as Id<'planningItems'> }),
-      client.query(api.huddle.listTranscriptChunks, { huddleId: huddleId as Id<'huddles'> }),
+      client.query(api.huddle.getHuddleById, { id: huddleId as Id<'huddles'>, guestToken }),
+      client.query(api.huddle.getPlanningItemById, {
+        id: goalId as Id<'planningItems'>,
+        guestToken,
+      }),
+      client.query(api.huddle.listTranscriptChunks, {
+        huddleId: huddleId as Id<'huddles'>,
+        guestToken,
+      }),
     ])
 
     if (!huddle) {
@@ -192,6 +200,7 @@ export const requestHuddleAutoTitle = createServerFn({ method: 'POST' })
       huddleId: huddleId as Id<'huddles'>,
       goalId: goalId as Id<'planningItems'>,
       name: candidate,
+      guestToken,
     })
 
     return result
@@ -1,8 +1,8 @@
 import { createServerFn } from '@tanstack/react-start'
-import { ConvexHttpClient } from 'convex/browser'
 import { z } from 'zod'
 import { api } from '../../convex/_generated/api'
 import type { Id } from '../../convex/_generated/dataModel'
+import { createCallerConvexClient, zCallerCredentials } from './convexCaller'
 
 const LINEAR_API_URL = 'https://api.linear.app/graphql'
 const LINEAR_OAUTH_URL = 'https://linear.app/oauth/authorize'
@@ -67,6 +67,7 @@ const zCreateProjectInput = z.object({
     }),
   ),
   linearUserId: z.string(), // Linear user ID who authorized (to set as lead)
+  ...zCallerCredentials.shape,
 })
 
 function requireConvexUrl() {
@@ -424,9 +425,10 @@ export const createLinearProject = createServerFn({ method: 'POST' })
 
     // Get huddle summary from Convex
     const convexUrlForSummary = requireConvexUrl()
-    const convexClientForSummary = new ConvexHttpClient(convexUrlForSummary)
+    const convexClientForSummary = createCallerConvexClient(convexUrlForSummary, data)
     const huddle = await convexClientForSummary.query(api.huddle.getHuddle, {
       slug: huddleSlug,
+      guestToken: data.guestToken,
     })
 
     if (!huddle) {
@@ -533,11 +535,12 @@ export const createLinearProject = createServerFn({ method: 'POST' })
 
     // Save the project info to Convex
     const convexUrlForSave = requireConvexUrl()
-    const convexClientForSave = new ConvexHttpClient(convexUrlForSave)
+    const convexClientForSave = createCallerConvexClient(convexUrlForSave, data)
     await convexClientForSave.mutation(api.huddle.setLinearProject, {
       huddleId: huddleId as Id<'huddles'>,
       linearProjectId: project.id,
       linearProjectUrl: projectUrl,
+      guestToken: data.guestToken,
     })
 
     return {
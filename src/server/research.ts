@@ -1,14 +1,15 @@
 import { createServerFn } from '@tanstack/react-start'
-import { ConvexHttpClient } from 'convex/browser'
 import { z } from 'zod'
 import { api } from '../../convex/_generated/api'
 import type { Id } from '../../convex/_generated/dataModel'
+import { createCallerConvexClient, zCallerCredentials } from './convexCaller'
 import { researchTopic } from './firecrawl'
 
 const zResearchInput = z.object({
   planningItemId: z.string(),
   huddleId: z.string(),
   query: z.string().min(1),
+  ...zCallerCredentials.shape,
 })
 
 function requireConvexUrl() {
@@ -30,10 +31,10 @@ function requireConvexUrl() {
 export const performResearch = createServerFn({ method: 'POST' })
   .inputValidator((payload: unknown) => zResearchInput.parse(payload))
   .handler(async ({ data }) => {
-    const { planningItemId, huddleId, query } = data
+    const { planningItemId, huddleId, query, guestToken } = data
 
     const convexUrl = requireConvexUrl()
-    const convexClient = new ConvexHttpClient(convexUrl)
+    const convexClient = createCallerConvexClient(convexUrl, data)
 
     // Create a pending research result
     const researchResultId = await convexClient.mutation(
@@ -45,6 +46,7 @@ export const performResearch = createServerFn({ method: 'POST' })
         summary: '',
         sources: [],
         status: 'pending',
+        guestToken,
       }
     )
 
@@ -60,8 +62,10 @@ export const performResearch = createServerFn({ method: 'POST' })
         sources: Array<{ url: string; title?: string }>
         status: 'completed'
         rawResponse?: unknown
+        guestToken?: string
       } = {
         id: researchResultId,
+        guestToken,
         summary: result.summary,
         sources: result.sources,
         status: 'completed',
@@ -88,6 +92,7 @@ export const performResearch = createServerFn({ method: 'POST' })
         id: researchResultId,
         status: 'failed',
         error: errorMessage,
+        guestToken,
       })
 
       throw error
@@ -1,5 +1,4 @@
 import { createServerFn } from '@tanstack/react-start'
-import { ConvexHttpClient } from 'convex/browser'
 import { Buffer } from 'node:buffer'
 import { randomUUID } from 'node:crypto'
 import { toFile } from 'openai'
@@ -7,8 +6,11 @@ import type { Audio } from 'openai/resources/audio/audio'
 import { z } from 'zod'
 import { api } from '../../convex/_generated/api'
 import type { Id } from '../../convex/_generated/dataModel'
+import type { TaskStatus } from '~/types'
 import { runTranscriptAnalysis } from '~/server/ai/transcriptAnalysis'
+import { createCallerConvexClient, zCallerCredentials } from './convexCaller'
 import { getOpenAIClient } from './openaiClient'
+import { TRANSIENT_VOICE_TURN_ERROR_MARKER } from '~/shared/huddle'
 
 const zFormPayload = z
   .object({
@@ -49,6 +51,7 @@ const zFormPayload = z
         const trimmed = value.trim()
         return trimmed.length > 0 ? trimmed : undefined
       }),
+    ...zCallerCredentials.shape,
   })
   .superRefine((value, ctx) => {
     if (!value.huddleId && !value.huddleSlug) {
@@ -107,20 +110,28 @@ function normalizeCreateAction(action: {
   kind: 'createItem'
   itemKey: string
   type: string
+  customType: string | null
   text: string
   speakerLabel: string | null
   blockedByKeys: Array<string> | null
   needsResearch: boolean | null
+  status: TaskStatus | null
+  dueDate: string | null
+  assigneeUserIds: Array<string> | null
 }) {
   return {
     kind: action.kind,
     itemKey: action.itemKey,
     type: action.type,
+    customType: action.customType ?? undefined,
     text: action.text,
     speakerLabel: action.speakerLabel ?? undefined,
     blockedByKeys:
       action.blockedByKeys === null ? undefined : action.blockedByKeys,
     needsResearch: action.needsResearch ?? undefined,
+    status: action.status ?? undefined,
+    dueDate: action.dueDate ?? undefined,
+    assigneeUserIds: action.assigneeUserIds ?? undefined,
   }
 }
 
@@ -130,6 +141,9 @@ function normalizeUpdateAction(action: {
   patch: {
     text: string | null
     blockedByKeys: Array<string> | null
+    status: TaskStatus | null
+    dueDate: string | null
+    assigneeUserIds: Array<string> | null
   }
 }) {
   return {
@@ -140,6 +154,11 @@ function normalizeUpdateAction(action: {
       ...(action.patch.blockedByKeys === null
         ? {}
         : { blockedByKeys: action.patch.blockedByKeys }),
+      ...(action.patch.status === null ? {} : { status: action.patch.status }),
+      ...(action.patch.dueDate === null ? {} : { dueDate: action.patch.dueDate }),
+      ...(action.patch.assigneeUserIds === null
+        ? {}
+        : { assigneeUserIds: action.patch.assigneeUserIds }),
     },
   }
 }
@@ -400,6 +419,48 @@ class StageError extends Error {
   }
 }
 
+const TRANSIENT_NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+])
+
+/**
+ * Whether a failure may go away on its own: a network error, a 5xx response or a rate limit,
+ * anywhere along the error's cause chain.
+ */
+function isTransientError(error: unknown, seen = new WeakSet<object>()): boolean {
+  if (!error || typeof error !== 'object' || seen.has(error)) {
+    return false
+  }
+  seen.add(error)
+  const anyError = error as {
+    name?: unknown
+    message?: unknown
+    status?: unknown
+    code?: unknown
+    cause?: unknown
+  }
+  if (typeof anyError.status === 'number' && (anyError.status >= 500 || anyError.status === 429)) {
+    return true
+  }
+  if (typeof anyError.code === 'string' && TRANSIENT_NETWORK_ERROR_CODES.has(anyError.code)) {
+    return true
+  }
+  // The OpenAI SDK reports dropped connections and timeouts as APIConnection(Timeout)Error
+  if (typeof anyError.name === 'string' && anyError.name.startsWith('APIConnection')) {
+    return true
+  }
+  if (error instanceof TypeError && anyError.message === 'fetch failed') {
+    return true
+  }
+  return isTransientError(anyError.cause, seen)
+}
+
 const conversationQueues = new Map<string, { promise: Promise<unknown> }>()
 
 function withConversationLock<T>(key: string, task: () => Promise<T>): Promise<T> {
@@ -448,6 +509,8 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
         durationMs: getStringField(formData, 'durationMs'),
         requestId: getStringField(formData, 'requestId'),
         conversationId: getStringField(formData, 'conversationId'),
+        authToken: getStringField(formData, 'authToken'),
+        guestToken: getStringField(formData, 'guestToken'),
       })
 
       // Skip AI analysis for audio less than 3 seconds
@@ -498,6 +561,36 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
 
       console.info('Processing voice transcription request', logContext)
 
+      // A retried upload of a turn that already went through gets the original result back
+      // without paying for transcription and analysis again
+      if (fields.requestId && fields.huddleId) {
+        logContext.stage = 'convex:getProcessedVoiceTranscript'
+        const processed = await createCallerConvexClient(requireConvexUrl(), fields, {
+          logger: false,
+        }).query(api.huddle.getProcessedVoiceTranscript, {
+          huddleId: fields.huddleId as Id<'huddles'>,
+          requestId: fields.requestId,
+          guestToken: fields.guestToken,
+        })
+        if (processed) {
+          console.info('Voice turn already processed, returning original result', {
+            ...logContext,
+            stage: 'complete:replay',
+            chunkId: processed.result.chunkId,
+          })
+          return {
+            transcript: {
+              text: processed.text,
+              chunkId: processed.result.chunkId,
+              sequence: processed.result.sequence,
+            },
+            mutation: processed.result,
+            conversationId: processed.conversationId,
+            requestId,
+          }
+        }
+      }
+
       // Get user's API key if provided (for subscribed users)
       const userApiKey = getStringField(formData, 'userApiKey') || undefined
       const client = getOpenAIClient(userApiKey)
@@ -582,7 +675,7 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
       })
 
       const runPostTranscription = async () => {
-        const convexClient = new ConvexHttpClient(requireConvexUrl(), {
+        const convexClient = createCallerConvexClient(requireConvexUrl(), fields, {
           logger: false,
         })
 
@@ -602,6 +695,7 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
           try {
             return await convexClient.query(api.huddle.getHuddle, {
               slug,
+              guestToken: fields.guestToken,
             })
           } catch (getHuddleError) {
             const serializedGetHuddleError = await serializeError(getHuddleError)
@@ -627,6 +721,7 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
           try {
             const huddleById = await convexClient.query(api.huddle.getHuddleById, {
               id: rawHuddleId as Id<'huddles'>,
+              guestToken: fields.guestToken,
             })
             if (!huddleById) {
               console.warn('No huddle returned for provided huddleId', {
@@ -671,16 +766,26 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
 
         const knownItems = resolvedHuddle.planningItems
           .map((item) => {
-            const metadata = item.metadata as { itemKey?: string } | null | undefined
+            const metadata = item.metadata as
+              | { itemKey?: string; itemKeyAliases?: Array<string> }
+              | null
+              | undefined
+            // An item added by hand can still be known by the key of an item merged into it
             const itemKey =
-              metadata && typeof metadata.itemKey === 'string' ? metadata.itemKey : null
+              metadata && typeof metadata.itemKey === 'string'
+                ? metadata.itemKey
+                : (metadata?.itemKeyAliases?.find((alias) => typeof alias === 'string') ?? null)
             if (!itemKey) {
               return null
             }
             return {
               itemKey,
               type: item.type,
+              customType: item.customType,
               text: item.text,
+              status: item.status,
+              dueDate: item.dueDate,
+              assigneeUserIds: item.assigneeUserIds,
             }
           })
           .filter(
@@ -689,10 +794,21 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
             ): value is {
               itemKey: string
               type: (typeof resolvedHuddle.planningItems)[number]['type']
+              customType: string | undefined
               text: string
+              status: TaskStatus | undefined
+              dueDate: string | undefined
+              assigneeUserIds: Array<string> | undefined
             } => value !== null,
           )
 
+        const knownParticipants = resolvedHuddle.participants
+          .map((participant) => ({
+            userId: participant.userId,
+            displayName: participant.displayName?.trim() ?? '',
+          }))
+          .filter((participant) => participant.displayName.length > 0)
+
         console.info('Running transcript analysis for transcript', {
           ...logContext,
           stage: 'analysis:run',
@@ -707,6 +823,13 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
             speakerLabel: fields.speakerLabel,
             text: transcriptText,
             knownItems: knownItems.length > 0 ? (knownItems as any) : undefined,
+            participants: knownParticipants.length > 0 ? knownParticipants : undefined,
+            templateInstructions: resolvedHuddle.template?.promptInstructions,
+            customItemTypes: resolvedHuddle.customItemTypes?.map(({ key, label, hint }) => ({
+              key,
+              label,
+              hint,
+            })),
             conversationId: fields.conversationId ?? undefined,
             huddleId,
           },
@@ -740,7 +863,6 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
           api.huddle.processVoiceTranscript,
           {
             huddleId,
-            speakerId: fields.speakerId,
             speakerLabel: fields.speakerLabel,
             text: transcriptText,
             actions: normalizedActions as any,
@@ -756,6 +878,7 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
               durationMs: fields.durationMs,
             },
             requestId,
+            guestToken: fields.guestToken,
           },
         )
 
@@ -794,10 +917,14 @@ export const speakToHuddle = createServerFn({ method: 'POST' })
       const serializedError = await serializeError(error)
       const summary = truncate(buildErrorSummary(serializedError), 600) ?? 'Unknown error'
       console.error('speakToHuddle failed', { ...logContext, error: serializedError })
+      // The client only retries failures marked as transient
+      const prefix = isTransientError(error)
+        ? `Transcription failed ${TRANSIENT_VOICE_TURN_ERROR_MARKER}`
+        : 'Transcription failed'
       if (requestIdForLogs) {
-        throw new Error(`Transcription failed (request ${requestIdForLogs}): ${summary}`)
+        throw new Error(`${prefix} (request ${requestIdForLogs}): ${summary}`)
       }
-      throw new Error(`Transcription failed: ${summary}`)
+      throw new Error(`${prefix}: ${summary}`)
     }
   })
 
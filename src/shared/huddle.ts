@@ -3,4 +3,6 @@
 
 export const FREE_HUDDLE_DURATION_MS = 15 * 60 * 1000
 
-
+// Added to speakToHuddle errors that are worth retrying: network failures, 5xx responses and
+// rate limits. Anything else (bad audio, auth, validation) fails the same way every time.
+export const TRANSIENT_VOICE_TURN_ERROR_MARKER = '[transient]'
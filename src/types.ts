@@ -7,6 +7,8 @@ export const PLANNING_ITEM_TYPES = [
   'outcome',
   'decision',
   'summary',
+  // One of the huddle's own item types, named by the item's customType
+  'custom',
 ] as const
 
 export type PlanningItemType = (typeof PLANNING_ITEM_TYPES)[number]
@@ -20,4 +22,76 @@ export const PLANNING_ITEM_TYPE_LABELS: Record<PlanningItemType, string> = {
   outcome: 'Outcome',
   decision: 'Decision',
   summary: 'Summary Note',
+  custom: 'Custom',
+}
+
+export const CUSTOM_ITEM_TYPE_COLORS = [
+  'amber',
+  'sky',
+  'emerald',
+  'rose',
+  'violet',
+  'fuchsia',
+  'slate',
+] as const
+
+export type CustomItemTypeColor = (typeof CUSTOM_ITEM_TYPE_COLORS)[number]
+
+export const TASK_STATUSES = ['todo', 'in_progress', 'done', 'cancelled'] as const
+
+export type TaskStatus = (typeof TASK_STATUSES)[number]
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To do',
+  in_progress: 'In progress',
+  done: 'Done',
+  cancelled: 'Cancelled',
+}
+
+export const HUDDLE_ROLES = ['owner', 'facilitator', 'editor', 'contributor', 'viewer'] as const
+
+export type HuddleRole = (typeof HUDDLE_ROLES)[number]
+
+export const HUDDLE_ROLE_LABELS: Record<HuddleRole, string> = {
+  owner: 'Owner',
+  facilitator: 'Facilitator',
+  editor: 'Editor',
+  contributor: 'Contributor',
+  viewer: 'Viewer',
+}
+
+// The owner is always the huddle creator, so it cannot be given to anyone else
+export const ASSIGNABLE_HUDDLE_ROLES = ['facilitator', 'editor', 'contributor', 'viewer'] as const
+
+export type AssignableHuddleRole = (typeof ASSIGNABLE_HUDDLE_ROLES)[number]
+
+// Board views regroup the planning items into columns by one of these
+export const BOARD_VIEW_GROUPINGS = ['type', 'speaker', 'assignee', 'status'] as const
+
+export type BoardViewGrouping = (typeof BOARD_VIEW_GROUPINGS)[number]
+
+export const BOARD_VIEW_GROUPING_LABELS: Record<BoardViewGrouping, string> = {
+  type: 'Type',
+  speaker: 'Speaker',
+  assignee: 'Assignee',
+  status: 'Status',
+}
+
+export const BOARD_VIEW_SORTS = ['manual', 'newest', 'oldest', 'dueDate'] as const
+
+export type BoardViewSort = (typeof BOARD_VIEW_SORTS)[number]
+
+export const BOARD_VIEW_SORT_LABELS: Record<BoardViewSort, string> = {
+  manual: 'Board order',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  dueDate: 'Due date',
+}
+
+// Choices offered for workspace and huddle transcript retention, in days
+export const TRANSCRIPT_RETENTION_DAY_OPTIONS = [7, 30, 90, 180, 365] as const
+
+export function formatRetentionDays(days: number | null) {
+  if (days === null) return 'Kept forever'
+  return days === 1 ? 'Deleted after 1 day' : `Deleted after ${days} days`
 }
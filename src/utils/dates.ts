@@ -51,3 +51,15 @@ export function formatTime(date: string | Date): string {
   }).format(dateObj)
 }
 
+
+/**
+ * Format a calendar date (YYYY-MM-DD) such as a task due date (e.g., "Nov 15")
+ * Parsed as UTC so the day does not shift with the viewer's timezone
+ */
+export function formatDueDate(dueDate: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(`${dueDate}T00:00:00Z`))
+}
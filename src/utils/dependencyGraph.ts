@@ -0,0 +1,208 @@
+import type { TaskStatus } from '~/types'
+
+export type DependencyGraphItem = {
+  id: string
+  text: string
+  status?: TaskStatus
+  blockedBy?: string[] | null
+}
+
+export type DependencyGraphNode = {
+  id: string
+  text: string
+  status?: TaskStatus
+  // Column in the layout: how many blockers deep the task sits
+  layer: number
+  // Row within its column
+  row: number
+  isClosed: boolean
+  isReady: boolean
+  isCritical: boolean
+}
+
+export type DependencyGraphEdge = {
+  // The blocker, which has to finish first
+  from: string
+  to: string
+  isCritical: boolean
+}
+
+export type DependencyGraph = {
+  nodes: DependencyGraphNode[]
+  edges: DependencyGraphEdge[]
+  layerCount: number
+  rowCount: number
+}
+
+function isClosedStatus(status: TaskStatus | undefined) {
+  return status === 'done' || status === 'cancelled'
+}
+
+/**
+ * Lay out tasks left to right by dependency depth and mark the critical path (the
+ * longest chain of unfinished tasks) and the tasks that are ready to start.
+ * Blockers that are not in `items` are ignored, and so is any edge that closes a cycle.
+ */
+export function buildDependencyGraph(items: ReadonlyArray<DependencyGraphItem>): DependencyGraph {
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+  const blockersById = new Map(
+    items.map((item) => [
+      item.id,
+      [...new Set(item.blockedBy ?? [])].filter(
+        (blockerId) => blockerId !== item.id && itemsById.has(blockerId),
+      ),
+    ]),
+  )
+
+  // Longest path from a task without blockers; the visiting set stops legacy cycles
+  const layers = new Map<string, number>()
+  const visiting = new Set<string>()
+  const getLayer = (id: string): number => {
+    const known = layers.get(id)
+    if (known !== undefined) return known
+    visiting.add(id)
+    let layer = 0
+    for (const blockerId of blockersById.get(id) ?? []) {
+      if (visiting.has(blockerId)) continue
+      layer = Math.max(layer, getLayer(blockerId) + 1)
+    }
+    visiting.delete(id)
+    layers.set(id, layer)
+    return layer
+  }
+  for (const item of items) getLayer(item.id)
+
+  const edges = items.flatMap((item) =>
+    (blockersById.get(item.id) ?? [])
+      .filter((blockerId) => (layers.get(blockerId) ?? 0) < (layers.get(item.id) ?? 0))
+      .map((blockerId) => ({ from: blockerId, to: item.id })),
+  )
+
+  // Rows follow the board order, nudged towards the rows of each task's blockers
+  const rows = new Map<string, number>()
+  const layerCount = items.length > 0 ? Math.max(...layers.values()) + 1 : 0
+  let rowCount = 0
+  for (let layer = 0; layer < layerCount; layer += 1) {
+    const layerItems = items
+      .map((item, index) => {
+        const blockerRows = edges
+          .filter((edge) => edge.to === item.id)
+          .map((edge) => rows.get(edge.from) ?? 0)
+        const weight =
+          blockerRows.length > 0
+            ? blockerRows.reduce((sum, row) => sum + row, 0) / blockerRows.length
+            : index
+        return { item, index, weight }
+      })
+      .filter(({ item }) => layers.get(item.id) === layer)
+      .sort((a, b) => a.weight - b.weight || a.index - b.index)
+    layerItems.forEach(({ item }, row) => rows.set(item.id, row))
+    rowCount = Math.max(rowCount, layerItems.length)
+  }
+
+  // Critical path: the longest chain of unfinished tasks, counted in tasks
+  const chainLength = new Map<string, number>()
+  const chainPrevious = new Map<string, string>()
+  const openItems = [...items]
+    .filter((item) => !isClosedStatus(item.status))
+    .sort((a, b) => (layers.get(a.id) ?? 0) - (layers.get(b.id) ?? 0))
+  for (const item of openItems) {
+    let best = 0
+    for (const edge of edges) {
+      if (edge.to !== item.id) continue
+      const length = chainLength.get(edge.from) ?? 0
+      if (length > best) {
+        best = length
+        chainPrevious.set(item.id, edge.from)
+      }
+    }
+    chainLength.set(item.id, best + 1)
+  }
+  const criticalIds = new Set<string>()
+  let [endId, endLength] = ['', 0]
+  for (const [id, length] of chainLength) {
+    if (length > endLength) [endId, endLength] = [id, length]
+  }
+  // A single task is not a path worth highlighting
+  if (endLength > 1) {
+    for (let id: string | undefined = endId; id !== undefined; id = chainPrevious.get(id)) {
+      criticalIds.add(id)
+    }
+  }
+
+  const nodes = items.map((item) => {
+    const isClosed = isClosedStatus(item.status)
+    const blockers = blockersById.get(item.id) ?? []
+    return {
+      id: item.id,
+      text: item.text,
+      status: item.status,
+      layer: layers.get(item.id) ?? 0,
+      row: rows.get(item.id) ?? 0,
+      isClosed,
+      isReady:
+        !isClosed &&
+        item.status !== 'in_progress' &&
+        blockers.every((blockerId) => isClosedStatus(itemsById.get(blockerId)?.status)),
+      isCritical: criticalIds.has(item.id),
+    }
+  })
+
+  return {
+    nodes,
+    edges: edges.map((edge) => ({
+      ...edge,
+      isCritical: criticalIds.has(edge.to) && chainPrevious.get(edge.to) === edge.from,
+    })),
+    layerCount,
+    rowCount,
+  }
+}
+
+function toSingleLine(text: string) {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+export function toMermaid(graph: DependencyGraph) {
+  const nodeKeys = new Map(graph.nodes.map((node, index) => [node.id, `t${index + 1}`]))
+  const lines = ['flowchart LR']
+  for (const node of graph.nodes) {
+    lines.push(`  ${nodeKeys.get(node.id)}["${toSingleLine(node.text).replace(/"/g, '#quot;')}"]`)
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${nodeKeys.get(edge.from)} ${edge.isCritical ? '==>' : '-->'} ${nodeKeys.get(edge.to)}`)
+  }
+  const classes: Array<[string, string, (node: DependencyGraphNode) => boolean]> = [
+    ['critical', 'stroke:#e11d48,stroke-width:3px', (node) => node.isCritical],
+    ['ready', 'fill:#d1fae5,stroke:#059669', (node) => node.isReady],
+    ['closed', 'fill:#f1f5f9,color:#64748b', (node) => node.isClosed],
+  ]
+  for (const [name, style, matches] of classes) {
+    const keys = graph.nodes.filter(matches).map((node) => nodeKeys.get(node.id))
+    if (keys.length === 0) continue
+    lines.push(`  classDef ${name} ${style}`)
+    lines.push(`  class ${keys.join(',')} ${name}`)
+  }
+  return lines.join('\n')
+}
+
+function toDotString(value: string) {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+export function toDot(graph: DependencyGraph) {
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box, style=rounded];']
+  for (const node of graph.nodes) {
+    const attributes = [`label=${toDotString(toSingleLine(node.text))}`]
+    if (node.isCritical) attributes.push('color="#e11d48"', 'penwidth=2')
+    if (node.isReady) attributes.push('style="rounded,filled"', 'fillcolor="#d1fae5"')
+    if (node.isClosed) attributes.push('fontcolor="#64748b"')
+    lines.push(`  ${toDotString(node.id)} [${attributes.join(', ')}];`)
+  }
+  for (const edge of graph.edges) {
+    const attributes = edge.isCritical ? ' [color="#e11d48", penwidth=2]' : ''
+    lines.push(`  ${toDotString(edge.from)} -> ${toDotString(edge.to)}${attributes};`)
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
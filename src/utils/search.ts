@@ -0,0 +1,29 @@
+export type SearchTextSegment = {
+  text: string
+  isMatch: boolean
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Split text into segments so the words of a search query can be highlighted.
+ * Matching is case-insensitive and covers every term of the query.
+ */
+export function splitSearchMatches(text: string, query: string): SearchTextSegment[] {
+  const terms = query
+    .trim()
+    .split(/\s+/)
+    .filter((term) => term.length > 0)
+    .map(escapeRegExp)
+  if (terms.length === 0) {
+    return text.length > 0 ? [{ text, isMatch: false }] : []
+  }
+
+  // With a single capturing group, split puts the matches at the odd indexes
+  return text
+    .split(new RegExp(`(${terms.join('|')})`, 'gi'))
+    .map((part, index) => ({ text: part, isMatch: index % 2 === 1 }))
+    .filter((segment) => segment.text.length > 0)
+}